@@ -0,0 +1,45 @@
+/**
+ * Routing benchmark: loads a road network extract and reports nodes expanded
+ * and runtime per A* query.
+ *
+ * Usage: npm run benchmark:routing -- <extract.osm|extract.geojson> [queries] [seed] [mode] [index.ch.json]
+ *   mode: astar | bidirectional | ch | auto (default: auto)
+ */
+import { readFileSync } from 'node:fs';
+import { RoutingMode } from '../src/algorithms/astar';
+import { parseRoadNetwork } from '../src/algorithms/roadGraph';
+import { deserializeContractionHierarchy } from '../src/algorithms/contractionHierarchy';
+import { benchmarkRouting, generateRandomQueries } from '../src/algorithms/routingBenchmark';
+
+const [extractPath, queryCount = '100', seed = '1', mode = 'auto', indexPath] = process.argv.slice(2);
+
+if (!extractPath) {
+  console.error('Usage: npm run benchmark:routing -- <extract> [queries] [seed] [mode] [index]');
+  process.exit(1);
+}
+
+const graph = parseRoadNetwork(readFileSync(extractPath, 'utf8'));
+console.log(`Loaded ${graph.nodes.size} nodes from ${extractPath}`);
+
+const hierarchy = indexPath
+  ? deserializeContractionHierarchy(JSON.parse(readFileSync(indexPath, 'utf8')))
+  : null;
+
+const queries = generateRandomQueries(graph, Number(queryCount), Number(seed));
+const summary = benchmarkRouting(graph, queries, {
+  mode: mode as RoutingMode | 'auto',
+  hierarchy,
+});
+
+summary.results.forEach((result, index) => {
+  const distance = result.distanceKm === null ? 'unreachable' : `${result.distanceKm.toFixed(2)} km`;
+  console.log(
+    `#${index + 1}\t${distance}\t${result.nodesExpanded} nodes\t${result.runtimeMs.toFixed(2)} ms`
+  );
+});
+
+console.log(
+  `\n${summary.queries} queries, ${summary.unreachable} unreachable, ` +
+    `avg ${summary.avgRuntimeMs.toFixed(2)} ms (max ${summary.maxRuntimeMs.toFixed(2)} ms), ` +
+    `avg ${summary.avgNodesExpanded.toFixed(0)} nodes expanded`
+);
@@ -0,0 +1,35 @@
+/**
+ * Offline contraction-hierarchies preprocessing: reads a road network extract
+ * and writes the compact index the router loads for CH queries.
+ *
+ * Usage: npm run build:ch -- <extract.osm|extract.geojson> [output.ch.json]
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseRoadNetwork } from '../src/algorithms/roadGraph';
+import {
+  buildContractionHierarchy,
+  serializeContractionHierarchy,
+} from '../src/algorithms/contractionHierarchy';
+
+const [extractPath, outputPath = 'public/road-network.ch.json'] = process.argv.slice(2);
+
+if (!extractPath) {
+  console.error('Usage: npm run build:ch -- <extract> [output]');
+  process.exit(1);
+}
+
+const graph = parseRoadNetwork(readFileSync(extractPath, 'utf8'));
+console.log(`Loaded ${graph.nodes.size} nodes from ${extractPath}`);
+
+const startedAt = performance.now();
+const hierarchy = buildContractionHierarchy(graph);
+const elapsedSeconds = (performance.now() - startedAt) / 1000;
+
+const originalEdges = Array.from(graph.adjacency.values()).reduce((sum, edges) => sum + edges.length, 0);
+const hierarchyEdges = hierarchy.up.targets.length + hierarchy.down.targets.length;
+
+writeFileSync(outputPath, JSON.stringify(serializeContractionHierarchy(hierarchy)));
+console.log(
+  `Contracted in ${elapsedSeconds.toFixed(1)} s: ${originalEdges} road edges, ` +
+    `${hierarchyEdges} hierarchy edges → ${outputPath}`
+);
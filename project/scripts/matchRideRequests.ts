@@ -0,0 +1,76 @@
+/**
+ * Batch matching: assigns all pending ride requests to available rides and
+ * prints the optimal plan next to the greedy one. Rides whose departure
+ * window has passed are expired and upcoming recurring rides generated first.
+ *
+ * Usage: npm run match:requests -- [--dry-run] [--interval <seconds>] [--extract <extract.osm|extract.geojson>]
+ *   Requires SUPABASE_SERVICE_ROLE_KEY (RLS hides other passengers' requests).
+ *   --interval keeps running, matching <seconds> after each run ends; stop with Ctrl+C.
+ */
+import { readFileSync } from 'node:fs';
+import { createClient } from '@supabase/supabase-js';
+import { parseRoadNetwork } from '../src/algorithms/roadGraph';
+import { BatchAssignmentPlan } from '../src/algorithms/batchMatching';
+import { runBatchMatching } from '../src/services/matchingService';
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const intervalArg = args.indexOf('--interval');
+const intervalSeconds = intervalArg === -1 ? 0 : Number(args[intervalArg + 1]);
+const extractArg = args.indexOf('--extract');
+const extractPath = extractArg === -1 ? undefined : args[extractArg + 1];
+
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!serviceRoleKey) {
+  console.error('Set SUPABASE_SERVICE_ROLE_KEY to run batch matching');
+  process.exit(1);
+}
+
+const client = createClient(import.meta.env.VITE_SUPABASE_URL, serviceRoleKey);
+const graph = extractPath ? parseRoadNetwork(readFileSync(extractPath, 'utf8')) : undefined;
+
+function printPlan(plan: BatchAssignmentPlan) {
+  console.log(`\n${plan.method}: ${plan.assignments.length} matched, ` +
+    `${plan.unmatchedRequestIds.length} unmatched, total cost ${plan.totalCost.toFixed(2)}`);
+  plan.assignments.forEach(assignment => {
+    console.log(
+      `  request ${assignment.requestId} → ride ${assignment.rideId}\t` +
+        `detour ${assignment.detourMin.toFixed(0)} min\tpickup in ${assignment.pickupEtaMin.toFixed(0)} min\t` +
+        `fare ${assignment.fare.toFixed(2)}\tcost ${assignment.cost.toFixed(2)}`
+    );
+  });
+}
+
+async function matchOnce() {
+  const run = await runBatchMatching({ client, dryRun, graph });
+  console.log(`[${new Date().toISOString()}] ${run.requests} pending requests, ${run.rides} available rides`);
+  printPlan(run.plan);
+
+  if (dryRun) {
+    printPlan(run.greedy);
+    const saving = run.greedy.totalCost - run.plan.totalCost;
+    console.log(
+      `\nOptimal vs greedy: ${run.plan.assignments.length - run.greedy.assignments.length} more matched, ` +
+        `cost ${saving >= 0 ? 'lower' : 'higher'} by ${Math.abs(saving).toFixed(2)}`
+    );
+  } else {
+    console.log(
+      `\nApplied ${run.applied} assignments, expired ${run.expired} rides, ` +
+        `generated ${run.generated} recurring rides`
+    );
+  }
+}
+
+await matchOnce();
+if (intervalSeconds > 0) {
+  // Wait for each run to finish before scheduling the next, so a slow batch
+  // never overlaps the one after it and books the same seats twice
+  const scheduleNext = () => {
+    setTimeout(() => {
+      matchOnce()
+        .catch(error => console.error('Batch matching failed:', error))
+        .finally(scheduleNext);
+    }, intervalSeconds * 1000);
+  };
+  scheduleNext();
+}
@@ -0,0 +1,47 @@
+/**
+ * Simulated driving: replays a recorded GPS trace into a ride's live
+ * location, throttled exactly like the driver app, so the passenger's live
+ * tracking view can be tested without leaving the desk.
+ *
+ * Usage: npm run replay:trace -- <ride-id> <trace.gpx|trace.json> [--speedup <n>] [--loop]
+ *   Requires SUPABASE_SERVICE_ROLE_KEY (publishes on the driver's behalf).
+ *   --speedup replays n times faster than recorded; --loop repeats until Ctrl+C.
+ */
+import { readFileSync } from 'node:fs';
+import { createClient } from '@supabase/supabase-js';
+import { parseGpsTrace } from '../src/algorithms/tracking';
+import { startDriverTracking, tracePositionSource } from '../src/services/trackingService';
+
+const args = process.argv.slice(2);
+const [rideId, tracePath] = args.filter(arg => !arg.startsWith('--'));
+const speedupArg = args.indexOf('--speedup');
+const speedup = speedupArg === -1 ? 1 : Number(args[speedupArg + 1]);
+const loop = args.includes('--loop');
+
+if (!rideId || !tracePath) {
+  console.error('Usage: npm run replay:trace -- <ride-id> <trace.gpx|trace.json> [--speedup <n>] [--loop]');
+  process.exit(1);
+}
+
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!serviceRoleKey) {
+  console.error('Set SUPABASE_SERVICE_ROLE_KEY to publish ride locations');
+  process.exit(1);
+}
+
+const client = createClient(import.meta.env.VITE_SUPABASE_URL, serviceRoleKey);
+const trace = parseGpsTrace(readFileSync(tracePath, 'utf8'));
+const durationSec = trace[trace.length - 1].timestamp / 1000 / speedup;
+console.log(`Replaying ${trace.length} fixes into ride ${rideId} over ${durationSec.toFixed(0)}s`);
+
+let published = 0;
+startDriverTracking(rideId, tracePositionSource(trace, { speedup, loop }), {
+  client,
+  // Compress the throttle along with the clock so a sped-up replay still publishes
+  throttle: { minIntervalMs: 5000 / speedup, heartbeatMs: 30000 / speedup },
+  onPublish: fix => {
+    published++;
+    console.log(`  #${published} ${fix.lat.toFixed(5)}, ${fix.lng.toFixed(5)}`);
+  },
+  onError: error => console.error('  publish failed:', error.message),
+});
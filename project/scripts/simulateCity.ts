@@ -0,0 +1,107 @@
+/**
+ * City simulation: generates a day of drivers posting rides and passengers
+ * looking for one over San Francisco, plays it through the ride services on
+ * the in-memory backend and prints match rate, wait, detour, driver
+ * utilization and revenue for each matching strategy. The same seed always
+ * plays the same day, so strategies and pricing changes compare like for like.
+ * No database or network needed; the road network, speed profiles and fare
+ * rules files aren't served under node, so the defaults are used (their
+ * loaders log that once).
+ *
+ * Usage: npm run simulate:city -- [--seed <n>] [--start <YYYY-MM-DD>] [--hours <n>]
+ *          [--curve flat|commute|nightlife] [--drivers <n>] [--passengers <n>]
+ *          [--offers <per hour>] [--requests <per hour>] [--patience <minutes>]
+ *          [--strategy detour|recommended|all]
+ *   --start defaults to a fixed Monday, so the same arguments always replay
+ *   the same run; fares depend on the day and hour.
+ */
+import { CityScenarioConfig, DEMAND_CURVES } from '../src/algorithms/citySimulation';
+import { MATCHING_STRATEGIES, MatchingStrategy, runCitySimulation } from '../src/services/simulationService';
+
+const DEFAULT_START = '2026-11-02';
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? fallback : args[index + 1];
+};
+
+const curveName = option('curve', 'commute');
+const strategyName = option('strategy', 'all');
+if (!DEMAND_CURVES[curveName]) {
+  console.error(`Unknown demand curve "${curveName}"; use one of ${Object.keys(DEMAND_CURVES).join(', ')}`);
+  process.exit(1);
+}
+if (strategyName !== 'all' && !MATCHING_STRATEGIES.includes(strategyName as MatchingStrategy)) {
+  console.error(`Unknown strategy "${strategyName}"; use one of ${MATCHING_STRATEGIES.join(', ')} or all`);
+  process.exit(1);
+}
+
+// Local midnight; the simulation runs on its own clock from there
+const startArg = option('start', DEFAULT_START);
+const start = new Date(`${startArg}T00:00:00`);
+if (Number.isNaN(start.getTime())) {
+  console.error(`Invalid start date "${startArg}"; use YYYY-MM-DD`);
+  process.exit(1);
+}
+
+const config: CityScenarioConfig = {
+  seed: Number(option('seed', '1')),
+  start,
+  durationHours: Number(option('hours', '24')),
+  bounds: { minLat: 37.708, maxLat: 37.81, minLng: -122.513, maxLng: -122.383 },
+  hotspots: [
+    { lat: 37.7936, lng: -122.3965 }, // Financial District
+    { lat: 37.7765, lng: -122.3943 }, // 4th & King Caltrain
+    { lat: 37.7599, lng: -122.4148 }, // Mission
+  ],
+  drivers: Number(option('drivers', '40')),
+  passengers: Number(option('passengers', '150')),
+  offersPerHour: Number(option('offers', '12')),
+  requestsPerHour: Number(option('requests', '30')),
+  demandCurve: DEMAND_CURVES[curveName],
+  patienceMin: Number(option('patience', '45')),
+};
+
+const strategies = strategyName === 'all' ? MATCHING_STRATEGIES : [strategyName as MatchingStrategy];
+
+async function main() {
+  console.log(
+    `Seed ${config.seed}, ${config.durationHours} h from ${start.toLocaleString()}, ${curveName} demand, ` +
+      `${config.drivers} drivers, ${config.passengers} passengers\n`
+  );
+
+  let failed = false;
+  for (const strategy of strategies) {
+    const run = await runCitySimulation(config, { strategy });
+    const { summary } = run;
+    const line = (label: string, value: string) => console.log(`  ${label.padEnd(20)}${value}`);
+    console.log(strategy);
+    line(
+      'match rate',
+      `${(summary.matchRate * 100).toFixed(1)}% (${summary.matched} of ${summary.requests} requests, ` +
+        `${summary.avgSearches.toFixed(1)} searches each)`
+    );
+    line('avg wait', `${summary.avgWaitMin.toFixed(1)} min`);
+    line('avg detour', `${summary.avgDetourMin.toFixed(1)} min`);
+    line(
+      'rides completed',
+      `${summary.ridesCompleted} of ${summary.ridesOffered} posted (${run.skippedOffers} offers skipped, driver busy)`
+    );
+    line('seat occupancy', `${(summary.seatOccupancy * 100).toFixed(1)}%`);
+    line('driver utilization', `${(summary.driverUtilization * 100).toFixed(1)}%`);
+    line(
+      'revenue',
+      `$${summary.revenue.grossFares.toFixed(2)} gross, $${summary.revenue.platformRevenue.toFixed(2)} platform, ` +
+        `$${summary.revenue.driverEarnings.toFixed(2)} to drivers`
+    );
+    line('books', run.reconciled ? 'reconcile\n' : 'DO NOT reconcile\n');
+    failed ||= !run.reconciled;
+  }
+  if (failed) process.exit(1);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+/**
+ * Offline payment flow: runs top-ups, bookings, a late cancellation, a
+ * completed trip and a driver cancellation through the in-memory ledger and
+ * the fake payment provider, then prints every balance and checks that the
+ * books reconcile. No database or network needed.
+ *
+ * Usage: npm run simulate:wallet
+ */
+import {
+  LedgerAccount,
+  captureEntries,
+  cancellationFeeEntries,
+  createLedger,
+  fromCents,
+  holdEntries,
+  refundEntries,
+  toCents,
+  topUpEntries,
+} from '../src/algorithms/ledger';
+import { DEFAULT_CANCELLATION_POLICIES, quoteCancellationFee } from '../src/algorithms/cancellation';
+import { createFakePaymentProvider } from '../src/services/paymentProvider';
+
+const ledger = createLedger();
+const provider = createFakePaymentProvider();
+const now = new Date();
+const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60000);
+
+async function topUp(userId: string, amount: number) {
+  const charge = await provider.charge(toCents(amount));
+  ledger.post('top_up', topUpEntries(userId, charge.amountCents));
+}
+
+async function main() {
+  await topUp('alice', 40);
+  await topUp('bob', 25);
+  await topUp('dana', 10);
+
+  // Trip 1: Alice and Bob book Dave's ride; Bob cancels 10 minutes before departure
+  ledger.post('hold', holdEntries('alice', toCents(12.4)), 'booking-alice');
+  ledger.post('hold', holdEntries('bob', toCents(9.75)), 'booking-bob');
+
+  const bobCancels = quoteCancellationFee(DEFAULT_CANCELLATION_POLICIES.passenger, {
+    bookedAt: minutesFromNow(-30),
+    departureAt: minutesFromNow(10),
+    enRoute: false,
+    fare: 9.75,
+    now,
+  });
+  console.log(`Bob cancels (${bobCancels.stage}): fee $${bobCancels.fee.toFixed(2)}`);
+  ledger.post('refund', refundEntries('bob', 'dave', toCents(9.75), toCents(bobCancels.fee)), 'booking-bob');
+
+  ledger.post('capture', captureEntries('dave', toCents(12.4)), 'booking-alice');
+
+  // Trip 2: Erin cancels on Dana after starting the trip
+  ledger.post('hold', holdEntries('dana', toCents(7.2)), 'booking-dana');
+  const erinCancels = quoteCancellationFee(DEFAULT_CANCELLATION_POLICIES.driver, {
+    bookedAt: minutesFromNow(-20),
+    departureAt: minutesFromNow(-5),
+    enRoute: true,
+    fare: 7.2,
+    now,
+  });
+  console.log(`Erin cancels (${erinCancels.stage}): fee $${erinCancels.fee.toFixed(2)}`);
+  ledger.post('refund', refundEntries('dana', 'erin', toCents(7.2)), 'booking-dana');
+  ledger.post('cancellation_fee', cancellationFeeEntries('erin', 'dana', toCents(erinCancels.fee)), 'booking-dana');
+
+  console.log(`\n${ledger.transactions().length} transactions posted\n`);
+  const balances = Array.from(ledger.balances()).sort(([a], [b]) => a.localeCompare(b));
+  balances.forEach(([account, cents]: [LedgerAccount, number]) =>
+    console.log(`  ${account.padEnd(20)} ${fromCents(cents).toFixed(2).padStart(9)}`)
+  );
+
+  const reconciliation = ledger.reconcile();
+  console.log(
+    `\nBooks ${reconciliation.balanced ? 'reconcile' : 'DO NOT reconcile'}: ` +
+      `balances sum to ${reconciliation.totalCents} cents, ` +
+      `${reconciliation.unbalancedTransactions.length} unbalanced transaction(s)`
+  );
+  if (!reconciliation.balanced) process.exit(1);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+/**
+ * Ride alerts: watches for newly posted rides, and rides that become
+ * available again, and notifies passengers whose saved searches they match,
+ * scored like a live ride search. Expired saved searches are marked every
+ * 5 minutes while it runs.
+ *
+ * Usage: npm run watch:alerts -- [--backfill <minutes>] [--extract <extract.osm|extract.geojson>]
+ *   Requires SUPABASE_SERVICE_ROLE_KEY (RLS hides other passengers' searches).
+ *   --backfill first checks rides posted in the last <minutes>, e.g. to
+ *   cover a restart; passengers are never alerted twice about the same ride.
+ *   Runs until stopped with Ctrl+C.
+ */
+import { readFileSync } from 'node:fs';
+import { createClient } from '@supabase/supabase-js';
+import { Ride } from '../src/lib/supabase';
+import { parseRoadNetwork } from '../src/algorithms/roadGraph';
+import {
+  RideAlertResult,
+  evaluateRideAlerts,
+  expireSavedSearches,
+  watchRideAlerts,
+} from '../src/services/savedSearchService';
+
+const EXPIRE_INTERVAL_MS = 5 * 60 * 1000;
+
+const args = process.argv.slice(2);
+const backfillArg = args.indexOf('--backfill');
+const backfillMinutes = backfillArg === -1 ? 0 : Number(args[backfillArg + 1]);
+const extractArg = args.indexOf('--extract');
+const extractPath = extractArg === -1 ? undefined : args[extractArg + 1];
+
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!serviceRoleKey) {
+  console.error('Set SUPABASE_SERVICE_ROLE_KEY to watch ride alerts');
+  process.exit(1);
+}
+
+const client = createClient(import.meta.env.VITE_SUPABASE_URL, serviceRoleKey);
+const graph = extractPath ? parseRoadNetwork(readFileSync(extractPath, 'utf8')) : undefined;
+
+function printResult(result: RideAlertResult) {
+  console.log(
+    `[${new Date().toISOString()}] ride ${result.rideId}: ` +
+      `${result.candidates} candidate searches, ${result.notified} passengers notified`
+  );
+}
+
+async function expireOnce() {
+  const expired = await expireSavedSearches(client);
+  if (expired > 0) console.log(`[${new Date().toISOString()}] expired ${expired} saved searches`);
+}
+
+await expireOnce();
+
+if (backfillMinutes > 0) {
+  const { data, error } = await client
+    .from('rides')
+    .select('*')
+    .eq('status', 'available')
+    .gte('created_at', new Date(Date.now() - backfillMinutes * 60000).toISOString());
+  if (error) throw error;
+
+  console.log(`Backfilling ${data.length} rides posted in the last ${backfillMinutes} min`);
+  for (const ride of data as Ride[]) {
+    printResult(await evaluateRideAlerts(ride, { client, graph }));
+  }
+}
+
+watchRideAlerts(printResult, error => console.error('Ride alert failed:', error), { client, graph });
+console.log('Watching for new and reopened rides…');
+
+setInterval(() => {
+  expireOnce().catch(error => console.error('Expiring saved searches failed:', error));
+}, EXPIRE_INTERVAL_MS);
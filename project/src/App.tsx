@@ -1,15 +1,27 @@
 import { useState, useEffect } from 'react';
-import { Car, User, LogOut, Plus, Search as SearchIcon } from 'lucide-react';
-import { supabase } from './lib/supabase';
-import { createRide, acceptRide } from './services/rideService';
+import { Car, User, LogOut, Plus, Search as SearchIcon, List, Repeat, Wallet as WalletIcon } from 'lucide-react';
+import { repositories, SEED_PASSWORD } from './repositories';
+import { createRide, bookRide, quoteBookingPromotion } from './services/rideService';
+import { createRideTemplate } from './services/recurringRideService';
+import { saveSearch } from './services/savedSearchService';
 import { Location } from './algorithms/astar';
 import { getShortestRoute } from './services/routing';
+import { getSurgeCells } from './services/surgeService';
+import { SurgeCell } from './algorithms/surge';
+import { TimeWindow } from './algorithms/departureWindow';
+import { describeRecurrence, formatDate } from './algorithms/recurrence';
 import CreateRideForm from './components/CreateRideForm';
 import SearchRideForm from './components/SearchRideForm';
 import RideList from './components/RideList';
 import MapView from './components/MapView';
+import MyRides from './components/MyRides';
+import RecurringRides from './components/RecurringRides';
+import Wallet from './components/Wallet';
+import SavedSearches from './components/SavedSearches';
+import NotificationBell from './components/NotificationBell';
+import { showNotice } from './services/notificationService';
 
-type ViewMode = 'search' | 'create' | 'myRides';
+type ViewMode = 'search' | 'create' | 'myRides' | 'commutes' | 'wallet';
 
 function App() {
   const [user, setUser] = useState<any>(null);
@@ -20,51 +32,54 @@ function App() {
   const [searchData, setSearchData] = useState<{
     pickup: Location & { address: string };
     dropoff: Location & { address: string };
+    timeWindow?: TimeWindow;
   } | null>(null);
   const [selectedRoute, setSelectedRoute] = useState<{
     pickup: Location & { address: string };
     dropoff: Location & { address: string };
     path?: Location[];
   } | null>(null);
+  const [surgeCells, setSurgeCells] = useState<SurgeCell[]>([]);
+  const [savedSearchVersion, setSavedSearchVersion] = useState(0);
+  // Notifications, ride alerts, commutes and the wallet only run on Supabase;
+  // the in-memory backend leaves them out
+  const onlineFeatures = repositories.backend === 'supabase';
 
   useEffect(() => {
     checkUser();
 
-    const { data: authListener } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        (async () => {
-          setUser(session?.user ?? null);
-          if (session?.user) {
-            await loadProfile(session.user.id);
-          } else {
-            setProfile(null);
-          }
-        })();
-      }
-    );
+    const authListener = repositories.auth.onChange((authUser) => {
+      (async () => {
+        setUser(authUser);
+        if (authUser) {
+          await loadProfile(authUser.id);
+        } else {
+          setProfile(null);
+        }
+      })();
+    });
 
     return () => {
-      authListener.subscription.unsubscribe();
+      authListener.unsubscribe();
     };
   }, []);
 
   const checkUser = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    setUser(session?.user ?? null);
-    if (session?.user) {
-      await loadProfile(session.user.id);
+    const authUser = await repositories.auth.currentUser();
+    setUser(authUser);
+    if (authUser) {
+      await loadProfile(authUser.id);
     }
     setLoading(false);
   };
 
   const loadProfile = async (userId: string) => {
-    const { data } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', userId)
-      .maybeSingle();
-
-    setProfile(data);
+    try {
+      setProfile(await repositories.profiles.get(userId));
+    } catch (error) {
+      console.error('Error loading profile:', error);
+      setProfile(null);
+    }
   };
 
   const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -75,38 +90,34 @@ function App() {
     const fullName = formData.get('fullName') as string;
     const phone = formData.get('phone') as string;
 
-    const { data, error } = await supabase.auth.signUp({
-      email,
-      password,
-      options: {
-        data: {
-          full_name: fullName,
-          phone: phone,
-        }
-      }
-    });
-
-    if (error) {
-      alert('Sign up error: ' + error.message);
+    let newUser;
+    try {
+      newUser = await repositories.auth.signUp(email, password, {
+        full_name: fullName,
+        phone: phone,
+      });
+    } catch (error) {
+      alert('Sign up error: ' + (error instanceof Error ? error.message : String(error)));
       return;
     }
 
-    if (data.user) {
+    if (newUser) {
       // Wait a moment for auth to complete
       await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const { error: profileError } = await supabase.from('profiles').insert({
-        id: data.user.id,
-        full_name: fullName,
-        phone: phone,
-      });
-      
-      if (profileError) {
-        alert('Database error saving new user: ' + profileError.message + '\n\nPlease make sure you ran the SQL to create tables in Supabase.');
+
+      try {
+        await repositories.profiles.create({
+          id: newUser.id,
+          full_name: fullName,
+          phone: phone,
+        });
+      } catch (profileError) {
+        const message = profileError instanceof Error ? profileError.message : String(profileError);
+        alert('Database error saving new user: ' + message + '\n\nPlease make sure you ran the SQL to create tables in Supabase.');
         console.error('Profile creation error:', profileError);
         return;
       }
-      
+
       alert('Account created successfully! Please sign in.');
     }
   };
@@ -117,18 +128,15 @@ function App() {
     const email = formData.get('email') as string;
     const password = formData.get('password') as string;
 
-    const { error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-
-    if (error) {
-      alert(error.message);
+    try {
+      await repositories.auth.signIn(email, password);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
     }
   };
 
   const handleSignOut = async () => {
-    await supabase.auth.signOut();
+    await repositories.auth.signOut();
   };
 
   const handleCreateRide = async (data: {
@@ -136,17 +144,48 @@ function App() {
     dropoff: Location & { address: string };
     vehicleType: string;
     seatsAvailable: number;
+    maxDetourMin: number;
+    departureTime?: Date;
+    departureFlexMin: number;
+    repeatDays: number[];
   }) => {
     if (!user) return;
 
     try {
       setCalculatingRoute(true);
+
+      if (data.departureTime && data.repeatDays.length > 0) {
+        const recurrence = {
+          daysOfWeek: data.repeatDays,
+          departureTime: data.departureTime.toTimeString().slice(0, 5),
+          startsOn: formatDate(data.departureTime),
+        };
+        const { generated, path } = await createRideTemplate({
+          driverId: user.id,
+          pickup: data.pickup,
+          dropoff: data.dropoff,
+          vehicleType: data.vehicleType,
+          seatsAvailable: data.seatsAvailable,
+          maxDetourMin: data.maxDetourMin,
+          departureFlexMin: data.departureFlexMin,
+          recurrence,
+        });
+
+        setSelectedRoute({ pickup: data.pickup, dropoff: data.dropoff, path });
+        showNotice('Recurring ride saved', `${describeRecurrence(recurrence)} (${generated} rides scheduled)`);
+        setViewMode('commutes');
+        return;
+      }
+
       const result = await createRide({
         driverId: user.id,
         pickup: data.pickup,
         dropoff: data.dropoff,
         vehicleType: data.vehicleType,
         seatsAvailable: data.seatsAvailable,
+        maxDetourMin: data.maxDetourMin,
+        departureTime: data.departureTime,
+        departureFlexMin: data.departureFlexMin,
       });
 
       setSelectedRoute({
@@ -155,7 +194,12 @@ function App() {
         path: result.path,
       });
 
-      alert('Ride created successfully with shortest route!');
+      showNotice(
+        data.departureTime ? 'Ride scheduled' : 'Ride created',
+        data.departureTime
+          ? `Leaving ${data.departureTime.toLocaleString()}`
+          : 'Your ride is live on the shortest route'
+      );
       setViewMode('search');
     } catch (error: any) {
       alert(error.message);
@@ -167,15 +211,18 @@ function App() {
   const handleSearchRides = async (data: {
     pickup: Location & { address: string };
     dropoff: Location & { address: string };
+    timeWindow?: TimeWindow;
   }) => {
     setSearchData(data);
+    getSurgeCells().then(setSurgeCells);
     
     try {
       setCalculatingRoute(true);
       // Calculate shortest route for the search using A* algorithm
       const routeResult = await getShortestRoute(
         { lat: data.pickup.lat, lng: data.pickup.lng },
-        { lat: data.dropoff.lat, lng: data.dropoff.lng }
+        { lat: data.dropoff.lat, lng: data.dropoff.lng },
+        data.timeWindow?.start
       );
       
       setSelectedRoute({
@@ -195,17 +242,53 @@ function App() {
     }
   };
 
-  const handleAcceptRide = async (rideId: string) => {
+  const handleAcceptRide = async (rideId: string, seats: number, promoCode?: string) => {
     if (!user) return;
 
     try {
-      await acceptRide(rideId, user.id);
-      alert('Ride accepted successfully!');
+      const booking = await bookRide({
+        rideId,
+        passengerId: user.id,
+        seats,
+        pickup: searchData?.pickup,
+        dropoff: searchData?.dropoff,
+        promoCode,
+      });
+      const discount = booking.discount ? ` ($${booking.discount.toFixed(2)} off with ${promoCode})` : '';
+      showNotice(
+        'Booking confirmed',
+        `${booking.seats} seat(s) for $${booking.fare_share.toFixed(2)}${discount}`
+      );
     } catch (error: any) {
       alert(error.message);
     }
   };
 
+  const handleCheckPromo = (rideId: string, seats: number, promoCode: string) => {
+    if (!user) return Promise.reject(new Error('Sign in to use a promo code'));
+    return quoteBookingPromotion({
+      rideId,
+      passengerId: user.id,
+      seats,
+      pickup: searchData?.pickup,
+      dropoff: searchData?.dropoff,
+      promoCode,
+    });
+  };
+
+  const handleSaveSearch = async (maxPrice: number) => {
+    if (!user || !searchData) return;
+    await saveSearch({
+      passengerId: user.id,
+      pickup: searchData.pickup,
+      dropoff: searchData.dropoff,
+      timeWindow: searchData.timeWindow,
+      maxPrice,
+    });
+    setSavedSearchVersion((version) => version + 1);
+    showNotice('Ride alert saved', `We'll notify you when a ride to ${searchData.dropoff.address} is posted`);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-cyan-50 flex items-center justify-center">
@@ -294,6 +377,12 @@ function App() {
                     Sign In
                   </button>
                 </form>
+                {repositories.backend === 'memory' && (
+                  <p className="mt-3 text-sm text-gray-500">
+                    Offline demo: sign in as maya@example.com (driver) or ana@example.com (passenger)
+                    with the password "{SEED_PASSWORD}"
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -315,6 +404,7 @@ function App() {
             </div>
 
             <div className="flex items-center gap-4">
+              {onlineFeatures && <NotificationBell userId={user.id} />}
               <div className="flex items-center gap-2 px-4 py-2 bg-gray-50 rounded-lg">
                 <User className="w-5 h-5 text-gray-600" />
                 <span className="text-sm font-medium text-gray-900">
@@ -357,6 +447,43 @@ function App() {
             <Plus className="w-5 h-5" />
             Offer Ride
           </button>
+          <button
+            onClick={() => setViewMode('myRides')}
+            className={`flex items-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all ${
+              viewMode === 'myRides'
+                ? 'bg-gradient-to-r from-blue-600 to-cyan-600 text-white shadow-lg'
+                : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <List className="w-5 h-5" />
+            My Rides
+          </button>
+          {onlineFeatures && (
+            <button
+              onClick={() => setViewMode('commutes')}
+              className={`flex items-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all ${
+                viewMode === 'commutes'
+                  ? 'bg-gradient-to-r from-blue-600 to-cyan-600 text-white shadow-lg'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Repeat className="w-5 h-5" />
+              Commutes
+            </button>
+          )}
+          {onlineFeatures && (
+            <button
+              onClick={() => setViewMode('wallet')}
+              className={`flex items-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all ${
+                viewMode === 'wallet'
+                  ? 'bg-gradient-to-r from-blue-600 to-cyan-600 text-white shadow-lg'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <WalletIcon className="w-5 h-5" />
+              Wallet
+            </button>
+          )}
         </div>
 
         <div className="grid lg:grid-cols-2 gap-8">
@@ -374,18 +501,26 @@ function App() {
                   <RideList
                     userLocation={searchData.pickup}
                     destination={searchData.dropoff}
+                    timeWindow={searchData.timeWindow}
                     onAcceptRide={handleAcceptRide}
+                    onCheckPromo={handleCheckPromo}
+                    onSaveSearch={onlineFeatures ? handleSaveSearch : undefined}
                     showAcceptButton={true}
                     userId={user?.id}
                   />
                 )}
                 {!searchData && <RideList userId={user?.id} />}
+                {onlineFeatures && <SavedSearches userId={user.id} refreshKey={savedSearchVersion} />}
               </div>
             )}
 
             {viewMode === 'create' && (
               <div className="space-y-6">
-                <CreateRideForm onSubmit={handleCreateRide} loading={calculatingRoute} />
+                <CreateRideForm
+                  onSubmit={handleCreateRide}
+                  loading={calculatingRoute}
+                  allowRepeat={onlineFeatures}
+                />
                 {calculatingRoute && (
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-center gap-3">
                     <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
@@ -394,6 +529,12 @@ function App() {
                 )}
               </div>
             )}
+
+            {viewMode === 'myRides' && <MyRides userId={user.id} onlineFeatures={onlineFeatures} />}
+
+            {viewMode === 'commutes' && <RecurringRides userId={user.id} />}
+
+            {viewMode === 'wallet' && <Wallet userId={user.id} />}
           </div>
 
           <div>
@@ -402,6 +543,7 @@ function App() {
                 pickup={selectedRoute.pickup}
                 dropoff={selectedRoute.dropoff}
                 path={selectedRoute.path}
+                surgeCells={surgeCells}
               />
             )}
             {!selectedRoute && (
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { greedyAssignment, hungarianAssignment } from './assignment';
+
+const totalCost = (cost: number[][], columnOfRow: number[]) =>
+  columnOfRow.reduce((sum, column, row) => sum + cost[row][column], 0);
+
+// Cheapest assignment by trying every one, for checking small matrices
+function bruteForceCost(cost: number[][]): number {
+  const columns = cost[0].length;
+  const search = (row: number, used: Set<number>): number => {
+    if (row === cost.length) return 0;
+    let best = Infinity;
+    for (let column = 0; column < columns; column++) {
+      if (used.has(column)) continue;
+      used.add(column);
+      best = Math.min(best, cost[row][column] + search(row + 1, used));
+      used.delete(column);
+    }
+    return best;
+  };
+  return search(0, new Set());
+}
+
+describe('hungarianAssignment', () => {
+  it('finds the cheapest assignment of a square matrix', () => {
+    const cost = [
+      [4, 1, 3],
+      [2, 0, 5],
+      [3, 2, 2],
+    ];
+
+    const assignment = hungarianAssignment(cost);
+
+    expect(assignment).toEqual([1, 0, 2]);
+    expect(totalCost(cost, assignment)).toBe(5);
+  });
+
+  it('leaves the spare columns of a wide matrix unused', () => {
+    const cost = [
+      [7, 3, 9, 8],
+      [2, 6, 1, 9],
+    ];
+
+    expect(hungarianAssignment(cost)).toEqual([1, 2]);
+  });
+
+  it('matches brute force on random matrices', () => {
+    let state = 11;
+    const random = () => {
+      state = (state * 1103515245 + 12345) % 2147483648;
+      return state / 2147483648;
+    };
+
+    for (let trial = 0; trial < 25; trial++) {
+      const rows = 2 + (trial % 5);
+      const columns = rows + (trial % 3);
+      const cost = Array.from({ length: rows }, () =>
+        Array.from({ length: columns }, () => Math.round(random() * 100))
+      );
+
+      const assignment = hungarianAssignment(cost);
+
+      expect(new Set(assignment).size).toBe(rows);
+      expect(totalCost(cost, assignment)).toBe(bruteForceCost(cost));
+    }
+  });
+
+  it('needs at least as many columns as rows', () => {
+    expect(() => hungarianAssignment([[1], [2]])).toThrow(
+      'Hungarian assignment needs at least as many columns (1) as rows (2)'
+    );
+  });
+});
+
+describe('greedyAssignment', () => {
+  it('takes the cheapest pair first, even when that costs more overall', () => {
+    const cost = [
+      [1, 2],
+      [2, 100],
+    ];
+
+    expect(greedyAssignment(cost)).toEqual([0, 1]);
+    expect(hungarianAssignment(cost)).toEqual([1, 0]);
+  });
+
+  it('never takes an infeasible pair', () => {
+    expect(
+      greedyAssignment([
+        [1, Infinity],
+        [2, Infinity],
+      ])
+    ).toEqual([0, -1]);
+  });
+});
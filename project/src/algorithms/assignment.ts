@@ -0,0 +1,95 @@
+/**
+ * HUNGARIAN ALGORITHM: minimum-cost assignment of rows to distinct columns
+ * for a rectangular cost matrix with rows <= columns, in O(rows² · columns).
+ *
+ * Returns the column assigned to each row.
+ */
+export function hungarianAssignment(cost: number[][]): number[] {
+  const n = cost.length;
+  if (n === 0) return [];
+  const m = cost[0].length;
+  if (m < n) {
+    throw new Error(`Hungarian assignment needs at least as many columns (${m}) as rows (${n})`);
+  }
+
+  // 1-indexed potentials and matching, as in the classic formulation
+  const u = new Float64Array(n + 1);
+  const v = new Float64Array(m + 1);
+  const rowOfColumn = new Int32Array(m + 1);
+  const way = new Int32Array(m + 1);
+
+  for (let row = 1; row <= n; row++) {
+    rowOfColumn[0] = row;
+    let column0 = 0;
+    const minSlack = new Float64Array(m + 1).fill(Infinity);
+    const used = new Uint8Array(m + 1);
+
+    do {
+      used[column0] = 1;
+      const row0 = rowOfColumn[column0];
+      let delta = Infinity;
+      let column1 = 0;
+
+      for (let column = 1; column <= m; column++) {
+        if (used[column]) continue;
+        const slack = cost[row0 - 1][column - 1] - u[row0] - v[column];
+        if (slack < minSlack[column]) {
+          minSlack[column] = slack;
+          way[column] = column0;
+        }
+        if (minSlack[column] < delta) {
+          delta = minSlack[column];
+          column1 = column;
+        }
+      }
+
+      for (let column = 0; column <= m; column++) {
+        if (used[column]) {
+          u[rowOfColumn[column]] += delta;
+          v[column] -= delta;
+        } else {
+          minSlack[column] -= delta;
+        }
+      }
+      column0 = column1;
+    } while (rowOfColumn[column0] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const column1 = way[column0];
+      rowOfColumn[column0] = rowOfColumn[column1];
+      column0 = column1;
+    } while (column0 !== 0);
+  }
+
+  const columnOfRow = new Array<number>(n).fill(-1);
+  for (let column = 1; column <= m; column++) {
+    if (rowOfColumn[column] !== 0) {
+      columnOfRow[rowOfColumn[column] - 1] = column - 1;
+    }
+  }
+  return columnOfRow;
+}
+
+/**
+ * GREEDY baseline: repeatedly take the cheapest remaining row/column pair.
+ * Pairs with infinite cost are never taken; unassigned rows get -1.
+ */
+export function greedyAssignment(cost: number[][]): number[] {
+  const pairs: Array<{ row: number; column: number; cost: number }> = [];
+  cost.forEach((costs, row) =>
+    costs.forEach((value, column) => {
+      if (Number.isFinite(value)) pairs.push({ row, column, cost: value });
+    })
+  );
+  pairs.sort((a, b) => a.cost - b.cost);
+
+  const columnOfRow = new Array<number>(cost.length).fill(-1);
+  const usedColumns = new Set<number>();
+  for (const pair of pairs) {
+    if (columnOfRow[pair.row] !== -1 || usedColumns.has(pair.column)) continue;
+    columnOfRow[pair.row] = pair.column;
+    usedColumns.add(pair.column);
+  }
+  return columnOfRow;
+}
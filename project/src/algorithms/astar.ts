@@ -1,3 +1,17 @@
+import { RoadGraph, RoadEdge, findNearestNode } from './roadGraph';
+import { createPriorityQueue } from './priorityQueue';
+import { bidirectionalAstarSearch } from './bidirectionalAstar';
+import { ContractionHierarchy, contractionHierarchySearch } from './contractionHierarchy';
+import { quoteFare } from './fareEngine';
+import {
+  SpeedProfiles,
+  DEFAULT_SPEED_PROFILES,
+  getSpeedKmh,
+  getMaxSpeedKmh,
+  speedsChangeBetween,
+} from './speedProfiles';
+import { SpatialIndex } from './spatialIndex';
+
 export interface Location {
   lat: number;
   lng: number;
@@ -31,133 +45,291 @@ function toRadians(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
 
-export function calculateEstimatedDuration(distanceKm: number): number {
-  const avgSpeedKmh = 40;
+/**
+ * Estimated minutes to drive distanceKm. Without a departure time a flat
+ * 40 km/h is assumed; with one, the speed comes from the profile for that
+ * road class and hour of the week.
+ */
+export function calculateEstimatedDuration(
+  distanceKm: number,
+  departureTime?: Date,
+  speedProfiles: SpeedProfiles = DEFAULT_SPEED_PROFILES,
+  roadClass: string = 'default'
+): number {
+  return Math.ceil(travelMinutes(distanceKm, departureTime, speedProfiles, roadClass));
+}
+
+function travelMinutes(
+  distanceKm: number,
+  departureTime?: Date,
+  speedProfiles: SpeedProfiles = DEFAULT_SPEED_PROFILES,
+  roadClass: string = 'default'
+): number {
+  const avgSpeedKmh = departureTime ? getSpeedKmh(speedProfiles, roadClass, departureTime) : 40;
   const durationHours = distanceKm / avgSpeedKmh;
-  return Math.ceil(durationHours * 60);
+  return durationHours * 60;
+}
+
+function addMinutes(date: Date | undefined, minutes: number): Date | undefined {
+  return date ? new Date(date.getTime() + minutes * 60000) : undefined;
 }
 
+/**
+ * A* shortest path over a road graph. Each leg (start → waypoints → goal) is
+ * snapped to the nearest graph node and searched along real road edges.
+ * Legs whose endpoints fall outside the graph (or are disconnected) fall back
+ * to a straight line. The search mode is picked by pickRoutingMode unless set.
+ */
 export function astarPathfinding(
   start: Location,
   goal: Location,
-  waypoints: Location[] = []
-): { path: Location[]; totalDistance: number } {
+  waypoints: Location[] = [],
+  graph?: RoadGraph | null,
+  options: RoutingOptions = {}
+): { path: Location[]; totalDistance: number; totalDuration: number } {
   const allPoints = [start, ...waypoints, goal];
-  const path: Location[] = [];
+  const path: Location[] = [start];
   let totalDistance = 0;
+  let totalMinutes = 0;
 
   for (let i = 0; i < allPoints.length - 1; i++) {
-    const segmentStart = allPoints[i];
-    const segmentEnd = allPoints[i + 1];
+    // Later legs depart when the previous leg arrives
+    const legOptions = {
+      ...options,
+      departureTime: addMinutes(options.departureTime, totalMinutes),
+    };
+    const segment = findSegmentPath(allPoints[i], allPoints[i + 1], graph, legOptions);
+    path.push(...segment.path.slice(1));
+    totalDistance += segment.distance;
+    totalMinutes += segment.minutes;
+  }
 
-    const openSet: PathNode[] = [];
-    const closedSet: PathNode[] = [];
+  return { path, totalDistance, totalDuration: Math.ceil(totalMinutes) };
+}
 
-    const startNode: PathNode = {
-      location: segmentStart,
-      g: 0,
-      h: haversineDistance(segmentStart, segmentEnd),
-      f: 0,
-    };
-    startNode.f = startNode.g + startNode.h;
-
-    openSet.push(startNode);
-
-    while (openSet.length > 0) {
-      openSet.sort((a, b) => a.f - b.f);
-      const current = openSet.shift()!;
-
-      if (haversineDistance(current.location, segmentEnd) < 0.1) {
-        let node: PathNode | undefined = current;
-        while (node) {
-          path.push(node.location);
-          node = node.parent;
-        }
-        totalDistance += current.g;
-        break;
-      }
-
-      closedSet.push(current);
-
-      const neighbors = generateNeighbors(current.location, segmentEnd);
-
-      for (const neighborLoc of neighbors) {
-        if (closedSet.some(n =>
-          Math.abs(n.location.lat - neighborLoc.lat) < 0.0001 &&
-          Math.abs(n.location.lng - neighborLoc.lng) < 0.0001
-        )) {
-          continue;
-        }
-
-        const gScore = current.g + haversineDistance(current.location, neighborLoc);
-        const hScore = haversineDistance(neighborLoc, segmentEnd);
-
-        const existingNode = openSet.find(n =>
-          Math.abs(n.location.lat - neighborLoc.lat) < 0.0001 &&
-          Math.abs(n.location.lng - neighborLoc.lng) < 0.0001
-        );
-
-        if (existingNode && gScore >= existingNode.g) {
-          continue;
-        }
-
-        const neighborNode: PathNode = {
-          location: neighborLoc,
-          g: gScore,
-          h: hScore,
-          f: gScore + hScore,
-          parent: current,
-        };
-
-        if (existingNode) {
-          const index = openSet.indexOf(existingNode);
-          openSet[index] = neighborNode;
-        } else {
-          openSet.push(neighborNode);
-        }
-      }
-
-      if (openSet.length === 0) {
-        path.push(segmentStart);
-        path.push(segmentEnd);
-        totalDistance += haversineDistance(segmentStart, segmentEnd);
-        break;
-      }
-    }
+function findSegmentPath(
+  segmentStart: Location,
+  segmentEnd: Location,
+  graph: RoadGraph | null | undefined,
+  options: RoutingOptions
+): { path: Location[]; distance: number; minutes: number } {
+  const { departureTime, speedProfiles } = options;
+  const straightDistance = haversineDistance(segmentStart, segmentEnd);
+  const straightLine = {
+    path: [segmentStart, segmentEnd],
+    distance: straightDistance,
+    minutes: travelMinutes(straightDistance, departureTime, speedProfiles),
+  };
+
+  if (!graph) return straightLine;
+
+  const startSnap = findNearestNode(graph, segmentStart);
+  const goalSnap = findNearestNode(graph, segmentEnd);
+  if (!startSnap || !goalSnap) return straightLine;
+
+  const result = searchRoadGraph(graph, startSnap.id, goalSnap.id, {
+    ...options,
+    departureTime: addMinutes(
+      departureTime,
+      travelMinutes(startSnap.distance, departureTime, speedProfiles)
+    ),
+  });
+
+  // Start and goal are in disconnected components of the extract
+  if (!result) return straightLine;
+
+  const snapDistance = startSnap.distance + goalSnap.distance;
+  const roadMinutes = result.durationMin ?? travelMinutes(result.distance, departureTime, speedProfiles);
+
+  return {
+    path: [
+      ...(startSnap.distance > 0 ? [segmentStart] : []),
+      ...result.nodeIds.map(id => graph.nodes.get(id)!),
+      ...(goalSnap.distance > 0 ? [segmentEnd] : []),
+    ],
+    distance: snapDistance + result.distance,
+    minutes: roadMinutes + travelMinutes(snapDistance, departureTime, speedProfiles),
+  };
+}
+
+export type RoutingMode = 'astar' | 'bidirectional' | 'ch';
+
+export interface RoutingOptions {
+  mode?: RoutingMode | 'auto';
+  hierarchy?: ContractionHierarchy | null;
+  // When set, edges cost travel time at the hour they are entered
+  departureTime?: Date;
+  speedProfiles?: SpeedProfiles;
+}
+
+// Above this size bidirectional search expands noticeably fewer nodes
+const BIDIRECTIONAL_MIN_NODES = 5000;
+
+/**
+ * Choose the query mode: contraction hierarchies when a preprocessed index is
+ * available, bidirectional A* on large graphs, plain A* otherwise.
+ * The hierarchy is built on distances, so queries with a departure time,
+ * which want the fastest route, never use it.
+ */
+export function pickRoutingMode(graph: RoadGraph, options: RoutingOptions = {}): RoutingMode {
+  const hierarchy = options.departureTime ? null : options.hierarchy;
+  const requested = options.mode ?? 'auto';
+  if (requested === 'ch' && !hierarchy) return 'bidirectional';
+  if (requested !== 'auto') return requested;
+  if (hierarchy) return 'ch';
+  return graph.nodes.size >= BIDIRECTIONAL_MIN_NODES ? 'bidirectional' : 'astar';
+}
+
+export function searchRoadGraph(
+  graph: RoadGraph,
+  startId: string,
+  goalId: string,
+  options: RoutingOptions = {}
+): GraphSearchResult | null {
+  const mode = pickRoutingMode(graph, options);
+  if (mode === 'astar') return astarSearch(graph, startId, goalId, options);
+  if (mode === 'ch') return contractionHierarchySearch(options.hierarchy!, startId, goalId);
+
+  const result = bidirectionalAstarSearch(graph, startId, goalId, options);
+  const { departureTime } = options;
+  if (!result || !departureTime) return result;
+
+  // Priced at the departure hour's speeds, the route is the fastest as long as
+  // none changes before it arrives: a faster route would arrive sooner still.
+  // Otherwise only time-dependent A* gets it right.
+  const arrival = addMinutes(departureTime, result.durationMin!)!;
+  if (speedsChangeBetween(options.speedProfiles ?? DEFAULT_SPEED_PROFILES, departureTime, arrival)) {
+    return astarSearch(graph, startId, goalId, options);
   }
+  return result;
+}
 
-  return { path: path.reverse(), totalDistance };
+export interface GraphSearchResult {
+  nodeIds: string[];
+  distance: number;
+  nodesExpanded: number;
+  // Only set by time-dependent searches
+  durationMin?: number;
 }
 
-function generateNeighbors(current: Location, goal: Location): Location[] {
-  const step = 0.01;
-  const neighbors: Location[] = [];
+/**
+ * A* between two graph nodes. The open set is a binary heap (stale entries are
+ * skipped on pop) and visited/open lookups are hashed by node id, so each
+ * expansion costs O(log n).
+ *
+ * With a departure time, g is elapsed minutes: each edge costs its length at
+ * the profile speed for its road class at the moment it is entered, and the
+ * heuristic assumes the fastest speed in the profiles.
+ */
+export function astarSearch(
+  graph: RoadGraph,
+  startId: string,
+  goalId: string,
+  options: Pick<RoutingOptions, 'departureTime' | 'speedProfiles'> = {}
+): GraphSearchResult | null {
+  const goalLocation = graph.nodes.get(goalId);
+  const startLocation = graph.nodes.get(startId);
+  if (!goalLocation || !startLocation) return null;
+
+  const { departureTime } = options;
+  const speedProfiles = options.speedProfiles ?? DEFAULT_SPEED_PROFILES;
+  const maxSpeedKmh = departureTime ? getMaxSpeedKmh(speedProfiles) : 0;
+
+  const edgeCost = (edge: RoadEdge, elapsed: number) =>
+    departureTime
+      ? travelMinutes(edge.distanceKm, addMinutes(departureTime, elapsed), speedProfiles, edge.roadClass)
+      : edge.distanceKm;
+  const heuristic = (location: Location) =>
+    departureTime
+      ? (haversineDistance(location, goalLocation) / maxSpeedKmh) * 60
+      : haversineDistance(location, goalLocation);
+
+  const openSet = createPriorityQueue<string>();
+  const gScores = new Map<string, number>([[startId, 0]]);
+  const distances = new Map<string, number>([[startId, 0]]);
+  const parents = new Map<string, string>();
+  const closedSet = new Set<string>();
+  let nodesExpanded = 0;
+
+  openSet.push(startId, heuristic(startLocation));
+
+  while (openSet.size > 0) {
+    const current = openSet.pop()!;
+
+    if (closedSet.has(current)) continue;
+
+    if (current === goalId) {
+      return {
+        nodeIds: reconstructPath(parents, goalId),
+        distance: distances.get(goalId)!,
+        nodesExpanded,
+        durationMin: departureTime ? gScores.get(goalId)! : undefined,
+      };
+    }
 
-  const directionLat = goal.lat > current.lat ? 1 : -1;
-  const directionLng = goal.lng > current.lng ? 1 : -1;
+    closedSet.add(current);
+    nodesExpanded++;
 
-  neighbors.push({ lat: current.lat + step * directionLat, lng: current.lng });
-  neighbors.push({ lat: current.lat, lng: current.lng + step * directionLng });
-  neighbors.push({
-    lat: current.lat + step * directionLat,
-    lng: current.lng + step * directionLng
-  });
+    const currentG = gScores.get(current)!;
+
+    for (const edge of graph.adjacency.get(current) ?? []) {
+      if (closedSet.has(edge.to)) continue;
+
+      const gScore = currentG + edgeCost(edge, currentG);
+      if (gScore >= (gScores.get(edge.to) ?? Infinity)) continue;
+
+      gScores.set(edge.to, gScore);
+      distances.set(edge.to, distances.get(current)! + edge.distanceKm);
+      parents.set(edge.to, current);
 
-  return neighbors;
+      const hScore = heuristic(graph.nodes.get(edge.to)!);
+      openSet.push(edge.to, gScore + hScore);
+    }
+  }
+
+  return null;
 }
 
-export function findNearbyRides(
+export function reconstructPath(parents: Map<string, string>, endId: string): string[] {
+  const nodeIds = [endId];
+  let current = parents.get(endId);
+  while (current !== undefined) {
+    nodeIds.push(current);
+    current = parents.get(current);
+  }
+  return nodeIds.reverse();
+}
+
+export interface RidePickup {
+  id: string;
+  pickup_lat: number;
+  pickup_lng: number;
+}
+
+export function ridePickupLocation(ride: RidePickup): Location {
+  return { lat: ride.pickup_lat, lng: ride.pickup_lng };
+}
+
+/**
+ * Rides whose pickup is within maxDistanceKm, nearest first. Pass a spatial
+ * index of the rides to only measure those in nearby cells; a plain array is
+ * scanned in full.
+ */
+export function findNearbyRides<T extends RidePickup>(
   userLocation: Location,
-  rides: Array<{ pickup_lat: number; pickup_lng: number; dropoff_lat: number; dropoff_lng: number; id: string }>,
+  rides: T[] | SpatialIndex<T>,
   maxDistanceKm: number = 5
-): Array<{ ride: typeof rides[0]; distance: number }> {
+): Array<{ ride: T; distance: number }> {
+  if (!Array.isArray(rides)) {
+    return rides
+      .withinRadius(userLocation, maxDistanceKm)
+      .map(({ item, distance }) => ({ ride: item, distance }));
+  }
+
   const nearbyRides = rides
     .map(ride => ({
       ride,
-      distance: haversineDistance(userLocation, {
-        lat: ride.pickup_lat,
-        lng: ride.pickup_lng
-      }),
+      distance: haversineDistance(userLocation, ridePickupLocation(ride)),
     }))
     .filter(item => item.distance <= maxDistanceKm)
     .sort((a, b) => a.distance - b.distance);
@@ -165,23 +337,10 @@ export function findNearbyRides(
   return nearbyRides;
 }
 
+/**
+ * Total fare under the default rules. Use quoteFare for the itemised
+ * breakdown and configurable rules.
+ */
 export function calculatePrice(distanceKm: number, vehicleType: string): number {
-  const baseFare = 2.5;
-  let pricePerKm = 1.2;
-
-  switch (vehicleType) {
-    case 'economy':
-      pricePerKm = 1.0;
-      break;
-    case 'comfort':
-      pricePerKm = 1.5;
-      break;
-    case 'premium':
-      pricePerKm = 2.5;
-      break;
-    default:
-      pricePerKm = 1.2;
-  }
-
-  return parseFloat((baseFare + distanceKm * pricePerKm).toFixed(2));
+  return quoteFare({ distanceKm, durationMin: 0, vehicleType }).total;
 }
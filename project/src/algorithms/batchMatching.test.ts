@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { Location } from './astar';
+import {
+  BatchAssignmentPlan,
+  MatchableRequest,
+  MatchableRide,
+  buildCandidatePairs,
+  planBatchAssignment,
+} from './batchMatching';
+import { RouteStop } from './stopOrdering';
+
+// Points `x` blocks east and `y` blocks north of a street corner
+const at = (x: number, y = 0): Location => ({ lat: 37.77 + y * 0.01, lng: -122.5 + x * 0.01 });
+
+const request = (id: string, pickup: Location, dropoff: Location): MatchableRequest => ({
+  id,
+  passenger_id: `passenger-${id}`,
+  pickup_lat: pickup.lat,
+  pickup_lng: pickup.lng,
+  dropoff_lat: dropoff.lat,
+  dropoff_lng: dropoff.lng,
+  max_price: 20,
+});
+
+const ride = (id: string, pickup: Location, dropoff: Location, seats = 1, maxDetourMin?: number): MatchableRide => ({
+  id,
+  driver_id: `driver-${id}`,
+  pickup_lat: pickup.lat,
+  pickup_lng: pickup.lng,
+  dropoff_lat: dropoff.lat,
+  dropoff_lng: dropoff.lng,
+  vehicle_type: 'economy',
+  seats_available: seats,
+  max_detour_min: maxDetourMin,
+});
+
+// Straight-line routing and a flat fare, so costs come down to detour and wait
+const options = { graph: null, fareFor: () => 10 };
+
+const rideOf = (plan: BatchAssignmentPlan) =>
+  Object.fromEntries(plan.assignments.map(assignment => [assignment.requestId, assignment.rideId]));
+
+describe('planBatchAssignment', () => {
+  // Ana suits either ride, Ben only the first: its pickup is the one in reach
+  const requests = [request('ana', at(1), at(9)), request('ben', at(-4), at(9))];
+  const rides = [ride('first', at(0), at(10)), ride('second', at(4), at(14))];
+
+  it('matches everyone where first-come-first-served would strand a request', () => {
+    const greedy = planBatchAssignment(requests, rides, options, 'greedy');
+    const hungarian = planBatchAssignment(requests, rides, options);
+
+    expect(rideOf(greedy)).toEqual({ ana: 'first' });
+    expect(greedy.unmatchedRequestIds).toEqual(['ben']);
+
+    expect(rideOf(hungarian)).toEqual({ ana: 'second', ben: 'first' });
+    expect(hungarian.unmatchedRequestIds).toEqual([]);
+    expect(hungarian.totalCost).toBeCloseTo(
+      hungarian.assignments.reduce((sum, assignment) => sum + assignment.cost, 0),
+      9
+    );
+  });
+
+  it('gives a ride no more passengers than it has seats', () => {
+    const plan = planBatchAssignment(requests, [rides[0]], options);
+
+    expect(plan.assignments).toHaveLength(1);
+    expect(plan.unmatchedRequestIds).toHaveLength(1);
+  });
+
+  it('leaves requests pending when no ride is close enough or cheap enough', () => {
+    const far = request('far', at(30), at(40));
+    const pricey = request('pricey', at(1), at(9));
+
+    const plan = planBatchAssignment([far, pricey], [ride('first', at(0), at(10), 3)], {
+      ...options,
+      fareFor: (r: MatchableRequest) => (r.id === 'pricey' ? 25 : 10),
+    });
+
+    expect(plan.assignments).toEqual([]);
+    expect(plan.unmatchedRequestIds).toEqual(['far', 'pricey']);
+  });
+
+  it('drops the costliest passenger when their detours add up past the cap', () => {
+    // Each is a short way off the driver's route, on opposite sides of it
+    const north = request('north', at(1, 1), at(2, 1));
+    const south = request('south', at(3, -1), at(4, -1));
+    const shared = ride('shared', at(0), at(10), 2, 3);
+
+    const pairs = buildCandidatePairs([north, south], [shared], options);
+    expect(pairs.map(pair => pair.detourMin)).toEqual([2, 2]);
+    // North's pickup is nearer the driver, so it's the cheaper of the two
+    expect(pairs[0].cost).toBeLessThan(pairs[1].cost);
+
+    const plan = planBatchAssignment([north, south], [shared], options);
+    expect(rideOf(plan)).toEqual({ north: 'shared' });
+    expect(plan.unmatchedRequestIds).toEqual(['south']);
+  });
+});
+
+describe('buildCandidatePairs', () => {
+  it('measures the detour on top of the passengers already booked', () => {
+    const booked: RouteStop[] = [
+      { id: 'cleo:pickup', location: at(3, 1), type: 'pickup', passengerId: 'cleo' },
+      { id: 'cleo:dropoff', location: at(7, 1), type: 'dropoff', passengerId: 'cleo' },
+    ];
+    const alongside = request('dan', at(3, 1), at(7, 1));
+    const rides = [ride('shared', at(0), at(10), 2)];
+
+    const [alone] = buildCandidatePairs([alongside], rides, options);
+    const [withBooked] = buildCandidatePairs([alongside], rides, {
+      ...options,
+      bookedStops: new Map([['shared', booked]]),
+    });
+
+    // The driver is going that way already
+    expect(alone.detourMin).toBeGreaterThan(0);
+    expect(withBooked.detourMin).toBe(0);
+  });
+});
@@ -0,0 +1,372 @@
+import { Location, RoutingOptions, astarPathfinding } from './astar';
+import { RoadGraph } from './roadGraph';
+import { createSpatialIndex } from './spatialIndex';
+import { calculateDetour, DEFAULT_MAX_DETOUR_MIN } from './detour';
+import { RouteStop, planMultiStopRoute } from './stopOrdering';
+import { FareRules, DEFAULT_FARE_RULES, quoteFare } from './fareEngine';
+import { hungarianAssignment, greedyAssignment } from './assignment';
+
+export interface MatchableRequest {
+  id: string;
+  passenger_id: string;
+  pickup_lat: number;
+  pickup_lng: number;
+  dropoff_lat: number;
+  dropoff_lng: number;
+  max_price: number;
+}
+
+export interface MatchableRide {
+  id: string;
+  driver_id: string;
+  pickup_lat: number;
+  pickup_lng: number;
+  dropoff_lat: number;
+  dropoff_lng: number;
+  vehicle_type: string;
+  seats_available: number;
+  max_detour_min?: number | null;
+}
+
+export interface ProposedAssignment {
+  requestId: string;
+  rideId: string;
+  passengerId: string;
+  detourMin: number;
+  pickupEtaMin: number;
+  fare: number;
+  cost: number;
+}
+
+export interface BatchAssignmentPlan {
+  method: 'hungarian' | 'greedy';
+  assignments: ProposedAssignment[];
+  unmatchedRequestIds: string[];
+  // Sum of the costs of the assignments made
+  totalCost: number;
+}
+
+export interface BatchMatchingOptions {
+  graph?: RoadGraph | null;
+  routing?: RoutingOptions;
+  fareRules?: FareRules;
+  // What the passenger would pay on the ride, e.g. the booking quote; defaults
+  // to a fare over the passenger's own route on the graph
+  fareFor?: (request: MatchableRequest, ride: MatchableRide) => number;
+  // Rides whose pickup is further than this from the request are not considered
+  maxPickupDistanceKm?: number;
+  // Stops of the passengers already booked on each ride, by ride id; detours
+  // are measured on top of them
+  bookedStops?: Map<string, RouteStop[]>;
+}
+
+// Cost weights: minutes of driver detour, minutes until pickup, and price
+// as a share of the passenger's max_price
+const DETOUR_WEIGHT = 1;
+const PICKUP_WAIT_WEIGHT = 0.5;
+const PRICE_FIT_WEIGHT = 10;
+
+// Cost of leaving a request unmatched; any feasible pair is cheaper
+const UNMATCHED_COST = 1e6;
+// Stand-in for infeasible pairs, which the Hungarian solver needs to be finite
+const INFEASIBLE_COST = 1e9;
+
+export interface CandidatePair {
+  requestIndex: number;
+  rideIndex: number;
+  detourMin: number;
+  pickupEtaMin: number;
+  fare: number;
+  cost: number;
+}
+
+/**
+ * Feasible (request, ride) pairs with their cost. A pair is feasible when the
+ * ride's pickup is close enough, the detour is within the driver's cap and the
+ * passenger's fare fits their max_price.
+ */
+export function buildCandidatePairs(
+  requests: MatchableRequest[],
+  rides: MatchableRide[],
+  options: BatchMatchingOptions = {}
+): CandidatePair[] {
+  const {
+    graph,
+    routing = {},
+    fareRules = DEFAULT_FARE_RULES,
+    fareFor,
+    maxPickupDistanceKm = 5,
+    bookedStops,
+  } = options;
+  const rideIndex = createSpatialIndex(
+    (index: number) => ({ lat: rides[index].pickup_lat, lng: rides[index].pickup_lng }),
+    rides.map((_, index) => index).filter(index => rides[index].seats_available > 0)
+  );
+  const pairs: CandidatePair[] = [];
+
+  requests.forEach((request, requestIndex) => {
+    const pickup: Location = { lat: request.pickup_lat, lng: request.pickup_lng };
+    const dropoff: Location = { lat: request.dropoff_lat, lng: request.dropoff_lng };
+    let ownRoute: { distanceKm: number; durationMin: number } | undefined;
+
+    for (const { item } of rideIndex.withinRadius(pickup, maxPickupDistanceKm)) {
+      const ride = rides[item];
+      const detour = calculateDetour(
+        { lat: ride.pickup_lat, lng: ride.pickup_lng },
+        { lat: ride.dropoff_lat, lng: ride.dropoff_lng },
+        pickup,
+        dropoff,
+        graph,
+        routing,
+        bookedStops?.get(ride.id)
+      );
+      if (detour.detourMin > (ride.max_detour_min ?? DEFAULT_MAX_DETOUR_MIN)) continue;
+
+      let fare: number;
+      if (fareFor) {
+        fare = fareFor(request, ride);
+      } else {
+        if (!ownRoute) {
+          const route = astarPathfinding(pickup, dropoff, [], graph, routing);
+          ownRoute = { distanceKm: route.totalDistance, durationMin: route.totalDuration };
+        }
+        fare = quoteFare(
+          {
+            ...ownRoute,
+            vehicleType: ride.vehicle_type,
+            departureTime: routing.departureTime,
+            pickup,
+          },
+          fareRules
+        ).total;
+      }
+      if (fare > request.max_price) continue;
+
+      pairs.push({
+        requestIndex,
+        rideIndex: item,
+        detourMin: detour.detourMin,
+        pickupEtaMin: detour.pickupEtaMin,
+        fare,
+        cost:
+          detour.detourMin * DETOUR_WEIGHT +
+          detour.pickupEtaMin * PICKUP_WAIT_WEIGHT +
+          (fare / Math.max(request.max_price, 0.01)) * PRICE_FIT_WEIGHT,
+      });
+    }
+  });
+
+  return pairs;
+}
+
+/**
+ * BATCH MATCHING: assign pending requests to available rides so the total
+ * cost over all passengers is minimal, instead of first-come-first-served.
+ *
+ * Each ride contributes one column per free seat; every request also gets its
+ * own "unmatched" column, so requests with no feasible ride stay pending.
+ * Detours are costed per passenger against the driver's route through the
+ * stops already booked, then checked again for every passenger a ride was
+ * given together.
+ */
+export function planBatchAssignment(
+  requests: MatchableRequest[],
+  rides: MatchableRide[],
+  options: BatchMatchingOptions = {},
+  method: 'hungarian' | 'greedy' = 'hungarian'
+): BatchAssignmentPlan {
+  const pairs = buildCandidatePairs(requests, rides, options);
+  return solveCandidatePairs(requests, rides, pairs, method, options);
+}
+
+export function solveCandidatePairs(
+  requests: MatchableRequest[],
+  rides: MatchableRide[],
+  pairs: CandidatePair[],
+  method: 'hungarian' | 'greedy',
+  options: BatchMatchingOptions = {}
+): BatchAssignmentPlan {
+  const rideOfRequest =
+    method === 'greedy'
+      ? solveGreedy(requests.length, rides, pairs)
+      : solveHungarian(requests.length, rides, pairs);
+
+  const pairAt = new Map(pairs.map(pair => [`${pair.requestIndex}:${pair.rideIndex}`, pair]));
+  enforceCombinedDetour(requests, rides, rideOfRequest, pairAt, options);
+  const assignments: ProposedAssignment[] = [];
+  const unmatchedRequestIds: string[] = [];
+
+  rideOfRequest.forEach((rideIndex, requestIndex) => {
+    const request = requests[requestIndex];
+    if (rideIndex === -1) {
+      unmatchedRequestIds.push(request.id);
+      return;
+    }
+    const pair = pairAt.get(`${requestIndex}:${rideIndex}`)!;
+    assignments.push({
+      requestId: request.id,
+      rideId: rides[rideIndex].id,
+      passengerId: request.passenger_id,
+      detourMin: pair.detourMin,
+      pickupEtaMin: pair.pickupEtaMin,
+      fare: pair.fare,
+      cost: pair.cost,
+    });
+  });
+
+  return {
+    method,
+    assignments,
+    unmatchedRequestIds,
+    totalCost: assignments.reduce((sum, assignment) => sum + assignment.cost, 0),
+  };
+}
+
+/**
+ * Pairs are checked one passenger at a time, so a ride given several can end
+ * up over its driver's detour cap once they're all on board. Route each such
+ * ride through its booked passengers' stops and all its new ones, and drop the
+ * costliest assignments until the combined detour fits; those requests stay
+ * pending for the next batch.
+ */
+function enforceCombinedDetour(
+  requests: MatchableRequest[],
+  rides: MatchableRide[],
+  rideOfRequest: number[],
+  pairAt: Map<string, CandidatePair>,
+  options: BatchMatchingOptions
+): void {
+  const { graph, routing = {}, bookedStops } = options;
+  const requestsOfRide = new Map<number, number[]>();
+  rideOfRequest.forEach((rideIndex, requestIndex) => {
+    if (rideIndex === -1) return;
+    requestsOfRide.set(rideIndex, [...(requestsOfRide.get(rideIndex) ?? []), requestIndex]);
+  });
+
+  requestsOfRide.forEach((requestIndices, rideIndex) => {
+    if (requestIndices.length < 2) return;
+    const ride = rides[rideIndex];
+    const start: Location = { lat: ride.pickup_lat, lng: ride.pickup_lng };
+    const end: Location = { lat: ride.dropoff_lat, lng: ride.dropoff_lng };
+    const maxDetourMin = ride.max_detour_min ?? DEFAULT_MAX_DETOUR_MIN;
+    const booked = bookedStops?.get(ride.id) ?? [];
+    const directMin = planMultiStopRoute(start, end, booked, graph, routing).totalDuration;
+    const cost = (requestIndex: number) => pairAt.get(`${requestIndex}:${rideIndex}`)!.cost;
+
+    // Cheapest first, so the costliest assignment is the one given up
+    const kept = [...requestIndices].sort((a, b) => cost(a) - cost(b));
+    while (kept.length > 1) {
+      const stops = kept.flatMap((requestIndex): RouteStop[] => {
+        const request = requests[requestIndex];
+        return [
+          {
+            id: `${request.id}:pickup`,
+            location: { lat: request.pickup_lat, lng: request.pickup_lng },
+            type: 'pickup',
+            passengerId: request.id,
+          },
+          {
+            id: `${request.id}:dropoff`,
+            location: { lat: request.dropoff_lat, lng: request.dropoff_lng },
+            type: 'dropoff',
+            passengerId: request.id,
+          },
+        ];
+      });
+      const combined = planMultiStopRoute(start, end, [...booked, ...stops], graph, routing);
+      if (combined.totalDuration - directMin <= maxDetourMin) return;
+      rideOfRequest[kept.pop()!] = -1;
+    }
+  });
+}
+
+/**
+ * Cost matrix over the given requests, with one column per free seat of the
+ * given rides. Infeasible cells are Infinity.
+ */
+function buildSeatMatrix(
+  requestIndices: number[],
+  rideIndices: number[],
+  rides: MatchableRide[],
+  pairs: CandidatePair[]
+): { costs: number[][]; slotRide: number[] } {
+  const slotRide: number[] = [];
+  const firstSlot = new Map<number, number>();
+  for (const rideIndex of rideIndices) {
+    firstSlot.set(rideIndex, slotRide.length);
+    for (let seat = 0; seat < rides[rideIndex].seats_available; seat++) slotRide.push(rideIndex);
+  }
+
+  const rowOf = new Map(requestIndices.map((requestIndex, row) => [requestIndex, row]));
+  const costs = requestIndices.map(() => new Array<number>(slotRide.length).fill(Infinity));
+  for (const pair of pairs) {
+    const row = rowOf.get(pair.requestIndex);
+    const start = firstSlot.get(pair.rideIndex);
+    if (row === undefined || start === undefined) continue;
+    for (let seat = 0; seat < rides[pair.rideIndex].seats_available; seat++) {
+      costs[row][start + seat] = pair.cost;
+    }
+  }
+
+  return { costs, slotRide };
+}
+
+function solveGreedy(requestCount: number, rides: MatchableRide[], pairs: CandidatePair[]): number[] {
+  const requestIndices = Array.from({ length: requestCount }, (_, index) => index);
+  const rideIndices = Array.from(new Set(pairs.map(pair => pair.rideIndex)));
+  const { costs, slotRide } = buildSeatMatrix(requestIndices, rideIndices, rides, pairs);
+  return greedyAssignment(costs).map(column => (column === -1 ? -1 : slotRide[column]));
+}
+
+/**
+ * Solve each connected group of requests and rides on its own: requests that
+ * share no candidate ride can't affect each other, and small matrices keep
+ * the O(n³) solver fast.
+ */
+function solveHungarian(requestCount: number, rides: MatchableRide[], pairs: CandidatePair[]): number[] {
+  const rideOfRequest = new Array<number>(requestCount).fill(-1);
+
+  // Union-find over requests (ids 0..n-1) and rides (ids n..)
+  const parent = new Map<number, number>();
+  const find = (node: number): number => {
+    let root = node;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(node, root);
+    return root;
+  };
+  for (const pair of pairs) {
+    const a = find(pair.requestIndex);
+    const b = find(requestCount + pair.rideIndex);
+    if (a !== b) parent.set(a, b);
+  }
+
+  const groups = new Map<number, { requests: Set<number>; rides: Set<number> }>();
+  for (const pair of pairs) {
+    const root = find(pair.requestIndex);
+    let group = groups.get(root);
+    if (!group) {
+      group = { requests: new Set(), rides: new Set() };
+      groups.set(root, group);
+    }
+    group.requests.add(pair.requestIndex);
+    group.rides.add(pair.rideIndex);
+  }
+
+  groups.forEach(group => {
+    const requestIndices = Array.from(group.requests);
+    const { costs, slotRide } = buildSeatMatrix(requestIndices, Array.from(group.rides), rides, pairs);
+    const padded = costs.map((row, rowIndex) => [
+      ...row.map(cost => (Number.isFinite(cost) ? cost : INFEASIBLE_COST)),
+      ...requestIndices.map((_, dummy) => (dummy === rowIndex ? UNMATCHED_COST : INFEASIBLE_COST)),
+    ]);
+
+    hungarianAssignment(padded).forEach((column, rowIndex) => {
+      // Dummy columns and infeasible cells both leave the request unmatched
+      if (column < slotRide.length && Number.isFinite(costs[rowIndex][column])) {
+        rideOfRequest[requestIndices[rowIndex]] = slotRide[column];
+      }
+    });
+  });
+
+  return rideOfRequest;
+}
@@ -0,0 +1,137 @@
+import { Location, GraphSearchResult, RoutingOptions, haversineDistance, reconstructPath } from './astar';
+import { RoadGraph, RoadEdge, getReverseAdjacency } from './roadGraph';
+import { PriorityQueue, createPriorityQueue } from './priorityQueue';
+import { DEFAULT_SPEED_PROFILES, getMaxSpeedKmh, getSpeedKmh } from './speedProfiles';
+
+interface SearchSide {
+  queue: PriorityQueue<string>;
+  distances: Map<string, number>;
+  parents: Map<string, string>;
+  settled: Set<string>;
+  edges: Map<string, RoadEdge[]>;
+  potential: (location: Location) => number;
+}
+
+/**
+ * BIDIRECTIONAL A*: searches forward from the start and backward from the
+ * goal at the same time, meeting in the middle.
+ *
+ * Uses average potentials pf(v) = (h(v, goal) - h(start, v)) / 2 and
+ * pr(v) = -pf(v), which keeps both searches consistent so the simple
+ * stopping rule topForward + topBackward >= best still yields the shortest path.
+ *
+ * With a departure time, edges cost travel minutes at that hour's speeds (the
+ * potentials assume the fastest speed in the profiles), giving the fastest
+ * route for as long as speeds hold; searchRoadGraph checks that they do.
+ */
+export function bidirectionalAstarSearch(
+  graph: RoadGraph,
+  startId: string,
+  goalId: string,
+  options: Pick<RoutingOptions, 'departureTime' | 'speedProfiles'> = {}
+): GraphSearchResult | null {
+  const startLocation = graph.nodes.get(startId);
+  const goalLocation = graph.nodes.get(goalId);
+  if (!startLocation || !goalLocation) return null;
+
+  const { departureTime } = options;
+  if (startId === goalId) {
+    return { nodeIds: [startId], distance: 0, nodesExpanded: 0, durationMin: departureTime ? 0 : undefined };
+  }
+
+  const speedProfiles = options.speedProfiles ?? DEFAULT_SPEED_PROFILES;
+  const edgeCost = (edge: RoadEdge) =>
+    departureTime
+      ? (edge.distanceKm / getSpeedKmh(speedProfiles, edge.roadClass, departureTime)) * 60
+      : edge.distanceKm;
+  const potentialScale = departureTime ? 60 / getMaxSpeedKmh(speedProfiles) : 1;
+
+  const forwardPotential = (location: Location) =>
+    ((haversineDistance(location, goalLocation) - haversineDistance(startLocation, location)) / 2) *
+    potentialScale;
+
+  const forward = createSide(startId, graph.adjacency, forwardPotential, startLocation);
+  const backward = createSide(
+    goalId,
+    getReverseAdjacency(graph),
+    location => -forwardPotential(location),
+    goalLocation
+  );
+
+  let bestDistance = Infinity;
+  let meetingNode: string | null = null;
+  let nodesExpanded = 0;
+
+  while (forward.queue.size > 0 && backward.queue.size > 0) {
+    if (forward.queue.peekPriority() + backward.queue.peekPriority() >= bestDistance) {
+      break;
+    }
+
+    // Expand the side with the smaller frontier key
+    const [side, other] =
+      forward.queue.peekPriority() <= backward.queue.peekPriority()
+        ? [forward, backward]
+        : [backward, forward];
+
+    const current = side.queue.pop()!;
+    if (side.settled.has(current)) continue;
+    side.settled.add(current);
+    nodesExpanded++;
+
+    const currentDistance = side.distances.get(current)!;
+
+    for (const edge of side.edges.get(current) ?? []) {
+      if (side.settled.has(edge.to)) continue;
+
+      const distance = currentDistance + edgeCost(edge);
+      if (distance < (side.distances.get(edge.to) ?? Infinity)) {
+        side.distances.set(edge.to, distance);
+        side.parents.set(edge.to, current);
+        side.queue.push(edge.to, distance + side.potential(graph.nodes.get(edge.to)!));
+      }
+
+      const label = side.distances.get(edge.to)!;
+      const otherDistance = other.distances.get(edge.to);
+      if (otherDistance !== undefined && label + otherDistance < bestDistance) {
+        bestDistance = label + otherDistance;
+        meetingNode = edge.to;
+      }
+    }
+  }
+
+  if (meetingNode === null) return null;
+
+  const forwardPath = reconstructPath(forward.parents, meetingNode);
+  const backwardPath = reconstructPath(backward.parents, meetingNode).reverse();
+  const nodeIds = [...forwardPath, ...backwardPath.slice(1)];
+
+  if (!departureTime) {
+    return { nodeIds, distance: bestDistance, nodesExpanded };
+  }
+
+  // The search measured minutes; the route's length is its edges'
+  let distance = 0;
+  for (let i = 0; i < nodeIds.length - 1; i++) {
+    const edges = graph.adjacency.get(nodeIds[i]) ?? [];
+    distance += Math.min(...edges.filter(e => e.to === nodeIds[i + 1]).map(e => e.distanceKm));
+  }
+  return { nodeIds, distance, nodesExpanded, durationMin: bestDistance };
+}
+
+function createSide(
+  originId: string,
+  edges: Map<string, RoadEdge[]>,
+  potential: (location: Location) => number,
+  originLocation: Location
+): SearchSide {
+  const queue = createPriorityQueue<string>();
+  queue.push(originId, potential(originLocation));
+  return {
+    queue,
+    distances: new Map([[originId, 0]]),
+    parents: new Map(),
+    settled: new Set(),
+    edges,
+    potential,
+  };
+}
@@ -0,0 +1,111 @@
+// Who is cancelling: a passenger their booking, or the driver the whole ride
+export type CancellationActor = 'driver' | 'passenger';
+
+// 'unbooked': a driver cancelling a ride nobody had booked
+export type CancellationStage = 'unbooked' | 'grace' | 'advance' | 'late' | 'en_route';
+
+export interface CancellationPolicy {
+  // Free for this many minutes after the booking is made
+  graceMin: number;
+  // Free while departure is at least this many minutes away
+  freeBeforeDepartureMin: number;
+  // After that: a flat fee plus a percentage of the booking's fare
+  lateFee: number;
+  lateFeePercent: number;
+  // Once the driver has started the trip and is on the way
+  enRouteFee: number;
+  enRouteFeePercent: number;
+}
+
+export type CancellationPolicies = Record<CancellationActor, CancellationPolicy>;
+
+/**
+ * Built-in policies, used when the cancellation_policies table has no active
+ * rows. Seeded into the table with the same values.
+ */
+export const DEFAULT_CANCELLATION_POLICIES: CancellationPolicies = {
+  passenger: {
+    graceMin: 2,
+    freeBeforeDepartureMin: 60,
+    lateFee: 2,
+    lateFeePercent: 0,
+    enRouteFee: 3,
+    enRouteFeePercent: 20,
+  },
+  driver: {
+    graceMin: 2,
+    freeBeforeDepartureMin: 60,
+    lateFee: 3,
+    lateFeePercent: 0,
+    enRouteFee: 5,
+    enRouteFeePercent: 0,
+  },
+};
+
+// Only cancellations that cost someone money count against reliability
+export const CHARGEABLE_STAGES: CancellationStage[] = ['late', 'en_route'];
+
+// Everyone starts as if they had completed this many rides without cancelling
+export const RELIABILITY_PRIOR_RIDES = 4;
+
+export interface CancellationInput {
+  bookedAt: Date;
+  // The ride's departure time; its creation for "leave now" rides
+  departureAt: Date;
+  // The driver has started the trip
+  enRoute: boolean;
+  fare: number;
+  now?: Date;
+}
+
+export interface CancellationQuote {
+  stage: CancellationStage;
+  fee: number;
+}
+
+/**
+ * CANCELLATION FEE for one booking. En route always costs the en-route fee;
+ * otherwise it is free within the grace period after booking or while
+ * departure is still far off, and the late fee after that. A fee never
+ * exceeds the booking's fare.
+ *
+ * Mirrored by quote_cancellation_fee() in the database; keep them in sync.
+ */
+export function quoteCancellationFee(
+  policy: CancellationPolicy,
+  input: CancellationInput
+): CancellationQuote {
+  const now = input.now ?? new Date();
+  const sinceBookingMin = (now.getTime() - input.bookedAt.getTime()) / 60000;
+  const untilDepartureMin = (input.departureAt.getTime() - now.getTime()) / 60000;
+
+  let stage: CancellationStage;
+  let fee: number;
+  if (input.enRoute) {
+    stage = 'en_route';
+    fee = policy.enRouteFee + (input.fare * policy.enRouteFeePercent) / 100;
+  } else if (sinceBookingMin <= policy.graceMin) {
+    stage = 'grace';
+    fee = 0;
+  } else if (untilDepartureMin >= policy.freeBeforeDepartureMin) {
+    stage = 'advance';
+    fee = 0;
+  } else {
+    stage = 'late';
+    fee = policy.lateFee + (input.fare * policy.lateFeePercent) / 100;
+  }
+
+  return { stage, fee: Math.round(Math.min(fee, input.fare) * 100) / 100 };
+}
+
+/**
+ * RELIABILITY: share of someone's commitments they kept, between 0 and 1.
+ * Free cancellations don't count; a prior of clean rides keeps one early
+ * cancellation from ruining a new user's score.
+ *
+ * Mirrored by refresh_profile_reliability() in the database.
+ */
+export function reliabilityScore(completedRides: number, chargeableCancellations: number): number {
+  const kept = completedRides + RELIABILITY_PRIOR_RIDES;
+  return kept / (kept + chargeableCancellations);
+}
@@ -0,0 +1,300 @@
+import { Location, haversineDistance } from './astar';
+import { createSeededRandom } from './routingBenchmark';
+
+/**
+ * CITY SIMULATION: synthetic drivers posting rides and passengers looking
+ * for one over a city, generated from a seed so algorithm variants can be
+ * compared on exactly the same day. Arrivals follow a demand curve over the
+ * hours of the day (a non-homogeneous Poisson process, sampled by thinning).
+ */
+
+export interface CityBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+// Relative demand (0 to 1) at a fractional local hour of the day
+export type DemandCurve = (hour: number) => number;
+
+// Hours between two times of day, across midnight if that's shorter
+function hoursApart(a: number, b: number): number {
+  const apart = Math.abs(a - b) % 24;
+  return Math.min(apart, 24 - apart);
+}
+
+function peak(hour: number, at: number, widthHours: number): number {
+  return Math.exp(-((hoursApart(hour, at) / widthHours) ** 2));
+}
+
+export const DEMAND_CURVES: Record<string, DemandCurve> = {
+  flat: () => 1,
+  // Morning and evening rush hours over a quieter day and a quiet night
+  commute: hour => 0.2 + 0.8 * Math.max(peak(hour, 8.5, 1.5), peak(hour, 17.5, 2)),
+  // Evenings out, busiest towards midnight
+  nightlife: hour => 0.15 + 0.85 * peak(hour, 23, 2.5),
+};
+
+export interface CityScenarioConfig {
+  seed: number;
+  start: Date;
+  durationHours: number;
+  bounds: CityBounds;
+  // Places trips start and end near more often, e.g. downtown or a station
+  hotspots?: Location[];
+  drivers: number;
+  passengers: number;
+  // Rides posted and passengers looking, per hour at the curve's peak
+  offersPerHour: number;
+  requestsPerHour: number;
+  demandCurve: DemandCurve;
+  // Defaults to the demand curve: drivers travel when everyone else does
+  supplyCurve?: DemandCurve;
+  // Longest a passenger waits for a departure before giving up
+  patienceMin?: number;
+}
+
+export interface SimulatedTrip {
+  pickup: Location & { address: string };
+  dropoff: Location & { address: string };
+}
+
+export interface RideOffer extends SimulatedTrip {
+  kind: 'offer';
+  at: Date;
+  driverId: string;
+  departure: Date;
+  seats: number;
+  vehicleType: string;
+  maxDetourMin: number;
+}
+
+export interface PassengerArrival extends SimulatedTrip {
+  kind: 'request';
+  at: Date;
+  passengerId: string;
+  seats: number;
+  maxPrice: number;
+  patienceMin: number;
+}
+
+export type ScenarioEvent = RideOffer | PassengerArrival;
+
+export interface SimulatedDriver {
+  id: string;
+  rating: number;
+  reliability: number;
+}
+
+export interface CityScenario {
+  drivers: SimulatedDriver[];
+  passengerIds: string[];
+  // Soonest first
+  events: ScenarioEvent[];
+}
+
+export const DEFAULT_PATIENCE_MIN = 45;
+// Share of trip ends drawn near a hotspot rather than anywhere in the city
+const HOTSPOT_SHARE = 0.5;
+const HOTSPOT_RADIUS_KM = 1.5;
+const MIN_TRIP_KM = 1;
+const KM_PER_DEGREE_LAT = 111.32;
+const VEHICLE_MIX: Array<[string, number]> = [
+  ['economy', 0.6],
+  ['comfort', 0.3],
+  ['premium', 0.1],
+];
+const SEAT_CHOICES = [2, 3, 3, 4];
+const DETOUR_CHOICES = [5, 10, 10, 15];
+
+function fractionalHour(date: Date): number {
+  return date.getHours() + date.getMinutes() / 60;
+}
+
+/**
+ * Generate the day's ride offers and passenger arrivals. The same config
+ * (seed included) always gives the same scenario.
+ */
+export function generateCityScenario(config: CityScenarioConfig): CityScenario {
+  const random = createSeededRandom(config.seed);
+  const hotspots = config.hotspots ?? [];
+  const patienceMin = config.patienceMin ?? DEFAULT_PATIENCE_MIN;
+  const endMs = config.start.getTime() + config.durationHours * 3600000;
+
+  const pickOne = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const between = (min: number, max: number) => min + random() * (max - min);
+
+  const drivers = Array.from({ length: config.drivers }, (_, i) => ({
+    id: `sim-driver-${i + 1}`,
+    rating: Math.round(between(4, 5) * 10) / 10,
+    reliability: Math.round(between(0.8, 1) * 100) / 100,
+  }));
+  const driverIds = drivers.map(driver => driver.id);
+  const passengerIds = Array.from({ length: config.passengers }, (_, i) => `sim-passenger-${i + 1}`);
+
+  const place = (): Location & { address: string } => {
+    let location: Location;
+    if (hotspots.length > 0 && random() < HOTSPOT_SHARE) {
+      const hotspot = pickOne(hotspots);
+      const distanceKm = Math.sqrt(random()) * HOTSPOT_RADIUS_KM;
+      const bearing = random() * 2 * Math.PI;
+      const latOffset = (distanceKm * Math.cos(bearing)) / KM_PER_DEGREE_LAT;
+      const lngOffset =
+        (distanceKm * Math.sin(bearing)) /
+        (KM_PER_DEGREE_LAT * Math.cos((hotspot.lat * Math.PI) / 180));
+      location = { lat: hotspot.lat + latOffset, lng: hotspot.lng + lngOffset };
+    } else {
+      location = {
+        lat: between(config.bounds.minLat, config.bounds.maxLat),
+        lng: between(config.bounds.minLng, config.bounds.maxLng),
+      };
+    }
+    return { ...location, address: `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}` };
+  };
+
+  const trip = (): SimulatedTrip => {
+    for (;;) {
+      const pickup = place();
+      const dropoff = place();
+      if (haversineDistance(pickup, dropoff) >= MIN_TRIP_KM) return { pickup, dropoff };
+    }
+  };
+
+  // Thinning: candidates at the peak rate, each kept with the curve's share
+  const arrivals = (perHour: number, curve: DemandCurve): Date[] => {
+    const times: Date[] = [];
+    if (perHour <= 0) return times;
+    let at = config.start.getTime();
+    for (;;) {
+      at += (-Math.log(1 - random()) / perHour) * 3600000;
+      if (at >= endMs) return times;
+      const time = new Date(at);
+      if (random() < curve(fractionalHour(time))) times.push(time);
+    }
+  };
+
+  const offers: RideOffer[] = arrivals(
+    config.offersPerHour,
+    config.supplyCurve ?? config.demandCurve
+  ).map(at => {
+    let vehicleType = VEHICLE_MIX[VEHICLE_MIX.length - 1][0];
+    let draw = random();
+    for (const [type, share] of VEHICLE_MIX) {
+      if (draw < share) {
+        vehicleType = type;
+        break;
+      }
+      draw -= share;
+    }
+    return {
+      kind: 'offer',
+      at,
+      driverId: pickOne(driverIds),
+      // Drivers post a quarter of an hour to an hour ahead
+      departure: new Date(at.getTime() + Math.round(between(15, 60)) * 60000),
+      seats: pickOne(SEAT_CHOICES),
+      vehicleType,
+      maxDetourMin: pickOne(DETOUR_CHOICES),
+      ...trip(),
+    };
+  });
+
+  const requests: PassengerArrival[] = arrivals(config.requestsPerHour, config.demandCurve).map(at => {
+    const route = trip();
+    return {
+      kind: 'request',
+      at,
+      passengerId: pickOne(passengerIds),
+      seats: random() < 0.85 ? 1 : 2,
+      // A budget per kilometre of their own trip
+      maxPrice:
+        Math.round((4 + haversineDistance(route.pickup, route.dropoff) * between(1.5, 3.5)) * 100) /
+        100,
+      patienceMin,
+      ...route,
+    };
+  });
+
+  const events = [...offers, ...requests].sort((a, b) => a.at.getTime() - b.at.getTime());
+  return { drivers, passengerIds, events };
+}
+
+export interface RequestOutcome {
+  passengerId: string;
+  requestedAt: Date;
+  seats: number;
+  // Searches made before booking or giving up
+  searches: number;
+  rideId?: string;
+  // From asking to the ride's departure
+  waitMin?: number;
+  // Minutes the pickup and dropoff add to the driver's trip
+  detourMin?: number;
+  fare?: number;
+}
+
+export interface RideOutcome {
+  rideId: string;
+  driverId: string;
+  seatsTotal: number;
+  seatsBooked: number;
+  durationMin: number;
+  status: 'completed' | 'cancelled' | 'open';
+}
+
+export interface SimulationRevenue {
+  // Fares captured from passengers on completed rides
+  grossFares: number;
+  platformRevenue: number;
+  driverEarnings: number;
+}
+
+export interface CitySimulationSummary {
+  requests: number;
+  matched: number;
+  matchRate: number;
+  avgWaitMin: number;
+  avgDetourMin: number;
+  avgSearches: number;
+  ridesOffered: number;
+  ridesCompleted: number;
+  // Booked seats over seats on completed rides
+  seatOccupancy: number;
+  // Share of the driving time on offer that carried passengers
+  driverUtilization: number;
+  revenue: SimulationRevenue;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+export function summarizeSimulation(
+  requests: RequestOutcome[],
+  rides: RideOutcome[],
+  revenue: SimulationRevenue
+): CitySimulationSummary {
+  const matched = requests.filter(r => r.rideId !== undefined);
+  const completed = rides.filter(r => r.status === 'completed');
+  const seatsOffered = completed.reduce((sum, r) => sum + r.seatsTotal, 0);
+  const seatsBooked = completed.reduce((sum, r) => sum + r.seatsBooked, 0);
+  const offeredMin = rides.reduce((sum, r) => sum + r.durationMin, 0);
+  const busyMin = completed
+    .filter(r => r.seatsBooked > 0)
+    .reduce((sum, r) => sum + r.durationMin, 0);
+
+  return {
+    requests: requests.length,
+    matched: matched.length,
+    matchRate: requests.length > 0 ? matched.length / requests.length : 0,
+    avgWaitMin: mean(matched.map(r => r.waitMin ?? 0)),
+    avgDetourMin: mean(matched.map(r => r.detourMin ?? 0)),
+    avgSearches: mean(requests.map(r => r.searches)),
+    ridesOffered: rides.length,
+    ridesCompleted: completed.length,
+    seatOccupancy: seatsOffered > 0 ? seatsBooked / seatsOffered : 0,
+    driverUtilization: offeredMin > 0 ? busyMin / offeredMin : 0,
+    revenue,
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { astarSearch } from './astar';
+import { bidirectionalAstarSearch } from './bidirectionalAstar';
+import {
+  buildContractionHierarchy,
+  contractionHierarchySearch,
+  deserializeContractionHierarchy,
+  serializeContractionHierarchy,
+} from './contractionHierarchy';
+import { RoadGraph, addRoadEdge, addRoadNode, createRoadGraph } from './roadGraph';
+
+const SIZE = 6;
+const id = (row: number, col: number) => `${row}-${col}`;
+
+/**
+ * A 6×6 street grid with uneven block sizes, a one-way eastbound row, a
+ * one-way northbound column and a diagonal that cuts a corner
+ */
+function buildGrid(): RoadGraph {
+  const graph = createRoadGraph();
+  for (let row = 0; row < SIZE; row++) {
+    for (let col = 0; col < SIZE; col++) {
+      addRoadNode(graph, id(row, col), {
+        lat: 37.76 + row * 0.004 + (col % 2) * 0.0007,
+        lng: -122.43 + col * 0.005 + (row % 3) * 0.0009,
+      });
+    }
+  }
+
+  const twoWay = (a: string, b: string, roadClass: string) => {
+    addRoadEdge(graph, a, b, roadClass);
+    addRoadEdge(graph, b, a, roadClass);
+  };
+  for (let row = 0; row < SIZE; row++) {
+    for (let col = 0; col < SIZE; col++) {
+      if (col < SIZE - 1) {
+        if (row === 2) addRoadEdge(graph, id(row, col), id(row, col + 1), 'primary');
+        else twoWay(id(row, col), id(row, col + 1), 'residential');
+      }
+      if (row < SIZE - 1) {
+        if (col === 4) addRoadEdge(graph, id(row, col), id(row + 1, col), 'secondary');
+        else twoWay(id(row, col), id(row + 1, col), 'residential');
+      }
+    }
+  }
+  twoWay(id(0, 0), id(3, 3), 'primary');
+  return graph;
+}
+
+const pathLength = (graph: RoadGraph, nodeIds: string[]) =>
+  nodeIds.slice(0, -1).reduce((sum, from, i) => {
+    const edge = graph.adjacency.get(from)!.find(e => e.to === nodeIds[i + 1]);
+    expect(edge, `${from} → ${nodeIds[i + 1]} is a road`).toBeDefined();
+    return sum + edge!.distanceKm;
+  }, 0);
+
+describe('contractionHierarchySearch', () => {
+  const graph = buildGrid();
+  const hierarchy = buildContractionHierarchy(graph);
+  const nodeIds = Array.from(graph.nodes.keys());
+
+  it('finds the same shortest distances as plain and bidirectional A*', () => {
+    for (const start of nodeIds) {
+      for (const goal of nodeIds) {
+        const expected = astarSearch(graph, start, goal)!;
+        const ch = contractionHierarchySearch(hierarchy, start, goal)!;
+        const bidirectional = bidirectionalAstarSearch(graph, start, goal)!;
+
+        expect(ch.distance).toBeCloseTo(expected.distance, 9);
+        expect(bidirectional.distance).toBeCloseTo(expected.distance, 9);
+        // Shortcuts unpack into road nodes along real edges
+        expect(ch.nodeIds[0]).toBe(start);
+        expect(ch.nodeIds[ch.nodeIds.length - 1]).toBe(goal);
+        expect(pathLength(graph, ch.nodeIds)).toBeCloseTo(expected.distance, 9);
+      }
+    }
+  });
+
+  it('respects one-way streets', () => {
+    const eastbound = contractionHierarchySearch(hierarchy, id(2, 1), id(2, 2))!;
+    const westbound = contractionHierarchySearch(hierarchy, id(2, 2), id(2, 1))!;
+
+    expect(eastbound.nodeIds).toEqual([id(2, 1), id(2, 2)]);
+    expect(westbound.nodeIds.length).toBeGreaterThan(2);
+    expect(westbound.distance).toBeGreaterThan(eastbound.distance);
+  });
+
+  it('answers the same after a round trip through the index file', () => {
+    const loaded = deserializeContractionHierarchy(
+      JSON.parse(JSON.stringify(serializeContractionHierarchy(hierarchy)))
+    );
+
+    for (const goal of nodeIds) {
+      const expected = contractionHierarchySearch(hierarchy, id(5, 0), goal)!;
+      const actual = contractionHierarchySearch(loaded, id(5, 0), goal)!;
+      // Weights are stored to the metre, which can tip a tie between equal routes
+      expect(actual.distance).toBeCloseTo(expected.distance, 2);
+      expect(pathLength(graph, actual.nodeIds)).toBeCloseTo(expected.distance, 2);
+    }
+  });
+
+  it('has no route for nodes outside the hierarchy', () => {
+    expect(contractionHierarchySearch(hierarchy, id(0, 0), 'nowhere')).toBeNull();
+  });
+});
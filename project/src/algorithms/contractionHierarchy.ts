@@ -0,0 +1,393 @@
+import { GraphSearchResult } from './astar';
+import { RoadGraph } from './roadGraph';
+import { createPriorityQueue } from './priorityQueue';
+
+/**
+ * Upward edges stored in compressed sparse row form: the edges of node i are
+ * targets[offsets[i]..offsets[i + 1]). middles holds the contracted node a
+ * shortcut bypasses, or -1 for an original road edge.
+ */
+interface UpwardEdges {
+  offsets: Int32Array;
+  targets: Int32Array;
+  weights: Float64Array;
+  middles: Int32Array;
+}
+
+export interface ContractionHierarchy {
+  nodeIds: string[];
+  indexById: Map<string, number>;
+  rank: Int32Array;
+  // u → w with rank[w] > rank[u], used by the forward search
+  up: UpwardEdges;
+  // w → u with rank[w] > rank[u], stored at u, used by the backward search
+  down: UpwardEdges;
+}
+
+/**
+ * On-disk format of the preprocessed index: flat number arrays so the file
+ * stays compact and loads without rebuilding the hierarchy
+ */
+export interface SerializedContractionHierarchy {
+  version: 1;
+  nodeIds: string[];
+  rank: number[];
+  up: { offsets: number[]; targets: number[]; weights: number[]; middles: number[] };
+  down: { offsets: number[]; targets: number[]; weights: number[]; middles: number[] };
+}
+
+interface DynamicEdge {
+  weight: number;
+  middle: number;
+}
+
+// Witness searches give up after settling this many nodes; a missed witness
+// only adds a redundant shortcut, never a wrong distance
+const WITNESS_SETTLE_LIMIT = 60;
+
+/**
+ * OFFLINE PREPROCESSING: contract nodes in order of importance (edge
+ * difference + contracted neighbours, with lazy priority updates), adding
+ * shortcuts wherever a witness search cannot find an alternative path.
+ */
+export function buildContractionHierarchy(graph: RoadGraph): ContractionHierarchy {
+  const nodeIds = Array.from(graph.nodes.keys());
+  const indexById = new Map(nodeIds.map((id, index) => [id, index]));
+  const n = nodeIds.length;
+
+  const outEdges: Array<Map<number, DynamicEdge>> = nodeIds.map(() => new Map());
+  const inEdges: Array<Map<number, DynamicEdge>> = nodeIds.map(() => new Map());
+
+  for (const [fromId, edges] of graph.adjacency) {
+    const from = indexById.get(fromId)!;
+    for (const edge of edges) {
+      const to = indexById.get(edge.to)!;
+      setEdgeIfShorter(outEdges, inEdges, from, to, edge.distanceKm, -1);
+    }
+  }
+
+  const contracted = new Uint8Array(n);
+  const contractedNeighbors = new Int32Array(n);
+  const rank = new Int32Array(n);
+  const upLists: Array<Array<[number, DynamicEdge]>> = nodeIds.map(() => []);
+  const downLists: Array<Array<[number, DynamicEdge]>> = nodeIds.map(() => []);
+  const witnessSearch = createWitnessSearch(outEdges, contracted);
+
+  const findShortcuts = (node: number) => {
+    const shortcuts: Array<{ from: number; to: number; weight: number }> = [];
+
+    for (const [from, inEdge] of inEdges[node]) {
+      if (contracted[from]) continue;
+
+      let maxWeight = 0;
+      for (const [to, outEdge] of outEdges[node]) {
+        if (to !== from && !contracted[to]) {
+          maxWeight = Math.max(maxWeight, inEdge.weight + outEdge.weight);
+        }
+      }
+      if (maxWeight === 0) continue;
+
+      const witnessDistance = witnessSearch(from, node, maxWeight);
+
+      for (const [to, outEdge] of outEdges[node]) {
+        if (to === from || contracted[to]) continue;
+        const viaNode = inEdge.weight + outEdge.weight;
+        if (witnessDistance(to) > viaNode) {
+          shortcuts.push({ from, to, weight: viaNode });
+        }
+      }
+    }
+
+    return shortcuts;
+  };
+
+  const priorityOf = (node: number) => {
+    const removedEdges = inEdges[node].size + outEdges[node].size;
+    return findShortcuts(node).length - removedEdges + contractedNeighbors[node];
+  };
+
+  const queue = createPriorityQueue<number>();
+  for (let node = 0; node < n; node++) {
+    queue.push(node, priorityOf(node));
+  }
+
+  let nextRank = 0;
+  while (queue.size > 0) {
+    const node = queue.pop()!;
+    if (contracted[node]) continue;
+
+    // Lazy update: re-queue if the node became more important meanwhile
+    const priority = priorityOf(node);
+    if (queue.size > 0 && priority > queue.peekPriority()) {
+      queue.push(node, priority);
+      continue;
+    }
+
+    for (const shortcut of findShortcuts(node)) {
+      setEdgeIfShorter(outEdges, inEdges, shortcut.from, shortcut.to, shortcut.weight, node);
+    }
+
+    for (const [to, edge] of outEdges[node]) {
+      if (contracted[to]) continue;
+      upLists[node].push([to, edge]);
+      inEdges[to].delete(node);
+      contractedNeighbors[to]++;
+    }
+    for (const [from, edge] of inEdges[node]) {
+      if (contracted[from]) continue;
+      downLists[node].push([from, edge]);
+      outEdges[from].delete(node);
+      contractedNeighbors[from]++;
+    }
+
+    contracted[node] = 1;
+    rank[node] = nextRank++;
+  }
+
+  return {
+    nodeIds,
+    indexById,
+    rank,
+    up: toCompressedEdges(upLists),
+    down: toCompressedEdges(downLists),
+  };
+}
+
+function setEdgeIfShorter(
+  outEdges: Array<Map<number, DynamicEdge>>,
+  inEdges: Array<Map<number, DynamicEdge>>,
+  from: number,
+  to: number,
+  weight: number,
+  middle: number
+) {
+  if (from === to) return;
+  const existing = outEdges[from].get(to);
+  if (existing && existing.weight <= weight) return;
+
+  const edge = { weight, middle };
+  outEdges[from].set(to, edge);
+  inEdges[to].set(from, edge);
+}
+
+/**
+ * Dijkstra from source over uncontracted nodes, skipping the node being
+ * contracted. Scratch arrays are shared between calls; only touched entries
+ * are reset.
+ */
+function createWitnessSearch(
+  outEdges: Array<Map<number, DynamicEdge>>,
+  contracted: Uint8Array
+) {
+  const distances = new Float64Array(outEdges.length).fill(Infinity);
+  const settledStamp = new Int32Array(outEdges.length);
+  let stamp = 0;
+  const touched: number[] = [];
+
+  return (source: number, excluded: number, maxWeight: number) => {
+    for (const node of touched) distances[node] = Infinity;
+    touched.length = 0;
+    stamp++;
+
+    distances[source] = 0;
+    touched.push(source);
+    const queue = createPriorityQueue<number>();
+    queue.push(source, 0);
+    let settledCount = 0;
+
+    while (queue.size > 0 && settledCount < WITNESS_SETTLE_LIMIT) {
+      const current = queue.pop()!;
+      if (settledStamp[current] === stamp) continue;
+      settledStamp[current] = stamp;
+      settledCount++;
+
+      const currentDistance = distances[current];
+      if (currentDistance > maxWeight) break;
+
+      for (const [to, edge] of outEdges[current]) {
+        if (to === excluded || contracted[to]) continue;
+        const distance = currentDistance + edge.weight;
+        if (distance < distances[to]) {
+          if (distances[to] === Infinity) touched.push(to);
+          distances[to] = distance;
+          queue.push(to, distance);
+        }
+      }
+    }
+
+    return (node: number) => distances[node];
+  };
+}
+
+function toCompressedEdges(lists: Array<Array<[number, DynamicEdge]>>): UpwardEdges {
+  const total = lists.reduce((sum, list) => sum + list.length, 0);
+  const offsets = new Int32Array(lists.length + 1);
+  const targets = new Int32Array(total);
+  const weights = new Float64Array(total);
+  const middles = new Int32Array(total);
+
+  let position = 0;
+  lists.forEach((list, node) => {
+    offsets[node] = position;
+    for (const [target, edge] of list) {
+      targets[position] = target;
+      weights[position] = edge.weight;
+      middles[position] = edge.middle;
+      position++;
+    }
+  });
+  offsets[lists.length] = position;
+
+  return { offsets, targets, weights, middles };
+}
+
+/**
+ * CH QUERY: bidirectional Dijkstra where both searches only climb to
+ * higher-ranked nodes. Shortcuts are unpacked back into road nodes.
+ */
+export function contractionHierarchySearch(
+  hierarchy: ContractionHierarchy,
+  startId: string,
+  goalId: string
+): GraphSearchResult | null {
+  const start = hierarchy.indexById.get(startId);
+  const goal = hierarchy.indexById.get(goalId);
+  if (start === undefined || goal === undefined) return null;
+
+  const forward = upwardSearch(hierarchy.up, start);
+  const backward = upwardSearch(hierarchy.down, goal);
+
+  let bestDistance = Infinity;
+  let meetingNode = -1;
+  for (const [node, distance] of forward.distances) {
+    const otherDistance = backward.distances.get(node);
+    if (otherDistance !== undefined && distance + otherDistance < bestDistance) {
+      bestDistance = distance + otherDistance;
+      meetingNode = node;
+    }
+  }
+
+  if (meetingNode === -1) return null;
+
+  // Walk parents back to the meeting node, then unpack each (possibly shortcut) edge
+  const upChain: number[] = [meetingNode];
+  while (upChain[0] !== start) upChain.unshift(forward.parents.get(upChain[0])!);
+  const downChain: number[] = [meetingNode];
+  while (downChain[downChain.length - 1] !== goal) {
+    downChain.push(backward.parents.get(downChain[downChain.length - 1])!);
+  }
+
+  const chain = [...upChain, ...downChain.slice(1)];
+  const path: number[] = [chain[0]];
+  for (let i = 0; i < chain.length - 1; i++) {
+    unpackEdge(hierarchy, chain[i], chain[i + 1], path);
+  }
+
+  return {
+    nodeIds: path.map(index => hierarchy.nodeIds[index]),
+    distance: bestDistance,
+    nodesExpanded: forward.settledCount + backward.settledCount,
+  };
+}
+
+function upwardSearch(edges: UpwardEdges, origin: number) {
+  const distances = new Map<number, number>([[origin, 0]]);
+  const parents = new Map<number, number>();
+  const settled = new Set<number>();
+  const queue = createPriorityQueue<number>();
+  queue.push(origin, 0);
+
+  while (queue.size > 0) {
+    const current = queue.pop()!;
+    if (settled.has(current)) continue;
+    settled.add(current);
+
+    const currentDistance = distances.get(current)!;
+    for (let e = edges.offsets[current]; e < edges.offsets[current + 1]; e++) {
+      const to = edges.targets[e];
+      const distance = currentDistance + edges.weights[e];
+      if (distance < (distances.get(to) ?? Infinity)) {
+        distances.set(to, distance);
+        parents.set(to, current);
+        queue.push(to, distance);
+      }
+    }
+  }
+
+  return { distances, parents, settledCount: settled.size };
+}
+
+/**
+ * Append the road nodes of edge from → to (excluding from) to path,
+ * recursively expanding shortcuts through their middle node
+ */
+function unpackEdge(hierarchy: ContractionHierarchy, from: number, to: number, path: number[]) {
+  const middle = findEdgeMiddle(hierarchy, from, to);
+  if (middle === -1) {
+    path.push(to);
+    return;
+  }
+  unpackEdge(hierarchy, from, middle, path);
+  unpackEdge(hierarchy, middle, to, path);
+}
+
+function findEdgeMiddle(hierarchy: ContractionHierarchy, from: number, to: number): number {
+  // An edge is stored at its lower-ranked endpoint
+  const lowerIsFrom = hierarchy.rank[from] < hierarchy.rank[to];
+  const edges = lowerIsFrom ? hierarchy.up : hierarchy.down;
+  const owner = lowerIsFrom ? from : to;
+  const target = lowerIsFrom ? to : from;
+
+  let best = -1;
+  let bestWeight = Infinity;
+  for (let e = edges.offsets[owner]; e < edges.offsets[owner + 1]; e++) {
+    if (edges.targets[e] === target && edges.weights[e] < bestWeight) {
+      bestWeight = edges.weights[e];
+      best = edges.middles[e];
+    }
+  }
+  return best;
+}
+
+export function serializeContractionHierarchy(
+  hierarchy: ContractionHierarchy
+): SerializedContractionHierarchy {
+  const serializeEdges = (edges: UpwardEdges) => ({
+    offsets: Array.from(edges.offsets),
+    targets: Array.from(edges.targets),
+    // Metre precision is plenty and keeps the file small
+    weights: Array.from(edges.weights, weight => Math.round(weight * 1000) / 1000),
+    middles: Array.from(edges.middles),
+  });
+
+  return {
+    version: 1,
+    nodeIds: hierarchy.nodeIds,
+    rank: Array.from(hierarchy.rank),
+    up: serializeEdges(hierarchy.up),
+    down: serializeEdges(hierarchy.down),
+  };
+}
+
+export function deserializeContractionHierarchy(
+  data: SerializedContractionHierarchy
+): ContractionHierarchy {
+  if (data.version !== 1) {
+    throw new Error(`Unsupported contraction hierarchy version: ${data.version}`);
+  }
+
+  const deserializeEdges = (edges: SerializedContractionHierarchy['up']): UpwardEdges => ({
+    offsets: Int32Array.from(edges.offsets),
+    targets: Int32Array.from(edges.targets),
+    weights: Float64Array.from(edges.weights),
+    middles: Int32Array.from(edges.middles),
+  });
+
+  return {
+    nodeIds: data.nodeIds,
+    indexById: new Map(data.nodeIds.map((id, index) => [id, index])),
+    rank: Int32Array.from(data.rank),
+    up: deserializeEdges(data.up),
+    down: deserializeEdges(data.down),
+  };
+}
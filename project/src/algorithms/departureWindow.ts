@@ -0,0 +1,54 @@
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface ScheduledRide {
+  departure_time?: string | null;
+  departure_flex_min?: number | null;
+  created_at: string;
+}
+
+export const DEFAULT_DEPARTURE_FLEX_MIN = 15;
+
+/**
+ * DEPARTURE WINDOW: a ride leaves at departure_time give or take
+ * departure_flex_min minutes. Rides from before scheduling existed depart
+ * when they were created.
+ */
+export function rideDepartureWindow(ride: ScheduledRide): TimeWindow {
+  const departure = new Date(ride.departure_time ?? ride.created_at).getTime();
+  const flexMs = (ride.departure_flex_min ?? DEFAULT_DEPARTURE_FLEX_MIN) * 60000;
+  return { start: new Date(departure - flexMs), end: new Date(departure + flexMs) };
+}
+
+export function windowsOverlap(a: TimeWindow, b: TimeWindow): boolean {
+  return a.start.getTime() <= b.end.getTime() && b.start.getTime() <= a.end.getTime();
+}
+
+/**
+ * A ride whose whole window is in the past can no longer be caught
+ */
+export function isDepartureExpired(ride: ScheduledRide, now: Date = new Date()): boolean {
+  return rideDepartureWindow(ride).end.getTime() < now.getTime();
+}
+
+/**
+ * Passenger search window centred on the time they want to leave, never
+ * starting in the past
+ */
+export function searchWindow(departAt: Date, toleranceMin: number, now: Date = new Date()): TimeWindow {
+  const toleranceMs = toleranceMin * 60000;
+  return {
+    start: new Date(Math.max(departAt.getTime() - toleranceMs, now.getTime())),
+    end: new Date(departAt.getTime() + toleranceMs),
+  };
+}
+
+/**
+ * Format a date for a datetime-local input, in the browser's time zone
+ */
+export function toLocalInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
@@ -0,0 +1,113 @@
+import { Location, RoutingOptions } from './astar';
+import { RoadGraph } from './roadGraph';
+import { RouteStop, planMultiStopRoute, routeStopSequence } from './stopOrdering';
+
+export interface DetourResult {
+  // Driver's own pickup → dropoff route, via the stops already booked
+  directDistanceKm: number;
+  directDurationMin: number;
+  // The same with the passenger's pickup and dropoff added
+  sharedDistanceKm: number;
+  sharedDurationMin: number;
+  // Extra distance and time the driver incurs for the passenger
+  detourKm: number;
+  detourMin: number;
+  // Time from the driver's start until the passenger is picked up
+  pickupEtaMin: number;
+}
+
+// Detour drivers accept when they haven't set their own cap
+export const DEFAULT_MAX_DETOUR_MIN = 15;
+
+/**
+ * DETOUR: cost of inserting a passenger's pickup and dropoff into the
+ * driver's route, which already makes the stops of passengers booked on the
+ * ride. The pickup must precede the dropoff and the driver's own endpoints are
+ * fixed, so with nobody booked the only insertion is start → pickup → dropoff
+ * → end; otherwise planMultiStopRoute orders the stops with and without the
+ * passenger.
+ */
+export function calculateDetour(
+  driverStart: Location,
+  driverEnd: Location,
+  pickup: Location,
+  dropoff: Location,
+  graph?: RoadGraph | null,
+  options: RoutingOptions = {},
+  bookedStops: RouteStop[] = []
+): DetourResult {
+  const passengerStops: RouteStop[] = [
+    { id: 'detour:pickup', location: pickup, type: 'pickup', passengerId: 'detour' },
+    { id: 'detour:dropoff', location: dropoff, type: 'dropoff', passengerId: 'detour' },
+  ];
+  const plan = (stops: RouteStop[]) =>
+    bookedStops.length === 0
+      ? { order: stops, ...routeStopSequence(driverStart, driverEnd, stops, graph, options) }
+      : planMultiStopRoute(driverStart, driverEnd, stops, graph, options);
+
+  const direct = plan(bookedStops);
+  const shared = plan([...bookedStops, ...passengerStops]);
+  // Leg i of the route ends at its i-th stop
+  const pickupLeg = shared.order.indexOf(passengerStops[0]);
+  const pickupEtaMin = shared.legs
+    .slice(0, pickupLeg + 1)
+    .reduce((sum, leg) => sum + leg.durationMin, 0);
+
+  return {
+    directDistanceKm: direct.totalDistance,
+    directDurationMin: direct.totalDuration,
+    sharedDistanceKm: shared.totalDistance,
+    sharedDurationMin: shared.totalDuration,
+    detourKm: Math.max(0, shared.totalDistance - direct.totalDistance),
+    detourMin: Math.max(0, shared.totalDuration - direct.totalDuration),
+    pickupEtaMin,
+  };
+}
+
+/**
+ * Match score out of 100: falls linearly with the detour as a share of the
+ * driver's cap, with a smaller penalty for how far the passenger is from the
+ * driver's pickup. Rides over the cap score 0.
+ */
+export function detourMatchScore(
+  detour: DetourResult,
+  pickupDistanceKm: number,
+  maxDetourMin: number = DEFAULT_MAX_DETOUR_MIN
+): number {
+  if (detour.detourMin > maxDetourMin) return 0;
+  const detourShare = maxDetourMin > 0 ? detour.detourMin / maxDetourMin : 0;
+  return Math.max(0, 100 - detourShare * 70 - pickupDistanceKm * 6);
+}
+
+export interface RideMatchScore {
+  detourKm: number;
+  detourMin: number;
+  withinDetourCap: boolean;
+  matchScore: number;
+}
+
+/**
+ * How well a passenger's trip fits a driver's route, with the stops already
+ * booked on it: the detour to carry them, whether it's within the driver's
+ * cap, and the match score. This is the scoring ride search results are
+ * ranked by.
+ */
+export function scoreRideMatch(
+  driverStart: Location,
+  driverEnd: Location,
+  pickup: Location,
+  dropoff: Location,
+  pickupDistanceKm: number,
+  maxDetourMin: number = DEFAULT_MAX_DETOUR_MIN,
+  graph?: RoadGraph | null,
+  options: RoutingOptions = {},
+  bookedStops: RouteStop[] = []
+): RideMatchScore {
+  const detour = calculateDetour(driverStart, driverEnd, pickup, dropoff, graph, options, bookedStops);
+  return {
+    detourKm: detour.detourKm,
+    detourMin: detour.detourMin,
+    withinDetourCap: detour.detourMin <= maxDetourMin,
+    matchScore: detourMatchScore(detour, pickupDistanceKm, maxDetourMin),
+  };
+}
@@ -0,0 +1,287 @@
+import { Location, haversineDistance } from './astar';
+
+export interface FareRates {
+  baseFare: number;
+  perKm: number;
+  perMinute: number;
+  minimumFare: number;
+  bookingFee: number;
+  nightMultiplier: number;
+  weekendMultiplier: number;
+}
+
+/**
+ * Circular pricing zone (airport, downtown…). Overrides are keyed by vehicle
+ * type, with '*' applying to every type.
+ */
+export interface FareZone {
+  id: string;
+  name: string;
+  center: Location;
+  radiusKm: number;
+  overrides: Record<string, Partial<FareRates>>;
+}
+
+export interface FareRules {
+  currency: string;
+  // Rates per vehicle type; 'default' is used for unknown types
+  vehicleTypes: Record<string, FareRates>;
+  zones: FareZone[];
+  // Night multiplier applies from nightStartHour until nightEndHour (local time)
+  nightStartHour: number;
+  nightEndHour: number;
+}
+
+export interface FareQuoteInput {
+  distanceKm: number;
+  durationMin: number;
+  vehicleType: string;
+  departureTime?: Date;
+  pickup?: Location;
+  // Demand multiplier for the pickup cell (see surge.ts); 1 = no surge
+  surgeMultiplier?: number;
+}
+
+export type FareLineItemCode =
+  | 'base_fare'
+  | 'distance'
+  | 'time'
+  | 'night_surcharge'
+  | 'weekend_surcharge'
+  | 'surge'
+  | 'minimum_fare'
+  | 'booking_fee';
+
+export interface FareLineItem {
+  code: FareLineItemCode;
+  label: string;
+  amount: number;
+}
+
+export interface FareBreakdown {
+  currency: string;
+  vehicleType: string;
+  zoneId?: string;
+  surgeMultiplier?: number;
+  items: FareLineItem[];
+  total: number;
+}
+
+const NO_SURCHARGE = { minimumFare: 0, bookingFee: 0, nightMultiplier: 1, weekendMultiplier: 1 };
+
+// Matches the original flat pricing: 2.5 base fare plus a per-km rate
+export const DEFAULT_FARE_RULES: FareRules = {
+  currency: 'USD',
+  vehicleTypes: {
+    economy: { baseFare: 2.5, perKm: 1.0, perMinute: 0, ...NO_SURCHARGE },
+    comfort: { baseFare: 2.5, perKm: 1.5, perMinute: 0, ...NO_SURCHARGE },
+    premium: { baseFare: 2.5, perKm: 2.5, perMinute: 0, ...NO_SURCHARGE },
+    default: { baseFare: 2.5, perKm: 1.2, perMinute: 0, ...NO_SURCHARGE },
+  },
+  zones: [],
+  nightStartHour: 22,
+  nightEndHour: 6,
+};
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Rates for a vehicle type, with the overrides of the first zone containing
+ * the pickup applied on top
+ */
+export function resolveFareRates(
+  rules: FareRules,
+  vehicleType: string,
+  pickup?: Location
+): { rates: FareRates; zone?: FareZone } {
+  const baseRates = rules.vehicleTypes[vehicleType] ?? rules.vehicleTypes.default;
+  if (!baseRates) {
+    throw new Error(`No fare rates configured for vehicle type "${vehicleType}"`);
+  }
+
+  const zone = pickup
+    ? rules.zones.find(z => haversineDistance(pickup, z.center) <= z.radiusKm)
+    : undefined;
+
+  if (!zone) return { rates: baseRates };
+
+  return {
+    rates: { ...baseRates, ...zone.overrides['*'], ...zone.overrides[vehicleType] },
+    zone,
+  };
+}
+
+/**
+ * How much of a ride a booking spans: each stop clamped onto the line from the
+ * ride's pickup to its dropoff, and the share between them taken of the ride's
+ * own distance. Kept in sync with ride_leg_km() in the validate_booking_fares
+ * migration, which won't take a fare for less.
+ */
+export function rideLegKm(
+  ride: { pickup: Location; dropoff: Location; distanceKm: number },
+  pickup: Location,
+  dropoff: Location
+): number {
+  // Degrees of longitude shrink away from the equator; flat is close enough over a city
+  const lngScale = Math.cos((ride.pickup.lat * Math.PI) / 180);
+  const dx = (ride.dropoff.lng - ride.pickup.lng) * lngScale;
+  const dy = ride.dropoff.lat - ride.pickup.lat;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return 0;
+
+  const along = (stop: Location) => {
+    const t = ((stop.lng - ride.pickup.lng) * lngScale * dx + (stop.lat - ride.pickup.lat) * dy) / lengthSq;
+    return Math.min(1, Math.max(0, t));
+  };
+  return Math.abs(along(dropoff) - along(pickup)) * ride.distanceKm;
+}
+
+/**
+ * The leg a booking's fare is checked against: the longer of the straight line
+ * between its stops, which no road route undercuts, and rideLegKm().
+ * booking_leg_km() in the validate_booking_fares migration.
+ */
+export function bookingLegKm(
+  ride: { pickup: Location; dropoff: Location; distanceKm: number },
+  pickup: Location,
+  dropoff: Location
+): number {
+  return Math.max(haversineDistance(pickup, dropoff), rideLegKm(ride, pickup, dropoff));
+}
+
+/**
+ * The least the rules can charge for `seats` on a leg of legKm, less 5 cents
+ * a seat for the quote's rounding: booking_fare_floor() in the
+ * validate_booking_fares migration. Time, surge and surcharges above 1 only
+ * add, so an honest quote is never below it; night and weekend discounts are
+ * assumed to apply, at the rates of the cheapest zone containing the pickup.
+ */
+export function bookingFareFloor(
+  rules: FareRules,
+  vehicleType: string,
+  pickup: Location,
+  legKm: number,
+  seats: number
+): number {
+  const { rates: cityRates } = resolveFareRates(rules, vehicleType);
+  const zones = rules.zones.filter(zone => haversineDistance(pickup, zone.center) <= zone.radiusKm);
+  const candidates = zones.length
+    ? zones.map(zone => ({ ...cityRates, ...zone.overrides['*'], ...zone.overrides[vehicleType] }))
+    : [cityRates];
+
+  const lowest = Math.min(
+    ...candidates.map(rates => {
+      const metered = roundCurrency(rates.baseFare) + roundCurrency(legKm * rates.perKm);
+      const discount =
+        Math.min(0, rates.nightMultiplier - 1) + Math.min(0, rates.weekendMultiplier - 1);
+      return Math.max(metered * (1 + discount), rates.minimumFare) + rates.bookingFee;
+    })
+  );
+  return Math.max(0, roundCurrency(lowest * seats) - 0.05 * seats);
+}
+
+function isNight(rules: FareRules, date: Date): boolean {
+  const hour = date.getHours();
+  return rules.nightStartHour > rules.nightEndHour
+    ? hour >= rules.nightStartHour || hour < rules.nightEndHour
+    : hour >= rules.nightStartHour && hour < rules.nightEndHour;
+}
+
+/**
+ * FARE ENGINE: itemised quote for a trip.
+ *
+ * Metered fare = base + distance + time. Night, weekend and surge multipliers
+ * apply to the metered fare, the minimum fare tops it up, and the booking fee
+ * is added on top. Every item is rounded to cents, so items sum to the total.
+ */
+export function quoteFare(
+  input: FareQuoteInput,
+  rules: FareRules = DEFAULT_FARE_RULES
+): FareBreakdown {
+  const { rates, zone } = resolveFareRates(rules, input.vehicleType, input.pickup);
+  const items: FareLineItem[] = [];
+
+  const addItem = (code: FareLineItemCode, label: string, amount: number) => {
+    const rounded = roundCurrency(amount);
+    if (rounded !== 0 || code === 'base_fare') {
+      items.push({ code, label, amount: rounded });
+    }
+  };
+
+  addItem('base_fare', 'Base fare', rates.baseFare);
+  addItem(
+    'distance',
+    `Distance (${input.distanceKm.toFixed(1)} km × ${rates.perKm.toFixed(2)})`,
+    input.distanceKm * rates.perKm
+  );
+  addItem(
+    'time',
+    `Time (${Math.round(input.durationMin)} min × ${rates.perMinute.toFixed(2)})`,
+    input.durationMin * rates.perMinute
+  );
+
+  const metered = items.reduce((sum, item) => sum + item.amount, 0);
+
+  if (input.departureTime) {
+    if (isNight(rules, input.departureTime) && rates.nightMultiplier !== 1) {
+      addItem('night_surcharge', `Night (×${rates.nightMultiplier})`, metered * (rates.nightMultiplier - 1));
+    }
+    const day = input.departureTime.getDay();
+    if ((day === 0 || day === 6) && rates.weekendMultiplier !== 1) {
+      addItem('weekend_surcharge', `Weekend (×${rates.weekendMultiplier})`, metered * (rates.weekendMultiplier - 1));
+    }
+  }
+
+  const surgeMultiplier = input.surgeMultiplier ?? 1;
+  if (surgeMultiplier > 1) {
+    addItem('surge', `Surge (×${surgeMultiplier.toFixed(1)})`, metered * (surgeMultiplier - 1));
+  }
+
+  const fareBeforeFees = items.reduce((sum, item) => sum + item.amount, 0);
+  if (fareBeforeFees < rates.minimumFare) {
+    addItem('minimum_fare', 'Minimum fare adjustment', rates.minimumFare - fareBeforeFees);
+  }
+
+  addItem('booking_fee', 'Booking fee', rates.bookingFee);
+
+  return {
+    currency: rules.currency,
+    vehicleType: input.vehicleType,
+    zoneId: zone?.id,
+    surgeMultiplier: surgeMultiplier > 1 ? surgeMultiplier : undefined,
+    items,
+    total: roundCurrency(items.reduce((sum, item) => sum + item.amount, 0)),
+  };
+}
+
+/**
+ * Parse a rules file. Vehicle types and zones may list only the rates they
+ * change; everything else falls back to DEFAULT_FARE_RULES.
+ */
+export function parseFareRules(data: {
+  currency?: string;
+  vehicleTypes?: Record<string, Partial<FareRates>>;
+  zones?: FareZone[];
+  nightStartHour?: number;
+  nightEndHour?: number;
+}): FareRules {
+  const defaults = DEFAULT_FARE_RULES;
+  const vehicleTypes: Record<string, FareRates> = { ...defaults.vehicleTypes };
+
+  for (const [vehicleType, rates] of Object.entries(data.vehicleTypes ?? {})) {
+    vehicleTypes[vehicleType] = {
+      ...(defaults.vehicleTypes[vehicleType] ?? defaults.vehicleTypes.default),
+      ...rates,
+    };
+  }
+
+  return {
+    currency: data.currency ?? defaults.currency,
+    vehicleTypes,
+    zones: data.zones ?? [],
+    nightStartHour: data.nightStartHour ?? defaults.nightStartHour,
+    nightEndHour: data.nightEndHour ?? defaults.nightEndHour,
+  };
+}
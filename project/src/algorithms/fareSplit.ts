@@ -0,0 +1,125 @@
+import { Location } from './astar';
+import { MultiStopRoute, RouteStop } from './stopOrdering';
+import { toCents, fromCents } from './ledger';
+
+export interface FareSplitRider {
+  // Booking id; pairs the rider's pickup and dropoff stops on the route
+  id: string;
+  seats: number;
+  pickup: Location;
+  dropoff: Location;
+}
+
+export interface FareShare {
+  riderId: string;
+  seats: number;
+  // Route distance this rider was on board for, and how much of it with others
+  distanceKm: number;
+  sharedDistanceKm: number;
+  amount: number;
+}
+
+export interface FareSplit {
+  total: number;
+  routeDistanceKm: number;
+  // Route distance with at least one rider on board
+  occupiedDistanceKm: number;
+  shares: FareShare[];
+}
+
+/**
+ * Pickup and dropoff stops for the riders, to plan the ride's route with
+ * planMultiStopRoute before splitting the fare over it
+ */
+export function fareSplitStops(riders: FareSplitRider[]): RouteStop[] {
+  return riders.flatMap(rider => [
+    { id: `${rider.id}:pickup`, location: rider.pickup, type: 'pickup' as const, passengerId: rider.id },
+    { id: `${rider.id}:dropoff`, location: rider.dropoff, type: 'dropoff' as const, passengerId: rider.id },
+  ]);
+}
+
+/**
+ * FARE SPLITTING: divide the ride's total among pooled riders by the distance
+ * each actually rode.
+ *
+ * The route is walked leg by leg. Each leg's cost is proportional to its
+ * length and split among the riders on board by seats, so two riders sharing
+ * a stretch each pay half of it. Legs the driver covers alone (to the first
+ * pickup, after the last dropoff) are spread over the occupied ones in
+ * proportion, since the riders together owe the whole fare.
+ *
+ * Amounts are allocated in cents by largest remainder, so the shares always
+ * sum exactly to the total. With no riders there is nothing to split.
+ */
+export function splitFare(
+  total: number,
+  route: Pick<MultiStopRoute, 'order' | 'legs'>,
+  riders: FareSplitRider[]
+): FareSplit {
+  const ridden = new Map(riders.map(rider => [rider.id, { distanceKm: 0, sharedDistanceKm: 0, weight: 0 }]));
+  const onBoard = new Set<string>();
+  let occupiedDistanceKm = 0;
+
+  // Leg i leaves stop i - 1 (leg 0 leaves the driver's start)
+  route.legs.forEach((leg, i) => {
+    const stop = i > 0 ? route.order[i - 1] : undefined;
+    if (stop?.passengerId && ridden.has(stop.passengerId)) {
+      if (stop.type === 'pickup') onBoard.add(stop.passengerId);
+      if (stop.type === 'dropoff') onBoard.delete(stop.passengerId);
+    }
+    if (onBoard.size === 0) return;
+
+    occupiedDistanceKm += leg.distanceKm;
+    const riding = riders.filter(rider => onBoard.has(rider.id));
+    const seatsOnBoard = riding.reduce((sum, rider) => sum + rider.seats, 0);
+    riding.forEach(rider => {
+      const share = ridden.get(rider.id)!;
+      share.distanceKm += leg.distanceKm;
+      if (riding.length > 1) share.sharedDistanceKm += leg.distanceKm;
+      share.weight += (leg.distanceKm * rider.seats) / seatsOnBoard;
+    });
+  });
+
+  // Riders picked up and dropped at the same point split by seats instead
+  const weights =
+    occupiedDistanceKm > 0
+      ? riders.map(rider => ridden.get(rider.id)!.weight)
+      : riders.map(rider => rider.seats);
+  const amountsCents = allocateCents(toCents(total), weights);
+
+  return {
+    total,
+    routeDistanceKm: route.legs.reduce((sum, leg) => sum + leg.distanceKm, 0),
+    occupiedDistanceKm,
+    shares: riders.map((rider, i) => ({
+      riderId: rider.id,
+      seats: rider.seats,
+      distanceKm: ridden.get(rider.id)!.distanceKm,
+      sharedDistanceKm: ridden.get(rider.id)!.sharedDistanceKm,
+      amount: fromCents(amountsCents[i]),
+    })),
+  };
+}
+
+/**
+ * Largest remainder: everyone gets the floor of their exact share, then the
+ * cents left over go to the largest fractions (earlier riders win ties)
+ */
+function allocateCents(totalCents: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0 || weightSum <= 0) return weights.map(() => 0);
+
+  const exact = weights.map(weight => (totalCents * weight) / weightSum);
+  const cents = exact.map(Math.floor);
+  let remaining = totalCents - cents.reduce((sum, c) => sum + c, 0);
+
+  const byRemainder = exact
+    .map((value, i) => ({ i, remainder: value - cents[i] }))
+    .sort((a, b) => b.remainder - a.remainder || a.i - b.i);
+  for (const { i } of byRemainder) {
+    if (remaining <= 0) break;
+    cents[i] += 1;
+    remaining -= 1;
+  }
+  return cents;
+}
@@ -0,0 +1,116 @@
+import { Location } from './astar';
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+export interface GeohashBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * GEOHASH: interleave longitude/latitude bisection bits and emit them five at
+ * a time as base32. Precision 6 cells are roughly 1.2 km × 0.6 km.
+ */
+export function encodeGeohash(location: Location, precision: number = 6): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (location.lng >= mid) {
+        bits = bits * 2 + 1;
+        lngMin = mid;
+      } else {
+        bits = bits * 2;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (location.lat >= mid) {
+        bits = bits * 2 + 1;
+        latMin = mid;
+      } else {
+        bits = bits * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bitCount === 5) {
+      hash += BASE32[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+
+  return hash;
+}
+
+export function decodeGeohashBounds(hash: string): GeohashBounds {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let evenBit = true;
+
+  for (const char of hash) {
+    const value = BASE32.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid geohash character "${char}" in "${hash}"`);
+    }
+    for (let bit = 4; bit >= 0; bit--) {
+      const set = (value >> bit) & 1;
+      if (evenBit) {
+        const mid = (lngMin + lngMax) / 2;
+        if (set) lngMin = mid;
+        else lngMax = mid;
+      } else {
+        const mid = (latMin + latMax) / 2;
+        if (set) latMin = mid;
+        else latMax = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { south: latMin, west: lngMin, north: latMax, east: lngMax };
+}
+
+export function geohashCenter(hash: string): Location {
+  const { south, west, north, east } = decodeGeohashBounds(hash);
+  return { lat: (south + north) / 2, lng: (west + east) / 2 };
+}
+
+/**
+ * The cell itself plus its eight neighbours, found by encoding points one
+ * cell width away from the centre
+ */
+export function geohashNeighbors(hash: string): string[] {
+  const { south, west, north, east } = decodeGeohashBounds(hash);
+  const center = { lat: (south + north) / 2, lng: (west + east) / 2 };
+  const latStep = north - south;
+  const lngStep = east - west;
+  const cells = new Set<string>();
+
+  for (const dLat of [-1, 0, 1]) {
+    for (const dLng of [-1, 0, 1]) {
+      const lat = center.lat + dLat * latStep;
+      if (lat < -90 || lat > 90) continue;
+      let lng = center.lng + dLng * lngStep;
+      if (lng < -180) lng += 360;
+      if (lng >= 180) lng -= 360;
+      cells.add(encodeGeohash({ lat, lng }, hash.length));
+    }
+  }
+
+  return Array.from(cells);
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LedgerEntry,
+  cancellationFeeEntries,
+  captureEntries,
+  createLedger,
+  holdEntries,
+  isBalanced,
+  refundEntries,
+  splitCommission,
+  toCents,
+  topUpEntries,
+  userAccount,
+} from './ledger';
+
+const amounts = (entries: LedgerEntry[]) =>
+  Object.fromEntries(entries.map(entry => [entry.account, entry.amountCents]));
+
+describe('splitCommission', () => {
+  it('rounds the commission to the cent and gives the driver the rest', () => {
+    expect(splitCommission(2350)).toEqual({ payoutCents: 1997, commissionCents: 353 });
+    expect(splitCommission(2350, 20)).toEqual({ payoutCents: 1880, commissionCents: 470 });
+    expect(splitCommission(1)).toEqual({ payoutCents: 1, commissionCents: 0 });
+  });
+});
+
+describe('ledger entries', () => {
+  it('moves a captured fare from escrow to the driver and the platform', () => {
+    const entries = captureEntries('maya', 2350);
+
+    expect(amounts(entries)).toEqual({ escrow: -2350, 'user:maya': 1997, platform_fees: 353 });
+    expect(isBalanced(entries)).toBe(true);
+  });
+
+  it('pays the driver on the full fare when a promo discounted it', () => {
+    // The passenger paid $20.00 of a $23.50 fare
+    const entries = captureEntries('maya', 2000, 15, 350);
+
+    expect(amounts(entries)).toEqual({ escrow: -2000, 'user:maya': 1997, platform_fees: 3 });
+    expect(isBalanced(entries)).toBe(true);
+  });
+
+  it('refunds a held fare less the fee the passenger owes', () => {
+    const entries = refundEntries('ana', 'maya', 2350, 200);
+
+    expect(amounts(entries)).toEqual({ escrow: -2350, 'user:ana': 2150, 'user:maya': 170, platform_fees: 30 });
+    expect(isBalanced(entries)).toBe(true);
+  });
+
+  it('never charges a fee above the fare held, and leaves out zero entries', () => {
+    expect(amounts(refundEntries('ana', 'maya', 500, 900))).toEqual({
+      escrow: -500,
+      'user:maya': 425,
+      platform_fees: 75,
+    });
+    expect(amounts(refundEntries('ana', 'maya', 500))).toEqual({ escrow: -500, 'user:ana': 500 });
+  });
+
+  it('balances every other flow', () => {
+    for (const entries of [
+      topUpEntries('ana', 5000),
+      holdEntries('ana', 2350),
+      cancellationFeeEntries('maya', 'ana', 300),
+    ]) {
+      expect(isBalanced(entries)).toBe(true);
+    }
+    expect(isBalanced([{ account: 'escrow', amountCents: 1 }])).toBe(false);
+  });
+});
+
+describe('createLedger', () => {
+  it('keeps the books balanced through a booking, a trip and a cancellation', () => {
+    const ledger = createLedger();
+
+    ledger.post('top_up', topUpEntries('ana', toCents(50)));
+    ledger.post('hold', holdEntries('ana', 2350), 'booking-1');
+    ledger.post('capture', captureEntries('maya', 2350), 'booking-1');
+    ledger.post('hold', holdEntries('ana', 1200), 'booking-2');
+    ledger.post('refund', refundEntries('ana', 'maya', 1200, 200), 'booking-2');
+    ledger.post('cancellation_fee', cancellationFeeEntries('maya', 'ana', 300), 'booking-2');
+
+    expect(ledger.balanceCents(userAccount('ana'))).toBe(5000 - 2350 - 200 + 300);
+    expect(ledger.balanceCents(userAccount('maya'))).toBe(1997 + 170 - 300);
+    expect(ledger.balanceCents('escrow')).toBe(0);
+    expect(ledger.balanceCents('platform_fees')).toBe(353 + 30);
+    expect(ledger.balanceCents('provider_clearing')).toBe(-5000);
+    expect(ledger.transactions().map(transaction => transaction.id)).toEqual([
+      'txn_1',
+      'txn_2',
+      'txn_3',
+      'txn_4',
+      'txn_5',
+      'txn_6',
+    ]);
+    expect(ledger.reconcile()).toEqual({ totalCents: 0, unbalancedTransactions: [], balanced: true });
+  });
+
+  it('refuses unbalanced, empty and fractional transactions', () => {
+    const ledger = createLedger();
+
+    expect(() => ledger.post('hold', [{ account: 'escrow', amountCents: 100 }])).toThrow(
+      'Unbalanced hold transaction'
+    );
+    expect(() => ledger.post('top_up', [])).toThrow('Unbalanced top_up transaction');
+    expect(() =>
+      ledger.post('capture', [
+        { account: 'escrow', amountCents: -0.5 },
+        { account: 'platform_fees', amountCents: 0.5 },
+      ])
+    ).toThrow('capture transaction has fractional cents');
+    expect(ledger.transactions()).toEqual([]);
+    expect(ledger.balances().size).toBe(0);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * DOUBLE-ENTRY LEDGER: every movement of money is a transaction whose entries
+ * sum to zero, so money is never created or lost, only moved between
+ * accounts. A positive amount credits an account, a negative one debits it.
+ *
+ *   provider_clearing  money that came in from (or went out to) the payment
+ *                      provider; goes negative as users top up
+ *   user:<id>          a user's wallet
+ *   escrow             fares held between booking and the end of the trip
+ *   platform_fees      the platform's commission
+ *
+ * Amounts are integer cents. The database keeps the same ledger (see the
+ * create_wallet_ledger migration); keep the flows below in sync with it.
+ */
+
+export type LedgerAccount = `user:${string}` | 'escrow' | 'platform_fees' | 'provider_clearing';
+
+export type LedgerTransactionKind = 'top_up' | 'hold' | 'capture' | 'refund' | 'cancellation_fee';
+
+export interface LedgerEntry {
+  account: LedgerAccount;
+  amountCents: number;
+}
+
+export interface LedgerTransaction {
+  id: string;
+  kind: LedgerTransactionKind;
+  bookingId?: string;
+  entries: LedgerEntry[];
+  createdAt: Date;
+}
+
+// Share of every captured fare (and cancellation fee) the platform keeps
+export const PLATFORM_COMMISSION_PERCENT = 15;
+
+export function userAccount(userId: string): LedgerAccount {
+  return `user:${userId}`;
+}
+
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Commission is rounded to the cent and the driver gets the rest, so the two
+ * always add back up to the amount
+ */
+export function splitCommission(amountCents: number, commissionPercent: number = PLATFORM_COMMISSION_PERCENT) {
+  const commissionCents = Math.round((amountCents * commissionPercent) / 100);
+  return { payoutCents: amountCents - commissionCents, commissionCents };
+}
+
+function withoutZeroEntries(entries: LedgerEntry[]): LedgerEntry[] {
+  return entries.filter(entry => entry.amountCents !== 0);
+}
+
+export function topUpEntries(userId: string, amountCents: number): LedgerEntry[] {
+  return [
+    { account: 'provider_clearing', amountCents: -amountCents },
+    { account: userAccount(userId), amountCents },
+  ];
+}
+
+// Booking: the fare moves from the passenger's wallet into escrow
+export function holdEntries(passengerId: string, fareCents: number): LedgerEntry[] {
+  return [
+    { account: userAccount(passengerId), amountCents: -fareCents },
+    { account: 'escrow', amountCents: fareCents },
+  ];
+}
+
+/**
+ * Completion: escrow pays the driver, less the platform's commission. A promo
+ * discount is funded by the platform: the driver is paid on the full fare and
+ * the discount comes out of the commission (which can go negative).
+ */
+export function captureEntries(
+  driverId: string,
+  fareCents: number,
+  commissionPercent: number = PLATFORM_COMMISSION_PERCENT,
+  discountCents: number = 0
+): LedgerEntry[] {
+  const { payoutCents, commissionCents } = splitCommission(fareCents + discountCents, commissionPercent);
+  return withoutZeroEntries([
+    { account: 'escrow', amountCents: -fareCents },
+    { account: userAccount(driverId), amountCents: payoutCents },
+    { account: 'platform_fees', amountCents: commissionCents - discountCents },
+  ]);
+}
+
+/**
+ * Cancelled booking: the held fare goes back to the passenger, except for
+ * any cancellation fee they owe, which is paid out to the driver like a fare
+ */
+export function refundEntries(
+  passengerId: string,
+  driverId: string,
+  fareCents: number,
+  passengerFeeCents: number = 0,
+  commissionPercent: number = PLATFORM_COMMISSION_PERCENT
+): LedgerEntry[] {
+  const feeCents = Math.min(passengerFeeCents, fareCents);
+  const { payoutCents, commissionCents } = splitCommission(feeCents, commissionPercent);
+  return withoutZeroEntries([
+    { account: 'escrow', amountCents: -fareCents },
+    { account: userAccount(passengerId), amountCents: fareCents - feeCents },
+    { account: userAccount(driverId), amountCents: payoutCents },
+    { account: 'platform_fees', amountCents: commissionCents },
+  ]);
+}
+
+// A driver's cancellation fee compensates the passenger they let down
+export function cancellationFeeEntries(
+  driverId: string,
+  passengerId: string,
+  feeCents: number
+): LedgerEntry[] {
+  return [
+    { account: userAccount(driverId), amountCents: -feeCents },
+    { account: userAccount(passengerId), amountCents: feeCents },
+  ];
+}
+
+export function isBalanced(entries: LedgerEntry[]): boolean {
+  return entries.reduce((sum, entry) => sum + entry.amountCents, 0) === 0;
+}
+
+export interface LedgerReconciliation {
+  // Sum of every account balance; zero when the books balance
+  totalCents: number;
+  unbalancedTransactions: string[];
+  balanced: boolean;
+}
+
+/**
+ * In-memory ledger with the same rules as the database one, for running the
+ * payment flow offline
+ */
+export function createLedger() {
+  const transactions: LedgerTransaction[] = [];
+  const balances = new Map<LedgerAccount, number>();
+
+  return {
+    post(kind: LedgerTransactionKind, entries: LedgerEntry[], bookingId?: string): LedgerTransaction {
+      if (entries.length === 0 || !isBalanced(entries)) {
+        throw new Error(`Unbalanced ${kind} transaction`);
+      }
+      if (entries.some(entry => !Number.isInteger(entry.amountCents))) {
+        throw new Error(`${kind} transaction has fractional cents`);
+      }
+
+      const transaction: LedgerTransaction = {
+        id: `txn_${transactions.length + 1}`,
+        kind,
+        bookingId,
+        entries,
+        createdAt: new Date(),
+      };
+      transactions.push(transaction);
+      entries.forEach(entry =>
+        balances.set(entry.account, (balances.get(entry.account) ?? 0) + entry.amountCents)
+      );
+      return transaction;
+    },
+
+    balanceCents(account: LedgerAccount): number {
+      return balances.get(account) ?? 0;
+    },
+
+    balances(): Map<LedgerAccount, number> {
+      return new Map(balances);
+    },
+
+    transactions(): LedgerTransaction[] {
+      return [...transactions];
+    },
+
+    reconcile(): LedgerReconciliation {
+      const totalCents = Array.from(balances.values()).reduce((sum, cents) => sum + cents, 0);
+      const unbalancedTransactions = transactions
+        .filter(transaction => !isBalanced(transaction.entries))
+        .map(transaction => transaction.id);
+      return {
+        totalCents,
+        unbalancedTransactions,
+        balanced: totalCents === 0 && unbalancedTransactions.length === 0,
+      };
+    },
+  };
+}
+
+export type Ledger = ReturnType<typeof createLedger>;
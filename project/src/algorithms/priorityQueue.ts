@@ -0,0 +1,70 @@
+export interface PriorityQueue<T> {
+  push(item: T, priority: number): void;
+  pop(): T | undefined;
+  peekPriority(): number;
+  readonly size: number;
+}
+
+/**
+ * Binary min-heap keyed by priority. push and pop are O(log n).
+ * Decrease-key is handled by callers pushing a duplicate entry and
+ * skipping stale ones on pop (lazy deletion).
+ */
+export function createPriorityQueue<T>(): PriorityQueue<T> {
+  const items: T[] = [];
+  const priorities: number[] = [];
+
+  const swap = (i: number, j: number) => {
+    [items[i], items[j]] = [items[j], items[i]];
+    [priorities[i], priorities[j]] = [priorities[j], priorities[i]];
+  };
+
+  const siftUp = (index: number) => {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (priorities[parent] <= priorities[index]) break;
+      swap(index, parent);
+      index = parent;
+    }
+  };
+
+  const siftDown = (index: number) => {
+    const length = items.length;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && priorities[left] < priorities[smallest]) smallest = left;
+      if (right < length && priorities[right] < priorities[smallest]) smallest = right;
+      if (smallest === index) break;
+      swap(index, smallest);
+      index = smallest;
+    }
+  };
+
+  return {
+    push(item: T, priority: number) {
+      items.push(item);
+      priorities.push(priority);
+      siftUp(items.length - 1);
+    },
+    pop() {
+      if (items.length === 0) return undefined;
+      const top = items[0];
+      const lastItem = items.pop()!;
+      const lastPriority = priorities.pop()!;
+      if (items.length > 0) {
+        items[0] = lastItem;
+        priorities[0] = lastPriority;
+        siftDown(0);
+      }
+      return top;
+    },
+    peekPriority() {
+      return priorities.length > 0 ? priorities[0] : Infinity;
+    },
+    get size() {
+      return items.length;
+    },
+  };
+}
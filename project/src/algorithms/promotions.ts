@@ -0,0 +1,143 @@
+import { toCents, fromCents } from './ledger';
+
+// 'percent' takes value% off (up to maxDiscount if set); 'flat' takes value off
+export type PromotionKind = 'percent' | 'flat';
+
+export interface Promotion {
+  code: string;
+  kind: PromotionKind;
+  value: number;
+  maxDiscount: number | null;
+  // Fares below this don't qualify
+  minFare: number;
+  // Only for a passenger's first booking
+  firstRideOnly: boolean;
+  // Redemptions per passenger and across everyone; null for no limit
+  perUserLimit: number | null;
+  globalLimit: number | null;
+  // Bookable between these times; null for open-ended
+  startsAt: Date | null;
+  endsAt: Date | null;
+  // null for every vehicle type
+  vehicleTypes: string[] | null;
+  // Departure hours the code covers, e.g. off-peak 10 to 16, in timeZone.
+  // A start after the end wraps past midnight; null for all day.
+  startHour: number | null;
+  endHour: number | null;
+  timeZone: string;
+}
+
+/**
+ * Redemptions count bookings made with the code that are still confirmed on a
+ * ride that wasn't cancelled, so cancelling gives the code back
+ */
+export interface PromotionUsage {
+  userRedemptions: number;
+  totalRedemptions: number;
+  // The passenger's other bookings, for first-ride offers
+  userRides: number;
+}
+
+export interface PromotionContext {
+  fare: number;
+  vehicleType: string;
+  departureTime: Date;
+  usage: PromotionUsage;
+  now?: Date;
+}
+
+export interface PromotionApplication {
+  code: string;
+  fare: number;
+  discount: number;
+  total: number;
+}
+
+// Codes are matched case-insensitively and stored upper case
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function hourIn(date: Date, timeZone: string): number {
+  return Number(
+    new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone }).format(date)
+  );
+}
+
+function withinHours(promotion: Promotion, date: Date): boolean {
+  if (promotion.startHour === null || promotion.endHour === null) return true;
+  const hour = hourIn(date, promotion.timeZone);
+  return promotion.startHour > promotion.endHour
+    ? hour >= promotion.startHour || hour < promotion.endHour
+    : hour >= promotion.startHour && hour < promotion.endHour;
+}
+
+/**
+ * Amount taken off the fare, rounded to the cent and never more than the
+ * fare itself. Kept in sync with promotion_discount() in the promotions
+ * migration.
+ */
+export function promotionDiscount(promotion: Promotion, fare: number): number {
+  const fareCents = toCents(fare);
+  let discountCents =
+    promotion.kind === 'percent'
+      ? Math.round((fareCents * promotion.value) / 100)
+      : toCents(promotion.value);
+  if (promotion.maxDiscount !== null) {
+    discountCents = Math.min(discountCents, toCents(promotion.maxDiscount));
+  }
+  return fromCents(Math.max(0, Math.min(discountCents, fareCents)));
+}
+
+/**
+ * Why the code can't be used on this booking, or null if it can. Kept in
+ * sync with promotion_error() in the promotions migration, which checks the
+ * same rules in the same order when the booking is made.
+ */
+export function promotionError(promotion: Promotion, context: PromotionContext): string | null {
+  const now = context.now ?? new Date();
+  const { usage } = context;
+
+  if (promotion.startsAt && now < promotion.startsAt) {
+    return `${promotion.code} isn't valid until ${promotion.startsAt.toLocaleDateString()}`;
+  }
+  if (promotion.endsAt && now >= promotion.endsAt) {
+    return `${promotion.code} expired on ${promotion.endsAt.toLocaleDateString()}`;
+  }
+  if (promotion.globalLimit !== null && usage.totalRedemptions >= promotion.globalLimit) {
+    return `${promotion.code} has been fully redeemed`;
+  }
+  if (promotion.perUserLimit !== null && usage.userRedemptions >= promotion.perUserLimit) {
+    return `You've already used ${promotion.code}`;
+  }
+  if (promotion.firstRideOnly && usage.userRides > 0) {
+    return `${promotion.code} is only for your first ride`;
+  }
+  if (promotion.vehicleTypes && !promotion.vehicleTypes.includes(context.vehicleType)) {
+    return `${promotion.code} is only valid on ${promotion.vehicleTypes.join(', ')} rides`;
+  }
+  if (!withinHours(promotion, context.departureTime)) {
+    return `${promotion.code} is only valid for rides leaving between ${promotion.startHour}:00 and ${promotion.endHour}:00`;
+  }
+  if (context.fare < promotion.minFare) {
+    return `${promotion.code} needs a fare of at least $${promotion.minFare.toFixed(2)}`;
+  }
+  return null;
+}
+
+/**
+ * PROMOTIONS: validate the code for this booking and take its discount off
+ * the fare. Throws with a message for the passenger if the code doesn't apply.
+ */
+export function applyPromotion(promotion: Promotion, context: PromotionContext): PromotionApplication {
+  const error = promotionError(promotion, context);
+  if (error) throw new Error(error);
+
+  const discount = promotionDiscount(promotion, context.fare);
+  return {
+    code: promotion.code,
+    fare: context.fare,
+    discount,
+    total: fromCents(toCents(context.fare) - toCents(discount)),
+  };
+}
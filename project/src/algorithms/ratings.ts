@@ -0,0 +1,29 @@
+// 'passenger' rates the driver, 'driver' rates a passenger
+export type RaterRole = 'driver' | 'passenger';
+
+// Everyone starts as if they had RATING_PRIOR_WEIGHT ratings of
+// RATING_PRIOR_MEAN stars. Mirrored by refresh_profile_rating() in the
+// database; keep them in sync.
+export const RATING_PRIOR_MEAN = 4.5;
+export const RATING_PRIOR_WEIGHT = 5;
+
+export const REVIEW_TAGS: Record<RaterRole, string[]> = {
+  // Said about a driver
+  passenger: ['Safe driving', 'On time', 'Clean car', 'Friendly', 'Good route', 'Late', 'Unsafe driving'],
+  // Said about a passenger
+  driver: ['On time', 'Polite', 'Respectful', 'Easy pickup', 'Late', 'No-show'],
+};
+
+/**
+ * BAYESIAN AVERAGE: pulls the mean of a few ratings towards the prior, so a
+ * single five-star or one-star trip doesn't decide someone's rating. With
+ * many ratings it approaches their plain average.
+ */
+export function bayesianRating(
+  stars: number[],
+  priorMean: number = RATING_PRIOR_MEAN,
+  priorWeight: number = RATING_PRIOR_WEIGHT
+): number {
+  const sum = stars.reduce((total, s) => total + s, 0);
+  return (priorMean * priorWeight + sum) / (priorWeight + stars.length);
+}
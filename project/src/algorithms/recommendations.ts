@@ -1,5 +1,8 @@
 import { Location, haversineDistance } from './astar';
 
+// Default for users who haven't set their own threshold
+export const DEFAULT_MIN_DRIVER_RELIABILITY = 0.75;
+
 export interface UserProfile {
   id: string;
   rideHistory: RideHistory[];
@@ -23,6 +26,8 @@ export interface UserPreferences {
   preferredVehicleTypes: string[];
   maxPrice: number;
   preferredDriverRatings: number;
+  // Share of rides a driver must not have cancelled late, 0-1
+  minDriverReliability: number;
   smokingPreference: boolean;
   musicPreference: boolean;
   conversationPreference: 'quiet' | 'moderate' | 'chatty';
@@ -32,6 +37,8 @@ export interface Driver {
   id: string;
   rating: number;
   totalRides: number;
+  // See reliabilityScore() in cancellation.ts
+  reliability: number;
   vehicleType: string;
   preferences: {
     smokingAllowed: boolean;
@@ -75,7 +82,12 @@ export function deductiveFiltering(
       return false;
     }
 
-    // Rule 3: Vehicle type preference (strict rule)
+    // Rule 3: Driver reliability (drivers who often cancel late are excluded)
+    if (ride.driver.reliability < userProfile.preferences.minDriverReliability) {
+      return false;
+    }
+
+    // Rule 4: Vehicle type preference (strict rule)
     if (
       userProfile.preferences.preferredVehicleTypes.length > 0 &&
       !userProfile.preferences.preferredVehicleTypes.includes(ride.vehicle_type)
@@ -83,14 +95,14 @@ export function deductiveFiltering(
       return false;
     }
 
-    // Rule 4: Preference compatibility (logical inference)
+    // Rule 5: Preference compatibility (logical inference)
     if (
       userProfile.preferences.smokingPreference !== ride.driver.preferences.smokingAllowed
     ) {
       return false;
     }
 
-    // Rule 5: Distance feasibility (geometric rule)
+    // Rule 6: Distance feasibility (geometric rule)
     const pickupDistance = haversineDistance(userLocation, {
       lat: ride.pickup_lat,
       lng: ride.pickup_lng,
@@ -112,7 +124,8 @@ export function inductiveScoring(
   ride: Ride,
   userProfile: UserProfile,
   userLocation: Location,
-  destination: Location
+  destination: Location,
+  now: Date = new Date()
 ): number {
   let score = 0;
 
@@ -125,7 +138,7 @@ export function inductiveScoring(
   score += routeSimilarityScore * 30;
 
   // Pattern 2: Time-based preference learning
-  const currentHour = new Date().getHours();
+  const currentHour = now.getHours();
   const timePreferenceScore = calculateTimePreference(
     currentHour,
     ride.vehicle_type,
@@ -230,9 +243,11 @@ export function contentBasedFiltering(
   const distDiff = Math.abs(ride.distance_km - avgDistance) / avgDistance;
   score += Math.max(0, (1 - distDiff) * 100) * weights.distance;
 
-  // Driver rating alignment
+  // Driver rating alignment (the stated minimum until they've rated a driver)
   const avgPreferredRating =
-    userProfile.ratings.reduce((a, b) => a + b, 0) / userProfile.ratings.length;
+    userProfile.ratings.length > 0
+      ? userProfile.ratings.reduce((a, b) => a + b, 0) / userProfile.ratings.length
+      : userProfile.preferences.preferredDriverRatings;
   const ratingAlignment = (ride.driver.rating / avgPreferredRating) * 100;
   score += Math.min(100, ratingAlignment) * weights.rating;
 
@@ -248,7 +263,8 @@ export function hybridRecommendation(
   userProfile: UserProfile,
   userLocation: Location,
   destination: Location,
-  allUsers?: UserProfile[]
+  allUsers?: UserProfile[],
+  now: Date = new Date()
 ): Array<Ride & { recommendationScore: number; reasoning: string[] }> {
   // STEP 1: DEDUCTIVE FILTERING (eliminate unsuitable rides)
   const filteredRides = deductiveFiltering(
@@ -263,7 +279,7 @@ export function hybridRecommendation(
     const reasoning: string[] = [];
 
     // Inductive pattern recognition
-    const inductiveScore = inductiveScoring(ride, userProfile, userLocation, destination);
+    const inductiveScore = inductiveScoring(ride, userProfile, userLocation, destination, now);
     reasoning.push(`Pattern Analysis: ${inductiveScore.toFixed(1)}/100`);
 
     // Content-based filtering
@@ -0,0 +1,87 @@
+export interface RecurrenceRule {
+  // 0 = Sunday … 6 = Saturday, as Date.getDay()
+  daysOfWeek: number[];
+  // Local departure time, 'HH:MM'
+  departureTime: string;
+  // 'YYYY-MM-DD'; endsOn is inclusive and optional
+  startsOn: string;
+  endsOn?: string | null;
+}
+
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// How far ahead concrete rides are generated from a template
+export const RECURRENCE_HORIZON_DAYS = 14;
+
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local departure time of the occurrence on the given date
+ */
+export function occurrenceDeparture(rule: RecurrenceRule, date: string): Date {
+  const [hours, minutes] = rule.departureTime.split(':').map(Number);
+  const departure = parseDate(date);
+  departure.setHours(hours, minutes, 0, 0);
+  return departure;
+}
+
+/**
+ * RECURRENCE: dates ('YYYY-MM-DD') of the occurrences departing in the next
+ * `days` days, skipping any in `skipped`. Mirrors generate_template_rides()
+ * in the database, which creates the rides.
+ */
+export function occurrenceDates(
+  rule: RecurrenceRule,
+  from: Date = new Date(),
+  days: number = RECURRENCE_HORIZON_DAYS,
+  skipped: string[] = []
+): string[] {
+  const dates: string[] = [];
+  const startsOn = parseDate(rule.startsOn);
+  const endsOn = rule.endsOn ? parseDate(rule.endsOn) : null;
+  const cursor = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+
+  for (let i = 0; i <= days; i++) {
+    const date = formatDate(cursor);
+    if (
+      cursor >= startsOn &&
+      (!endsOn || cursor <= endsOn) &&
+      rule.daysOfWeek.includes(cursor.getDay()) &&
+      !skipped.includes(date) &&
+      occurrenceDeparture(rule, date) > from
+    ) {
+      dates.push(date);
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return dates;
+}
+
+/**
+ * e.g. "Weekdays at 08:15", "Mon, Wed, Fri at 17:30"
+ */
+export function describeRecurrence(rule: Pick<RecurrenceRule, 'daysOfWeek' | 'departureTime'>): string {
+  const days = [...rule.daysOfWeek].sort((a, b) => a - b);
+  let label: string;
+  if (days.length === 7) {
+    label = 'Every day';
+  } else if (days.join() === WEEKDAYS.join()) {
+    label = 'Weekdays';
+  } else if (days.join() === '0,6') {
+    label = 'Weekends';
+  } else {
+    label = days.map(day => DAY_LABELS[day]).join(', ');
+  }
+  return `${label} at ${rule.departureTime.slice(0, 5)}`;
+}
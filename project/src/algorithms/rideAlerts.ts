@@ -0,0 +1,89 @@
+import { Location, RoutingOptions, haversineDistance } from './astar';
+import { RoadGraph } from './roadGraph';
+import { DEFAULT_MAX_DETOUR_MIN, RideMatchScore, scoreRideMatch } from './detour';
+import { ScheduledRide, rideDepartureWindow, windowsOverlap } from './departureWindow';
+
+export interface AlertSearch {
+  passenger_id: string;
+  pickup_lat: number;
+  pickup_lng: number;
+  dropoff_lat: number;
+  dropoff_lng: number;
+  window_start: string;
+  window_end: string;
+  max_price: number;
+  min_match_score: number;
+  status: 'active' | 'expired' | 'cancelled';
+}
+
+export interface AlertableRide extends ScheduledRide {
+  driver_id: string;
+  pickup_lat: number;
+  pickup_lng: number;
+  dropoff_lat: number;
+  dropoff_lng: number;
+  price: number;
+  seats_available: number;
+  status: string;
+  max_detour_min?: number | null;
+}
+
+export interface RideAlertMatch extends RideMatchScore {
+  pickupDistance: number;
+}
+
+// Score a ride must reach to be worth an alert unless the passenger set their own
+export const DEFAULT_ALERT_MIN_SCORE = 60;
+// How long a search without a departure time keeps alerting
+export const DEFAULT_ALERT_LIFETIME_HOURS = 24;
+
+/**
+ * A saved search stops alerting when it's cancelled or its departure window
+ * has passed
+ */
+export function isSearchExpired(search: AlertSearch, now: Date = new Date()): boolean {
+  return search.status !== 'active' || new Date(search.window_end).getTime() < now.getTime();
+}
+
+/**
+ * RIDE ALERT: does a newly posted ride match a saved search well enough to
+ * tell the passenger? Applies the filters of a live search (open seats,
+ * price, departure window, pickup radius, the driver's detour cap) and then
+ * the same match score the search results are ranked by. The passenger's
+ * own rides never match. Returns null when the ride doesn't qualify.
+ */
+export function evaluateSavedSearch(
+  search: AlertSearch,
+  ride: AlertableRide,
+  maxPickupDistanceKm: number,
+  graph?: RoadGraph | null,
+  options: RoutingOptions = {},
+  now: Date = new Date()
+): RideAlertMatch | null {
+  if (isSearchExpired(search, now)) return null;
+  if (ride.driver_id === search.passenger_id) return null;
+  if (ride.status !== 'available' || ride.seats_available <= 0) return null;
+  if (ride.price > search.max_price) return null;
+
+  const searchWindow = { start: new Date(search.window_start), end: new Date(search.window_end) };
+  if (!windowsOverlap(rideDepartureWindow(ride), searchWindow)) return null;
+
+  const pickup: Location = { lat: search.pickup_lat, lng: search.pickup_lng };
+  const rideStart: Location = { lat: ride.pickup_lat, lng: ride.pickup_lng };
+  const pickupDistance = haversineDistance(pickup, rideStart);
+  if (pickupDistance > maxPickupDistanceKm) return null;
+
+  const score = scoreRideMatch(
+    rideStart,
+    { lat: ride.dropoff_lat, lng: ride.dropoff_lng },
+    pickup,
+    { lat: search.dropoff_lat, lng: search.dropoff_lng },
+    pickupDistance,
+    ride.max_detour_min ?? DEFAULT_MAX_DETOUR_MIN,
+    graph,
+    options
+  );
+  if (!score.withinDetourCap || score.matchScore < search.min_match_score) return null;
+
+  return { ...score, pickupDistance };
+}
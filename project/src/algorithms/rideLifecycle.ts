@@ -0,0 +1,55 @@
+export type RideStatus = 'available' | 'accepted' | 'in_progress' | 'completed' | 'cancelled';
+
+// 'system' covers changes made by the database itself: a ride filling up or
+// reopening when seats are booked or released
+export type RideActor = 'driver' | 'passenger' | 'system';
+
+/**
+ * RIDE LIFECYCLE: every allowed status change and who may make it.
+ *
+ *   available → accepted → in_progress → completed
+ *
+ * A ride becomes accepted when its last seat is booked and goes back to
+ * available when a passenger cancels. The driver can start a ride that isn't
+ * full and can cancel until it completes. completed and cancelled are final.
+ *
+ * Mirrored by ride_transition_allowed() in the database; keep them in sync.
+ */
+export const RIDE_TRANSITIONS: Record<RideStatus, Partial<Record<RideStatus, RideActor[]>>> = {
+  available: {
+    accepted: ['system'],
+    in_progress: ['driver'],
+    cancelled: ['driver', 'system'],
+  },
+  accepted: {
+    available: ['passenger', 'system'],
+    in_progress: ['driver'],
+    cancelled: ['driver'],
+  },
+  in_progress: {
+    completed: ['driver'],
+    cancelled: ['driver'],
+  },
+  completed: {},
+  cancelled: {},
+};
+
+export function canTransition(from: RideStatus, to: RideStatus, actor: RideActor): boolean {
+  return RIDE_TRANSITIONS[from][to]?.includes(actor) ?? false;
+}
+
+export function assertTransition(from: RideStatus, to: RideStatus, actor: RideActor): void {
+  if (!canTransition(from, to, actor)) {
+    throw new Error(`A ${actor} can't move a ride from ${from} to ${to}`);
+  }
+}
+
+/**
+ * Statuses the actor can move the ride to next, e.g. to decide which action
+ * buttons to show
+ */
+export function nextStatuses(from: RideStatus, actor: RideActor): RideStatus[] {
+  return (Object.keys(RIDE_TRANSITIONS[from]) as RideStatus[]).filter(to =>
+    canTransition(from, to, actor)
+  );
+}
@@ -0,0 +1,259 @@
+import { Location, haversineDistance } from './astar';
+import { SpatialIndex, createSpatialIndex } from './spatialIndex';
+
+export interface RoadEdge {
+  to: string;
+  distanceKm: number;
+  roadClass: string;
+}
+
+export interface RoadGraph {
+  nodes: Map<string, Location>;
+  adjacency: Map<string, RoadEdge[]>;
+}
+
+// Highway classes a car can drive on; footways, cycleways etc. are ignored
+const DRIVABLE_HIGHWAYS = new Set([
+  'motorway',
+  'motorway_link',
+  'trunk',
+  'trunk_link',
+  'primary',
+  'primary_link',
+  'secondary',
+  'secondary_link',
+  'tertiary',
+  'tertiary_link',
+  'unclassified',
+  'residential',
+  'living_street',
+  'service',
+  'road',
+]);
+
+interface WayDefinition {
+  nodeIds: string[];
+  roadClass: string;
+  oneway: 'no' | 'forward' | 'backward';
+}
+
+export function createRoadGraph(): RoadGraph {
+  return { nodes: new Map(), adjacency: new Map() };
+}
+
+export function addRoadNode(graph: RoadGraph, id: string, location: Location) {
+  graph.nodes.set(id, location);
+  if (!graph.adjacency.has(id)) {
+    graph.adjacency.set(id, []);
+  }
+}
+
+export function addRoadEdge(
+  graph: RoadGraph,
+  from: string,
+  to: string,
+  roadClass: string
+) {
+  const fromLoc = graph.nodes.get(from);
+  const toLoc = graph.nodes.get(to);
+  if (!fromLoc || !toLoc || from === to) return;
+
+  graph.adjacency.get(from)!.push({
+    to,
+    distanceKm: haversineDistance(fromLoc, toLoc),
+    roadClass,
+  });
+}
+
+function addWay(graph: RoadGraph, way: WayDefinition) {
+  for (let i = 0; i < way.nodeIds.length - 1; i++) {
+    const a = way.nodeIds[i];
+    const b = way.nodeIds[i + 1];
+    if (way.oneway !== 'backward') addRoadEdge(graph, a, b, way.roadClass);
+    if (way.oneway !== 'forward') addRoadEdge(graph, b, a, way.roadClass);
+  }
+}
+
+function parseOneway(value: string | undefined, roadClass: string): WayDefinition['oneway'] {
+  if (value === 'yes' || value === 'true' || value === '1') return 'forward';
+  if (value === '-1' || value === 'reverse') return 'backward';
+  if (value === 'no') return 'no';
+  // Motorways are one-way unless tagged otherwise
+  return roadClass === 'motorway' ? 'forward' : 'no';
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Build a road graph from an OSM XML extract (e.g. exported from openstreetmap.org
+ * or cut with osmium). Only drivable highways are kept; oneway tags are respected.
+ */
+export function parseOsmXml(xml: string): RoadGraph {
+  const graph = createRoadGraph();
+  const nodeLocations = new Map<string, Location>();
+
+  const nodePattern = /<node\b[^>]*>/g;
+  let nodeMatch: RegExpExecArray | null;
+  while ((nodeMatch = nodePattern.exec(xml))) {
+    const id = readAttribute(nodeMatch[0], 'id');
+    const lat = readAttribute(nodeMatch[0], 'lat');
+    const lon = readAttribute(nodeMatch[0], 'lon');
+    if (id && lat && lon) {
+      nodeLocations.set(id, { lat: parseFloat(lat), lng: parseFloat(lon) });
+    }
+  }
+
+  const wayPattern = /<way\b[^>]*>([\s\S]*?)<\/way>/g;
+  let wayMatch: RegExpExecArray | null;
+  while ((wayMatch = wayPattern.exec(xml))) {
+    const body = wayMatch[1];
+    const tags = new Map<string, string>();
+    for (const tagMatch of body.matchAll(/<tag\b[^>]*>/g)) {
+      const k = readAttribute(tagMatch[0], 'k');
+      const v = readAttribute(tagMatch[0], 'v');
+      if (k && v !== undefined) tags.set(k, v);
+    }
+
+    const roadClass = tags.get('highway');
+    if (!roadClass || !DRIVABLE_HIGHWAYS.has(roadClass)) continue;
+
+    const nodeIds: string[] = [];
+    for (const ndMatch of body.matchAll(/<nd\b[^>]*>/g)) {
+      const ref = readAttribute(ndMatch[0], 'ref');
+      const location = ref ? nodeLocations.get(ref) : undefined;
+      if (ref && location) {
+        addRoadNode(graph, ref, location);
+        nodeIds.push(ref);
+      }
+    }
+
+    addWay(graph, {
+      nodeIds,
+      roadClass,
+      oneway: parseOneway(tags.get('oneway'), roadClass),
+    });
+  }
+
+  return graph;
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: {
+    type: string;
+    coordinates: unknown;
+  } | null;
+  properties?: Record<string, unknown> | null;
+}
+
+interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+}
+
+function coordinateKey(coord: [number, number]): string {
+  // ~1cm precision, enough to merge shared vertices between ways
+  return `${coord[1].toFixed(7)},${coord[0].toFixed(7)}`;
+}
+
+/**
+ * Build a road graph from a GeoJSON FeatureCollection of ways (LineString or
+ * MultiLineString features with OSM tags as properties, as produced by
+ * osmtogeojson or ogr2ogr). Ways sharing a vertex are connected.
+ */
+export function parseGeoJsonWays(geojson: GeoJsonFeatureCollection): RoadGraph {
+  const graph = createRoadGraph();
+
+  for (const feature of geojson.features) {
+    if (!feature.geometry) continue;
+
+    const roadClass = String(feature.properties?.highway ?? 'road');
+    if (!DRIVABLE_HIGHWAYS.has(roadClass)) continue;
+
+    const lines: Array<Array<[number, number]>> =
+      feature.geometry.type === 'LineString'
+        ? [feature.geometry.coordinates as Array<[number, number]>]
+        : feature.geometry.type === 'MultiLineString'
+          ? (feature.geometry.coordinates as Array<Array<[number, number]>>)
+          : [];
+
+    const oneway = parseOneway(
+      feature.properties?.oneway !== undefined ? String(feature.properties.oneway) : undefined,
+      roadClass
+    );
+
+    for (const line of lines) {
+      const nodeIds = line.map(coord => {
+        const id = coordinateKey(coord);
+        addRoadNode(graph, id, { lat: coord[1], lng: coord[0] });
+        return id;
+      });
+      addWay(graph, { nodeIds, roadClass, oneway });
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Parse either supported extract format, detected from the content
+ */
+export function parseRoadNetwork(content: string): RoadGraph {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('<')) {
+    return parseOsmXml(content);
+  }
+  return parseGeoJsonWays(JSON.parse(content) as GeoJsonFeatureCollection);
+}
+
+// Node ids by geohash cell, built lazily per graph and rebuilt if nodes were added since
+const snapIndexes = new WeakMap<RoadGraph, SpatialIndex<string>>();
+
+function getSnapIndex(graph: RoadGraph): SpatialIndex<string> {
+  let index = snapIndexes.get(graph);
+  if (!index || index.size !== graph.nodes.size) {
+    index = createSpatialIndex(id => graph.nodes.get(id)!, Array.from(graph.nodes.keys()));
+    snapIndexes.set(graph, index);
+  }
+  return index;
+}
+
+/**
+ * Find the graph node closest to a location. Returns null when the graph is
+ * empty or the closest node is further than maxDistanceKm (point is outside
+ * the extract). Only the spatial index cells within maxDistanceKm are scanned.
+ */
+export function findNearestNode(
+  graph: RoadGraph,
+  location: Location,
+  maxDistanceKm: number = 0.5
+): { id: string; distance: number } | null {
+  const [nearest] = getSnapIndex(graph).nearest(location, 1, maxDistanceKm);
+  return nearest ? { id: nearest.item, distance: nearest.distance } : null;
+}
+
+const reverseAdjacencies = new WeakMap<RoadGraph, Map<string, RoadEdge[]>>();
+
+/**
+ * Incoming edges per node (edge.to is the predecessor), built lazily and
+ * cached per graph for backward searches
+ */
+export function getReverseAdjacency(graph: RoadGraph): Map<string, RoadEdge[]> {
+  let reverse = reverseAdjacencies.get(graph);
+  if (!reverse) {
+    reverse = new Map();
+    for (const id of graph.nodes.keys()) {
+      reverse.set(id, []);
+    }
+    for (const [from, edges] of graph.adjacency) {
+      for (const edge of edges) {
+        reverse.get(edge.to)!.push({ ...edge, to: from });
+      }
+    }
+    reverseAdjacencies.set(graph, reverse);
+  }
+  return reverse;
+}
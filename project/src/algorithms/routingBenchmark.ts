@@ -0,0 +1,90 @@
+import { Location, RoutingOptions, searchRoadGraph } from './astar';
+import { RoadGraph, findNearestNode } from './roadGraph';
+
+export interface RoutingQuery {
+  start: Location;
+  goal: Location;
+}
+
+export interface RoutingBenchmarkResult {
+  query: RoutingQuery;
+  distanceKm: number | null;
+  nodesExpanded: number;
+  runtimeMs: number;
+}
+
+export interface RoutingBenchmarkSummary {
+  results: RoutingBenchmarkResult[];
+  queries: number;
+  unreachable: number;
+  avgRuntimeMs: number;
+  maxRuntimeMs: number;
+  avgNodesExpanded: number;
+}
+
+/**
+ * BENCHMARK MODE: run each query through the graph search (in the given
+ * routing mode) and report nodes expanded and wall-clock runtime per query
+ */
+export function benchmarkRouting(
+  graph: RoadGraph,
+  queries: RoutingQuery[],
+  options: RoutingOptions = {}
+): RoutingBenchmarkSummary {
+  const results = queries.map(query => {
+    const startedAt = performance.now();
+    const startSnap = findNearestNode(graph, query.start);
+    const goalSnap = findNearestNode(graph, query.goal);
+    const search =
+      startSnap && goalSnap ? searchRoadGraph(graph, startSnap.id, goalSnap.id, options) : null;
+    const runtimeMs = performance.now() - startedAt;
+
+    return {
+      query,
+      distanceKm: search ? search.distance : null,
+      nodesExpanded: search ? search.nodesExpanded : 0,
+      runtimeMs,
+    };
+  });
+
+  return summarizeBenchmark(results);
+}
+
+export function summarizeBenchmark(results: RoutingBenchmarkResult[]): RoutingBenchmarkSummary {
+  const count = Math.max(results.length, 1);
+  return {
+    results,
+    queries: results.length,
+    unreachable: results.filter(r => r.distanceKm === null).length,
+    avgRuntimeMs: results.reduce((sum, r) => sum + r.runtimeMs, 0) / count,
+    maxRuntimeMs: results.reduce((max, r) => Math.max(max, r.runtimeMs), 0),
+    avgNodesExpanded: results.reduce((sum, r) => sum + r.nodesExpanded, 0) / count,
+  };
+}
+
+/**
+ * Pick reproducible random node pairs from the graph (mulberry32 PRNG)
+ */
+export function generateRandomQueries(
+  graph: RoadGraph,
+  count: number,
+  seed: number = 1
+): RoutingQuery[] {
+  const random = createSeededRandom(seed);
+  const locations = Array.from(graph.nodes.values());
+  if (locations.length === 0) return [];
+
+  const pick = () => locations[Math.floor(random() * locations.length)];
+  return Array.from({ length: count }, () => ({ start: pick(), goal: pick() }));
+}
+
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,130 @@
+import { Location, haversineDistance } from './astar';
+import { decodeGeohashBounds, encodeGeohash } from './geohash';
+
+export interface SpatialMatch<T> {
+  item: T;
+  distance: number;
+}
+
+export interface SpatialIndex<T> {
+  insert(item: T): void;
+  remove(item: T): boolean;
+  withinRadius(center: Location, radiusKm: number): SpatialMatch<T>[];
+  nearest(center: Location, k: number, maxDistanceKm?: number): SpatialMatch<T>[];
+  readonly size: number;
+}
+
+const KM_PER_DEGREE_LAT = 111.32;
+// No two points are further apart than this
+const HALF_EARTH_CIRCUMFERENCE_KM = 20038;
+
+/**
+ * SPATIAL INDEX: bucket items by geohash cell so radius and k-nearest queries
+ * only measure items in the cells overlapping the search circle.
+ *
+ * Precision 6 (~1.2 km × 0.6 km cells) suits pickup searches of a few km; use
+ * a smaller precision for much larger radii.
+ */
+export function createSpatialIndex<T>(
+  getLocation: (item: T) => Location,
+  items: T[] = [],
+  precision: number = 6
+): SpatialIndex<T> {
+  const cells = new Map<string, T[]>();
+  // Cell size is the same everywhere for a given precision
+  const sample = decodeGeohashBounds('0'.repeat(precision));
+  const cellLat = sample.north - sample.south;
+  const cellLng = sample.east - sample.west;
+  let size = 0;
+
+  const insert = (item: T) => {
+    const hash = encodeGeohash(getLocation(item), precision);
+    const bucket = cells.get(hash);
+    if (bucket) bucket.push(item);
+    else cells.set(hash, [item]);
+    size++;
+  };
+
+  const remove = (item: T) => {
+    const hash = encodeGeohash(getLocation(item), precision);
+    const bucket = cells.get(hash);
+    const index = bucket ? bucket.indexOf(item) : -1;
+    if (!bucket || index === -1) return false;
+    bucket.splice(index, 1);
+    if (bucket.length === 0) cells.delete(hash);
+    size--;
+    return true;
+  };
+
+  /**
+   * Cells to scan for a circle: those covering its bounding box, found by
+   * encoding one point per cell step, or simply every occupied cell when the
+   * box spans more cells than are occupied
+   */
+  const candidateCells = (center: Location, radiusKm: number): string[] => {
+    const dLat = radiusKm / KM_PER_DEGREE_LAT;
+    const cosLat = Math.max(Math.cos((center.lat * Math.PI) / 180), 0.01);
+    const dLng = Math.min(180, radiusKm / (KM_PER_DEGREE_LAT * cosLat));
+    const south = Math.max(-90, center.lat - dLat);
+    const north = Math.min(90, center.lat + dLat);
+
+    const boxCells = ((north - south) / cellLat + 2) * ((2 * dLng) / cellLng + 2);
+    if (boxCells >= cells.size) return Array.from(cells.keys());
+
+    const hashes = new Set<string>();
+    for (let lat = south; lat < north + cellLat; lat += cellLat) {
+      for (let lng = center.lng - dLng; lng < center.lng + dLng + cellLng; lng += cellLng) {
+        const wrappedLng = ((((lng + 180) % 360) + 360) % 360) - 180;
+        hashes.add(encodeGeohash({ lat: Math.min(lat, north), lng: wrappedLng }, precision));
+      }
+    }
+    return Array.from(hashes);
+  };
+
+  const withinRadius = (center: Location, radiusKm: number): SpatialMatch<T>[] => {
+    const matches: SpatialMatch<T>[] = [];
+    for (const hash of candidateCells(center, radiusKm)) {
+      const bucket = cells.get(hash);
+      if (!bucket) continue;
+      for (const item of bucket) {
+        const distance = haversineDistance(center, getLocation(item));
+        if (distance <= radiusKm) matches.push({ item, distance });
+      }
+    }
+    return matches.sort((a, b) => a.distance - b.distance);
+  };
+
+  /**
+   * k nearest items: search a doubling radius until k items fall inside it.
+   * Every item within the radius is measured, so the result is exact.
+   */
+  const nearest = (
+    center: Location,
+    k: number,
+    maxDistanceKm: number = Infinity
+  ): SpatialMatch<T>[] => {
+    if (k <= 0 || size === 0) return [];
+
+    const limitKm = Math.min(maxDistanceKm, HALF_EARTH_CIRCUMFERENCE_KM);
+    let radiusKm = Math.min(cellLat * KM_PER_DEGREE_LAT, limitKm);
+    for (;;) {
+      const matches = withinRadius(center, radiusKm);
+      if (matches.length >= k || matches.length === size || radiusKm >= limitKm) {
+        return matches.slice(0, k);
+      }
+      radiusKm = Math.min(radiusKm * 2, limitKm);
+    }
+  };
+
+  items.forEach(insert);
+
+  return {
+    insert,
+    remove,
+    withinRadius,
+    nearest,
+    get size() {
+      return size;
+    },
+  };
+}
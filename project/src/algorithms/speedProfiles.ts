@@ -0,0 +1,178 @@
+export const HOURS_PER_WEEK = 168;
+
+/**
+ * Travel speeds per road class and hour of the week. Each profile has 168
+ * entries indexed by day * 24 + hour, with day 0 = Sunday (Date.getDay()).
+ * Roads whose class has no profile use the 'default' profile.
+ */
+export interface SpeedProfiles {
+  roadClasses: Record<string, number[]>;
+}
+
+// Free-flow speeds (km/h) per OSM highway class
+const BASE_SPEEDS_KMH: Record<string, number> = {
+  motorway: 100,
+  motorway_link: 60,
+  trunk: 80,
+  trunk_link: 50,
+  primary: 60,
+  primary_link: 40,
+  secondary: 50,
+  secondary_link: 35,
+  tertiary: 45,
+  tertiary_link: 30,
+  unclassified: 40,
+  residential: 30,
+  living_street: 10,
+  service: 20,
+  road: 40,
+  default: 40,
+};
+
+/**
+ * Generic city congestion curve: slow during weekday rush hours, a bit
+ * faster than free flow late at night
+ */
+function congestionFactor(day: number, hour: number): number {
+  const weekend = day === 0 || day === 6;
+  if (hour >= 23 || hour < 5) return 1.1;
+  if (weekend) return hour >= 11 && hour < 19 ? 0.85 : 1;
+  if (hour >= 7 && hour < 10) return 0.6;
+  if (hour >= 16 && hour < 19) return 0.55;
+  if (hour >= 10 && hour < 16) return 0.85;
+  return 0.95;
+}
+
+function buildWeeklyProfile(baseSpeedKmh: number): number[] {
+  return Array.from({ length: HOURS_PER_WEEK }, (_, index) =>
+    Math.round(baseSpeedKmh * congestionFactor(Math.floor(index / 24), index % 24))
+  );
+}
+
+export const DEFAULT_SPEED_PROFILES: SpeedProfiles = {
+  roadClasses: Object.fromEntries(
+    Object.entries(BASE_SPEEDS_KMH).map(([roadClass, speed]) => [
+      roadClass,
+      buildWeeklyProfile(speed),
+    ])
+  ),
+};
+
+function isValidSpeed(speedKmh: number): boolean {
+  return Number.isFinite(speedKmh) && speedKmh > 0;
+}
+
+// A day (0-6) or hour (0-23) cell, or every value for *; null if out of range
+function parseRangeCell(cell: string, count: number): number[] | null {
+  if (cell === '*') return Array.from({ length: count }, (_, i) => i);
+  const value = Number(cell);
+  return /^\d+$/.test(cell) && value < count ? [value] : null;
+}
+
+export function hourOfWeek(date: Date): number {
+  return date.getDay() * 24 + date.getHours();
+}
+
+export function getSpeedKmh(
+  profiles: SpeedProfiles,
+  roadClass: string,
+  at: Date
+): number {
+  const profile =
+    profiles.roadClasses[roadClass] ??
+    profiles.roadClasses.default ??
+    DEFAULT_SPEED_PROFILES.roadClasses.default;
+  return profile[hourOfWeek(at)];
+}
+
+/**
+ * Whether any road class changes speed in any hour from `start`'s to `end`'s.
+ * If none does, edge costs are the same all through a trip between them, so
+ * the route doesn't depend on when each edge is reached.
+ */
+export function speedsChangeBetween(profiles: SpeedProfiles, start: Date, end: Date): boolean {
+  const hourStart = (date: Date) => new Date(date).setMinutes(0, 0, 0);
+  const hoursSpanned = Math.round((hourStart(end) - hourStart(start)) / 3600000);
+  const first = hourOfWeek(start);
+
+  return Object.values(profiles.roadClasses).some(profile => {
+    for (let k = 1; k <= Math.min(hoursSpanned, HOURS_PER_WEEK - 1); k++) {
+      if (profile[(first + k) % HOURS_PER_WEEK] !== profile[first]) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * Highest speed anywhere in the profiles; dividing straight-line distance by
+ * it gives an admissible travel-time heuristic for A*
+ */
+export function getMaxSpeedKmh(profiles: SpeedProfiles): number {
+  return Object.values(profiles.roadClasses).reduce(
+    (max, profile) => Math.max(max, ...profile),
+    1
+  );
+}
+
+/**
+ * Parse profiles from JSON. Each road class maps either to a single speed
+ * (applied with the default congestion curve) or to 168 hourly speeds.
+ *
+ * { "roadClasses": { "primary": 55, "residential": [25, 25, ...] } }
+ */
+export function parseSpeedProfilesJson(
+  data: { roadClasses: Record<string, number | number[]> }
+): SpeedProfiles {
+  const roadClasses: Record<string, number[]> = { ...DEFAULT_SPEED_PROFILES.roadClasses };
+
+  for (const [roadClass, value] of Object.entries(data.roadClasses)) {
+    const speeds = typeof value === 'number' ? [value] : Array.isArray(value) ? value.map(Number) : [];
+    if (!speeds.every(isValidSpeed)) {
+      throw new Error(`Speed profile for "${roadClass}" must have speeds above 0 km/h`);
+    }
+
+    if (typeof value === 'number') {
+      roadClasses[roadClass] = buildWeeklyProfile(value);
+    } else if (speeds.length === HOURS_PER_WEEK) {
+      roadClasses[roadClass] = speeds;
+    } else {
+      throw new Error(`Speed profile for "${roadClass}" must be a number or ${HOURS_PER_WEEK} hourly values`);
+    }
+  }
+
+  return { roadClasses };
+}
+
+/**
+ * Parse profiles from CSV with header road_class,day,hour,speed_kmh.
+ * day (0 = Sunday … 6) and hour (0-23) accept * as a wildcard, so
+ * "primary,*,*,55" sets a flat speed and later rows override single hours.
+ */
+export function parseSpeedProfilesCsv(csv: string): SpeedProfiles {
+  const roadClasses: Record<string, number[]> = Object.fromEntries(
+    Object.entries(DEFAULT_SPEED_PROFILES.roadClasses).map(([roadClass, profile]) => [
+      roadClass,
+      [...profile],
+    ])
+  );
+
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  for (const line of lines.slice(1)) {
+    const [roadClass, day, hour, speed] = line.split(',').map(cell => cell.trim());
+    const speedKmh = Number(speed);
+    const days = parseRangeCell(day ?? '', 7);
+    const hours = parseRangeCell(hour ?? '', 24);
+    if (!roadClass || !speed || !isValidSpeed(speedKmh) || !days || !hours) {
+      throw new Error(`Invalid speed profile row: ${line}`);
+    }
+
+    const profile = roadClasses[roadClass] ?? (roadClasses[roadClass] = [...roadClasses.default]);
+    for (const d of days) {
+      for (const h of hours) {
+        profile[d * 24 + h] = speedKmh;
+      }
+    }
+  }
+
+  return { roadClasses };
+}
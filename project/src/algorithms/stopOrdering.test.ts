@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Location, haversineDistance } from './astar';
+import { RouteStop, planMultiStopRoute } from './stopOrdering';
+
+// Points along a street running east, `x` blocks from its start
+const east = (x: number): Location => ({ lat: 37.77, lng: -122.5 + x * 0.01 });
+
+const passenger = (id: string, pickup: Location, dropoff: Location): RouteStop[] => [
+  { id: `${id}:pickup`, location: pickup, type: 'pickup', passengerId: id },
+  { id: `${id}:dropoff`, location: dropoff, type: 'dropoff', passengerId: id },
+];
+
+// Deterministic points scattered around the city
+function scatter(count: number, seed: number): Location[] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  return Array.from({ length: count }, () => ({
+    lat: 37.72 + random() * 0.08,
+    lng: -122.5 + random() * 0.1,
+  }));
+}
+
+const isFeasible = (order: RouteStop[]) =>
+  order.every(
+    (stop, index) =>
+      stop.type !== 'dropoff' ||
+      !order.some(s => s.type === 'pickup' && s.passengerId === stop.passengerId) ||
+      order.findIndex(s => s.type === 'pickup' && s.passengerId === stop.passengerId) < index
+  );
+
+const routeLength = (start: Location, goal: Location, order: RouteStop[]) => {
+  const points = [start, ...order.map(stop => stop.location), goal];
+  return points.slice(1).reduce((sum, point, i) => sum + haversineDistance(points[i], point), 0);
+};
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+describe('planMultiStopRoute', () => {
+  it('picks both passengers up on the way and drops them off in passing', () => {
+    const stops = [...passenger('b', east(2), east(4)), ...passenger('a', east(1), east(3))];
+
+    const route = planMultiStopRoute(east(0), east(5), stops);
+
+    expect(route.method).toBe('exact');
+    expect(route.order.map(stop => stop.id)).toEqual(['a:pickup', 'b:pickup', 'a:dropoff', 'b:dropoff']);
+    // A parallel bows slightly off the great circle, hence the looser match
+    expect(route.totalDistance).toBeCloseTo(haversineDistance(east(0), east(5)), 6);
+    expect(route.legs).toHaveLength(5);
+  });
+
+  it('never drops a passenger off before picking them up', () => {
+    // The dropoff is on the way, the pickup past the goal
+    const route = planMultiStopRoute(east(0), east(4), passenger('a', east(6), east(2)));
+
+    expect(route.order.map(stop => stop.id)).toEqual(['a:pickup', 'a:dropoff']);
+  });
+
+  it('lets a passenger already on board be dropped off at any point', () => {
+    const onBoard: RouteStop = { id: 'c:dropoff', location: east(1), type: 'dropoff', passengerId: 'c' };
+    const route = planMultiStopRoute(east(0), east(5), [...passenger('a', east(3), east(4)), onBoard]);
+
+    expect(route.order.map(stop => stop.id)).toEqual(['c:dropoff', 'a:pickup', 'a:dropoff']);
+  });
+
+  it('finds the shortest feasible order of small instances, as brute force does', () => {
+    for (const seed of [1, 7, 42, 2024]) {
+      const [start, goal, ...points] = scatter(8, seed);
+      const stops = [0, 2, 4].flatMap(i => passenger(`p${i}`, points[i], points[i + 1]));
+
+      const route = planMultiStopRoute(start, goal, stops);
+      const best = Math.min(
+        ...permutations(stops)
+          .filter(isFeasible)
+          .map(order => routeLength(start, goal, order))
+      );
+
+      expect(route.method).toBe('exact');
+      expect(route.totalDistance).toBeCloseTo(best, 9);
+    }
+  });
+
+  it('improves larger instances to a feasible 2-opt optimum', () => {
+    const [start, goal, ...points] = scatter(18, 5);
+    const stops = Array.from({ length: 8 }, (_, i) => passenger(`p${i}`, points[2 * i], points[2 * i + 1])).flat();
+
+    const route = planMultiStopRoute(start, goal, stops);
+
+    expect(route.method).toBe('heuristic');
+    expect(new Set(route.order.map(stop => stop.id)).size).toBe(stops.length);
+    expect(isFeasible(route.order)).toBe(true);
+    expect(route.totalDistance).toBeCloseTo(routeLength(start, goal, route.order), 9);
+    expect(route.totalDistance).toBeLessThanOrEqual(routeLength(start, goal, stops));
+
+    // No feasible segment reversal shortens it
+    for (let i = 0; i < route.order.length - 1; i++) {
+      for (let j = i + 1; j < route.order.length; j++) {
+        const reversed = [
+          ...route.order.slice(0, i),
+          ...route.order.slice(i, j + 1).reverse(),
+          ...route.order.slice(j + 1),
+        ];
+        if (!isFeasible(reversed)) continue;
+        expect(routeLength(start, goal, reversed)).toBeGreaterThanOrEqual(route.totalDistance - 1e-9);
+      }
+    }
+  });
+});
@@ -0,0 +1,282 @@
+import { Location, RoutingOptions, astarPathfinding } from './astar';
+import { RoadGraph } from './roadGraph';
+
+export interface RouteStop {
+  id: string;
+  location: Location;
+  type: 'pickup' | 'dropoff' | 'waypoint';
+  // Pairs a pickup with its dropoff; the pickup must be visited first
+  passengerId?: string;
+}
+
+export interface RouteLeg {
+  from: Location;
+  to: Location;
+  distanceKm: number;
+  durationMin: number;
+}
+
+export interface MultiStopRoute {
+  order: RouteStop[];
+  legs: RouteLeg[];
+  totalDistance: number;
+  totalDuration: number;
+  method: 'exact' | 'heuristic';
+  path: Location[];
+}
+
+// Held-Karp is O(2^n · n^2); beyond this many stops use the heuristic
+const EXACT_SOLVER_MAX_STOPS = 12;
+
+/**
+ * MULTI-STOP ROUTE PLANNING: choose the visiting order of the stops between a
+ * fixed start and goal, then route the legs over the road graph.
+ *
+ * Each passenger's pickup always comes before their dropoff. Small instances
+ * are solved exactly (dynamic programming over subsets); larger ones use
+ * nearest-neighbour construction improved with 2-opt and Or-opt moves.
+ */
+export function planMultiStopRoute(
+  start: Location,
+  goal: Location,
+  stops: RouteStop[],
+  graph?: RoadGraph | null,
+  options: RoutingOptions = {}
+): MultiStopRoute {
+  const points = [start, ...stops.map(s => s.location), goal];
+  const matrix = points.map((from, i) =>
+    points.map((to, j) =>
+      i === j ? 0 : astarPathfinding(from, to, [], graph, options).totalDistance
+    )
+  );
+
+  const predecessors = buildPrecedence(stops);
+  const method = stops.length <= EXACT_SOLVER_MAX_STOPS ? 'exact' : 'heuristic';
+  const order =
+    method === 'exact'
+      ? solveExact(matrix, predecessors)
+      : improveOrder(nearestNeighborOrder(matrix, predecessors), matrix, predecessors);
+
+  const orderedStops = order.map(index => stops[index]);
+  return {
+    order: orderedStops,
+    method,
+    ...routeStopSequence(start, goal, orderedStops, graph, options),
+  };
+}
+
+/**
+ * Route the legs through the stops in the order given, each departing when
+ * the previous one arrives, so their durations follow the speed profiles for
+ * that time
+ */
+export function routeStopSequence(
+  start: Location,
+  goal: Location,
+  stops: RouteStop[],
+  graph?: RoadGraph | null,
+  options: RoutingOptions = {}
+): Pick<MultiStopRoute, 'legs' | 'totalDistance' | 'totalDuration' | 'path'> {
+  const points = [start, ...stops.map(s => s.location), goal];
+  let elapsedMin = 0;
+  const path: Location[] = [start];
+  const legs = points.slice(0, -1).map((from, i) => {
+    const to = points[i + 1];
+    const legDeparture = options.departureTime
+      ? new Date(options.departureTime.getTime() + elapsedMin * 60000)
+      : undefined;
+    const route = astarPathfinding(from, to, [], graph, {
+      ...options,
+      departureTime: legDeparture,
+    });
+    elapsedMin += route.totalDuration;
+    path.push(...route.path.slice(1));
+    return {
+      from,
+      to,
+      distanceKm: route.totalDistance,
+      durationMin: route.totalDuration,
+    };
+  });
+
+  return {
+    legs,
+    totalDistance: legs.reduce((sum, leg) => sum + leg.distanceKm, 0),
+    totalDuration: legs.reduce((sum, leg) => sum + leg.durationMin, 0),
+    path,
+  };
+}
+
+/**
+ * For each stop index, the index of the stop that must be visited before it
+ * (the passenger's pickup for a dropoff), or -1. A dropoff without a pickup
+ * in the list belongs to a passenger already on board.
+ */
+function buildPrecedence(stops: RouteStop[]): number[] {
+  return stops.map(stop => {
+    if (stop.type !== 'dropoff' || !stop.passengerId) return -1;
+    return stops.findIndex(s => s.type === 'pickup' && s.passengerId === stop.passengerId);
+  });
+}
+
+function isFeasible(order: number[], predecessors: number[]): boolean {
+  const position = new Map(order.map((stop, index) => [stop, index]));
+  return order.every(
+    stop => predecessors[stop] === -1 || position.get(predecessors[stop])! < position.get(stop)!
+  );
+}
+
+/**
+ * Cost of start → stops (in order) → goal. Matrix row/column 0 is the start,
+ * stop i is i + 1, the goal is the last index.
+ */
+function orderCost(order: number[], matrix: number[][]): number {
+  const goal = matrix.length - 1;
+  let cost = 0;
+  let previous = 0;
+  for (const stop of order) {
+    cost += matrix[previous][stop + 1];
+    previous = stop + 1;
+  }
+  return cost + matrix[previous][goal];
+}
+
+/**
+ * EXACT: Held-Karp dynamic programming over visited subsets. A stop can only
+ * be appended once its predecessor is in the subset.
+ */
+function solveExact(matrix: number[][], predecessors: number[]): number[] {
+  const n = predecessors.length;
+  if (n === 0) return [];
+
+  const goal = matrix.length - 1;
+  const full = (1 << n) - 1;
+  const cost = new Float64Array((1 << n) * n).fill(Infinity);
+  const parent = new Int32Array((1 << n) * n).fill(-1);
+
+  for (let stop = 0; stop < n; stop++) {
+    if (predecessors[stop] === -1) {
+      cost[(1 << stop) * n + stop] = matrix[0][stop + 1];
+    }
+  }
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let last = 0; last < n; last++) {
+      const current = cost[mask * n + last];
+      if (current === Infinity) continue;
+
+      for (let next = 0; next < n; next++) {
+        if (mask & (1 << next)) continue;
+        const required = predecessors[next];
+        if (required !== -1 && !(mask & (1 << required))) continue;
+
+        const nextMask = mask | (1 << next);
+        const candidate = current + matrix[last + 1][next + 1];
+        if (candidate < cost[nextMask * n + next]) {
+          cost[nextMask * n + next] = candidate;
+          parent[nextMask * n + next] = last;
+        }
+      }
+    }
+  }
+
+  let bestLast = 0;
+  let bestCost = Infinity;
+  for (let last = 0; last < n; last++) {
+    const total = cost[full * n + last] + matrix[last + 1][goal];
+    if (total < bestCost) {
+      bestCost = total;
+      bestLast = last;
+    }
+  }
+
+  const order: number[] = [];
+  let mask = full;
+  let last = bestLast;
+  while (last !== -1) {
+    order.push(last);
+    const previous = parent[mask * n + last];
+    mask &= ~(1 << last);
+    last = previous;
+  }
+  return order.reverse();
+}
+
+/**
+ * HEURISTIC construction: repeatedly go to the closest stop whose
+ * predecessor has already been visited
+ */
+function nearestNeighborOrder(matrix: number[][], predecessors: number[]): number[] {
+  const visited = new Set<number>();
+  const order: number[] = [];
+  let current = 0;
+
+  while (order.length < predecessors.length) {
+    let best = -1;
+    for (let stop = 0; stop < predecessors.length; stop++) {
+      if (visited.has(stop)) continue;
+      const required = predecessors[stop];
+      if (required !== -1 && !visited.has(required)) continue;
+      if (best === -1 || matrix[current][stop + 1] < matrix[current][best + 1]) {
+        best = stop;
+      }
+    }
+    visited.add(best);
+    order.push(best);
+    current = best + 1;
+  }
+
+  return order;
+}
+
+/**
+ * Local search: 2-opt (reverse a segment) and Or-opt (move a run of 1-3
+ * stops elsewhere), accepting only precedence-feasible improvements, until
+ * no move helps
+ */
+function improveOrder(order: number[], matrix: number[][], predecessors: number[]): number[] {
+  let best = order;
+  let bestCost = orderCost(best, matrix);
+  let improved = true;
+
+  const tryCandidate = (candidate: number[]) => {
+    if (!isFeasible(candidate, predecessors)) return false;
+    const candidateCost = orderCost(candidate, matrix);
+    if (candidateCost < bestCost - 1e-9) {
+      best = candidate;
+      bestCost = candidateCost;
+      return true;
+    }
+    return false;
+  };
+
+  while (improved) {
+    improved = false;
+
+    // 2-opt
+    for (let i = 0; i < best.length - 1 && !improved; i++) {
+      for (let j = i + 1; j < best.length && !improved; j++) {
+        const candidate = [
+          ...best.slice(0, i),
+          ...best.slice(i, j + 1).reverse(),
+          ...best.slice(j + 1),
+        ];
+        improved = tryCandidate(candidate);
+      }
+    }
+
+    // Or-opt
+    for (let length = 1; length <= 3 && !improved; length++) {
+      for (let i = 0; i + length <= best.length && !improved; i++) {
+        const segment = best.slice(i, i + length);
+        const rest = [...best.slice(0, i), ...best.slice(i + length)];
+        for (let k = 0; k <= rest.length && !improved; k++) {
+          if (k === i) continue;
+          improved = tryCandidate([...rest.slice(0, k), ...segment, ...rest.slice(k)]);
+        }
+      }
+    }
+  }
+
+  return best;
+}
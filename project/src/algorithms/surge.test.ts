@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { encodeGeohash } from './geohash';
+import {
+  SurgeCell,
+  computeSurgeCells,
+  getSurgeLevel,
+  getSurgeMultiplierAt,
+  rawSurgeMultiplier,
+  updateSurgeCells,
+} from './surge';
+
+const UNION_SQUARE = { lat: 37.788, lng: -122.4075 };
+// A few metres away, in the same precision-6 cell
+const UNION_SQUARE_CORNER = { lat: 37.7882, lng: -122.4072 };
+const MARINA = { lat: 37.8037, lng: -122.4368 };
+
+const T0 = new Date('2026-11-02T08:00:00Z').getTime();
+const MINUTE = 60000;
+
+const repeat = <T>(item: T, count: number) => Array.from({ length: count }, () => item);
+
+describe('rawSurgeMultiplier', () => {
+  it('stays at 1 up to one request per available ride, then rises to the cap', () => {
+    expect(rawSurgeMultiplier(0, 3)).toBe(1);
+    expect(rawSurgeMultiplier(1, 1)).toBe(1);
+    expect(rawSurgeMultiplier(6, 2)).toBe(2);
+    // No rides counts as one
+    expect(rawSurgeMultiplier(2, 0)).toBe(1.5);
+    expect(rawSurgeMultiplier(20, 1)).toBe(2.5);
+  });
+});
+
+describe('computeSurgeCells', () => {
+  it('prices each geohash cell from its own requests and rides', () => {
+    const cells = computeSurgeCells(
+      repeat(UNION_SQUARE, 6),
+      [...repeat(UNION_SQUARE_CORNER, 2), ...repeat(MARINA, 3)],
+      new Map(),
+      T0
+    );
+
+    const geohash = encodeGeohash(UNION_SQUARE, 6);
+    // The Marina has rides but no requests, so it isn't surging
+    expect(Array.from(cells.keys())).toEqual([geohash]);
+    // A first reading of ×2 is blended from ×1
+    expect(cells.get(geohash)).toEqual({
+      geohash,
+      demand: 6,
+      supply: 2,
+      multiplier: 1.4,
+      computedAt: T0,
+      expiresAt: T0 + 15 * MINUTE,
+    });
+
+    expect(getSurgeMultiplierAt(cells, UNION_SQUARE_CORNER, T0 + MINUTE)).toBe(1.4);
+    expect(getSurgeMultiplierAt(cells, MARINA, T0 + MINUTE)).toBe(1);
+    expect(getSurgeMultiplierAt(cells, UNION_SQUARE, T0 + 15 * MINUTE)).toBe(1);
+  });
+});
+
+describe('updateSurgeCells', () => {
+  const geohash = encodeGeohash(UNION_SQUARE, 6);
+
+  const run = (counts: Array<{ demand: number; supply: number }>, start: Map<string, SurgeCell>) => {
+    let cells = start;
+    return counts.map((count, minute) => {
+      cells = updateSurgeCells(
+        count.demand || count.supply ? [{ geohash, ...count }] : [],
+        cells,
+        T0 + (minute + 1) * MINUTE
+      );
+      return cells.get(geohash)?.multiplier ?? 1;
+    });
+  };
+
+  it('climbs to a steady reading in steps, without stalling a step short', () => {
+    expect(run(repeat({ demand: 6, supply: 2 }, 6), new Map())).toEqual([1.4, 1.6, 1.8, 1.9, 2, 2]);
+  });
+
+  const surging = new Map<string, SurgeCell>([
+    [geohash, { geohash, demand: 6, supply: 2, multiplier: 2, computedAt: T0, expiresAt: T0 + 15 * MINUTE }],
+  ]);
+
+  it('eases a cell with no more requests back to 1 and drops it', () => {
+    const multipliers = run(repeat({ demand: 0, supply: 0 }, 5), surging);
+
+    expect(multipliers).toEqual([1.6, 1.4, 1.2, 1.1, 1]);
+  });
+
+  it('starts afresh once the previous reading has expired', () => {
+    const later = updateSurgeCells([{ geohash, demand: 6, supply: 2 }], surging, T0 + 20 * MINUTE);
+
+    expect(later.get(geohash)?.multiplier).toBe(1.4);
+  });
+
+  it('adds up rows for the same cell', () => {
+    const cells = updateSurgeCells(
+      [
+        { geohash, demand: 4, supply: 1 },
+        { geohash, demand: 2, supply: 1 },
+      ],
+      new Map(),
+      T0
+    );
+
+    expect(cells.get(geohash)).toMatchObject({ demand: 6, supply: 2, multiplier: 1.4 });
+  });
+});
+
+describe('getSurgeLevel', () => {
+  it('bands multipliers for the surge badge', () => {
+    expect([1, 1.1, 1.5, 1.9, 2, 2.5].map(getSurgeLevel)).toEqual([
+      'none',
+      'moderate',
+      'high',
+      'high',
+      'very_high',
+      'very_high',
+    ]);
+  });
+});
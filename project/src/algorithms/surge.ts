@@ -0,0 +1,171 @@
+import { Location } from './astar';
+import { encodeGeohash } from './geohash';
+
+export interface SurgeConfig {
+  // Geohash length of a market cell
+  precision: number;
+  // Demand/supply ratio at which surge starts
+  threshold: number;
+  // Multiplier added per unit of ratio above the threshold
+  sensitivity: number;
+  maxMultiplier: number;
+  // Weight of the new reading in the exponential moving average (0-1]
+  smoothing: number;
+  // Multipliers are rounded to this step so prices don't jitter
+  step: number;
+  // A cell's multiplier lapses back to 1 this long after it was computed
+  ttlMinutes: number;
+}
+
+export interface SurgeCell {
+  geohash: string;
+  demand: number;
+  supply: number;
+  multiplier: number;
+  computedAt: number;
+  expiresAt: number;
+}
+
+export type SurgeLevel = 'none' | 'moderate' | 'high' | 'very_high';
+
+export const DEFAULT_SURGE_CONFIG: SurgeConfig = {
+  precision: 6,
+  threshold: 1,
+  sensitivity: 0.5,
+  maxMultiplier: 2.5,
+  smoothing: 0.4,
+  step: 0.1,
+  ttlMinutes: 15,
+};
+
+function roundToStep(value: number, step: number): number {
+  return Math.round(Math.round(value / step) * step * 100) / 100;
+}
+
+/**
+ * Instant multiplier for one cell: 1 while demand per available ride stays at
+ * or below the threshold, then rising linearly up to the cap
+ */
+export function rawSurgeMultiplier(
+  demand: number,
+  supply: number,
+  config: SurgeConfig = DEFAULT_SURGE_CONFIG
+): number {
+  if (demand === 0) return 1;
+  const ratio = demand / Math.max(supply, 1);
+  const multiplier = 1 + config.sensitivity * Math.max(0, ratio - config.threshold);
+  return Math.min(config.maxMultiplier, multiplier);
+}
+
+// Pending requests and available rides in one market cell
+export interface SurgeCellCount {
+  geohash: string;
+  demand: number;
+  supply: number;
+}
+
+/**
+ * SURGE PRICING: bucket pending requests (demand) and available rides
+ * (supply) into geohash cells and update each cell's multiplier.
+ */
+export function computeSurgeCells(
+  demand: Location[],
+  supply: Location[],
+  previous: Map<string, SurgeCell> = new Map(),
+  now: number = Date.now(),
+  config: SurgeConfig = DEFAULT_SURGE_CONFIG
+): Map<string, SurgeCell> {
+  const counts = new Map<string, SurgeCellCount>();
+  const bucket = (location: Location) => {
+    const geohash = encodeGeohash(location, config.precision);
+    let count = counts.get(geohash);
+    if (!count) {
+      count = { geohash, demand: 0, supply: 0 };
+      counts.set(geohash, count);
+    }
+    return count;
+  };
+
+  demand.forEach(location => bucket(location).demand++);
+  supply.forEach(location => bucket(location).supply++);
+
+  return updateSurgeCells(Array.from(counts.values()), previous, now, config);
+}
+
+/**
+ * Update each cell's multiplier from per-cell counts, e.g. aggregated by the
+ * database at the configured geohash precision.
+ *
+ * The new reading is blended with the previous, unexpired multiplier so a
+ * single burst of requests doesn't spike prices; cells that no longer have
+ * demand ease back towards 1 the same way and are dropped once they reach it.
+ * A blend that rounds back to the previous step still moves one step while
+ * the reading is a step or more away, so multipliers don't stall short of it.
+ */
+export function updateSurgeCells(
+  cellCounts: SurgeCellCount[],
+  previous: Map<string, SurgeCell> = new Map(),
+  now: number = Date.now(),
+  config: SurgeConfig = DEFAULT_SURGE_CONFIG
+): Map<string, SurgeCell> {
+  const counts = new Map<string, { demand: number; supply: number }>();
+  cellCounts.forEach(({ geohash, demand, supply }) => {
+    const count = counts.get(geohash) ?? { demand: 0, supply: 0 };
+    counts.set(geohash, { demand: count.demand + demand, supply: count.supply + supply });
+  });
+
+  // Cells that were surging keep easing down even with no activity
+  previous.forEach((cell, geohash) => {
+    if (cell.expiresAt > now && !counts.has(geohash)) {
+      counts.set(geohash, { demand: 0, supply: 0 });
+    }
+  });
+
+  const cells = new Map<string, SurgeCell>();
+  counts.forEach((count, geohash) => {
+    const prior = previous.get(geohash);
+    const priorMultiplier = prior && prior.expiresAt > now ? prior.multiplier : 1;
+    const raw = rawSurgeMultiplier(count.demand, count.supply, config);
+    const smoothed = priorMultiplier + config.smoothing * (raw - priorMultiplier);
+    let rounded = roundToStep(smoothed, config.step);
+    if (rounded === priorMultiplier && Math.abs(raw - priorMultiplier) >= config.step - 1e-9) {
+      rounded = roundToStep(priorMultiplier + Math.sign(raw - priorMultiplier) * config.step, config.step);
+    }
+    const multiplier = Math.min(config.maxMultiplier, Math.max(1, rounded));
+
+    if (multiplier === 1 && count.demand === 0) return;
+
+    cells.set(geohash, {
+      geohash,
+      demand: count.demand,
+      supply: count.supply,
+      multiplier,
+      computedAt: now,
+      expiresAt: now + config.ttlMinutes * 60000,
+    });
+  });
+
+  return cells;
+}
+
+/**
+ * Multiplier for a pickup location; 1 outside surging cells or once the
+ * cell's reading has expired
+ */
+export function getSurgeMultiplierAt(
+  cells: Map<string, SurgeCell>,
+  location: Location,
+  now: number = Date.now(),
+  config: SurgeConfig = DEFAULT_SURGE_CONFIG
+): number {
+  const cell = cells.get(encodeGeohash(location, config.precision));
+  if (!cell || cell.expiresAt <= now) return 1;
+  return cell.multiplier;
+}
+
+export function getSurgeLevel(multiplier: number): SurgeLevel {
+  if (multiplier >= 2) return 'very_high';
+  if (multiplier >= 1.5) return 'high';
+  if (multiplier > 1) return 'moderate';
+  return 'none';
+}
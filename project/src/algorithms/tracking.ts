@@ -0,0 +1,165 @@
+import { Location, haversineDistance } from './astar';
+
+export interface GpsFix extends Location {
+  // Milliseconds: since the epoch for live fixes, since the first point for traces
+  timestamp: number;
+}
+
+export interface PositionThrottleOptions {
+  // Never publish more often than this
+  minIntervalMs: number;
+  // ...unless the driver has moved at least this far
+  minDistanceM: number;
+  // Publish anyway after this long, so passengers know the feed is alive
+  heartbeatMs: number;
+}
+
+export const DEFAULT_THROTTLE_OPTIONS: PositionThrottleOptions = {
+  minIntervalMs: 5000,
+  minDistanceM: 25,
+  heartbeatMs: 30000,
+};
+
+// The driver counts as having reached the pickup inside this radius
+export const PICKUP_ARRIVAL_RADIUS_KM = 0.1;
+
+export type TripPhase = 'to_pickup' | 'to_dropoff' | 'arrived';
+
+/**
+ * LOCATION THROTTLE: decides which GPS fixes are worth publishing. A fix goes
+ * out when enough time has passed and the driver has actually moved, or when
+ * the heartbeat is due.
+ */
+export function createPositionThrottle(options: Partial<PositionThrottleOptions> = {}) {
+  const { minIntervalMs, minDistanceM, heartbeatMs } = { ...DEFAULT_THROTTLE_OPTIONS, ...options };
+  let last: GpsFix | null = null;
+
+  return (fix: GpsFix): boolean => {
+    if (last) {
+      const elapsed = fix.timestamp - last.timestamp;
+      const movedM = haversineDistance(last, fix) * 1000;
+      if (elapsed < minIntervalMs) return false;
+      if (movedM < minDistanceM && elapsed < heartbeatMs) return false;
+    }
+    last = fix;
+    return true;
+  };
+}
+
+export function interpolatePosition(from: Location, to: Location, t: number): Location {
+  const clamped = Math.min(Math.max(t, 0), 1);
+  return {
+    lat: from.lat + (to.lat - from.lat) * clamped,
+    lng: from.lng + (to.lng - from.lng) * clamped,
+  };
+}
+
+/**
+ * The passenger is picked up once the driver has come within the arrival
+ * radius of their pickup, and has arrived once the driver reaches the dropoff
+ */
+export function advanceTripPhase(
+  phase: TripPhase,
+  driver: Location,
+  pickup: Location,
+  dropoff: Location
+): TripPhase {
+  if (phase === 'to_pickup' && haversineDistance(driver, pickup) <= PICKUP_ARRIVAL_RADIUS_KM) {
+    return 'to_dropoff';
+  }
+  if (phase === 'to_dropoff' && haversineDistance(driver, dropoff) <= PICKUP_ARRIVAL_RADIUS_KM) {
+    return 'arrived';
+  }
+  return phase;
+}
+
+export interface LiveEta {
+  // Minutes until the driver reaches the pickup; null once picked up
+  toPickupMin: number | null;
+  toDropoffMin: number;
+  remainingKm: number;
+}
+
+/**
+ * LIVE ETA from the driver's latest position. `route` gives the driving time
+ * and distance between two points, so callers can plug in the road graph.
+ */
+export function estimateLiveEta(
+  driver: Location,
+  pickup: Location,
+  dropoff: Location,
+  phase: TripPhase,
+  route: (from: Location, to: Location) => { distanceKm: number; durationMin: number }
+): LiveEta {
+  if (phase === 'arrived') {
+    return { toPickupMin: null, toDropoffMin: 0, remainingKm: 0 };
+  }
+
+  if (phase === 'to_dropoff') {
+    const leg = route(driver, dropoff);
+    return { toPickupMin: null, toDropoffMin: leg.durationMin, remainingKm: leg.distanceKm };
+  }
+
+  const toPickup = route(driver, pickup);
+  const trip = route(pickup, dropoff);
+  return {
+    toPickupMin: toPickup.durationMin,
+    toDropoffMin: toPickup.durationMin + trip.durationMin,
+    remainingKm: toPickup.distanceKm + trip.distanceKm,
+  };
+}
+
+/**
+ * Parse a recorded GPS trace for simulated driving. Accepts GPX (<trkpt> or
+ * <rtept> with optional <time>) or JSON: an array of {lat, lng, timestamp?}
+ * or a GeoJSON LineString / Feature. Timestamps come back relative to the
+ * first point; points without times are spaced `defaultIntervalMs` apart.
+ */
+export function parseGpsTrace(text: string, defaultIntervalMs: number = 2000): GpsFix[] {
+  const trimmed = text.trim();
+  const points: Array<Location & { timestamp?: number }> = [];
+
+  if (trimmed.startsWith('<')) {
+    const pointPattern = /<(?:trkpt|rtept)\b([^>]*)>([\s\S]*?)<\/(?:trkpt|rtept)>/g;
+    for (const match of trimmed.matchAll(pointPattern)) {
+      const lat = /lat="([^"]+)"/.exec(match[1]);
+      const lon = /lon="([^"]+)"/.exec(match[1]);
+      const time = /<time>([^<]+)<\/time>/.exec(match[2]);
+      if (!lat || !lon) continue;
+      points.push({
+        lat: parseFloat(lat[1]),
+        lng: parseFloat(lon[1]),
+        timestamp: time ? Date.parse(time[1]) : undefined,
+      });
+    }
+  } else {
+    const json = JSON.parse(trimmed);
+    const geometry = json.type === 'Feature' ? json.geometry : json;
+    if (geometry?.type === 'LineString') {
+      (geometry.coordinates as number[][]).forEach(([lng, lat]) => points.push({ lat, lng }));
+    } else if (Array.isArray(json)) {
+      json.forEach((point: { lat: number; lng?: number; lon?: number; timestamp?: number | string }) =>
+        points.push({
+          lat: Number(point.lat),
+          lng: Number(point.lng ?? point.lon),
+          timestamp: point.timestamp !== undefined ? new Date(point.timestamp).getTime() : undefined,
+        })
+      );
+    }
+  }
+
+  const valid = points.filter(point => Number.isFinite(point.lat) && Number.isFinite(point.lng));
+  if (valid.length === 0) {
+    throw new Error('GPS trace has no points');
+  }
+
+  const start = valid[0].timestamp ?? 0;
+  return valid.map((point, i) => ({
+    lat: point.lat,
+    lng: point.lng,
+    timestamp:
+      point.timestamp !== undefined && !Number.isNaN(point.timestamp)
+        ? point.timestamp - start
+        : i * defaultIntervalMs,
+  }));
+}
@@ -1,6 +1,8 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { Car, MapPin, Plus, Loader2, Navigation } from 'lucide-react';
+import { Car, MapPin, Plus, Loader2, Navigation, Calendar } from 'lucide-react';
 import { Location } from '../algorithms/astar';
+import { DEFAULT_DEPARTURE_FLEX_MIN, toLocalInputValue } from '../algorithms/departureWindow';
+import { DAY_LABELS } from '../algorithms/recurrence';
 import { geocodeAddress, debounce, searchLocationSuggestions, getCurrentLocation, LocationSuggestion } from '../services/geocoding';
 
 interface CreateRideFormProps {
@@ -9,11 +11,19 @@ interface CreateRideFormProps {
     dropoff: Location & { address: string };
     vehicleType: string;
     seatsAvailable: number;
+    maxDetourMin: number;
+    // Undefined means leaving now
+    departureTime?: Date;
+    departureFlexMin: number;
+    // Days of the week (0 = Sunday) to repeat a scheduled ride on; empty for a one-off
+    repeatDays: number[];
   }) => void;
   loading?: boolean;
+  // Offer repeating a scheduled ride; false where recurring rides aren't available
+  allowRepeat?: boolean;
 }
 
-export default function CreateRideForm({ onSubmit, loading }: CreateRideFormProps) {
+export default function CreateRideForm({ onSubmit, loading, allowRepeat = true }: CreateRideFormProps) {
   const [pickupAddress, setPickupAddress] = useState('');
   const [pickupLat, setPickupLat] = useState('');
   const [pickupLng, setPickupLng] = useState('');
@@ -22,6 +32,11 @@ export default function CreateRideForm({ onSubmit, loading }: CreateRideFormProp
   const [dropoffLng, setDropoffLng] = useState('');
   const [vehicleType, setVehicleType] = useState('economy');
   const [seatsAvailable, setSeatsAvailable] = useState(1);
+  const [maxDetourMin, setMaxDetourMin] = useState(15);
+  const [scheduled, setScheduled] = useState(false);
+  const [departureTime, setDepartureTime] = useState('');
+  const [departureFlexMin, setDepartureFlexMin] = useState(DEFAULT_DEPARTURE_FLEX_MIN);
+  const [repeatDays, setRepeatDays] = useState<number[]>([]);
   const [geocodingPickup, setGeocodingPickup] = useState(false);
   const [geocodingDropoff, setGeocodingDropoff] = useState(false);
   const [detectingLocation, setDetectingLocation] = useState(false);
@@ -179,6 +194,12 @@ export default function CreateRideForm({ onSubmit, loading }: CreateRideFormProp
     }
   };
 
+  const toggleRepeatDay = (day: number) => {
+    setRepeatDays(
+      repeatDays.includes(day) ? repeatDays.filter((d) => d !== day) : [...repeatDays, day]
+    );
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -187,6 +208,11 @@ export default function CreateRideForm({ onSubmit, loading }: CreateRideFormProp
       return;
     }
 
+    if (scheduled && (!departureTime || new Date(departureTime).getTime() < Date.now())) {
+      alert('Please pick a departure time in the future');
+      return;
+    }
+
     onSubmit({
       pickup: {
         lat: parseFloat(pickupLat),
@@ -200,6 +226,10 @@ export default function CreateRideForm({ onSubmit, loading }: CreateRideFormProp
       },
       vehicleType,
       seatsAvailable,
+      maxDetourMin,
+      departureTime: scheduled ? new Date(departureTime) : undefined,
+      departureFlexMin,
+      repeatDays: scheduled ? repeatDays : [],
     });
   };
 
@@ -356,6 +386,101 @@ export default function CreateRideForm({ onSubmit, loading }: CreateRideFormProp
             required
           />
         </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Max Detour (minutes)
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="60"
+            value={maxDetourMin}
+            onChange={(e) => setMaxDetourMin(parseInt(e.target.value))}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Only passengers who add at most this much to your trip will be matched
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            <Calendar className="w-4 h-4 inline mr-1 text-blue-600" />
+            Departure
+          </label>
+          <div className="flex gap-2 mb-2">
+            <button
+              type="button"
+              onClick={() => setScheduled(false)}
+              className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                !scheduled ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Leave now
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setScheduled(true);
+                if (!departureTime) {
+                  setDepartureTime(toLocalInputValue(new Date(Date.now() + 60 * 60000)));
+                }
+              }}
+              className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                scheduled ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Schedule
+            </button>
+          </div>
+          {scheduled && (
+            <input
+              type="datetime-local"
+              value={departureTime}
+              min={toLocalInputValue(new Date())}
+              onChange={(e) => setDepartureTime(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-2"
+              required
+            />
+          )}
+          {scheduled && allowRepeat && (
+            <div className="mb-2">
+              <p className="text-xs text-gray-500 mb-1">Repeat every (leave empty for a one-off ride)</p>
+              <div className="flex gap-1">
+                {[1, 2, 3, 4, 5, 6, 0].map((day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleRepeatDay(day)}
+                    className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                      repeatDays.includes(day)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {DAY_LABELS[day]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <select
+            value={departureFlexMin}
+            onChange={(e) => setDepartureFlexMin(parseInt(e.target.value))}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value={0}>Exactly on time</option>
+            <option value={5}>± 5 minutes</option>
+            <option value={15}>± 15 minutes</option>
+            <option value={30}>± 30 minutes</option>
+            <option value={60}>± 1 hour</option>
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            The ride is taken off the list once this window has passed
+          </p>
+        </div>
       </div>
 
       <button
@@ -0,0 +1,100 @@
+import { useState, useEffect, useRef } from 'react';
+import { Radio, Square, FileUp } from 'lucide-react';
+import { Ride } from '../lib/supabase';
+import {
+  GPS_TRACE_URL,
+  PositionSource,
+  browserPositionSource,
+  loadGpsTrace,
+  startDriverTracking,
+  tracePositionSource,
+} from '../services/trackingService';
+
+interface DriverTripPanelProps {
+  ride: Ride;
+}
+
+export default function DriverTripPanel({ ride }: DriverTripPanelProps) {
+  const [sharing, setSharing] = useState(false);
+  const [traceFile, setTraceFile] = useState<File | null>(null);
+  const [published, setPublished] = useState(0);
+  const [lastPublishedAt, setLastPublishedAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  // Stop streaming when the panel goes away
+  useEffect(() => () => stopRef.current?.(), []);
+
+  const handleStart = async () => {
+    setError(null);
+    try {
+      let source: PositionSource;
+      if (traceFile || GPS_TRACE_URL) {
+        const trace = await loadGpsTrace(traceFile ?? GPS_TRACE_URL!);
+        source = tracePositionSource(trace);
+      } else {
+        source = browserPositionSource();
+      }
+
+      stopRef.current = startDriverTracking(ride.id, source, {
+        onPublish: () => {
+          setPublished((count) => count + 1);
+          setLastPublishedAt(new Date());
+        },
+        onError: (trackingError) => setError(trackingError.message),
+      });
+      setSharing(true);
+    } catch (startError) {
+      setError(startError instanceof Error ? startError.message : String(startError));
+    }
+  };
+
+  const handleStop = () => {
+    stopRef.current?.();
+    stopRef.current = null;
+    setSharing(false);
+  };
+
+  return (
+    <div className="mt-2 bg-blue-50 border border-blue-100 rounded-lg p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        {sharing ? (
+          <button
+            onClick={handleStop}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-red-600 text-white hover:bg-red-700"
+          >
+            <Square className="w-4 h-4" />
+            Stop sharing location
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+          >
+            <Radio className="w-4 h-4" />
+            Share live location
+          </button>
+        )}
+        {!sharing && (
+          <label className="flex items-center gap-1 text-xs text-gray-600 cursor-pointer">
+            <FileUp className="w-4 h-4" />
+            {traceFile ? traceFile.name : 'Simulate with a GPS trace'}
+            <input
+              type="file"
+              accept=".gpx,.json,.geojson"
+              className="hidden"
+              onChange={(e) => setTraceFile(e.target.files?.[0] ?? null)}
+            />
+          </label>
+        )}
+        {sharing && (
+          <span className="text-xs text-blue-900">
+            {published} update(s) sent
+            {lastPublishedAt && ` · last at ${lastPublishedAt.toLocaleTimeString()}`}
+          </span>
+        )}
+      </div>
+      {error && <p className="mt-2 text-xs text-red-700">{error}</p>}
+    </div>
+  );
+}
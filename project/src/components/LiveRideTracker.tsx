@@ -0,0 +1,134 @@
+import { useState, useEffect, useRef } from 'react';
+import { Clock, Flag, Loader2 } from 'lucide-react';
+import { Ride } from '../lib/supabase';
+import { Location } from '../algorithms/astar';
+import { LiveEta, TripPhase, advanceTripPhase, estimateLiveEta } from '../algorithms/tracking';
+import { getRideBookings, subscribeToRideUpdates } from '../services/rideService';
+import { loadEtaRouter } from '../services/trackingService';
+import MapView from './MapView';
+
+interface LiveRideTrackerProps {
+  ride: Ride;
+  userId: string;
+}
+
+// A position older than this is shown as stale
+const STALE_LOCATION_MS = 60000;
+
+type Stop = Location & { address: string };
+
+function driverPosition(ride: Ride): Location | undefined {
+  return ride.current_lat != null && ride.current_lng != null
+    ? { lat: Number(ride.current_lat), lng: Number(ride.current_lng) }
+    : undefined;
+}
+
+export default function LiveRideTracker({ ride, userId }: LiveRideTrackerProps) {
+  const [stops, setStops] = useState<{ pickup: Stop; dropoff: Stop } | null>(null);
+  const [driverLocation, setDriverLocation] = useState<Location | undefined>(driverPosition(ride));
+  const [locationAt, setLocationAt] = useState<string | null | undefined>(ride.current_location_at);
+  const [eta, setEta] = useState<LiveEta | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const phaseRef = useRef<TripPhase>(ride.status === 'completed' ? 'arrived' : 'to_pickup');
+  const routeRef = useRef<Awaited<ReturnType<typeof loadEtaRouter>> | null>(null);
+
+  // The passenger's own pickup and dropoff, falling back to the driver's route
+  useEffect(() => {
+    const routeEnds = {
+      pickup: { lat: ride.pickup_lat, lng: ride.pickup_lng, address: ride.pickup_address },
+      dropoff: { lat: ride.dropoff_lat, lng: ride.dropoff_lng, address: ride.dropoff_address },
+    };
+
+    Promise.all([getRideBookings(ride.id), loadEtaRouter()])
+      .then(([bookings, route]) => {
+        routeRef.current = route;
+        const booking = bookings.find(
+          (b) => b.passenger_id === userId && b.status === 'confirmed'
+        );
+        setStops(
+          booking
+            ? {
+                pickup: { lat: booking.pickup_lat, lng: booking.pickup_lng, address: booking.pickup_address },
+                dropoff: { lat: booking.dropoff_lat, lng: booking.dropoff_lng, address: booking.dropoff_address },
+              }
+            : routeEnds
+        );
+      })
+      .catch((error) => {
+        console.error('Error loading trip for tracking:', error);
+        setStops(routeEnds);
+      });
+  }, [ride, userId]);
+
+  useEffect(() => {
+    const channel = subscribeToRideUpdates(ride.id, (updated) => {
+      const position = driverPosition(updated);
+      if (position) setDriverLocation(position);
+      setLocationAt(updated.current_location_at);
+      if (updated.status === 'completed') phaseRef.current = 'arrived';
+    });
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [ride.id]);
+
+  // Tick so "last seen" stays current between updates
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!stops || !driverLocation || !routeRef.current) return;
+    phaseRef.current = advanceTripPhase(phaseRef.current, driverLocation, stops.pickup, stops.dropoff);
+    setEta(estimateLiveEta(driverLocation, stops.pickup, stops.dropoff, phaseRef.current, routeRef.current));
+  }, [driverLocation, stops]);
+
+  if (!stops) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const ageMs = locationAt ? now - new Date(locationAt).getTime() : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div className="bg-white rounded-lg p-3 border border-gray-100">
+          <div className="flex items-center gap-1 text-gray-500">
+            <Clock className="w-4 h-4" />
+            Pickup
+          </div>
+          <div className="text-lg font-semibold text-gray-900">
+            {!eta ? '—' : eta.toPickupMin === null ? 'Picked up' : `${eta.toPickupMin} min`}
+          </div>
+        </div>
+        <div className="bg-white rounded-lg p-3 border border-gray-100">
+          <div className="flex items-center gap-1 text-gray-500">
+            <Flag className="w-4 h-4" />
+            Dropoff
+          </div>
+          <div className="text-lg font-semibold text-gray-900">
+            {!eta ? '—' : eta.toDropoffMin === 0 ? 'Arrived' : `${eta.toDropoffMin} min`}
+          </div>
+          {eta && eta.remainingKm > 0 && (
+            <div className="text-xs text-gray-500">{eta.remainingKm.toFixed(1)} km to go</div>
+          )}
+        </div>
+      </div>
+
+      <p className={`text-xs ${ageMs !== null && ageMs > STALE_LOCATION_MS ? 'text-amber-700' : 'text-gray-500'}`}>
+        {ageMs === null
+          ? 'Waiting for the driver to share their location…'
+          : ageMs > STALE_LOCATION_MS
+            ? `Driver last seen ${Math.round(ageMs / 60000)} min ago`
+            : 'Driver location is live'}
+      </p>
+
+      <MapView pickup={stops.pickup} dropoff={stops.dropoff} driverLocation={driverLocation} />
+    </div>
+  );
+}
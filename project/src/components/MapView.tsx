@@ -1,6 +1,9 @@
 import { useEffect, useRef } from 'react';
-import { MapPin, Navigation, TrendingUp } from 'lucide-react';
+import { MapPin, Navigation, TrendingUp, Zap } from 'lucide-react';
 import { Location } from '../algorithms/astar';
+import { SurgeCell, SurgeLevel, getSurgeLevel } from '../algorithms/surge';
+import { decodeGeohashBounds, encodeGeohash } from '../algorithms/geohash';
+import { interpolatePosition } from '../algorithms/tracking';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 
@@ -9,8 +12,46 @@ interface MapViewProps {
   dropoff?: Location & { address?: string };
   currentLocation?: Location;
   path?: Location[];
+  surgeCells?: SurgeCell[];
+  // Live driver position; the marker glides to each new one
+  driverLocation?: Location;
 }
 
+const SURGE_COLORS: Record<SurgeLevel, string> = {
+  none: '#9ca3af',
+  moderate: '#f59e0b',
+  high: '#f97316',
+  very_high: '#dc2626',
+};
+
+// How long the driver marker takes to glide to a new position
+const DRIVER_ANIMATION_MS = 1000;
+
+const driverIcon = L.divIcon({
+  className: 'driver-marker',
+  html: `
+    <div style="
+      width: 28px;
+      height: 28px;
+      background: #1d4ed8;
+      border: 3px solid white;
+      border-radius: 50%;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.35);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+    ">
+      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="white" stroke-width="3" stroke-linecap="round" stroke-linejoin="round">
+        <path d="M19 17h2c.6 0 1-.4 1-1v-3c0-.9-.7-1.7-1.5-1.9L18 10l-2.7-3.6A2 2 0 0 0 13.7 6H7.3a2 2 0 0 0-1.6.8L3 10l-1.5.6C.7 10.9 0 11.7 0 12.6V16c0 .6.4 1 1 1h2"></path>
+        <circle cx="7" cy="17" r="2"></circle>
+        <circle cx="17" cy="17" r="2"></circle>
+      </svg>
+    </div>
+  `,
+  iconSize: [28, 28],
+  iconAnchor: [14, 14],
+});
+
 // Fix for default marker icons in Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
@@ -24,8 +65,11 @@ export default function MapView({
   dropoff,
   currentLocation,
   path,
+  surgeCells,
+  driverLocation,
 }: MapViewProps) {
   const mapRef = useRef<L.Map | null>(null);
+  const driverMarkerRef = useRef<L.Marker | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -53,6 +97,7 @@ export default function MapView({
 
     // Clear existing layers except the tile layer
     map.eachLayer((layer) => {
+      if (layer === driverMarkerRef.current) return;
       if (layer instanceof L.Marker || layer instanceof L.Polyline || layer instanceof L.Circle) {
         map.removeLayer(layer);
       }
@@ -60,6 +105,20 @@ export default function MapView({
 
     const bounds: L.LatLngBoundsExpression = [];
 
+    // Shade surging cells so passengers can see why prices are higher
+    surgeCells?.forEach((cell) => {
+      const { south, west, north, east } = decodeGeohashBounds(cell.geohash);
+      const color = SURGE_COLORS[getSurgeLevel(cell.multiplier)];
+      L.rectangle([[south, west], [north, east]], {
+        color,
+        weight: 1,
+        fillColor: color,
+        fillOpacity: 0.2,
+      })
+        .addTo(map)
+        .bindTooltip(`${cell.multiplier.toFixed(1)}× surge`);
+    });
+
     // Add pickup marker
     if (pickup) {
       const pickupIcon = L.divIcon({
@@ -229,7 +288,48 @@ export default function MapView({
     return () => {
       // Cleanup is handled by not destroying the map
     };
-  }, [pickup, dropoff, currentLocation, path]);
+  }, [pickup, dropoff, currentLocation, path, surgeCells]);
+
+  // Glide the driver marker to each new position instead of jumping
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    if (!driverLocation) {
+      driverMarkerRef.current?.remove();
+      driverMarkerRef.current = null;
+      return;
+    }
+
+    if (!map.getBounds().contains([driverLocation.lat, driverLocation.lng])) {
+      map.panTo([driverLocation.lat, driverLocation.lng]);
+    }
+
+    if (!driverMarkerRef.current) {
+      driverMarkerRef.current = L.marker([driverLocation.lat, driverLocation.lng], {
+        icon: driverIcon,
+        zIndexOffset: 1000,
+      })
+        .addTo(map)
+        .bindPopup('<b>Your driver</b>');
+      return;
+    }
+
+    const marker = driverMarkerRef.current;
+    const from = marker.getLatLng();
+    const start = performance.now();
+    let frame = 0;
+
+    const step = (now: number) => {
+      const t = (now - start) / DRIVER_ANIMATION_MS;
+      const position = interpolatePosition({ lat: from.lat, lng: from.lng }, driverLocation, t);
+      marker.setLatLng([position.lat, position.lng]);
+      if (t < 1) frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [driverLocation]);
 
   // Calculate distance
   const calculateDistance = () => {
@@ -250,6 +350,10 @@ export default function MapView({
 
   const distance = calculateDistance();
 
+  const pickupSurge = pickup
+    ? surgeCells?.find((cell) => cell.geohash === encodeGeohash(pickup, cell.geohash.length))
+    : undefined;
+
   return (
     <div className="bg-gradient-to-br from-blue-50 to-cyan-50 rounded-xl p-6 border border-blue-100">
       <div className="flex items-center justify-between mb-4">
@@ -263,6 +367,15 @@ export default function MapView({
             </span>
           )}
         </h3>
+        {pickupSurge && (
+          <div
+            className="flex items-center gap-1 text-white px-3 py-1.5 rounded-full text-xs font-semibold shadow-md"
+            style={{ background: SURGE_COLORS[getSurgeLevel(pickupSurge.multiplier)] }}
+          >
+            <Zap className="w-4 h-4" />
+            {pickupSurge.multiplier.toFixed(1)}× surge at pickup
+          </div>
+        )}
         {path && path.length > 2 && (
           <div className="flex items-center gap-2 bg-gradient-to-r from-purple-500 to-blue-500 text-white px-3 py-1.5 rounded-full text-xs font-semibold shadow-md">
             <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -0,0 +1,284 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, History, MapPinned, Star, MessageCircle } from 'lucide-react';
+import { Ride } from '../lib/supabase';
+import {
+  RideFareSplit,
+  getUserRides,
+  getRideFareSplit,
+  updateRideStatus,
+  cancelRide,
+  cancelRideBooking,
+} from '../services/rideService';
+import { quoteCancellation } from '../services/cancellationService';
+import { chatThreadKey, getUnreadChatCounts, subscribeToRideMessages } from '../services/chatService';
+import { RideStatus, nextStatuses } from '../algorithms/rideLifecycle';
+import { CancellationStage } from '../algorithms/cancellation';
+import RideCard from './RideCard';
+import RideTimeline from './RideTimeline';
+import DriverTripPanel from './DriverTripPanel';
+import LiveRideTracker from './LiveRideTracker';
+import RateRide from './RateRide';
+import RideChat from './RideChat';
+
+interface MyRidesProps {
+  userId: string;
+  // Chat, ratings and publishing the driver's position need Supabase
+  onlineFeatures?: boolean;
+}
+
+const ACTION_LABELS: Partial<Record<RideStatus, string>> = {
+  in_progress: 'Start Ride',
+  completed: 'Complete Ride',
+  cancelled: 'Cancel Ride',
+};
+
+const STAGE_LABELS: Record<CancellationStage, string> = {
+  unbooked: 'nobody has booked',
+  grace: 'just booked',
+  advance: 'well before departure',
+  late: 'close to departure',
+  en_route: 'the trip has started',
+};
+
+export default function MyRides({ userId, onlineFeatures = true }: MyRidesProps) {
+  const [rides, setRides] = useState<Ride[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openTimeline, setOpenTimeline] = useState<string | null>(null);
+  const [trackedRide, setTrackedRide] = useState<string | null>(null);
+  const [ratingRide, setRatingRide] = useState<string | null>(null);
+  const [chatRide, setChatRide] = useState<string | null>(null);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [fareSplits, setFareSplits] = useState<Record<string, RideFareSplit | null>>({});
+
+  const loadRides = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRides(await getUserRides(userId));
+    } catch (error) {
+      console.error('Error loading your rides:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadRides();
+  }, [loadRides]);
+
+  const loadUnreadCounts = useCallback(async () => {
+    try {
+      setUnreadCounts(await getUnreadChatCounts());
+    } catch (error) {
+      console.error('Error loading unread messages:', error);
+    }
+  }, []);
+
+  // An open chat marks its own messages read; counts refresh when it closes
+  useEffect(() => {
+    if (!onlineFeatures) return;
+    loadUnreadCounts();
+    const channel = subscribeToRideMessages((message) => {
+      if (message.sender_id === userId || message.ride_id === chatRide) return;
+      const key = chatThreadKey(message.ride_id, message.passenger_id);
+      setUnreadCounts((current) => ({ ...current, [key]: (current[key] ?? 0) + 1 }));
+    });
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [userId, chatRide, loadUnreadCounts, onlineFeatures]);
+
+  const handleChatRead = useCallback(
+    (passengerId: string) => {
+      if (!chatRide) return;
+      setUnreadCounts((current) => ({ ...current, [chatThreadKey(chatRide, passengerId)]: 0 }));
+    },
+    [chatRide]
+  );
+
+  const rideUnreadCount = (rideId: string) =>
+    Object.entries(unreadCounts)
+      .filter(([key]) => key.startsWith(`${rideId}:`))
+      .reduce((sum, [, count]) => sum + count, 0);
+
+  // Only pooled rides have a fare to split; a missing split just isn't shown
+  useEffect(() => {
+    const pooled = rides.filter(
+      (ride) => ride.status !== 'cancelled' && (ride.seats_total ?? 0) - ride.seats_available > 1
+    );
+    Promise.all(
+      pooled.map((ride) =>
+        getRideFareSplit(ride)
+          .catch((error) => {
+            console.error('Error splitting fare:', error);
+            return null;
+          })
+          .then((split) => [ride.id, split] as const)
+      )
+    ).then((entries) => setFareSplits(Object.fromEntries(entries)));
+  }, [rides]);
+
+  // Shows what cancelling costs and asks for the reason; null if they back out
+  const askCancellation = async (ride: Ride) => {
+    const quote = await quoteCancellation(ride, userId);
+    const cost =
+      quote.fee > 0
+        ? `Cancelling now costs $${quote.fee.toFixed(2)} (${STAGE_LABELS[quote.stage]}).`
+        : `Cancelling now is free (${STAGE_LABELS[quote.stage]}).`;
+    return window.prompt(`${cost}\nReason for cancelling?`);
+  };
+
+  const handleTransition = async (ride: Ride, status: RideStatus) => {
+    try {
+      if (status === 'cancelled') {
+        const reason = await askCancellation(ride);
+        if (reason === null) return;
+        await cancelRide(ride.id, reason);
+      } else {
+        await updateRideStatus(ride.id, status);
+      }
+      setRefreshKey((key) => key + 1);
+      await loadRides();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleCancelBooking = async (ride: Ride) => {
+    try {
+      const reason = await askCancellation(ride);
+      if (reason === null) return;
+      await cancelRideBooking(ride.id, reason);
+      setRefreshKey((key) => key + 1);
+      await loadRides();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (rides.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">You haven't offered or booked any rides yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {rides.map((ride) => {
+        const isDriver = ride.driver_id === userId;
+        const actions = isDriver ? nextStatuses(ride.status, 'driver') : [];
+        const canCancelBooking =
+          !isDriver &&
+          (ride.status === 'available' || ride.status === 'accepted' || ride.status === 'in_progress');
+        const isActive =
+          ride.status === 'available' || ride.status === 'accepted' || ride.status === 'in_progress';
+        const canChat =
+          onlineFeatures && (ride.status !== 'available' || (ride.seats_total ?? 0) > ride.seats_available);
+
+        return (
+          <div key={ride.id}>
+            <RideCard ride={ride} fareSplit={fareSplits[ride.id]} />
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              {actions.map((status) => (
+                <button
+                  key={status}
+                  onClick={() => handleTransition(ride, status)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    status === 'cancelled'
+                      ? 'bg-red-50 text-red-700 hover:bg-red-100'
+                      : 'bg-blue-600 text-white hover:bg-blue-700'
+                  }`}
+                >
+                  {ACTION_LABELS[status] ?? status}
+                </button>
+              ))}
+              {canCancelBooking && (
+                <button
+                  onClick={() => handleCancelBooking(ride)}
+                  className="px-4 py-2 rounded-lg text-sm font-medium bg-red-50 text-red-700 hover:bg-red-100 transition-colors"
+                >
+                  Cancel Booking
+                </button>
+              )}
+              {!isDriver && isActive && (
+                <button
+                  onClick={() => setTrackedRide(trackedRide === ride.id ? null : ride.id)}
+                  className="flex items-center gap-1 px-3 py-2 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  <MapPinned className="w-4 h-4" />
+                  {trackedRide === ride.id ? 'Hide driver' : 'Track driver'}
+                </button>
+              )}
+              {onlineFeatures && ride.status === 'completed' && (
+                <button
+                  onClick={() => setRatingRide(ratingRide === ride.id ? null : ride.id)}
+                  className="flex items-center gap-1 px-3 py-2 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  <Star className="w-4 h-4" />
+                  {ratingRide === ride.id ? 'Hide rating' : isDriver ? 'Rate passengers' : 'Rate driver'}
+                </button>
+              )}
+              {canChat && (
+                <button
+                  onClick={() => setChatRide(chatRide === ride.id ? null : ride.id)}
+                  className="flex items-center gap-1 px-3 py-2 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  <MessageCircle className="w-4 h-4" />
+                  {chatRide === ride.id ? 'Hide chat' : 'Chat'}
+                  {chatRide !== ride.id && rideUnreadCount(ride.id) > 0 && (
+                    <span className="px-1.5 rounded-full text-xs bg-red-500 text-white">
+                      {rideUnreadCount(ride.id)}
+                    </span>
+                  )}
+                </button>
+              )}
+              <button
+                onClick={() => setOpenTimeline(openTimeline === ride.id ? null : ride.id)}
+                className="flex items-center gap-1 px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+              >
+                <History className="w-4 h-4" />
+                {openTimeline === ride.id ? 'Hide history' : 'History'}
+              </button>
+            </div>
+            {onlineFeatures && isDriver && isActive && <DriverTripPanel ride={ride} />}
+            {trackedRide === ride.id && (
+              <div className="mt-2">
+                <LiveRideTracker ride={ride} userId={userId} />
+              </div>
+            )}
+            {chatRide === ride.id && (
+              <div className="mt-2 bg-white rounded-lg border border-gray-100 p-4">
+                <RideChat
+                  ride={ride}
+                  userId={userId}
+                  unreadCounts={unreadCounts}
+                  onRead={handleChatRead}
+                />
+              </div>
+            )}
+            {ratingRide === ride.id && (
+              <div className="mt-2 bg-white rounded-lg border border-gray-100 p-4">
+                <RateRide ride={ride} userId={userId} />
+              </div>
+            )}
+            {openTimeline === ride.id && (
+              <div className="mt-2 bg-white rounded-lg border border-gray-100 p-4">
+                <RideTimeline rideId={ride.id} refreshKey={refreshKey} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
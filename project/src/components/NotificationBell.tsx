@@ -0,0 +1,257 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Bell, BellRing, Settings, X, Ticket, XCircle, MapPin, Car, MessageCircle, Info } from 'lucide-react';
+import { AppNotification, NotificationType } from '../lib/supabase';
+import {
+  NOTIFICATION_TYPES,
+  getNotifications,
+  getNotificationPreferences,
+  markAllNotificationsRead,
+  markNotificationRead,
+  onNotice,
+  setNotificationPreference,
+  subscribeToNotifications,
+} from '../services/notificationService';
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+interface Toast {
+  id: string;
+  title: string;
+  body?: string;
+  type?: NotificationType;
+}
+
+const TOAST_DURATION_MS = 5000;
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  booking: Ticket,
+  cancellation: XCircle,
+  arrival: MapPin,
+  status: Car,
+  message: MessageCircle,
+  ride_alert: BellRing,
+};
+
+function timeAgo(iso: string) {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+/**
+ * NOTIFICATION CENTER: the bell with the unread count, the inbox and the
+ * per-type preferences. New notifications and local notices also pop up as
+ * toasts.
+ */
+export default function NotificationBell({ userId }: NotificationBellProps) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [preferences, setPreferences] = useState<Record<NotificationType, boolean> | null>(null);
+  const [open, setOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const pushToast = useCallback((toast: Toast) => {
+    setToasts((current) => [...current, toast]);
+    setTimeout(() => {
+      setToasts((current) => current.filter((t) => t.id !== toast.id));
+    }, TOAST_DURATION_MS);
+  }, []);
+
+  useEffect(() => {
+    getNotifications(userId)
+      .then(setNotifications)
+      .catch((error) => console.error('Error loading notifications:', error));
+
+    const channel = subscribeToNotifications(userId, (notification) => {
+      setNotifications((current) => [notification, ...current]);
+      pushToast({
+        id: notification.id,
+        title: notification.title,
+        body: notification.body,
+        type: notification.type,
+      });
+    });
+    const stopNotices = onNotice((notice) =>
+      pushToast({ id: `notice-${Date.now()}-${Math.random()}`, ...notice })
+    );
+
+    return () => {
+      channel.unsubscribe();
+      stopNotices();
+    };
+  }, [userId, pushToast]);
+
+  useEffect(() => {
+    if (!showSettings || preferences) return;
+    getNotificationPreferences(userId)
+      .then(setPreferences)
+      .catch((error) => console.error('Error loading notification preferences:', error));
+  }, [showSettings, preferences, userId]);
+
+  const unreadCount = notifications.filter((n) => !n.read_at).length;
+
+  const handleRead = async (notification: AppNotification) => {
+    if (notification.read_at) return;
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((n) => (n.id === notification.id ? { ...n, read_at: readAt } : n))
+    );
+    try {
+      await markNotificationRead(notification.id);
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+    }
+  };
+
+  const handleReadAll = async () => {
+    const readAt = new Date().toISOString();
+    setNotifications((current) => current.map((n) => ({ ...n, read_at: n.read_at ?? readAt })));
+    try {
+      await markAllNotificationsRead(userId);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const handleTogglePreference = async (type: NotificationType) => {
+    if (!preferences) return;
+    const enabled = !preferences[type];
+    setPreferences({ ...preferences, [type]: enabled });
+    try {
+      await setNotificationPreference(userId, type, enabled);
+    } catch (error) {
+      setPreferences({ ...preferences, [type]: !enabled });
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <>
+      <div className="relative">
+        <button
+          onClick={() => setOpen(!open)}
+          className="relative p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+          aria-label="Notifications"
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </button>
+
+        {open && (
+          <div className="absolute right-0 mt-2 w-96 max-w-[90vw] bg-white rounded-xl shadow-lg border border-gray-100 z-[1000]">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+              <h3 className="font-semibold text-gray-900">
+                {showSettings ? 'Notification settings' : 'Notifications'}
+              </h3>
+              <div className="flex items-center gap-2">
+                {!showSettings && unreadCount > 0 && (
+                  <button onClick={handleReadAll} className="text-xs text-blue-600 hover:text-blue-700">
+                    Mark all read
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowSettings(!showSettings)}
+                  className="p-1 text-gray-500 hover:text-gray-900"
+                  aria-label="Notification settings"
+                >
+                  <Settings className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {showSettings ? (
+              <div className="p-4 space-y-3">
+                {!preferences ? (
+                  <p className="text-sm text-gray-500">Loading…</p>
+                ) : (
+                  (Object.keys(NOTIFICATION_TYPES) as NotificationType[]).map((type) => (
+                    <label key={type} className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={preferences[type]}
+                        onChange={() => handleTogglePreference(type)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-gray-900">
+                          {NOTIFICATION_TYPES[type].label}
+                        </span>
+                        <span className="block text-xs text-gray-500">
+                          {NOTIFICATION_TYPES[type].description}
+                        </span>
+                      </span>
+                    </label>
+                  ))
+                )}
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500 text-center">You're all caught up</p>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {notifications.map((notification) => {
+                  const Icon = TYPE_ICONS[notification.type] ?? Info;
+                  return (
+                    <li
+                      key={notification.id}
+                      onClick={() => handleRead(notification)}
+                      className={`flex gap-3 px-4 py-3 cursor-pointer hover:bg-gray-50 ${
+                        notification.read_at ? '' : 'bg-blue-50'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4 mt-0.5 text-blue-600 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className={`text-sm text-gray-900 ${notification.read_at ? '' : 'font-semibold'}`}>
+                          {notification.title}
+                        </p>
+                        {notification.body && (
+                          <p className="text-sm text-gray-600 break-words">{notification.body}</p>
+                        )}
+                        <p className="text-xs text-gray-400 mt-0.5">{timeAgo(notification.created_at)}</p>
+                      </div>
+                      {!notification.read_at && (
+                        <span className="w-2 h-2 mt-1.5 rounded-full bg-blue-600 flex-shrink-0" />
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="fixed bottom-4 right-4 z-[1000] space-y-2 w-80 max-w-[90vw]">
+        {toasts.map((toast) => {
+          const Icon = toast.type ? TYPE_ICONS[toast.type] : Info;
+          return (
+            <div
+              key={toast.id}
+              className="flex gap-3 bg-white rounded-lg shadow-lg border border-gray-100 p-3"
+            >
+              <Icon className="w-5 h-5 text-blue-600 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-gray-900">{toast.title}</p>
+                {toast.body && <p className="text-sm text-gray-600 break-words">{toast.body}</p>}
+              </div>
+              <button
+                onClick={() => setToasts((current) => current.filter((t) => t.id !== toast.id))}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label="Dismiss"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
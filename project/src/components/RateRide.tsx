@@ -0,0 +1,168 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Star, CheckCircle } from 'lucide-react';
+import { Ride } from '../lib/supabase';
+import { RaterRole, REVIEW_TAGS } from '../algorithms/ratings';
+import { getRideBookings } from '../services/rideService';
+import { getRatingsGivenBy, submitRating } from '../services/ratingService';
+
+interface RateRideProps {
+  ride: Ride;
+  userId: string;
+}
+
+interface Ratee {
+  id: string;
+  name: string;
+}
+
+function RatingForm({ ride, ratee, role, onRated }: {
+  ride: Ride;
+  ratee: Ratee;
+  role: RaterRole;
+  onRated: () => void;
+}) {
+  const [stars, setStars] = useState(0);
+  const [tags, setTags] = useState<string[]>([]);
+  const [review, setReview] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const toggleTag = (tag: string) => {
+    setTags((current) =>
+      current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]
+    );
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await submitRating({ rideId: ride.id, rateeId: ratee.id, stars, review, tags });
+      onRated();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-900">{ratee.name}</span>
+        <div className="flex">
+          {[1, 2, 3, 4, 5].map((value) => (
+            <button key={value} onClick={() => setStars(value)} aria-label={`${value} star(s)`}>
+              <Star
+                className={`w-6 h-6 ${
+                  value <= stars ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'
+                }`}
+              />
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {REVIEW_TAGS[role].map((tag) => (
+          <button
+            key={tag}
+            onClick={() => toggleTag(tag)}
+            className={`px-2 py-1 rounded-full text-xs border transition-colors ${
+              tags.includes(tag)
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+            }`}
+          >
+            {tag}
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={review}
+        onChange={(e) => setReview(e.target.value)}
+        maxLength={1000}
+        rows={2}
+        placeholder="Add a review (optional)"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <button
+        onClick={handleSubmit}
+        disabled={stars === 0 || submitting}
+        className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+      >
+        {submitting ? 'Submitting…' : 'Submit rating'}
+      </button>
+    </div>
+  );
+}
+
+/**
+ * POST-RIDE RATING: passengers rate the driver, the driver rates each of
+ * their passengers
+ */
+export default function RateRide({ ride, userId }: RateRideProps) {
+  const [ratees, setRatees] = useState<Ratee[]>([]);
+  const [rated, setRated] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const role: RaterRole = ride.driver_id === userId ? 'driver' : 'passenger';
+
+  const loadRatees = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [bookings, given] = await Promise.all([
+        role === 'driver' ? getRideBookings(ride.id) : Promise.resolve([]),
+        getRatingsGivenBy(userId, ride.id),
+      ]);
+
+      if (role === 'driver') {
+        // A passenger with several bookings on the ride is rated once
+        const byPassenger = new Map(
+          bookings.map((b) => [b.passenger_id, b.passenger?.full_name || 'Passenger'])
+        );
+        setRatees([...byPassenger].map(([id, name]) => ({ id, name })));
+      } else {
+        setRatees([{ id: ride.driver_id, name: ride.driver?.full_name || 'Your driver' }]);
+      }
+      setRated(given.map((rating) => rating.ratee_id));
+    } catch (error) {
+      console.error('Error loading ride ratings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [ride, userId, role]);
+
+  useEffect(() => {
+    loadRatees();
+  }, [loadRatees]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (ratees.length === 0) {
+    return <p className="text-sm text-gray-500">Nobody to rate on this trip</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {ratees.map((ratee) =>
+        rated.includes(ratee.id) ? (
+          <div key={ratee.id} className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle className="w-4 h-4" />
+            You rated {ratee.name}
+          </div>
+        ) : (
+          <RatingForm
+            key={ratee.id}
+            ride={ride}
+            ratee={ratee}
+            role={role}
+            onRated={() => setRated((current) => [...current, ratee.id])}
+          />
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Repeat, MapPin, Pause, Play, CalendarDays } from 'lucide-react';
+import { RideTemplate, RideSubscription } from '../lib/supabase';
+import {
+  getDriverTemplates,
+  getOfferedTemplates,
+  getUserSubscriptions,
+  subscribeToTemplate,
+  unsubscribeFromTemplate,
+  updateRideTemplate,
+  templateRecurrence,
+} from '../services/recurringRideService';
+import { describeRecurrence } from '../algorithms/recurrence';
+import TemplateOccurrences from './TemplateOccurrences';
+
+interface RecurringRidesProps {
+  userId: string;
+}
+
+function TemplateRoute({ template }: { template: RideTemplate }) {
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="flex items-center gap-2 text-gray-700">
+        <MapPin className="w-4 h-4 text-green-600 flex-shrink-0" />
+        <span className="truncate">{template.pickup_address}</span>
+      </div>
+      <div className="flex items-center gap-2 text-gray-700">
+        <MapPin className="w-4 h-4 text-red-600 flex-shrink-0" />
+        <span className="truncate">{template.dropoff_address}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function RecurringRides({ userId }: RecurringRidesProps) {
+  const [ownTemplates, setOwnTemplates] = useState<RideTemplate[]>([]);
+  const [offeredTemplates, setOfferedTemplates] = useState<RideTemplate[]>([]);
+  const [subscriptions, setSubscriptions] = useState<RideSubscription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openTemplate, setOpenTemplate] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [own, offered, subscribed] = await Promise.all([
+        getDriverTemplates(userId),
+        getOfferedTemplates(userId),
+        getUserSubscriptions(userId),
+      ]);
+      setOwnTemplates(own);
+      setOfferedTemplates(offered);
+      setSubscriptions(subscribed);
+    } catch (error) {
+      console.error('Error loading recurring rides:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleToggleActive = async (template: RideTemplate) => {
+    try {
+      await updateRideTemplate(template.id, { active: !template.active });
+      await loadTemplates();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleSubscribe = async (template: RideTemplate) => {
+    try {
+      await subscribeToTemplate({ templateId: template.id, seats: 1 });
+      await loadTemplates();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleUnsubscribe = async (template: RideTemplate) => {
+    try {
+      await unsubscribeFromTemplate(template.id);
+      await loadTemplates();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2 mb-4">
+          <Repeat className="w-5 h-5 text-blue-600" />
+          Your recurring rides
+        </h2>
+        {ownTemplates.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Schedule a ride under Offer Ride and pick the days it repeats on
+          </p>
+        )}
+        <div className="space-y-4">
+          {ownTemplates.map((template) => (
+            <div key={template.id} className="bg-white rounded-xl shadow-md p-5 border border-gray-100">
+              <div className="flex justify-between items-start mb-3">
+                <div>
+                  <div className="font-semibold text-gray-900">
+                    {describeRecurrence(templateRecurrence(template))}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {template.seats_total} seat(s) · ${template.price.toFixed(2)} ·{' '}
+                    {template.active ? 'active' : 'paused'}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleToggleActive(template)}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  {template.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  {template.active ? 'Pause' : 'Resume'}
+                </button>
+              </div>
+              <TemplateRoute template={template} />
+              <button
+                onClick={() => setOpenTemplate(openTemplate === template.id ? null : template.id)}
+                className="mt-3 flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <CalendarDays className="w-4 h-4" />
+                {openTemplate === template.id ? 'Hide upcoming rides' : 'Upcoming rides'}
+              </button>
+              {openTemplate === template.id && (
+                <div className="mt-2">
+                  <TemplateOccurrences templateId={template.id} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2 mb-4">
+          <CalendarDays className="w-5 h-5 text-blue-600" />
+          Commutes you can join
+        </h2>
+        {offeredTemplates.length === 0 && (
+          <p className="text-sm text-gray-500">No recurring rides offered yet</p>
+        )}
+        <div className="space-y-4">
+          {offeredTemplates.map((template) => {
+            const subscribed = subscriptions.some((sub) => sub.template_id === template.id);
+
+            return (
+              <div key={template.id} className="bg-white rounded-xl shadow-md p-5 border border-gray-100">
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <div className="font-semibold text-gray-900">
+                      {describeRecurrence(templateRecurrence(template))}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {template.driver?.full_name || 'Driver'} · {template.vehicle_type} · $
+                      {template.price.toFixed(2)}
+                    </div>
+                  </div>
+                  {subscribed ? (
+                    <button
+                      onClick={() => handleUnsubscribe(template)}
+                      className="px-3 py-1.5 rounded-lg text-sm bg-red-50 text-red-700 hover:bg-red-100"
+                    >
+                      Unsubscribe
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleSubscribe(template)}
+                      className="px-3 py-1.5 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700"
+                    >
+                      Subscribe
+                    </button>
+                  )}
+                </div>
+                <TemplateRoute template={template} />
+                {subscribed && (
+                  <p className="mt-2 text-xs text-green-700">
+                    You have a seat on every upcoming ride; they appear under My Rides
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -1,12 +1,20 @@
-import { Car, MapPin, Clock, DollarSign, Star, User } from 'lucide-react';
+import { useState } from 'react';
+import { Car, MapPin, Clock, DollarSign, Star, User, Users, ChevronDown, ChevronUp, Zap, Calendar, Tag, Loader2 } from 'lucide-react';
 import { Ride } from '../lib/supabase';
+import { getSurgeLevel } from '../algorithms/surge';
+import { PromotionApplication } from '../algorithms/promotions';
+import { RideFareSplit } from '../services/rideService';
 
 interface RideCardProps {
   ride: Ride;
   pickupDistance?: number;
   matchScore?: number;
-  onAccept?: (rideId: string) => void;
+  onAccept?: (rideId: string, seats: number, promoCode?: string) => void;
+  // Checks a promo code against this booking; rejects with the reason it doesn't apply
+  onCheckPromo?: (rideId: string, seats: number, promoCode: string) => Promise<PromotionApplication | null>;
   showAcceptButton?: boolean;
+  // Each booking's share of the price by distance ridden, once passengers have booked
+  fareSplit?: RideFareSplit | null;
 }
 
 export default function RideCard({
@@ -14,8 +22,49 @@ export default function RideCard({
   pickupDistance,
   matchScore,
   onAccept,
+  onCheckPromo,
   showAcceptButton = false,
+  fareSplit,
 }: RideCardProps) {
+  const [showFareDetails, setShowFareDetails] = useState(false);
+  const [seatsToBook, setSeatsToBook] = useState(1);
+  const [promoCode, setPromoCode] = useState('');
+  const [promotion, setPromotion] = useState<PromotionApplication | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [checkingPromo, setCheckingPromo] = useState(false);
+
+  const surgeMultiplier = ride.fare_breakdown?.surgeMultiplier ?? 1;
+
+  const getSurgeColor = (multiplier: number) => {
+    switch (getSurgeLevel(multiplier)) {
+      case 'very_high':
+        return 'bg-red-100 text-red-800';
+      case 'high':
+        return 'bg-orange-100 text-orange-800';
+      default:
+        return 'bg-amber-100 text-amber-800';
+    }
+  };
+
+  // The discount depends on the fare, so a change of seats needs the code checked again
+  const resetPromotion = () => {
+    setPromotion(null);
+    setPromoError(null);
+  };
+
+  const handleCheckPromo = async () => {
+    if (!onCheckPromo || !promoCode.trim()) return;
+    setCheckingPromo(true);
+    resetPromotion();
+    try {
+      setPromotion(await onCheckPromo(ride.id, seatsToBook, promoCode));
+    } catch (error) {
+      setPromoError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setCheckingPromo(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'available':
@@ -58,6 +107,11 @@ export default function RideCard({
               <span className="text-gray-400">
                 ({ride.driver?.total_rides} rides)
               </span>
+              {ride.driver && ride.driver.reliability < 1 && (
+                <span className="text-gray-400">
+                  · {Math.round(ride.driver.reliability * 100)}% reliable
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -86,6 +140,25 @@ export default function RideCard({
             <p className="text-gray-900 truncate">{ride.dropoff_address}</p>
           </div>
         </div>
+
+        {ride.departure_time && (
+          <div className="flex items-start gap-3">
+            <Calendar className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-gray-500">Departs</p>
+              <p className="text-gray-900">
+                {new Date(ride.departure_time).toLocaleString([], {
+                  weekday: 'short',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+                {!!ride.departure_flex_min && (
+                  <span className="text-gray-500"> ± {ride.departure_flex_min} min</span>
+                )}
+              </p>
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="flex items-center justify-between py-3 border-t border-gray-100">
@@ -102,13 +175,77 @@ export default function RideCard({
             <DollarSign className="w-4 h-4 text-gray-400" />
             <span className="text-gray-700">{ride.distance_km.toFixed(1)} km</span>
           </div>
+          <div className="flex items-center gap-1">
+            <Users className="w-4 h-4 text-gray-400" />
+            <span className="text-gray-700">
+              {ride.seats_total
+                ? `${ride.seats_available}/${ride.seats_total} seats left`
+                : `${ride.seats_available} seats left`}
+            </span>
+          </div>
         </div>
 
         <div className="text-right">
-          <div className="text-2xl font-bold text-gray-900">${ride.price}</div>
+          <div className="text-2xl font-bold text-gray-900">
+            ${(ride.fare_breakdown?.total ?? ride.price).toFixed(2)}
+          </div>
+          {surgeMultiplier > 1 && (
+            <div
+              className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${getSurgeColor(
+                surgeMultiplier
+              )}`}
+              title="High demand near pickup when this ride was priced"
+            >
+              <Zap className="w-3 h-3" />
+              {surgeMultiplier.toFixed(1)}× surge
+            </div>
+          )}
+          {ride.fare_breakdown && (
+            <button
+              onClick={() => setShowFareDetails(!showFareDetails)}
+              className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 ml-auto"
+            >
+              Fare details
+              {showFareDetails ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            </button>
+          )}
         </div>
       </div>
 
+      {showFareDetails && ride.fare_breakdown && (
+        <div className="mb-3 bg-gray-50 rounded-lg p-3 text-sm">
+          {ride.fare_breakdown.items.map((item) => (
+            <div key={item.code} className="flex justify-between text-gray-600">
+              <span>{item.label}</span>
+              <span>${item.amount.toFixed(2)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 mt-2 pt-2">
+            <span>Total ({ride.fare_breakdown.currency})</span>
+            <span>${ride.fare_breakdown.total.toFixed(2)}</span>
+          </div>
+        </div>
+      )}
+
+      {fareSplit && fareSplit.shares.length > 1 && (
+        <div className="mb-3 bg-gray-50 rounded-lg p-3 text-sm">
+          <p className="font-semibold text-gray-900 mb-1">Fare split by distance ridden</p>
+          {fareSplit.shares.map((share, index) => (
+            <div key={share.riderId} className="flex justify-between text-gray-600">
+              <span>
+                {fareSplit.ownRiderIds.includes(share.riderId) ? 'You' : `Passenger ${index + 1}`}
+                {share.seats > 1 && ` (${share.seats} seats)`}
+                <span className="text-gray-400">
+                  {' '}
+                  · {share.distanceKm.toFixed(1)} km, {share.sharedDistanceKm.toFixed(1)} km shared
+                </span>
+              </span>
+              <span>${share.amount.toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {pickupDistance !== undefined && (
         <div className="mt-3 text-sm text-gray-500">
           📍 {pickupDistance.toFixed(2)} km away from you
@@ -132,13 +269,65 @@ export default function RideCard({
         </div>
       )}
 
-      {showAcceptButton && ride.status === 'available' && onAccept && (
-        <button
-          onClick={() => onAccept(ride.id)}
-          className="w-full mt-4 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white font-semibold py-3 rounded-lg transition-all transform hover:scale-[1.02]"
-        >
-          Accept Ride
-        </button>
+      {showAcceptButton && ride.status === 'available' && ride.seats_available > 0 && onAccept && (
+        <div className="mt-4 space-y-2">
+          {onCheckPromo && (
+            <div>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Tag className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <input
+                    type="text"
+                    value={promoCode}
+                    onChange={(e) => {
+                      setPromoCode(e.target.value);
+                      resetPromotion();
+                    }}
+                    placeholder="Promo code"
+                    className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg uppercase focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <button
+                  onClick={handleCheckPromo}
+                  disabled={!promoCode.trim() || checkingPromo}
+                  className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                >
+                  {checkingPromo ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Apply'}
+                </button>
+              </div>
+              {promoError && <p className="text-sm text-red-600 mt-1">{promoError}</p>}
+              {promotion && (
+                <p className="text-sm text-green-700 mt-1">
+                  {promotion.code}: ${promotion.discount.toFixed(2)} off, you pay ${promotion.total.toFixed(2)}
+                </p>
+              )}
+            </div>
+          )}
+          <div className="flex gap-2">
+            {ride.seats_available > 1 && (
+              <select
+                value={seatsToBook}
+                onChange={(e) => {
+                  setSeatsToBook(parseInt(e.target.value));
+                  resetPromotion();
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {Array.from({ length: ride.seats_available }, (_, i) => i + 1).map((seats) => (
+                  <option key={seats} value={seats}>
+                    {seats} {seats === 1 ? 'seat' : 'seats'}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => onAccept(ride.id, seatsToBook, promotion?.code)}
+              className="flex-1 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white font-semibold py-3 rounded-lg transition-all transform hover:scale-[1.02]"
+            >
+              Book {seatsToBook === 1 ? 'Seat' : `${seatsToBook} Seats`}
+            </button>
+          </div>
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,245 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Loader2, Send, Lock } from 'lucide-react';
+import { Ride, RideMessage } from '../lib/supabase';
+import { getRideBookings } from '../services/rideService';
+import {
+  ChatRole,
+  QUICK_REPLIES,
+  MAX_MESSAGE_LENGTH,
+  chatThreadKey,
+  getRideMessages,
+  isChatOpen,
+  markRideChatRead,
+  sendRideMessage,
+  subscribeToRideMessages,
+} from '../services/chatService';
+
+interface RideChatProps {
+  ride: Ride;
+  userId: string;
+  // Unread messages per thread when the chat was opened
+  unreadCounts?: Record<string, number>;
+  onRead?: (passengerId: string) => void;
+}
+
+interface ChatThread {
+  passengerId: string;
+  name: string;
+}
+
+/**
+ * RIDE CHAT: a passenger talks to the driver; the driver has one thread per
+ * booked passenger. Read-only once the ride is over.
+ */
+export default function RideChat({ ride, userId, unreadCounts = {}, onRead }: RideChatProps) {
+  const role: ChatRole = ride.driver_id === userId ? 'driver' : 'passenger';
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [passengerId, setPassengerId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<RideMessage[]>([]);
+  const [unread, setUnread] = useState(unreadCounts);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const open = isChatOpen(ride);
+
+  useEffect(() => {
+    if (role === 'passenger') {
+      setThreads([{ passengerId: userId, name: ride.driver?.full_name || 'Your driver' }]);
+      setPassengerId(userId);
+      return;
+    }
+
+    getRideBookings(ride.id)
+      .then((bookings) => {
+        // A passenger with several bookings on the ride has one thread
+        const byPassenger = new Map(
+          bookings.map((b) => [b.passenger_id, b.passenger?.full_name || 'Passenger'])
+        );
+        const driverThreads = [...byPassenger].map(([id, name]) => ({ passengerId: id, name }));
+        setThreads(driverThreads);
+        setPassengerId(driverThreads[0]?.passengerId ?? null);
+        if (driverThreads.length === 0) setLoading(false);
+      })
+      .catch((error) => {
+        console.error('Error loading chat threads:', error);
+        setLoading(false);
+      });
+  }, [ride, userId, role]);
+
+  const markRead = useCallback(
+    async (thread: string) => {
+      setUnread((current) => ({ ...current, [chatThreadKey(ride.id, thread)]: 0 }));
+      try {
+        await markRideChatRead(ride.id, thread, userId);
+        onRead?.(thread);
+      } catch (error) {
+        console.error('Error marking chat read:', error);
+      }
+    },
+    [ride.id, userId, onRead]
+  );
+
+  useEffect(() => {
+    if (!passengerId) return;
+
+    setLoading(true);
+    getRideMessages(ride.id, passengerId)
+      .then((loaded) => {
+        setMessages(loaded);
+        markRead(passengerId);
+      })
+      .catch((error) => console.error('Error loading messages:', error))
+      .finally(() => setLoading(false));
+
+    const channel = subscribeToRideMessages((message) => {
+      if (message.passenger_id !== passengerId) {
+        if (message.sender_id !== userId) {
+          const key = chatThreadKey(message.ride_id, message.passenger_id);
+          setUnread((current) => ({ ...current, [key]: (current[key] ?? 0) + 1 }));
+        }
+        return;
+      }
+      setMessages((current) =>
+        current.some((m) => m.id === message.id) ? current : [...current, message]
+      );
+      if (message.sender_id !== userId) markRead(passengerId);
+    }, ride.id);
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [ride.id, passengerId, userId, markRead]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages]);
+
+  const handleSend = async (body: string) => {
+    if (!passengerId) return;
+    setSending(true);
+    try {
+      const message = await sendRideMessage(ride.id, passengerId, userId, body);
+      setMessages((current) =>
+        current.some((m) => m.id === message.id) ? current : [...current, message]
+      );
+      setDraft('');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!loading && threads.length === 0) {
+    return <p className="text-sm text-gray-500">Nobody has booked this ride yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {role === 'driver' && threads.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {threads.map((thread) => {
+            const count = unread[chatThreadKey(ride.id, thread.passengerId)] ?? 0;
+            return (
+              <button
+                key={thread.passengerId}
+                onClick={() => setPassengerId(thread.passengerId)}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm transition-colors ${
+                  thread.passengerId === passengerId
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {thread.name}
+                {count > 0 && (
+                  <span className="px-1.5 rounded-full text-xs bg-red-500 text-white">{count}</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="h-64 overflow-y-auto bg-gray-50 rounded-lg p-3 space-y-2">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No messages yet. Say hello to{' '}
+            {threads.find((thread) => thread.passengerId === passengerId)?.name}
+          </p>
+        ) : (
+          messages.map((message) => {
+            const mine = message.sender_id === userId;
+            return (
+              <div key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[75%] px-3 py-2 rounded-lg text-sm ${
+                    mine ? 'bg-blue-600 text-white' : 'bg-white text-gray-900 border border-gray-200'
+                  }`}
+                >
+                  <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                  <p className={`text-xs mt-1 ${mine ? 'text-blue-100' : 'text-gray-400'}`}>
+                    {new Date(message.created_at).toLocaleTimeString([], {
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </p>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {open ? (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {QUICK_REPLIES[role].map((reply) => (
+              <button
+                key={reply}
+                onClick={() => handleSend(reply)}
+                disabled={sending || !passengerId}
+                className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+              >
+                {reply}
+              </button>
+            ))}
+          </div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSend(draft);
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={MAX_MESSAGE_LENGTH}
+              placeholder="Message"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={sending || !draft.trim() || !passengerId}
+              className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+            >
+              {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            </button>
+          </form>
+        </>
+      ) : (
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <Lock className="w-3 h-3" />
+          This ride is over, so the chat is read-only
+        </p>
+      )}
+    </div>
+  );
+}
@@ -2,13 +2,20 @@ import { useState, useEffect } from 'react';
 import { Ride } from '../lib/supabase';
 import { getAvailableRides, findMatchingRides, getRecommendedRides } from '../services/rideService';
 import { Location } from '../algorithms/astar';
+import { TimeWindow } from '../algorithms/departureWindow';
+import { PromotionApplication } from '../algorithms/promotions';
 import RideCard from './RideCard';
-import { Loader2, Search, Brain, Sparkles } from 'lucide-react';
+import { Loader2, Search, Brain, Sparkles, BellPlus } from 'lucide-react';
 
 interface RideListProps {
   userLocation?: Location;
   destination?: Location;
-  onAcceptRide?: (rideId: string) => void;
+  // Only rides whose departure window overlaps this one
+  timeWindow?: TimeWindow;
+  onAcceptRide?: (rideId: string, seats: number, promoCode?: string) => void;
+  onCheckPromo?: (rideId: string, seats: number, promoCode: string) => Promise<PromotionApplication | null>;
+  // Offered when no rides match: alert the passenger when one is posted
+  onSaveSearch?: (maxPrice: number) => Promise<void>;
   showAcceptButton?: boolean;
   userId?: string;
 }
@@ -16,35 +23,45 @@ interface RideListProps {
 export default function RideList({
   userLocation,
   destination,
+  timeWindow,
   onAcceptRide,
+  onCheckPromo,
+  onSaveSearch,
   showAcceptButton = false,
   userId,
 }: RideListProps) {
   const [rides, setRides] = useState<Ride[]>([]);
   const [matchedRides, setMatchedRides] = useState<
-    Array<{ ride: Ride; pickupDistance: number; matchScore: number }>
+    Array<{ ride: Ride; pickupDistance: number; detourMin: number; matchScore: number }>
   >([]);
   const [recommendedRides, setRecommendedRides] = useState<
     Array<Ride & { recommendationScore: number; reasoning: string[] }>
   >([]);
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<'all' | 'matched' | 'recommended'>('all');
+  const [alertMaxPrice, setAlertMaxPrice] = useState('');
+  const [savingAlert, setSavingAlert] = useState(false);
+  const [alertSaved, setAlertSaved] = useState(false);
 
   useEffect(() => {
     loadRides();
-  }, [userLocation, destination, viewMode]);
+  }, [userLocation, destination, timeWindow, viewMode]);
+
+  useEffect(() => {
+    setAlertSaved(false);
+  }, [userLocation, destination, timeWindow]);
 
   const loadRides = async () => {
     setLoading(true);
     try {
       if (viewMode === 'recommended' && userLocation && destination && userId) {
-        const recommendations = await getRecommendedRides(userLocation, destination, userId);
+        const recommendations = await getRecommendedRides(userLocation, destination, userId, timeWindow);
         setRecommendedRides(recommendations);
       } else if (viewMode === 'matched' && userLocation && destination) {
-        const matches = await findMatchingRides(userLocation, destination);
+        const matches = await findMatchingRides(userLocation, destination, undefined, timeWindow);
         setMatchedRides(matches);
       } else {
-        const availableRides = await getAvailableRides();
+        const availableRides = await getAvailableRides(undefined, timeWindow);
         setRides(availableRides);
       }
     } catch (error) {
@@ -54,6 +71,19 @@ export default function RideList({
     }
   };
 
+  const handleSaveSearch = async () => {
+    if (!onSaveSearch) return;
+    setSavingAlert(true);
+    try {
+      await onSaveSearch(Number(alertMaxPrice));
+      setAlertSaved(true);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSavingAlert(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -136,6 +166,51 @@ export default function RideList({
           <p className="text-sm text-gray-400 mt-2">
             Try adjusting your pickup or dropoff location
           </p>
+          {onSaveSearch && (
+            <div className="mt-6 max-w-sm mx-auto bg-blue-50 border border-blue-200 rounded-lg p-4 text-left">
+              {alertSaved ? (
+                <p className="text-sm text-blue-900">
+                  We'll notify you when a ride matching this search is posted
+                </p>
+              ) : (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSaveSearch();
+                  }}
+                  className="space-y-3"
+                >
+                  <p className="text-sm font-medium text-blue-900">
+                    Get notified when a matching ride is posted
+                  </p>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="1"
+                      step="0.01"
+                      required
+                      value={alertMaxPrice}
+                      onChange={(e) => setAlertMaxPrice(e.target.value)}
+                      placeholder="Max price ($)"
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <button
+                      type="submit"
+                      disabled={savingAlert}
+                      className="flex items-center gap-1 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+                    >
+                      {savingAlert ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <BellPlus className="w-4 h-4" />
+                      )}
+                      Alert me
+                    </button>
+                  </div>
+                </form>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -164,6 +239,7 @@ export default function RideList({
             <RideCard
               ride={ride}
               onAccept={onAcceptRide}
+              onCheckPromo={onCheckPromo}
               showAcceptButton={showAcceptButton}
             />
             <div className="mt-2 bg-purple-50 border border-purple-200 rounded-lg p-3">
@@ -180,7 +256,7 @@ export default function RideList({
           </div>
         ))}
 
-        {viewMode === 'matched' && matchedRides.map(({ ride, pickupDistance, matchScore }) => (
+        {viewMode === 'matched' && matchedRides.map(({ ride, pickupDistance, detourMin, matchScore }) => (
           <div key={ride.id} className="relative">
             <div className="absolute -top-2 -right-2 z-10 bg-blue-600 text-white px-3 py-1 rounded-full text-xs font-bold shadow-lg">
               {matchScore.toFixed(0)}% Match
@@ -188,10 +264,12 @@ export default function RideList({
             <RideCard
               ride={ride}
               onAccept={onAcceptRide}
+              onCheckPromo={onCheckPromo}
               showAcceptButton={showAcceptButton}
             />
             <div className="mt-2 text-xs text-gray-600 flex items-center gap-4">
               <span>📍 {pickupDistance.toFixed(1)} km from pickup</span>
+              <span>🕒 {detourMin < 1 ? 'No detour' : `+${Math.round(detourMin)} min detour`}</span>
             </div>
           </div>
         ))}
@@ -201,6 +279,7 @@ export default function RideList({
             key={ride.id}
             ride={ride}
             onAccept={onAcceptRide}
+            onCheckPromo={onCheckPromo}
             showAcceptButton={showAcceptButton}
           />
         ))}
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { RideEvent } from '../lib/supabase';
+import { getRideEvents } from '../services/rideService';
+
+interface RideTimelineProps {
+  rideId: string;
+  // Bump to reload after an action on the ride
+  refreshKey?: number;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  available: 'Available',
+  accepted: 'Full',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+function describeEvent(event: RideEvent): string {
+  switch (event.event) {
+    case 'created':
+      return 'Ride offered';
+    case 'booking_created':
+      return 'Seats booked';
+    case 'booking_cancelled':
+      return 'Booking cancelled';
+    default:
+      return `${STATUS_LABELS[event.from_status ?? ''] ?? event.from_status} → ${
+        STATUS_LABELS[event.to_status ?? ''] ?? event.to_status
+      }`;
+  }
+}
+
+function eventColor(event: RideEvent): string {
+  if (event.event === 'booking_cancelled' || event.to_status === 'cancelled') return 'bg-red-500';
+  if (event.to_status === 'completed') return 'bg-gray-500';
+  if (event.to_status === 'in_progress') return 'bg-orange-500';
+  return 'bg-blue-500';
+}
+
+export default function RideTimeline({ rideId, refreshKey }: RideTimelineProps) {
+  const [events, setEvents] = useState<RideEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    getRideEvents(rideId)
+      .then(setEvents)
+      .catch((error) => console.error('Error loading ride history:', error))
+      .finally(() => setLoading(false));
+  }, [rideId, refreshKey]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No history yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+      {events.map((event) => (
+        <li key={event.id} className="ml-4">
+          <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${eventColor(event)}`} />
+          <div className="text-sm font-medium text-gray-900">{describeEvent(event)}</div>
+          <div className="text-xs text-gray-500">
+            {new Date(event.created_at).toLocaleString()}
+            {' · '}
+            {event.actor?.full_name ?? event.actor_role}
+          </div>
+          {event.reason && <div className="text-xs text-gray-600 mt-0.5">{event.reason}</div>}
+        </li>
+      ))}
+    </ol>
+  );
+}
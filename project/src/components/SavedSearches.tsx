@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BellRing, MapPin, X } from 'lucide-react';
+import { SavedSearch } from '../lib/supabase';
+import { cancelSavedSearch, getSavedSearches } from '../services/savedSearchService';
+
+interface SavedSearchesProps {
+  userId: string;
+  // Bump to reload after a search is saved elsewhere
+  refreshKey?: number;
+}
+
+/**
+ * SAVED SEARCHES: the passenger's ride alerts that are still watching for
+ * matching rides, each until its departure window passes
+ */
+export default function SavedSearches({ userId, refreshKey = 0 }: SavedSearchesProps) {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+
+  const loadSearches = useCallback(async () => {
+    try {
+      setSearches(await getSavedSearches(userId));
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadSearches();
+  }, [loadSearches, refreshKey]);
+
+  const handleCancel = async (search: SavedSearch) => {
+    try {
+      await cancelSavedSearch(search.id);
+      setSearches((current) => current.filter((s) => s.id !== search.id));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (searches.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-4">
+        <BellRing className="w-5 h-5 text-blue-600" />
+        Ride alerts
+      </h3>
+      <ul className="space-y-3">
+        {searches.map((search) => (
+          <li key={search.id} className="flex items-start gap-3 border border-gray-100 rounded-lg p-3">
+            <div className="flex-1 min-w-0 space-y-1 text-sm">
+              <div className="flex items-center gap-2 text-gray-700">
+                <MapPin className="w-4 h-4 text-green-600 flex-shrink-0" />
+                <span className="truncate">{search.pickup_address}</span>
+              </div>
+              <div className="flex items-center gap-2 text-gray-700">
+                <MapPin className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <span className="truncate">{search.dropoff_address}</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                Up to ${Number(search.max_price).toFixed(2)} · leaving{' '}
+                {new Date(search.window_start).toLocaleString()} –{' '}
+                {new Date(search.window_end).toLocaleString()}
+              </p>
+            </div>
+            <button
+              onClick={() => handleCancel(search)}
+              className="p-1 text-gray-400 hover:text-red-600"
+              aria-label="Cancel alert"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
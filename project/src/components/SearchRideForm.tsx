@@ -1,12 +1,16 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { Search, MapPin, Loader2, Navigation } from 'lucide-react';
+import { Search, MapPin, Loader2, Navigation, Calendar } from 'lucide-react';
 import { Location } from '../algorithms/astar';
+import { TimeWindow, searchWindow, toLocalInputValue } from '../algorithms/departureWindow';
+import { now } from '../lib/clock';
 import { geocodeAddress, debounce, searchLocationSuggestions, getCurrentLocation, LocationSuggestion } from '../services/geocoding';
 
 interface SearchRideFormProps {
   onSearch: (data: {
     pickup: Location & { address: string };
     dropoff: Location & { address: string };
+    // Undefined matches rides leaving at any time
+    timeWindow?: TimeWindow;
   }) => void;
   loading?: boolean;
 }
@@ -18,6 +22,9 @@ export default function SearchRideForm({ onSearch, loading }: SearchRideFormProp
   const [dropoffAddress, setDropoffAddress] = useState('');
   const [dropoffLat, setDropoffLat] = useState('');
   const [dropoffLng, setDropoffLng] = useState('');
+  const [anyTime, setAnyTime] = useState(true);
+  const [departAt, setDepartAt] = useState(() => toLocalInputValue(new Date()));
+  const [toleranceMin, setToleranceMin] = useState(60);
   const [geocodingPickup, setGeocodingPickup] = useState(false);
   const [geocodingDropoff, setGeocodingDropoff] = useState(false);
   const [detectingLocation, setDetectingLocation] = useState(false);
@@ -194,6 +201,7 @@ export default function SearchRideForm({ onSearch, loading }: SearchRideFormProp
         lng: parseFloat(dropoffLng),
         address: dropoffAddress,
       },
+      timeWindow: anyTime ? undefined : searchWindow(new Date(departAt), toleranceMin, now()),
     });
   };
 
@@ -320,6 +328,54 @@ export default function SearchRideForm({ onSearch, loading }: SearchRideFormProp
             </div>
           )}
         </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            <Calendar className="w-4 h-4 inline mr-1 text-blue-600" />
+            When
+          </label>
+          <div className="flex gap-2 mb-2">
+            <button
+              type="button"
+              onClick={() => setAnyTime(true)}
+              className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                anyTime ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Any time
+            </button>
+            <button
+              type="button"
+              onClick={() => setAnyTime(false)}
+              className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                !anyTime ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Leave around
+            </button>
+          </div>
+          {!anyTime && (
+            <div className="flex gap-2">
+              <input
+                type="datetime-local"
+                value={departAt}
+                onChange={(e) => setDepartAt(e.target.value)}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+              <select
+                value={toleranceMin}
+                onChange={(e) => setToleranceMin(parseInt(e.target.value))}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value={30}>± 30 min</option>
+                <option value={60}>± 1 hour</option>
+                <option value={120}>± 2 hours</option>
+                <option value={240}>± 4 hours</option>
+              </select>
+            </div>
+          )}
+        </div>
       </div>
 
       <button
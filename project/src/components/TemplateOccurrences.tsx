@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, CalendarX, Pencil } from 'lucide-react';
+import { Ride } from '../lib/supabase';
+import { getUpcomingOccurrences, skipOccurrence, updateOccurrence } from '../services/recurringRideService';
+import { toLocalInputValue } from '../algorithms/departureWindow';
+
+interface TemplateOccurrencesProps {
+  templateId: string;
+}
+
+export default function TemplateOccurrences({ templateId }: TemplateOccurrencesProps) {
+  const [occurrences, setOccurrences] = useState<Ride[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  const loadOccurrences = useCallback(async () => {
+    setLoading(true);
+    try {
+      setOccurrences(await getUpcomingOccurrences(templateId));
+    } catch (error) {
+      console.error('Error loading upcoming rides:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    loadOccurrences();
+  }, [loadOccurrences]);
+
+  const handleSkip = async (ride: Ride) => {
+    if (!ride.occurrence_date) return;
+    const reason = window.prompt('Reason for skipping this day?') ?? undefined;
+    try {
+      await skipOccurrence(templateId, ride.occurrence_date, reason);
+      await loadOccurrences();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleSaveTime = async (ride: Ride) => {
+    try {
+      await updateOccurrence(ride.id, { departureTime: new Date(editValue) });
+      setEditingId(null);
+      await loadOccurrences();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (occurrences.length === 0) {
+    return <p className="text-sm text-gray-500">No upcoming rides</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {occurrences.map((ride) => {
+        const editable = ride.status === 'available' || ride.status === 'accepted';
+        const booked = (ride.seats_total ?? ride.seats_available) - ride.seats_available;
+
+        return (
+          <li key={ride.id} className="py-2 flex flex-wrap items-center gap-2 text-sm">
+            {editingId === ride.id ? (
+              <>
+                <input
+                  type="datetime-local"
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+                <button
+                  onClick={() => handleSaveTime(ride)}
+                  className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="px-3 py-1 text-gray-600 hover:text-gray-900"
+                >
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <>
+                <span className={`flex-1 ${editable ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                  {new Date(ride.departure_time).toLocaleString([], {
+                    weekday: 'short',
+                    month: 'short',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {editable ? `${booked} booked` : ride.status}
+                </span>
+                {editable && (
+                  <>
+                    <button
+                      onClick={() => {
+                        setEditingId(ride.id);
+                        setEditValue(toLocalInputValue(new Date(ride.departure_time)));
+                      }}
+                      className="p-1 text-gray-500 hover:text-blue-600"
+                      title="Change the time for this day"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleSkip(ride)}
+                      className="p-1 text-gray-500 hover:text-red-600"
+                      title="Skip this day"
+                    >
+                      <CalendarX className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Wallet as WalletIcon, Plus, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+import { LedgerEntryRow } from '../lib/supabase';
+import { LedgerTransactionKind, fromCents } from '../algorithms/ledger';
+import { getWalletActivity, getWalletBalance, topUpWallet } from '../services/walletService';
+
+interface WalletProps {
+  userId: string;
+}
+
+const TOP_UP_AMOUNTS = [10, 25, 50];
+
+const KIND_LABELS: Record<LedgerTransactionKind, string> = {
+  top_up: 'Top-up',
+  hold: 'Fare held for booking',
+  capture: 'Ride fare',
+  refund: 'Refund',
+  cancellation_fee: 'Cancellation fee',
+};
+
+function formatCents(cents: number) {
+  const sign = cents < 0 ? '-' : '';
+  return `${sign}$${fromCents(Math.abs(cents)).toFixed(2)}`;
+}
+
+export default function Wallet({ userId }: WalletProps) {
+  const [balanceCents, setBalanceCents] = useState(0);
+  const [activity, setActivity] = useState<LedgerEntryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [toppingUp, setToppingUp] = useState(false);
+
+  const loadWallet = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [balance, entries] = await Promise.all([
+        getWalletBalance(userId),
+        getWalletActivity(userId),
+      ]);
+      setBalanceCents(balance);
+      setActivity(entries);
+    } catch (error) {
+      console.error('Error loading wallet:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadWallet();
+  }, [loadWallet]);
+
+  const handleTopUp = async (amount: number) => {
+    setToppingUp(true);
+    try {
+      await topUpWallet(amount);
+      await loadWallet();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    } finally {
+      setToppingUp(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
+        <div className="flex items-center gap-2 text-gray-500 text-sm">
+          <WalletIcon className="w-4 h-4" />
+          Wallet balance
+        </div>
+        <div className={`text-3xl font-bold ${balanceCents < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+          {formatCents(balanceCents)}
+        </div>
+        {balanceCents < 0 && (
+          <p className="text-xs text-red-700 mt-1">
+            A recurring ride was booked for you; top up to settle it
+          </p>
+        )}
+        <div className="flex flex-wrap gap-2 mt-4">
+          {TOP_UP_AMOUNTS.map((amount) => (
+            <button
+              key={amount}
+              onClick={() => handleTopUp(amount)}
+              disabled={toppingUp}
+              className="flex items-center gap-1 px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+            >
+              <Plus className="w-4 h-4" />${amount}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mt-2">Payments use the test card provider</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
+        <h3 className="font-semibold text-gray-900 mb-3">Activity</h3>
+        {activity.length === 0 ? (
+          <p className="text-sm text-gray-500">No transactions yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {activity.map((entry) => (
+              <li key={entry.id} className="py-2 flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  {entry.amount_cents > 0 ? (
+                    <ArrowDownLeft className="w-4 h-4 text-green-600" />
+                  ) : (
+                    <ArrowUpRight className="w-4 h-4 text-gray-500" />
+                  )}
+                  <div>
+                    <div className="text-gray-900">
+                      {entry.transaction ? KIND_LABELS[entry.transaction.kind] : 'Transaction'}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </div>
+                  </div>
+                </div>
+                <span className={entry.amount_cents > 0 ? 'text-green-700 font-medium' : 'text-gray-700'}>
+                  {entry.amount_cents > 0 ? '+' : ''}
+                  {formatCents(entry.amount_cents)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
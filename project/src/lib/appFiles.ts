@@ -0,0 +1,9 @@
+/**
+ * Fetch a file the app serves, such as the road network or the fare rules.
+ * Relative URLs only resolve in a browser, so elsewhere (tests, scripts) they
+ * give null, as a missing file would, instead of a failed request.
+ */
+export async function fetchAppFile(url: string): Promise<Response | null> {
+  if (typeof window === 'undefined' && !/^[a-z][a-z\d+.-]*:/i.test(url)) return null;
+  return fetch(url);
+}
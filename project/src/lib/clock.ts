@@ -0,0 +1,16 @@
+let clock: () => Date = () => new Date();
+
+/**
+ * The time the services work to: departure checks, fare and surge pricing.
+ * Real time in the app; simulations set their own.
+ */
+export function now(): Date {
+  return clock();
+}
+
+// Returns the previous clock so callers can put it back
+export function setClock(next: () => Date): () => Date {
+  const previous = clock;
+  clock = next;
+  return previous;
+}
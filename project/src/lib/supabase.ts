@@ -1,13 +1,22 @@
 import { createClient } from '@supabase/supabase-js';
+import { FareBreakdown } from '../algorithms/fareEngine';
+import { RideStatus, RideActor } from '../algorithms/rideLifecycle';
+import { RaterRole } from '../algorithms/ratings';
+import { CancellationActor, CancellationStage } from '../algorithms/cancellation';
+import { LedgerTransactionKind } from '../algorithms/ledger';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables');
-}
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Without the environment variables the app runs on the in-memory
+// repositories; the client still exists so importing it never throws, and
+// anything that calls it fails at that point instead
+export const supabase = createClient(
+  supabaseUrl || 'http://localhost:54321',
+  supabaseAnonKey || 'offline'
+);
 
 export interface Profile {
   id: string;
@@ -16,6 +25,8 @@ export interface Profile {
   avatar_url?: string;
   rating: number;
   total_rides: number;
+  // Share of rides not cancelled late, 0-1
+  reliability: number;
   created_at: string;
   updated_at: string;
 }
@@ -24,7 +35,7 @@ export interface Ride {
   id: string;
   driver_id: string;
   passenger_id?: string;
-  status: 'available' | 'accepted' | 'in_progress' | 'completed' | 'cancelled';
+  status: RideStatus;
   pickup_lat: number;
   pickup_lng: number;
   pickup_address: string;
@@ -33,11 +44,25 @@ export interface Ride {
   dropoff_address: string;
   current_lat?: number;
   current_lng?: number;
+  // When current_lat/current_lng were last published by the driver
+  current_location_at?: string | null;
   distance_km: number;
   estimated_duration_min: number;
   price: number;
+  fare_breakdown?: FareBreakdown | null;
   vehicle_type: string;
+  // Seats still free; seats_total is what the driver offered
   seats_available: number;
+  seats_total?: number | null;
+  max_detour_min?: number | null;
+  // The driver leaves departure_time ± departure_flex_min minutes
+  departure_time: string;
+  departure_flex_min?: number | null;
+  departure_window_start?: string | null;
+  departure_window_end?: string | null;
+  // Set on rides generated from a recurring template
+  template_id?: string | null;
+  occurrence_date?: string | null;
   created_at: string;
   updated_at: string;
   driver?: Profile;
@@ -54,5 +79,209 @@ export interface RideRequest {
   dropoff_address: string;
   max_price: number;
   status: 'pending' | 'matched' | 'cancelled';
+  matched_ride_id?: string | null;
+  matched_fare?: number | null;
+  matched_at?: string | null;
+  created_at: string;
+}
+
+export interface RideBooking {
+  id: string;
+  ride_id: string;
+  passenger_id: string;
+  seats: number;
+  pickup_lat: number;
+  pickup_lng: number;
+  pickup_address: string;
+  dropoff_lat: number;
+  dropoff_lng: number;
+  dropoff_address: string;
+  // What the passenger pays, after any promo discount
+  fare_share: number;
+  promotion_id?: string | null;
+  discount?: number;
+  status: 'confirmed' | 'cancelled';
+  subscription_id?: string | null;
+  created_at: string;
+  passenger?: Profile;
+}
+
+// A confirmed booking as seen when splitting the fare (fare_split_stops RPC)
+export interface FareSplitStop {
+  booking_id: string;
+  seats: number;
+  pickup_lat: number;
+  pickup_lng: number;
+  dropoff_lat: number;
+  dropoff_lng: number;
+  is_own: boolean;
+}
+
+// A confirmed booking's stops on a ride, for measuring detours on top of them;
+// the ride_booked_stops RPC rounds them to about 100 m
+export interface RideBookedStops {
+  ride_id: string;
+  seats: number;
+  pickup_lat: number;
+  pickup_lng: number;
+  dropoff_lat: number;
+  dropoff_lng: number;
+}
+
+// One message in the chat between a ride's driver and one of its passengers
+export interface RideMessage {
+  id: string;
+  ride_id: string;
+  // The thread: each passenger has their own conversation with the driver
+  passenger_id: string;
+  sender_id: string;
+  body: string;
+  created_at: string;
+}
+
+export type NotificationType =
+  | 'booking'
+  | 'cancellation'
+  | 'arrival'
+  | 'status'
+  | 'message'
+  | 'ride_alert';
+
+// Named to avoid the browser's Notification
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  ride_id?: string | null;
+  // Null while unread
+  read_at?: string | null;
+  created_at: string;
+}
+
+// A passenger's search they want to hear about when a matching ride is posted
+export interface SavedSearch {
+  id: string;
+  passenger_id: string;
+  pickup_lat: number;
+  pickup_lng: number;
+  pickup_address: string;
+  dropoff_lat: number;
+  dropoff_lng: number;
+  dropoff_address: string;
+  // The alert expires once window_end passes
+  window_start: string;
+  window_end: string;
+  max_price: number;
+  min_match_score: number;
+  status: 'active' | 'expired' | 'cancelled';
+  last_matched_at?: string | null;
+  created_at: string;
+}
+
+export interface RideTemplate {
+  id: string;
+  driver_id: string;
+  pickup_lat: number;
+  pickup_lng: number;
+  pickup_address: string;
+  dropoff_lat: number;
+  dropoff_lng: number;
+  dropoff_address: string;
+  distance_km: number;
+  estimated_duration_min: number;
+  price: number;
+  fare_breakdown?: FareBreakdown | null;
+  vehicle_type: string;
+  seats_total: number;
+  max_detour_min: number;
+  // 0 = Sunday … 6 = Saturday
+  days_of_week: number[];
+  // 'HH:MM:SS' in time_zone
+  departure_local_time: string;
+  departure_flex_min: number;
+  time_zone: string;
+  starts_on: string;
+  ends_on?: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+  driver?: Profile;
+}
+
+export interface RideSubscription {
+  id: string;
+  template_id: string;
+  passenger_id: string;
+  seats: number;
+  pickup_lat: number;
+  pickup_lng: number;
+  pickup_address: string;
+  dropoff_lat: number;
+  dropoff_lng: number;
+  dropoff_address: string;
+  fare_share: number;
+  status: 'active' | 'cancelled';
+  created_at: string;
+}
+
+export interface RideEvent {
+  id: string;
+  ride_id: string;
+  event: 'created' | 'status_changed' | 'booking_created' | 'booking_cancelled';
+  from_status?: RideStatus | null;
+  to_status?: RideStatus | null;
+  actor_id?: string | null;
+  actor_role: RideActor;
+  reason?: string | null;
+  created_at: string;
+  actor?: Pick<Profile, 'full_name'> | null;
+}
+
+export interface Rating {
+  id: string;
+  ride_id: string;
+  rater_id: string;
+  ratee_id: string;
+  rater_role: RaterRole;
+  stars: number;
+  review?: string | null;
+  tags: string[];
+  created_at: string;
+  rater?: Pick<Profile, 'full_name'> | null;
+}
+
+export interface Cancellation {
+  id: string;
+  ride_id: string;
+  booking_id?: string | null;
+  actor_id: string;
+  actor_role: CancellationActor;
+  reason: string;
+  stage: CancellationStage;
+  fee: number;
+  created_at: string;
+}
+
+export interface WalletAccount {
+  id: string;
+  owner_id?: string | null;
+  kind: 'user' | 'escrow' | 'platform_fees' | 'provider_clearing';
+  balance_cents: number;
+  created_at: string;
+}
+
+export interface LedgerEntryRow {
+  id: string;
+  transaction_id: string;
+  account_id: string;
+  // Positive credits the account
+  amount_cents: number;
   created_at: string;
+  transaction?: {
+    kind: LedgerTransactionKind;
+    ride_id?: string | null;
+    description?: string | null;
+  } | null;
 }
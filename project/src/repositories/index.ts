@@ -0,0 +1,30 @@
+import { isSupabaseConfigured } from '../lib/supabase';
+import { createSupabaseRepositories } from './supabaseRepositories';
+import { createMemoryRepositories } from './memoryRepositories';
+import { createSeedData } from './seed';
+import { Repositories } from './types';
+
+export * from './types';
+export { createSupabaseRepositories } from './supabaseRepositories';
+export { createMemoryRepositories, EMPTY_SEED } from './memoryRepositories';
+export type { MemoryRepositories, MemoryRepositoryOptions, MemoryUser, SeedData } from './memoryRepositories';
+export { createSeedData, SEED_PASSWORD } from './seed';
+
+/**
+ * The app's data layer: Supabase when it's configured, otherwise (or with
+ * VITE_DATA_BACKEND=memory) the in-memory repositories over the seed data
+ */
+export let repositories: Repositories =
+  isSupabaseConfigured && import.meta.env.VITE_DATA_BACKEND !== 'memory'
+    ? createSupabaseRepositories()
+    : createMemoryRepositories(createSeedData());
+
+/**
+ * Point the services at another data layer, e.g. a simulation's own
+ * in-memory repositories. Returns the previous one so it can be put back.
+ */
+export function setRepositories(next: Repositories): Repositories {
+  const previous = repositories;
+  repositories = next;
+  return previous;
+}
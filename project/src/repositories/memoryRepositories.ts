@@ -0,0 +1,632 @@
+import { Profile, Ride, RideRequest, RideBooking, RideEvent } from '../lib/supabase';
+import { findNearbyRides, ridePickupLocation } from '../algorithms/astar';
+import { createSpatialIndex } from '../algorithms/spatialIndex';
+import { encodeGeohash } from '../algorithms/geohash';
+import { SurgeCellCount } from '../algorithms/surge';
+import { RideActor, RideStatus, assertTransition } from '../algorithms/rideLifecycle';
+import {
+  DEFAULT_DEPARTURE_FLEX_MIN,
+  rideDepartureWindow,
+  windowsOverlap,
+} from '../algorithms/departureWindow';
+import { DEFAULT_CANCELLATION_POLICIES, quoteCancellationFee } from '../algorithms/cancellation';
+import { DEFAULT_FARE_RULES, FareRules, bookingFareFloor, bookingLegKm } from '../algorithms/fareEngine';
+import {
+  Ledger,
+  cancellationFeeEntries,
+  captureEntries,
+  createLedger,
+  holdEntries,
+  PLATFORM_COMMISSION_PERCENT,
+  refundEntries,
+  toCents,
+  topUpEntries,
+  userAccount,
+} from '../algorithms/ledger';
+import { AuthUser, Repositories, Subscription } from './types';
+
+export interface MemoryUser extends AuthUser {
+  email: string;
+  password: string;
+}
+
+export interface SeedData {
+  users: MemoryUser[];
+  profiles: Profile[];
+  rides: Ride[];
+  requests: RideRequest[];
+  bookings: RideBooking[];
+  // Opening wallet balances, as top-ups
+  walletCents?: Record<string, number>;
+}
+
+export interface MemoryRepositoryOptions {
+  // Clock for timestamps, departure checks and cancellation fees
+  now?: () => Date;
+  // User signed in from the start
+  signedInAs?: string;
+  // Rates booking fares are checked against, as the fare_rules table;
+  // the built-in ones by default
+  fareRules?: FareRules;
+}
+
+export type MemoryRepositories = Repositories & {
+  backend: 'memory';
+  // Holds, captures and refunds of the bookings, like the database ledger
+  ledger: Ledger;
+};
+
+export const EMPTY_SEED: SeedData = { users: [], profiles: [], rides: [], requests: [], bookings: [] };
+
+/**
+ * IN-MEMORY REPOSITORIES: the whole data layer in plain maps, for running the
+ * app, the services and simulations with no network. Booking, status changes
+ * and cancellations apply the rules the database enforces with its RPCs and
+ * triggers: seat counts, fare floors, lifecycle transitions, ride events,
+ * escrow holds and cancellation fees. Realtime subscribers hear about ride updates.
+ */
+export function createMemoryRepositories(
+  seed: SeedData = EMPTY_SEED,
+  options: MemoryRepositoryOptions = {}
+): MemoryRepositories {
+  const now = options.now ?? (() => new Date());
+  const fareRules = options.fareRules ?? DEFAULT_FARE_RULES;
+  const ledger = createLedger();
+
+  const users = new Map(seed.users.map(user => [user.email.toLowerCase(), { ...user }]));
+  const profiles = new Map(seed.profiles.map(profile => [profile.id, { ...profile }]));
+  const rides = new Map(seed.rides.map(ride => [ride.id, withDepartureWindow({ ...ride })]));
+  const requests = new Map(seed.requests.map(request => [request.id, { ...request }]));
+  const bookings = new Map(seed.bookings.map(booking => [booking.id, { ...booking }]));
+  const events: RideEvent[] = [];
+  // Cents held in escrow per booking until it's captured or refunded
+  const holds = new Map<string, number>();
+
+  let nextId = 1;
+  const newId = (prefix: string) => `${prefix}-${nextId++}`;
+  const timestamp = () => now().toISOString();
+
+  let currentUserId: string | null = options.signedInAs ?? null;
+  const authListeners = new Set<(user: AuthUser | null) => void>();
+  const rideListeners = new Map<string, Set<(ride: Ride) => void>>();
+
+  Object.entries(seed.walletCents ?? {}).forEach(([userId, cents]) => {
+    if (cents > 0) ledger.post('top_up', topUpEntries(userId, cents));
+  });
+  seed.bookings
+    .filter(booking => booking.status === 'confirmed' && booking.fare_share > 0)
+    .forEach(booking => hold(booking));
+
+  function currentUser(): AuthUser | null {
+    if (!currentUserId) return null;
+    const user = Array.from(users.values()).find(u => u.id === currentUserId);
+    return user ? { id: user.id, email: user.email } : { id: currentUserId };
+  }
+
+  function notifyAuth() {
+    const user = currentUser();
+    authListeners.forEach(listener => listener(user));
+  }
+
+  function subscription(cleanup: () => void): Subscription {
+    return { unsubscribe: cleanup };
+  }
+
+  function withDepartureWindow(ride: Ride): Ride {
+    const window = rideDepartureWindow(ride);
+    ride.departure_window_start = window.start.toISOString();
+    ride.departure_window_end = window.end.toISOString();
+    return ride;
+  }
+
+  function findRide(id: string): Ride {
+    const ride = rides.get(id);
+    if (!ride) throw new Error(`Ride ${id} not found`);
+    return ride;
+  }
+
+  function withDriver(ride: Ride): Ride {
+    return { ...ride, driver: profiles.get(ride.driver_id) };
+  }
+
+  // Realtime delivery is asynchronous, as it is over the network
+  function publishRide(ride: Ride) {
+    const listeners = rideListeners.get(ride.id);
+    if (!listeners) return;
+    const snapshot = { ...ride };
+    queueMicrotask(() => listeners.forEach(listener => listener(snapshot)));
+  }
+
+  function logEvent(event: Omit<RideEvent, 'id' | 'created_at'>) {
+    events.push({ ...event, id: newId('event'), created_at: timestamp() });
+  }
+
+  // Like current_ride_actor_role(): no signed-in user is the system itself
+  function actorRole(ride: Ride): RideActor {
+    if (!currentUserId) return 'system';
+    return currentUserId === ride.driver_id ? 'driver' : 'passenger';
+  }
+
+  function updateRide(ride: Ride, changes: Partial<Ride>, actor: RideActor, reason?: string) {
+    const fromStatus = ride.status;
+    Object.assign(ride, changes, { updated_at: timestamp() });
+    if (ride.status !== fromStatus) {
+      logEvent({
+        ride_id: ride.id,
+        event: 'status_changed',
+        from_status: fromStatus,
+        to_status: ride.status,
+        actor_id: currentUserId,
+        actor_role: actor,
+        reason: reason ?? null,
+      });
+    }
+    publishRide(ride);
+  }
+
+  function confirmedBookings(rideId: string) {
+    return Array.from(bookings.values()).filter(
+      booking => booking.ride_id === rideId && booking.status === 'confirmed'
+    );
+  }
+
+  function hold(booking: RideBooking) {
+    const cents = toCents(booking.fare_share);
+    // As hold_booking_fare(): only a promo code may take the fare to zero
+    if (cents < 0 || cents + toCents(booking.discount ?? 0) <= 0) {
+      throw new Error('This booking has no fare to hold');
+    }
+    if (cents === 0) return;
+    if (ledger.balanceCents(userAccount(booking.passenger_id)) < cents) {
+      throw new Error('Your wallet balance does not cover this fare');
+    }
+    ledger.post('hold', holdEntries(booking.passenger_id, cents), booking.id);
+    holds.set(booking.id, cents);
+  }
+
+  // As settle_booking(): fully discounted bookings still pay the driver
+  function capture(booking: RideBooking, driverId: string) {
+    const heldCents = holds.get(booking.id) ?? 0;
+    const discountCents = toCents(booking.discount ?? 0);
+    if (heldCents === 0 && discountCents === 0) return;
+    ledger.post(
+      'capture',
+      captureEntries(driverId, heldCents, PLATFORM_COMMISSION_PERCENT, discountCents),
+      booking.id
+    );
+    holds.delete(booking.id);
+  }
+
+  function refund(booking: RideBooking, driverId: string, feeCents: number = 0) {
+    const heldCents = holds.get(booking.id);
+    if (!heldCents) return;
+    ledger.post('refund', refundEntries(booking.passenger_id, driverId, heldCents, feeCents), booking.id);
+    holds.delete(booking.id);
+  }
+
+  // Completing captures every held fare; a driver's cancellation refunds
+  // them and charges the driver's fee per passenger left behind
+  function settleRide(ride: Ride, previousStatus: RideStatus, actor: RideActor) {
+    confirmedBookings(ride.id).forEach(booking => {
+      if (ride.status === 'completed') {
+        capture(booking, ride.driver_id);
+        return;
+      }
+
+      refund(booking, ride.driver_id);
+      if (actor !== 'driver') return;
+      const { fee } = quoteCancellationFee(DEFAULT_CANCELLATION_POLICIES.driver, {
+        bookedAt: new Date(booking.created_at),
+        departureAt: new Date(ride.departure_time),
+        enRoute: previousStatus === 'in_progress',
+        fare: booking.fare_share,
+        now: now(),
+      });
+      if (fee > 0) {
+        ledger.post(
+          'cancellation_fee',
+          cancellationFeeEntries(ride.driver_id, booking.passenger_id, toCents(fee)),
+          booking.id
+        );
+      }
+    });
+  }
+
+  return {
+    backend: 'memory',
+    ledger,
+
+    auth: {
+      async currentUser() {
+        return currentUser();
+      },
+
+      onChange(callback) {
+        authListeners.add(callback);
+        return subscription(() => authListeners.delete(callback));
+      },
+
+      async signUp(email, password) {
+        const key = email.trim().toLowerCase();
+        if (users.has(key)) throw new Error('User already registered');
+        if (password.length < 6) throw new Error('Password should be at least 6 characters');
+
+        const user = { id: newId('user'), email: key, password };
+        users.set(key, user);
+        return { id: user.id, email: user.email };
+      },
+
+      async signIn(email, password) {
+        const user = users.get(email.trim().toLowerCase());
+        if (!user || user.password !== password) throw new Error('Invalid login credentials');
+
+        currentUserId = user.id;
+        notifyAuth();
+        return { id: user.id, email: user.email };
+      },
+
+      async signOut() {
+        currentUserId = null;
+        notifyAuth();
+      },
+    },
+
+    profiles: {
+      async get(id) {
+        return profiles.get(id) ?? null;
+      },
+
+      async list(limit) {
+        return Array.from(profiles.values()).slice(0, limit);
+      },
+
+      async create(profile) {
+        if (profiles.has(profile.id)) throw new Error('Profile already exists');
+        const created: Profile = {
+          ...profile,
+          rating: 4.5,
+          total_rides: 0,
+          reliability: 1,
+          created_at: timestamp(),
+          updated_at: timestamp(),
+        };
+        profiles.set(created.id, created);
+        return created;
+      },
+    },
+
+    rides: {
+      async get(id) {
+        return { ...findRide(id) };
+      },
+
+      async create(newRide) {
+        const ride = withDepartureWindow({
+          ...newRide,
+          id: newId('ride'),
+          status: 'available',
+          departure_flex_min: newRide.departure_flex_min ?? DEFAULT_DEPARTURE_FLEX_MIN,
+          created_at: timestamp(),
+          updated_at: timestamp(),
+        });
+        rides.set(ride.id, ride);
+        logEvent({
+          ride_id: ride.id,
+          event: 'created',
+          to_status: 'available',
+          actor_id: ride.driver_id,
+          actor_role: 'driver',
+        });
+        return { ...ride };
+      },
+
+      async listAvailable({ earliest, latest, bounds }) {
+        return Array.from(rides.values())
+          .filter(ride =>
+            ride.status === 'available' &&
+            new Date(ride.departure_window_end!).getTime() >= earliest.getTime() &&
+            (!latest || new Date(ride.departure_window_start!).getTime() <= latest.getTime()) &&
+            (!bounds ||
+              (ride.pickup_lat >= bounds.minLat && ride.pickup_lat <= bounds.maxLat &&
+                ride.pickup_lng >= bounds.minLng && ride.pickup_lng <= bounds.maxLng))
+          )
+          .sort((a, b) => new Date(a.departure_time).getTime() - new Date(b.departure_time).getTime())
+          .map(withDriver);
+      },
+
+      async listNearby(location, radiusKm, limit, window) {
+        const current = now();
+        const candidates = Array.from(rides.values()).filter(ride => {
+          if (ride.status !== 'available' || ride.seats_available <= 0) return false;
+          const rideWindow = rideDepartureWindow(ride);
+          return rideWindow.end.getTime() >= current.getTime() &&
+            (!window || windowsOverlap(rideWindow, window));
+        });
+        const index = createSpatialIndex(ridePickupLocation, candidates);
+        return findNearbyRides(location, index, radiusKm)
+          .slice(0, limit)
+          .map(({ ride, distance }) => ({ ride: withDriver(ride), distance }));
+      },
+
+      async listForUser(userId) {
+        const booked = new Set(
+          Array.from(bookings.values())
+            .filter(booking => booking.passenger_id === userId && booking.status === 'confirmed')
+            .map(booking => booking.ride_id)
+        );
+        return Array.from(rides.values())
+          .filter(ride => ride.driver_id === userId || ride.passenger_id === userId || booked.has(ride.id))
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(ride => ({
+            ...withDriver(ride),
+            passenger: ride.passenger_id ? profiles.get(ride.passenger_id) : undefined,
+          }));
+      },
+
+      async history(userId, limit) {
+        return Array.from(rides.values())
+          .filter(ride => ride.driver_id === userId || ride.passenger_id === userId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .slice(0, limit)
+          .map(ride => ({ ...ride }));
+      },
+
+      async transition(id, status, transition = {}) {
+        const ride = rides.get(id);
+        const actor = ride ? actorRole(ride) : 'passenger';
+        if (!ride || actor === 'passenger') {
+          throw new Error(`Ride ${id} not found or not yours`);
+        }
+
+        const previousStatus = ride.status;
+        if (status !== previousStatus) assertTransition(previousStatus, status, actor);
+        updateRide(
+          ride,
+          {
+            status,
+            current_lat: transition.currentLocation?.lat ?? ride.current_lat,
+            current_lng: transition.currentLocation?.lng ?? ride.current_lng,
+          },
+          actor,
+          transition.reason
+        );
+        if (status !== previousStatus && (status === 'completed' || status === 'cancelled')) {
+          settleRide(ride, previousStatus, actor);
+        }
+        return { ...ride };
+      },
+
+      async events(rideId) {
+        return events
+          .filter(event => event.ride_id === rideId)
+          .map(event => {
+            const actor = event.actor_id ? profiles.get(event.actor_id) : undefined;
+            return { ...event, actor: actor ? { full_name: actor.full_name } : null };
+          });
+      },
+
+      subscribe(rideId, callback) {
+        const listeners = rideListeners.get(rideId) ?? new Set();
+        listeners.add(callback);
+        rideListeners.set(rideId, listeners);
+        return subscription(() => listeners.delete(callback));
+      },
+    },
+
+    requests: {
+      async create(request) {
+        const created: RideRequest = {
+          ...request,
+          id: newId('request'),
+          status: 'pending',
+          created_at: timestamp(),
+        };
+        requests.set(created.id, created);
+        return { ...created };
+      },
+
+      async listPending() {
+        return Array.from(requests.values())
+          .filter(request => request.status === 'pending')
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(request => ({ ...request }));
+      },
+
+      async marketCells(precision) {
+        const cells = new Map<string, SurgeCellCount>();
+        const cell = (lat: number, lng: number) => {
+          const geohash = encodeGeohash({ lat, lng }, precision);
+          if (!cells.has(geohash)) cells.set(geohash, { geohash, demand: 0, supply: 0 });
+          return cells.get(geohash)!;
+        };
+
+        requests.forEach(request => {
+          if (request.status === 'pending') cell(request.pickup_lat, request.pickup_lng).demand++;
+        });
+        const current = now().getTime();
+        rides.forEach(ride => {
+          if (ride.status === 'available' && new Date(ride.departure_window_end!).getTime() >= current) {
+            cell(ride.pickup_lat, ride.pickup_lng).supply++;
+          }
+        });
+        return Array.from(cells.values());
+      },
+
+      async cancel(id) {
+        const request = requests.get(id);
+        if (!request || request.passenger_id !== currentUserId) {
+          throw new Error(`Ride request ${id} not found or not yours`);
+        }
+        if (request.status === 'pending') request.status = 'cancelled';
+      },
+    },
+
+    bookings: {
+      async book({ rideId, passengerId, seats, pickup, dropoff, fareShare, promoCode }) {
+        if (currentUserId && currentUserId !== passengerId) throw new Error('Not authenticated');
+        if (seats < 1) throw new Error('Book at least one seat');
+        if (!(fareShare >= 0)) throw new Error('Invalid fare for this trip');
+        if (promoCode?.trim()) throw new Error('Promo codes are not available offline');
+
+        const ride = findRide(rideId);
+        if (ride.status !== 'available' || ride.seats_available < seats || ride.driver_id === passengerId) {
+          throw new Error('Not enough seats left on this ride');
+        }
+
+        // As booking_fare_floor(): the client's quote is never below it
+        const legKm = bookingLegKm(
+          {
+            pickup: { lat: ride.pickup_lat, lng: ride.pickup_lng },
+            dropoff: { lat: ride.dropoff_lat, lng: ride.dropoff_lng },
+            distanceKm: ride.distance_km,
+          },
+          pickup,
+          dropoff
+        );
+        const fareFloor = bookingFareFloor(fareRules, ride.vehicle_type, pickup, legKm, seats);
+        if (fareShare < fareFloor) {
+          throw new Error(
+            `The fare for this trip is at least $${fareFloor.toFixed(2)}; refresh the quote and try again`
+          );
+        }
+
+        const booking: RideBooking = {
+          id: newId('booking'),
+          ride_id: rideId,
+          passenger_id: passengerId,
+          seats,
+          pickup_lat: pickup.lat,
+          pickup_lng: pickup.lng,
+          pickup_address: pickup.address,
+          dropoff_lat: dropoff.lat,
+          dropoff_lng: dropoff.lng,
+          dropoff_address: dropoff.address,
+          fare_share: fareShare,
+          discount: 0,
+          status: 'confirmed',
+          created_at: timestamp(),
+        };
+        // Hold first: a wallet that can't cover the fare leaves the seats free
+        hold(booking);
+        bookings.set(booking.id, booking);
+
+        const seatsLeft = ride.seats_available - seats;
+        updateRide(
+          ride,
+          {
+            seats_available: seatsLeft,
+            passenger_id: ride.passenger_id ?? passengerId,
+            status: seatsLeft === 0 ? 'accepted' : ride.status,
+          },
+          // Filling the last seat is book_ride_seats() acting, not the passenger
+          'system'
+        );
+        logEvent({
+          ride_id: rideId,
+          event: 'booking_created',
+          actor_id: passengerId,
+          actor_role: 'passenger',
+          reason: `${seats} seat(s) booked`,
+        });
+        return { ...booking };
+      },
+
+      async listForRide(rideId) {
+        return confirmedBookings(rideId)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(booking => ({ ...booking, passenger: profiles.get(booking.passenger_id) }));
+      },
+
+      async fareSplitStops(rideId) {
+        const isDriver = findRide(rideId).driver_id === currentUserId;
+        const confirmed = confirmedBookings(rideId).sort((a, b) => a.created_at.localeCompare(b.created_at));
+        if (!isDriver && !confirmed.some(booking => booking.passenger_id === currentUserId)) return [];
+
+        // As fare_split_stops(): other passengers' stops to about 100 m
+        return confirmed.map(booking => {
+          const exact = isDriver || booking.passenger_id === currentUserId;
+          const coordinate = (value: number) => (exact ? value : Math.round(value * 1000) / 1000);
+          return {
+            booking_id: booking.id,
+            seats: booking.seats,
+            pickup_lat: coordinate(booking.pickup_lat),
+            pickup_lng: coordinate(booking.pickup_lng),
+            dropoff_lat: coordinate(booking.dropoff_lat),
+            dropoff_lng: coordinate(booking.dropoff_lng),
+            is_own: booking.passenger_id === currentUserId,
+          };
+        });
+      },
+
+      async bookedStops(rideIds) {
+        // As ride_booked_stops(): rides still available, stops to about 100 m
+        const round = (value: number) => Math.round(value * 1000) / 1000;
+        return rideIds
+          .filter(rideId => rides.get(rideId)?.status === 'available')
+          .flatMap(rideId =>
+            confirmedBookings(rideId)
+              .sort((a, b) => a.created_at.localeCompare(b.created_at))
+              .map(booking => ({
+                ride_id: rideId,
+                seats: booking.seats,
+                pickup_lat: round(booking.pickup_lat),
+                pickup_lng: round(booking.pickup_lng),
+                dropoff_lat: round(booking.dropoff_lat),
+                dropoff_lng: round(booking.dropoff_lng),
+              }))
+          );
+      },
+
+      async cancel(rideId, reason) {
+        if (!currentUserId) throw new Error('Not authenticated');
+        const ride = findRide(rideId);
+        if (!['available', 'accepted', 'in_progress'].includes(ride.status)) {
+          throw new Error(`A ${ride.status} ride can no longer be cancelled by a passenger`);
+        }
+
+        const own = confirmedBookings(rideId).filter(booking => booking.passenger_id === currentUserId);
+        if (own.length === 0) throw new Error('You have no booking on this ride');
+
+        const cancelReason = reason?.trim() || 'Passenger cancelled';
+        own.forEach(booking => {
+          const { fee } = quoteCancellationFee(DEFAULT_CANCELLATION_POLICIES.passenger, {
+            bookedAt: new Date(booking.created_at),
+            departureAt: new Date(ride.departure_time),
+            enRoute: ride.status === 'in_progress',
+            fare: booking.fare_share,
+            now: now(),
+          });
+          booking.status = 'cancelled';
+          refund(booking, ride.driver_id, toCents(fee));
+          logEvent({
+            ride_id: rideId,
+            event: 'booking_cancelled',
+            actor_id: currentUserId,
+            actor_role: 'passenger',
+            reason: cancelReason,
+          });
+        });
+
+        // A trip under way keeps going with the seat empty
+        const released = own.reduce((sum, booking) => sum + booking.seats, 0);
+        updateRide(
+          ride,
+          {
+            seats_available: ride.seats_available + released,
+            passenger_id: ride.passenger_id === currentUserId ? undefined : ride.passenger_id,
+            status: ride.status === 'in_progress' ? ride.status : 'available',
+          },
+          'passenger',
+          cancelReason
+        );
+        return released;
+      },
+    },
+
+    wallets: {
+      async balanceCents(userId) {
+        return ledger.balanceCents(userAccount(userId));
+      },
+    },
+  };
+}
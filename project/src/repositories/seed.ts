@@ -0,0 +1,153 @@
+import { Profile, Ride, RideBooking, RideRequest } from '../lib/supabase';
+import { Location, astarPathfinding } from '../algorithms/astar';
+import { quoteFare } from '../algorithms/fareEngine';
+import { DEFAULT_MAX_DETOUR_MIN } from '../algorithms/detour';
+import { DEFAULT_DEPARTURE_FLEX_MIN } from '../algorithms/departureWindow';
+import { MemoryUser, SeedData } from './memoryRepositories';
+
+// Every seeded account signs in with this password
+export const SEED_PASSWORD = 'password';
+
+type Place = Location & { address: string };
+
+const PLACES = {
+  ferryBuilding: { lat: 37.7955, lng: -122.3937, address: 'Ferry Building, San Francisco' },
+  missionDolores: { lat: 37.7596, lng: -122.4269, address: 'Mission Dolores Park, San Francisco' },
+  goldenGatePark: { lat: 37.7694, lng: -122.4862, address: 'Golden Gate Park, San Francisco' },
+  caltrain: { lat: 37.7765, lng: -122.3943, address: '4th & King Caltrain, San Francisco' },
+  unionSquare: { lat: 37.788, lng: -122.4075, address: 'Union Square, San Francisco' },
+  sfo: { lat: 37.6213, lng: -122.379, address: 'San Francisco International Airport' },
+  marina: { lat: 37.8037, lng: -122.4368, address: 'Marina Green, San Francisco' },
+} satisfies Record<string, Place>;
+
+const PEOPLE = [
+  { id: 'user-maya', name: 'Maya Chen', phone: '+1 415 555 0101', rating: 4.9, rides: 212 },
+  { id: 'user-omar', name: 'Omar Haddad', phone: '+1 415 555 0102', rating: 4.6, rides: 58 },
+  { id: 'user-ana', name: 'Ana Souza', phone: '+1 415 555 0103', rating: 4.8, rides: 17 },
+  { id: 'user-leo', name: 'Leo Park', phone: '+1 415 555 0104', rating: 4.7, rides: 9 },
+];
+
+/**
+ * Demo data for the in-memory backend around central San Francisco: two
+ * drivers with upcoming rides, two passengers (one already booked) and a
+ * pending ride request. Departures are relative to `now`.
+ */
+export function createSeedData(now: Date = new Date()): SeedData {
+  const at = (minutes: number) => new Date(now.getTime() + minutes * 60000).toISOString();
+  const created = at(-60);
+
+  const users: MemoryUser[] = PEOPLE.map(person => ({
+    id: person.id,
+    email: `${person.name.split(' ')[0].toLowerCase()}@example.com`,
+    password: SEED_PASSWORD,
+  }));
+
+  const profiles: Profile[] = PEOPLE.map(person => ({
+    id: person.id,
+    full_name: person.name,
+    phone: person.phone,
+    rating: person.rating,
+    total_rides: person.rides,
+    reliability: 1,
+    created_at: created,
+    updated_at: created,
+  }));
+
+  const ride = (
+    id: string,
+    driverId: string,
+    pickup: Place,
+    dropoff: Place,
+    vehicleType: string,
+    seats: number,
+    departsInMin: number
+  ): Ride => {
+    const departureTime = new Date(at(departsInMin));
+    const route = astarPathfinding(pickup, dropoff, []);
+    const fare = quoteFare({
+      distanceKm: route.totalDistance,
+      durationMin: route.totalDuration,
+      vehicleType,
+      departureTime,
+      pickup,
+    });
+    return {
+      id,
+      driver_id: driverId,
+      status: 'available',
+      pickup_lat: pickup.lat,
+      pickup_lng: pickup.lng,
+      pickup_address: pickup.address,
+      dropoff_lat: dropoff.lat,
+      dropoff_lng: dropoff.lng,
+      dropoff_address: dropoff.address,
+      distance_km: route.totalDistance,
+      estimated_duration_min: route.totalDuration,
+      price: fare.total,
+      fare_breakdown: fare,
+      vehicle_type: vehicleType,
+      seats_available: seats,
+      seats_total: seats,
+      max_detour_min: DEFAULT_MAX_DETOUR_MIN,
+      departure_time: departureTime.toISOString(),
+      departure_flex_min: DEFAULT_DEPARTURE_FLEX_MIN,
+      created_at: created,
+      updated_at: created,
+    };
+  };
+
+  const rides = [
+    ride('ride-commute', 'user-maya', PLACES.missionDolores, PLACES.ferryBuilding, 'comfort', 3, 20),
+    ride('ride-airport', 'user-maya', PLACES.unionSquare, PLACES.sfo, 'premium', 3, 90),
+    ride('ride-park', 'user-omar', PLACES.caltrain, PLACES.goldenGatePark, 'economy', 2, 45),
+    ride('ride-marina', 'user-omar', PLACES.ferryBuilding, PLACES.marina, 'economy', 3, 180),
+  ];
+
+  // Leo already has a seat on Maya's airport run
+  const airport = rides[1];
+  airport.seats_available -= 1;
+  airport.passenger_id = 'user-leo';
+  const bookings: RideBooking[] = [
+    {
+      id: 'booking-leo-airport',
+      ride_id: airport.id,
+      passenger_id: 'user-leo',
+      seats: 1,
+      pickup_lat: airport.pickup_lat,
+      pickup_lng: airport.pickup_lng,
+      pickup_address: airport.pickup_address,
+      dropoff_lat: airport.dropoff_lat,
+      dropoff_lng: airport.dropoff_lng,
+      dropoff_address: airport.dropoff_address,
+      fare_share: airport.price,
+      discount: 0,
+      status: 'confirmed',
+      created_at: created,
+    },
+  ];
+
+  const requests: RideRequest[] = [
+    {
+      id: 'request-ana-marina',
+      passenger_id: 'user-ana',
+      pickup_lat: PLACES.unionSquare.lat,
+      pickup_lng: PLACES.unionSquare.lng,
+      pickup_address: PLACES.unionSquare.address,
+      dropoff_lat: PLACES.marina.lat,
+      dropoff_lng: PLACES.marina.lng,
+      dropoff_address: PLACES.marina.address,
+      max_price: 20,
+      status: 'pending',
+      created_at: created,
+    },
+  ];
+
+  return {
+    users,
+    profiles,
+    rides,
+    requests,
+    bookings,
+    walletCents: { 'user-ana': 5000, 'user-leo': 10000 },
+  };
+}
@@ -0,0 +1,369 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  supabase,
+  Profile,
+  Ride,
+  RideRequest,
+  RideBooking,
+  RideEvent,
+  FareSplitStop,
+  RideBookedStops,
+} from '../lib/supabase';
+import { getWalletBalance } from '../services/walletService';
+import { SurgeCellCount } from '../algorithms/surge';
+import { Repositories } from './types';
+
+/**
+ * The repositories over Supabase: tables under RLS, with the writes the
+ * database guards going through their RPCs (book_ride_seats,
+ * transition_ride_status, cancel_ride_booking)
+ */
+export function createSupabaseRepositories(client: SupabaseClient = supabase): Repositories {
+  return {
+    backend: 'supabase',
+
+    auth: {
+      async currentUser() {
+        const { data: { session } } = await client.auth.getSession();
+        return session?.user ?? null;
+      },
+
+      onChange(callback) {
+        const { data } = client.auth.onAuthStateChange((_event, session) => {
+          callback(session?.user ?? null);
+        });
+        return data.subscription;
+      },
+
+      async signUp(email, password, metadata) {
+        const { data, error } = await client.auth.signUp({
+          email,
+          password,
+          options: { data: metadata },
+        });
+
+        if (error) throw error;
+        return data.user;
+      },
+
+      async signIn(email, password) {
+        const { data, error } = await client.auth.signInWithPassword({ email, password });
+
+        if (error) throw error;
+        return data.user;
+      },
+
+      async signOut() {
+        const { error } = await client.auth.signOut();
+        if (error) throw error;
+      },
+    },
+
+    profiles: {
+      async get(id) {
+        const { data, error } = await client
+          .from('profiles')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as Profile | null;
+      },
+
+      async list(limit) {
+        const { data, error } = await client.from('profiles').select('*').limit(limit);
+
+        if (error) throw error;
+        return data as Profile[];
+      },
+
+      async create(profile) {
+        const { data, error } = await client.from('profiles').insert(profile).select().single();
+
+        if (error) throw error;
+        return data as Profile;
+      },
+    },
+
+    rides: {
+      async get(id) {
+        const { data, error } = await client.from('rides').select('*').eq('id', id).single();
+
+        if (error) throw error;
+        return data as Ride;
+      },
+
+      async create(ride) {
+        const { data, error } = await client
+          .from('rides')
+          .insert({ ...ride, status: 'available' })
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as Ride;
+      },
+
+      async listAvailable({ earliest, latest, bounds }) {
+        let query = client
+          .from('rides')
+          .select(`
+            *,
+            driver:profiles!driver_id(*)
+          `)
+          .eq('status', 'available')
+          .gte('departure_window_end', earliest.toISOString());
+
+        if (latest) {
+          query = query.lte('departure_window_start', latest.toISOString());
+        }
+
+        if (bounds) {
+          query = query
+            .gte('pickup_lat', bounds.minLat)
+            .lte('pickup_lat', bounds.maxLat)
+            .gte('pickup_lng', bounds.minLng)
+            .lte('pickup_lng', bounds.maxLng);
+        }
+
+        const { data, error } = await query.order('departure_time', { ascending: true });
+
+        if (error) throw error;
+        return data as Ride[];
+      },
+
+      // PostGIS nearby_available_rides RPC; throws if it isn't installed
+      async listNearby(location, radiusKm, limit, window) {
+        const { data: nearby, error: rpcError } = await client.rpc('nearby_available_rides', {
+          lat: location.lat,
+          lng: location.lng,
+          radius_km: radiusKm,
+          max_results: limit,
+          window_start: window?.start.toISOString() ?? null,
+          window_end: window?.end.toISOString() ?? null,
+        });
+
+        if (rpcError) throw rpcError;
+        const distances = new Map<string, number>(
+          (nearby as Array<{ ride_id: string; distance_km: number }>).map(row => [
+            row.ride_id,
+            row.distance_km,
+          ])
+        );
+        if (distances.size === 0) return [];
+
+        const { data, error } = await client
+          .from('rides')
+          .select(`
+            *,
+            driver:profiles!driver_id(*)
+          `)
+          .in('id', Array.from(distances.keys()));
+
+        if (error) throw error;
+        return (data as Ride[])
+          .map(ride => ({ ride, distance: distances.get(ride.id)! }))
+          .sort((a, b) => a.distance - b.distance);
+      },
+
+      async listForUser(userId) {
+        const { data: bookings, error: bookingsError } = await client
+          .from('ride_bookings')
+          .select('ride_id')
+          .eq('passenger_id', userId)
+          .eq('status', 'confirmed');
+
+        if (bookingsError) throw bookingsError;
+
+        const filters = [`driver_id.eq.${userId}`, `passenger_id.eq.${userId}`];
+        if (bookings && bookings.length > 0) {
+          filters.push(`id.in.(${bookings.map(booking => booking.ride_id).join(',')})`);
+        }
+
+        const { data, error } = await client
+          .from('rides')
+          .select(`
+            *,
+            driver:profiles!driver_id(*),
+            passenger:profiles!passenger_id(*)
+          `)
+          .or(filters.join(','))
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data as Ride[];
+      },
+
+      async history(userId, limit) {
+        const { data, error } = await client
+          .from('rides')
+          .select('*')
+          .or(`driver_id.eq.${userId},passenger_id.eq.${userId}`)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (error) throw error;
+        return data as Ride[];
+      },
+
+      async transition(id, status, transition = {}) {
+        const { data, error } = await client.rpc('transition_ride_status', {
+          p_ride_id: id,
+          p_status: status,
+          p_reason: transition.reason ?? null,
+          p_current_lat: transition.currentLocation?.lat ?? null,
+          p_current_lng: transition.currentLocation?.lng ?? null,
+        });
+
+        if (error) throw error;
+        return data as Ride;
+      },
+
+      async events(rideId) {
+        const { data, error } = await client
+          .from('ride_events')
+          .select(`
+            *,
+            actor:profiles!actor_id(full_name)
+          `)
+          .eq('ride_id', rideId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data as RideEvent[];
+      },
+
+      subscribe(rideId, callback) {
+        return client
+          .channel(`ride:${rideId}`)
+          .on(
+            'postgres_changes',
+            {
+              event: 'UPDATE',
+              schema: 'public',
+              table: 'rides',
+              filter: `id=eq.${rideId}`,
+            },
+            (payload) => {
+              callback(payload.new as Ride);
+            }
+          )
+          .subscribe();
+      },
+    },
+
+    requests: {
+      async create(request) {
+        const { data, error } = await client
+          .from('ride_requests')
+          .insert({ ...request, status: 'pending' })
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as RideRequest;
+      },
+
+      async listPending() {
+        const { data, error } = await client
+          .from('ride_requests')
+          .select('*')
+          .eq('status', 'pending')
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data as RideRequest[];
+      },
+
+      // RLS hides other passengers' requests, so this goes through an RPC
+      async marketCells(precision) {
+        const { data, error } = await client.rpc('surge_market_cells', { p_precision: precision });
+
+        if (error) throw error;
+        return ((data || []) as SurgeCellCount[]).map(row => ({
+          geohash: row.geohash,
+          demand: Number(row.demand),
+          supply: Number(row.supply),
+        }));
+      },
+
+      async cancel(id) {
+        const { error } = await client
+          .from('ride_requests')
+          .update({ status: 'cancelled' })
+          .eq('id', id)
+          .eq('status', 'pending');
+
+        if (error) throw error;
+      },
+    },
+
+    bookings: {
+      async book({ rideId, seats, pickup, dropoff, fareShare, promoCode }) {
+        const { data, error } = await client.rpc('book_ride_seats', {
+          p_ride_id: rideId,
+          p_seats: seats,
+          p_pickup_lat: pickup.lat,
+          p_pickup_lng: pickup.lng,
+          p_pickup_address: pickup.address,
+          p_dropoff_lat: dropoff.lat,
+          p_dropoff_lng: dropoff.lng,
+          p_dropoff_address: dropoff.address,
+          p_fare_share: fareShare,
+          p_promo_code: promoCode ?? null,
+        });
+
+        if (error) throw error;
+        return data as RideBooking;
+      },
+
+      async listForRide(rideId) {
+        const { data, error } = await client
+          .from('ride_bookings')
+          .select(`
+            *,
+            passenger:profiles!passenger_id(*)
+          `)
+          .eq('ride_id', rideId)
+          .eq('status', 'confirmed')
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data as RideBooking[];
+      },
+
+      async fareSplitStops(rideId) {
+        const { data, error } = await client.rpc('fare_split_stops', { p_ride_id: rideId });
+
+        if (error) throw error;
+        return (data ?? []) as FareSplitStop[];
+      },
+
+      // RLS hides other passengers' bookings, so this goes through an RPC
+      async bookedStops(rideIds) {
+        if (rideIds.length === 0) return [];
+        const { data, error } = await client.rpc('ride_booked_stops', { p_ride_ids: rideIds });
+
+        if (error) throw error;
+        return (data ?? []) as RideBookedStops[];
+      },
+
+      async cancel(rideId, reason) {
+        const { data, error } = await client.rpc('cancel_ride_booking', {
+          p_ride_id: rideId,
+          p_reason: reason ?? null,
+        });
+
+        if (error) throw error;
+        return data as number;
+      },
+    },
+
+    // Wallets are read under the signed-in user, so this always uses the
+    // app's client
+    wallets: {
+      balanceCents: getWalletBalance,
+    },
+  };
+}
@@ -0,0 +1,165 @@
+import { Profile, Ride, RideRequest, RideBooking, RideEvent, FareSplitStop, RideBookedStops } from '../lib/supabase';
+import { Location } from '../algorithms/astar';
+import { RideStatus } from '../algorithms/rideLifecycle';
+import { TimeWindow } from '../algorithms/departureWindow';
+import { SurgeCellCount } from '../algorithms/surge';
+
+/**
+ * REPOSITORIES: the data the app reads and writes, behind interfaces with a
+ * Supabase implementation and an in-memory one. Writes that the database
+ * guards with RPCs and triggers (booking seats, status transitions,
+ * cancellations) keep the same rules in both.
+ */
+
+// Returned by every subscribe(); matches a realtime channel's unsubscribe()
+export interface Subscription {
+  unsubscribe(): void;
+}
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+export interface AuthRepository {
+  currentUser(): Promise<AuthUser | null>;
+  onChange(callback: (user: AuthUser | null) => void): Subscription;
+  // The new user, or null when the email must be confirmed first
+  signUp(email: string, password: string, metadata: Record<string, string>): Promise<AuthUser | null>;
+  signIn(email: string, password: string): Promise<AuthUser>;
+  signOut(): Promise<void>;
+}
+
+export type NewProfile = Pick<Profile, 'id' | 'full_name' | 'phone'>;
+
+export interface ProfileRepository {
+  get(id: string): Promise<Profile | null>;
+  list(limit: number): Promise<Profile[]>;
+  create(profile: NewProfile): Promise<Profile>;
+}
+
+export type NewRide = Pick<
+  Ride,
+  | 'driver_id'
+  | 'pickup_lat'
+  | 'pickup_lng'
+  | 'pickup_address'
+  | 'dropoff_lat'
+  | 'dropoff_lng'
+  | 'dropoff_address'
+  | 'distance_km'
+  | 'estimated_duration_min'
+  | 'price'
+  | 'fare_breakdown'
+  | 'vehicle_type'
+  | 'seats_available'
+  | 'seats_total'
+  | 'max_detour_min'
+  | 'departure_time'
+  | 'departure_flex_min'
+>;
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface AvailableRideQuery {
+  // Rides whose departure window ends before this have left
+  earliest: Date;
+  // Rides whose departure window starts after this are too late
+  latest?: Date;
+  bounds?: BoundingBox;
+}
+
+export interface RideTransition {
+  reason?: string;
+  currentLocation?: Location;
+}
+
+export interface RideRepository {
+  get(id: string): Promise<Ride>;
+  create(ride: NewRide): Promise<Ride>;
+  // Available rides with their driver, soonest departure first
+  listAvailable(query: AvailableRideQuery): Promise<Ride[]>;
+  // Available rides with a pickup within radiusKm, with their driver, nearest first
+  listNearby(
+    location: Location,
+    radiusKm: number,
+    limit: number,
+    window?: TimeWindow
+  ): Promise<Array<{ ride: Ride; distance: number }>>;
+  // Rides the user drives or has a confirmed booking on, newest first
+  listForUser(userId: string): Promise<Ride[]>;
+  // Rides the user drove or was the first passenger of, for recommendations
+  history(userId: string, limit: number): Promise<Ride[]>;
+  // Moves the ride to status as the signed-in user, logging it with the reason
+  transition(id: string, status: RideStatus, transition?: RideTransition): Promise<Ride>;
+  events(rideId: string): Promise<RideEvent[]>;
+  subscribe(rideId: string, callback: (ride: Ride) => void): Subscription;
+}
+
+export type NewRideRequest = Pick<
+  RideRequest,
+  | 'passenger_id'
+  | 'pickup_lat'
+  | 'pickup_lng'
+  | 'pickup_address'
+  | 'dropoff_lat'
+  | 'dropoff_lng'
+  | 'dropoff_address'
+  | 'max_price'
+>;
+
+export interface RideRequestRepository {
+  create(request: NewRideRequest): Promise<RideRequest>;
+  // The caller's pending requests under RLS; every one in memory
+  listPending(): Promise<RideRequest[]>;
+  // Pending requests (demand) and rides yet to leave (supply) per pickup
+  // geohash cell of the given length, for surge pricing
+  marketCells(precision: number): Promise<SurgeCellCount[]>;
+  // Withdraws the signed-in passenger's pending request
+  cancel(id: string): Promise<void>;
+}
+
+export interface NewBooking {
+  rideId: string;
+  passengerId: string;
+  seats: number;
+  pickup: Location & { address: string };
+  dropoff: Location & { address: string };
+  // Before any promo discount
+  fareShare: number;
+  promoCode?: string | null;
+}
+
+export interface BookingRepository {
+  // Takes the seats and holds the fare in escrow; the ride is accepted once full
+  book(booking: NewBooking): Promise<RideBooking>;
+  // Confirmed bookings on the ride with their passenger, oldest first
+  listForRide(rideId: string): Promise<RideBooking[]>;
+  // Each confirmed booking's stops for splitting the fare, as the signed-in
+  // driver or passenger may see them: other passengers' stops are rounded
+  fareSplitStops(rideId: string): Promise<FareSplitStop[]>;
+  // Confirmed bookings' stops on those of the rides still available, to
+  // about 100 m, for anyone searching
+  bookedStops(rideIds: string[]): Promise<RideBookedStops[]>;
+  // Cancels the signed-in passenger's bookings on the ride; returns the seats released
+  cancel(rideId: string, reason?: string): Promise<number>;
+}
+
+export interface WalletRepository {
+  balanceCents(userId: string): Promise<number>;
+}
+
+export interface Repositories {
+  backend: 'supabase' | 'memory';
+  auth: AuthRepository;
+  profiles: ProfileRepository;
+  rides: RideRepository;
+  requests: RideRequestRepository;
+  bookings: BookingRepository;
+  wallets: WalletRepository;
+}
@@ -0,0 +1,102 @@
+import { supabase, Ride } from '../lib/supabase';
+import { now } from '../lib/clock';
+import {
+  CancellationActor,
+  CancellationPolicies,
+  CancellationQuote,
+  DEFAULT_CANCELLATION_POLICIES,
+  quoteCancellationFee,
+} from '../algorithms/cancellation';
+import { repositories } from '../repositories';
+import { getRideBookings } from './rideService';
+
+interface CancellationPolicyRow {
+  actor_role: CancellationActor;
+  grace_min: number;
+  free_before_departure_min: number;
+  late_fee: number;
+  late_fee_percent: number;
+  en_route_fee: number;
+  en_route_fee_percent: number;
+}
+
+let policiesPromise: Promise<CancellationPolicies> | null = null;
+
+/**
+ * Load cancellation policies once per session: the cancellation_policies
+ * table, falling back to the built-in defaults (always, on the in-memory
+ * backend)
+ */
+export function loadCancellationPolicies(): Promise<CancellationPolicies> {
+  if (!policiesPromise) {
+    policiesPromise = fetchCancellationPolicies();
+  }
+  return policiesPromise;
+}
+
+async function fetchCancellationPolicies(): Promise<CancellationPolicies> {
+  const policies = { ...DEFAULT_CANCELLATION_POLICIES };
+  // The in-memory backend charges the defaults
+  if (repositories.backend !== 'supabase') return policies;
+
+  try {
+    const { data, error } = await supabase
+      .from('cancellation_policies')
+      .select('*')
+      .eq('active', true);
+
+    if (error) throw error;
+    (data as CancellationPolicyRow[] | null)?.forEach(row => {
+      policies[row.actor_role] = {
+        graceMin: Number(row.grace_min),
+        freeBeforeDepartureMin: Number(row.free_before_departure_min),
+        lateFee: Number(row.late_fee),
+        lateFeePercent: Number(row.late_fee_percent),
+        enRouteFee: Number(row.en_route_fee),
+        enRouteFeePercent: Number(row.en_route_fee_percent),
+      };
+    });
+  } catch (error) {
+    console.error('Error loading cancellation_policies table:', error);
+  }
+
+  return policies;
+}
+
+/**
+ * What cancelling would cost the user right now: their own bookings for a
+ * passenger, every booked passenger for the driver. The database charges the
+ * same amount when the cancellation goes through.
+ */
+export async function quoteCancellation(ride: Ride, userId: string): Promise<CancellationQuote> {
+  const actor: CancellationActor = ride.driver_id === userId ? 'driver' : 'passenger';
+  const [policies, bookings] = await Promise.all([
+    loadCancellationPolicies(),
+    getRideBookings(ride.id),
+  ]);
+
+  const affected = actor === 'driver'
+    ? bookings
+    : bookings.filter(booking => booking.passenger_id === userId);
+
+  if (affected.length === 0) {
+    return { stage: 'unbooked', fee: 0 };
+  }
+
+  const quotes = affected.map(booking =>
+    quoteCancellationFee(policies[actor], {
+      bookedAt: new Date(booking.created_at),
+      departureAt: new Date(ride.departure_time),
+      enRoute: ride.status === 'in_progress',
+      fare: booking.fare_share,
+      now: now(),
+    })
+  );
+
+  // The costliest booking decides the stage shown
+  const worst = quotes.reduce((a, b) => (b.fee > a.fee ? b : a));
+  return {
+    stage: worst.stage,
+    fee: Math.round(quotes.reduce((sum, q) => sum + q.fee, 0) * 100) / 100,
+  };
+}
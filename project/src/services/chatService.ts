@@ -0,0 +1,110 @@
+import { supabase, Ride, RideMessage } from '../lib/supabase';
+
+export type ChatRole = 'driver' | 'passenger';
+
+export const QUICK_REPLIES: Record<ChatRole, string[]> = {
+  driver: ["I'm here", '2 min away', 'Running 5 min late', 'Where exactly are you?'],
+  passenger: ['On my way out', 'Be there in 2 min', 'I see you', 'Running a little late'],
+};
+
+export const MAX_MESSAGE_LENGTH = 1000;
+
+// Messages can be sent until the ride completes or is cancelled
+export function isChatOpen(ride: Pick<Ride, 'status'>): boolean {
+  return ride.status === 'available' || ride.status === 'accepted' || ride.status === 'in_progress';
+}
+
+// Unread counts are keyed by thread
+export function chatThreadKey(rideId: string, passengerId: string) {
+  return `${rideId}:${passengerId}`;
+}
+
+export async function getRideMessages(rideId: string, passengerId: string) {
+  const { data, error } = await supabase
+    .from('ride_messages')
+    .select('*')
+    .eq('ride_id', rideId)
+    .eq('passenger_id', passengerId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data as RideMessage[];
+}
+
+export async function sendRideMessage(
+  rideId: string,
+  passengerId: string,
+  senderId: string,
+  body: string
+) {
+  const text = body.trim();
+  if (!text) {
+    throw new Error('Type a message first');
+  }
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    throw new Error(`Messages are limited to ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  const { data, error } = await supabase
+    .from('ride_messages')
+    .insert({ ride_id: rideId, passenger_id: passengerId, sender_id: senderId, body: text })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as RideMessage;
+}
+
+export async function markRideChatRead(rideId: string, passengerId: string, userId: string) {
+  const { error } = await supabase.from('ride_chat_reads').upsert(
+    {
+      ride_id: rideId,
+      passenger_id: passengerId,
+      user_id: userId,
+      last_read_at: new Date().toISOString(),
+    },
+    { onConflict: 'ride_id,passenger_id,user_id' }
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Messages the caller hasn't read, per thread (see chatThreadKey)
+ */
+export async function getUnreadChatCounts(): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc('ride_chat_unread_counts');
+
+  if (error) throw error;
+  return Object.fromEntries(
+    (data as Array<{ ride_id: string; passenger_id: string; unread: number }>).map((row) => [
+      chatThreadKey(row.ride_id, row.passenger_id),
+      row.unread,
+    ])
+  );
+}
+
+/**
+ * New messages in the caller's threads, on one ride or on every ride. RLS
+ * decides which messages the channel delivers.
+ */
+export function subscribeToRideMessages(
+  callback: (message: RideMessage) => void,
+  rideId?: string
+) {
+  return supabase
+    .channel(rideId ? `ride-chat:${rideId}` : 'ride-chat')
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'ride_messages',
+        ...(rideId ? { filter: `ride_id=eq.${rideId}` } : {}),
+      },
+      (payload) => {
+        callback(payload.new as RideMessage);
+      }
+    )
+    .subscribe();
+}
@@ -0,0 +1,144 @@
+import { supabase } from '../lib/supabase';
+import { repositories } from '../repositories';
+import {
+  FareRules,
+  FareRates,
+  FareZone,
+  FareQuoteInput,
+  FareBreakdown,
+  DEFAULT_FARE_RULES,
+  parseFareRules,
+  quoteFare,
+} from '../algorithms/fareEngine';
+import { fetchAppFile } from '../lib/appFiles';
+import { getSurgeMultiplier } from './surgeService';
+
+// Optional rules file, used when the fare_rules table has no active rows
+const FARE_RULES_URL = import.meta.env.VITE_FARE_RULES_URL || '/fare-rules.json';
+
+interface FareRuleRow {
+  vehicle_type: string;
+  zone_id: string | null;
+  zone_name: string | null;
+  zone_center_lat: number | null;
+  zone_center_lng: number | null;
+  zone_radius_km: number | null;
+  base_fare: number | null;
+  per_km: number | null;
+  per_minute: number | null;
+  minimum_fare: number | null;
+  booking_fee: number | null;
+  night_multiplier: number | null;
+  weekend_multiplier: number | null;
+  night_start_hour: number | null;
+  night_end_hour: number | null;
+  currency: string;
+}
+
+let fareRulesPromise: Promise<FareRules> | null = null;
+
+/**
+ * Load fare rules once per session: the fare_rules table first, then the
+ * rules file, then the built-in defaults
+ */
+export function loadFareRules(): Promise<FareRules> {
+  if (!fareRulesPromise) {
+    fareRulesPromise = fetchFareRules();
+  }
+  return fareRulesPromise;
+}
+
+async function fetchFareRules(): Promise<FareRules> {
+  // The in-memory backend has no table to read, only the bundled rules file
+  if (repositories.backend === 'supabase') {
+    try {
+      const { data, error } = await supabase
+        .from('fare_rules')
+        .select('*')
+        .eq('active', true);
+
+      if (error) throw error;
+      if (data && data.length > 0) {
+        return rulesFromRows(data as FareRuleRow[]);
+      }
+    } catch (error) {
+      console.error('Error loading fare_rules table:', error);
+    }
+  }
+
+  try {
+    const response = await fetchAppFile(FARE_RULES_URL);
+    if (response?.ok) {
+      return parseFareRules(await response.json());
+    }
+  } catch (error) {
+    console.error('Error loading fare rules file:', error);
+  }
+
+  return DEFAULT_FARE_RULES;
+}
+
+function ratesFromRow(row: FareRuleRow): Partial<FareRates> {
+  const rates: Partial<FareRates> = {
+    baseFare: row.base_fare ?? undefined,
+    perKm: row.per_km ?? undefined,
+    perMinute: row.per_minute ?? undefined,
+    minimumFare: row.minimum_fare ?? undefined,
+    bookingFee: row.booking_fee ?? undefined,
+    nightMultiplier: row.night_multiplier ?? undefined,
+    weekendMultiplier: row.weekend_multiplier ?? undefined,
+  };
+  // Drop unset columns so they don't override inherited rates
+  return Object.fromEntries(
+    Object.entries(rates).filter(([, value]) => value !== undefined)
+  ) as Partial<FareRates>;
+}
+
+function rulesFromRows(rows: FareRuleRow[]): FareRules {
+  const vehicleTypes: Record<string, Partial<FareRates>> = {};
+  const zones = new Map<string, FareZone>();
+  let nightStartHour: number | undefined;
+  let nightEndHour: number | undefined;
+
+  for (const row of rows) {
+    if (!row.zone_id) {
+      vehicleTypes[row.vehicle_type] = ratesFromRow(row);
+      // Night hours are city-wide; any row may set them
+      nightStartHour = row.night_start_hour ?? nightStartHour;
+      nightEndHour = row.night_end_hour ?? nightEndHour;
+      continue;
+    }
+
+    let zone = zones.get(row.zone_id);
+    if (!zone) {
+      zone = {
+        id: row.zone_id,
+        name: row.zone_name ?? row.zone_id,
+        center: { lat: Number(row.zone_center_lat), lng: Number(row.zone_center_lng) },
+        radiusKm: Number(row.zone_radius_km),
+        overrides: {},
+      };
+      zones.set(row.zone_id, zone);
+    }
+    zone.overrides[row.vehicle_type] = ratesFromRow(row);
+  }
+
+  return parseFareRules({
+    currency: rows[0].currency,
+    vehicleTypes,
+    zones: Array.from(zones.values()),
+    nightStartHour,
+    nightEndHour,
+  });
+}
+
+/**
+ * Itemised fare quote under the currently configured rules. Unless the caller
+ * passes a multiplier, surge is looked up for the pickup cell.
+ */
+export async function getFareQuote(input: FareQuoteInput): Promise<FareBreakdown> {
+  const rules = await loadFareRules();
+  const surgeMultiplier =
+    input.surgeMultiplier ?? (input.pickup ? await getSurgeMultiplier(input.pickup) : 1);
+  return quoteFare({ ...input, surgeMultiplier }, rules);
+}
@@ -0,0 +1,134 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, Ride, RideRequest, RideBookedStops } from '../lib/supabase';
+import { now } from '../lib/clock';
+import { RoadGraph } from '../algorithms/roadGraph';
+import {
+  BatchAssignmentPlan,
+  MatchableRequest,
+  MatchableRide,
+  buildCandidatePairs,
+  solveCandidatePairs,
+} from '../algorithms/batchMatching';
+import { loadLocalRouter } from './roadNetwork';
+import { loadFareRules } from './fareService';
+import { generateTemplateRides } from './recurringRideService';
+import { bookedRouteStopsByRide, quoteBookingFare } from './rideService';
+
+export interface BatchMatchingOptions {
+  // Compute and return the plans without writing anything
+  dryRun?: boolean;
+  // Needs to see every pending request, so pass a service-role client
+  client?: SupabaseClient;
+  // Road graph to cost detours on; defaults to the app's local router
+  graph?: RoadGraph | null;
+}
+
+export interface BatchMatchingRun {
+  requests: number;
+  rides: number;
+  plan: BatchAssignmentPlan;
+  // Greedy plan over the same candidates, for comparison in dry runs
+  greedy: BatchAssignmentPlan;
+  applied: number;
+  // Rides cancelled because their departure window passed before matching
+  expired: number;
+  // Rides generated from recurring templates before matching
+  generated: number;
+}
+
+/**
+ * Cancel available rides whose departure window has passed. pg_cron does this
+ * every 5 minutes where it's installed; the matcher runs it too so it never
+ * offers a ride that has already left. Needs a service-role client.
+ */
+export async function expireStaleRides(client: SupabaseClient = supabase): Promise<number> {
+  const { data, error } = await client.rpc('expire_stale_rides');
+  if (error) throw error;
+  return data as number;
+}
+
+/**
+ * Match all pending ride requests against all available rides in one batch.
+ * The optimal (Hungarian) plan is applied atomically through the
+ * apply_ride_assignments RPC unless dryRun is set.
+ */
+export async function runBatchMatching(options: BatchMatchingOptions = {}): Promise<BatchMatchingRun> {
+  const client = options.client ?? supabase;
+  const expired = options.dryRun ? 0 : await expireStaleRides(client);
+  const generated = options.dryRun ? 0 : await generateTemplateRides(undefined, client);
+
+  const [requestsResult, ridesResult] = await Promise.all([
+    client.from('ride_requests').select('*').eq('status', 'pending'),
+    client
+      .from('rides')
+      .select('*')
+      .eq('status', 'available')
+      .gt('seats_available', 0)
+      .gte('departure_window_end', now().toISOString()),
+  ]);
+
+  if (requestsResult.error) throw requestsResult.error;
+  if (ridesResult.error) throw ridesResult.error;
+
+  const requests = requestsResult.data as RideRequest[];
+  const rides = ridesResult.data as Ride[];
+
+  // Passengers already booked, whose stops the drivers make anyway
+  const { data: bookings, error: bookingsError } = await client
+    .from('ride_bookings')
+    .select('ride_id, seats, pickup_lat, pickup_lng, dropoff_lat, dropoff_lng')
+    .eq('status', 'confirmed')
+    .in('ride_id', rides.map(ride => ride.id))
+    .order('created_at');
+
+  if (bookingsError) throw bookingsError;
+
+  const departureTime = now();
+  const [router, fareRules] = await Promise.all([loadLocalRouter(departureTime), loadFareRules()]);
+
+  // Price every pair the way booking would: each match is a one-seat booking
+  const fares = new Map<string, number>();
+  const vehicleTypes = Array.from(new Set(rides.map(ride => ride.vehicle_type)));
+  await Promise.all(
+    requests.flatMap(request =>
+      vehicleTypes.map(async vehicleType => {
+        const fare = await quoteBookingFare(
+          vehicleType,
+          { lat: request.pickup_lat, lng: request.pickup_lng },
+          { lat: request.dropoff_lat, lng: request.dropoff_lng },
+          1,
+          departureTime
+        );
+        fares.set(`${request.id}:${vehicleType}`, fare);
+      })
+    )
+  );
+
+  const matchingOptions = {
+    graph: options.graph !== undefined ? options.graph : router.graph,
+    routing: router.options,
+    fareRules,
+    fareFor: (request: MatchableRequest, ride: MatchableRide) => fares.get(`${request.id}:${ride.vehicle_type}`)!,
+    bookedStops: bookedRouteStopsByRide((bookings ?? []) as RideBookedStops[]),
+  };
+
+  const pairs = buildCandidatePairs(requests, rides, matchingOptions);
+  const plan = solveCandidatePairs(requests, rides, pairs, 'hungarian', matchingOptions);
+  const greedy = solveCandidatePairs(requests, rides, pairs, 'greedy', matchingOptions);
+
+  let applied = 0;
+  if (!options.dryRun && plan.assignments.length > 0) {
+    const { data, error } = await client.rpc('apply_ride_assignments', {
+      assignments: plan.assignments.map(assignment => ({
+        request_id: assignment.requestId,
+        ride_id: assignment.rideId,
+        fare: assignment.fare,
+      })),
+    });
+
+    if (error) throw error;
+    applied = data as number;
+  }
+
+  return { requests: requests.length, rides: rides.length, plan, greedy, applied, expired, generated };
+}
@@ -0,0 +1,118 @@
+import { supabase, AppNotification, NotificationType } from '../lib/supabase';
+
+export const NOTIFICATION_TYPES: Record<NotificationType, { label: string; description: string }> = {
+  booking: { label: 'Bookings', description: 'Someone books a seat on your ride' },
+  cancellation: { label: 'Cancellations', description: 'A booking or ride you are on is cancelled' },
+  arrival: { label: 'Driver arrival', description: 'Your driver reaches your pickup' },
+  status: { label: 'Trip updates', description: 'A trip starts, fills up or completes' },
+  message: { label: 'Messages', description: 'New chat messages about a ride' },
+  ride_alert: { label: 'Ride alerts', description: 'A new ride matches one of your saved searches' },
+};
+
+export async function getNotifications(userId: string, limit: number = 50) {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data as AppNotification[];
+}
+
+export async function markNotificationRead(notificationId: string) {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', notificationId)
+    .is('read_at', null);
+
+  if (error) throw error;
+}
+
+export async function markAllNotificationsRead(userId: string) {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+}
+
+/**
+ * Which notification types the user gets; types they never changed are on
+ */
+export async function getNotificationPreferences(
+  userId: string
+): Promise<Record<NotificationType, boolean>> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('type, enabled')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  const preferences = Object.fromEntries(
+    Object.keys(NOTIFICATION_TYPES).map((type) => [type, true])
+  ) as Record<NotificationType, boolean>;
+  (data as Array<{ type: NotificationType; enabled: boolean }>).forEach((row) => {
+    preferences[row.type] = row.enabled;
+  });
+  return preferences;
+}
+
+export async function setNotificationPreference(
+  userId: string,
+  type: NotificationType,
+  enabled: boolean
+) {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, type, enabled }, { onConflict: 'user_id,type' });
+
+  if (error) throw error;
+}
+
+export function subscribeToNotifications(
+  userId: string,
+  callback: (notification: AppNotification) => void
+) {
+  return supabase
+    .channel(`notifications:${userId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'notifications',
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => {
+        callback(payload.new as AppNotification);
+      }
+    )
+    .subscribe();
+}
+
+/**
+ * A short-lived message for something the user just did themselves (the
+ * outcome of a form, say), shown like a notification but not stored
+ */
+export interface LocalNotice {
+  title: string;
+  body?: string;
+}
+
+const noticeListeners = new Set<(notice: LocalNotice) => void>();
+
+export function showNotice(title: string, body?: string) {
+  noticeListeners.forEach((listener) => listener({ title, body }));
+}
+
+export function onNotice(listener: (notice: LocalNotice) => void) {
+  noticeListeners.add(listener);
+  return () => {
+    noticeListeners.delete(listener);
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Card payments behind an interface, so the wallet can run against a real
+ * provider or, by default, the local fake below
+ */
+export interface PaymentCharge {
+  id: string;
+  amountCents: number;
+  source: string;
+  createdAt: Date;
+}
+
+export interface PaymentProvider {
+  // Stored with each top-up; the database only trusts 'fake' from clients,
+  // and only where test payments are switched on
+  name: string;
+  charge(amountCents: number, source?: string): Promise<PaymentCharge>;
+}
+
+// Test card tokens understood by the fake provider
+export const FAKE_CARD = 'tok_visa';
+export const FAKE_DECLINED_CARD = 'tok_chargeDeclined';
+
+/**
+ * FAKE PAYMENT PROVIDER: approves every charge except the declined test
+ * card, entirely in memory, so the payment flow works offline
+ */
+export function createFakePaymentProvider(): PaymentProvider {
+  const charges: PaymentCharge[] = [];
+
+  return {
+    name: 'fake',
+    async charge(amountCents, source = FAKE_CARD) {
+      if (!Number.isInteger(amountCents) || amountCents <= 0) {
+        throw new Error('Charge amount must be a positive number of cents');
+      }
+      if (source === FAKE_DECLINED_CARD) {
+        throw new Error('Your card was declined');
+      }
+
+      const charge: PaymentCharge = {
+        // Unique across clients: the wallet credits each charge id only once
+        id: `fake_ch_${crypto.randomUUID()}`,
+        amountCents,
+        source,
+        createdAt: new Date(),
+      };
+      charges.push(charge);
+      return charge;
+    },
+  };
+}
+
+export const fakePaymentProvider = createFakePaymentProvider();
@@ -0,0 +1,91 @@
+import { supabase } from '../lib/supabase';
+import { repositories } from '../repositories';
+import {
+  Promotion,
+  PromotionApplication,
+  PromotionUsage,
+  applyPromotion,
+  normalizePromoCode,
+} from '../algorithms/promotions';
+
+interface PromotionRow {
+  code: string;
+  kind: Promotion['kind'];
+  value: number;
+  max_discount: number | null;
+  min_fare: number;
+  first_ride_only: boolean;
+  per_user_limit: number | null;
+  global_limit: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  vehicle_types: string[] | null;
+  start_hour: number | null;
+  end_hour: number | null;
+  time_zone: string;
+  user_redemptions: number;
+  total_redemptions: number;
+  user_rides: number;
+}
+
+/**
+ * The active promotion with this code and the caller's usage of it. Throws if
+ * there is no such code.
+ */
+export async function lookupPromotion(
+  code: string
+): Promise<{ promotion: Promotion; usage: PromotionUsage }> {
+  const normalized = normalizePromoCode(code);
+  if (!normalized) {
+    throw new Error('Enter a promo code');
+  }
+
+  // Promotions live in the database only
+  if (repositories.backend !== 'supabase') {
+    throw new Error(`${normalized} isn't a valid promo code`);
+  }
+
+  const { data, error } = await supabase.rpc('lookup_promotion', { p_code: normalized });
+
+  if (error) throw error;
+  const row = (data as PromotionRow[] | null)?.[0];
+  if (!row) {
+    throw new Error(`${normalized} isn't a valid promo code`);
+  }
+
+  return {
+    promotion: {
+      code: row.code,
+      kind: row.kind,
+      value: Number(row.value),
+      maxDiscount: row.max_discount === null ? null : Number(row.max_discount),
+      minFare: Number(row.min_fare),
+      firstRideOnly: row.first_ride_only,
+      perUserLimit: row.per_user_limit,
+      globalLimit: row.global_limit,
+      startsAt: row.starts_at ? new Date(row.starts_at) : null,
+      endsAt: row.ends_at ? new Date(row.ends_at) : null,
+      vehicleTypes: row.vehicle_types,
+      startHour: row.start_hour,
+      endHour: row.end_hour,
+      timeZone: row.time_zone,
+    },
+    usage: {
+      userRedemptions: row.user_redemptions,
+      totalRedemptions: row.total_redemptions,
+      userRides: row.user_rides,
+    },
+  };
+}
+
+/**
+ * Check a code against a booking before making it. Throws with the reason
+ * the code doesn't apply; book_ride_seats checks it again when booking.
+ */
+export async function checkPromoCode(
+  code: string,
+  booking: { fare: number; vehicleType: string; departureTime: Date }
+): Promise<PromotionApplication> {
+  const { promotion, usage } = await lookupPromotion(code);
+  return applyPromotion(promotion, { ...booking, usage });
+}
@@ -0,0 +1,46 @@
+import { supabase, Rating } from '../lib/supabase';
+
+export interface SubmitRatingParams {
+  rideId: string;
+  rateeId: string;
+  stars: number;
+  review?: string;
+  tags?: string[];
+}
+
+/**
+ * Rate the driver or a passenger of a completed ride. The database checks
+ * that both of you were on it and updates the ratee's profile rating.
+ */
+export async function submitRating(params: SubmitRatingParams) {
+  if (!Number.isInteger(params.stars) || params.stars < 1 || params.stars > 5) {
+    throw new Error('Pick between 1 and 5 stars');
+  }
+
+  const { data, error } = await supabase.rpc('submit_ride_rating', {
+    p_ride_id: params.rideId,
+    p_ratee_id: params.rateeId,
+    p_stars: params.stars,
+    p_review: params.review ?? null,
+    p_tags: params.tags ?? [],
+  });
+
+  if (error) throw error;
+  return data as Rating;
+}
+
+export async function getRatingsGivenBy(userId: string, rideId?: string) {
+  let query = supabase
+    .from('ratings')
+    .select('*')
+    .eq('rater_id', userId);
+
+  if (rideId) {
+    query = query.eq('ride_id', rideId);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(100);
+
+  if (error) throw error;
+  return data as Rating[];
+}
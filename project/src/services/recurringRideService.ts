@@ -0,0 +1,312 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, Ride, RideTemplate, RideSubscription } from '../lib/supabase';
+import { now } from '../lib/clock';
+import { Location } from '../algorithms/astar';
+import { DEFAULT_MAX_DETOUR_MIN } from '../algorithms/detour';
+import { DEFAULT_DEPARTURE_FLEX_MIN } from '../algorithms/departureWindow';
+import { rideLegKm } from '../algorithms/fareEngine';
+import {
+  RecurrenceRule,
+  RECURRENCE_HORIZON_DAYS,
+  formatDate,
+  occurrenceDates,
+  occurrenceDeparture,
+} from '../algorithms/recurrence';
+import { getShortestRoute } from './routing';
+import { getFareQuote } from './fareService';
+import { quoteBookingFare } from './rideService';
+
+export interface CreateRideTemplateParams {
+  driverId: string;
+  pickup: Location & { address: string };
+  dropoff: Location & { address: string };
+  vehicleType: string;
+  seatsAvailable: number;
+  maxDetourMin?: number;
+  recurrence: RecurrenceRule;
+  departureFlexMin?: number;
+}
+
+export interface SubscribeParams {
+  templateId: string;
+  seats: number;
+  // The passenger's own pickup and dropoff; default to the driver's route ends
+  pickup?: Location & { address: string };
+  dropoff?: Location & { address: string };
+}
+
+export function templateRecurrence(template: RideTemplate): RecurrenceRule {
+  return {
+    daysOfWeek: template.days_of_week,
+    departureTime: template.departure_local_time.slice(0, 5),
+    startsOn: template.starts_on,
+    endsOn: template.ends_on,
+  };
+}
+
+/**
+ * Create the rides departing over the next two weeks, for one template or
+ * (with a service-role client) all of them. Safe to call any number of times:
+ * occurrences that exist or were skipped are left alone. pg_cron runs it
+ * daily where it's installed.
+ */
+export async function generateTemplateRides(templateId?: string, client: SupabaseClient = supabase) {
+  const { data, error } = await client.rpc('generate_template_rides', {
+    p_template_id: templateId ?? null,
+    p_days: RECURRENCE_HORIZON_DAYS,
+  });
+
+  if (error) throw error;
+  return data as number;
+}
+
+/**
+ * RECURRING RIDES: save a template priced for its next occurrence and
+ * generate its first two weeks of rides
+ */
+export async function createRideTemplate(params: CreateRideTemplateParams) {
+  const { pickup, dropoff, driverId, vehicleType, seatsAvailable, recurrence } = params;
+
+  const [nextDate] = occurrenceDates(recurrence, now(), 7);
+  if (!nextDate) {
+    throw new Error('This schedule has no departures in the coming week');
+  }
+  const nextDeparture = occurrenceDeparture(recurrence, nextDate);
+
+  const routeResult = await getShortestRoute(
+    { lat: pickup.lat, lng: pickup.lng },
+    { lat: dropoff.lat, lng: dropoff.lng },
+    nextDeparture
+  );
+  // Surge is a snapshot of current demand, so it isn't baked into a template
+  const fareBreakdown = await getFareQuote({
+    distanceKm: routeResult.totalDistance,
+    durationMin: routeResult.duration,
+    vehicleType,
+    departureTime: nextDeparture,
+    pickup: { lat: pickup.lat, lng: pickup.lng },
+    surgeMultiplier: 1,
+  });
+
+  const { data, error } = await supabase
+    .from('ride_templates')
+    .insert({
+      driver_id: driverId,
+      pickup_lat: pickup.lat,
+      pickup_lng: pickup.lng,
+      pickup_address: pickup.address,
+      dropoff_lat: dropoff.lat,
+      dropoff_lng: dropoff.lng,
+      dropoff_address: dropoff.address,
+      distance_km: routeResult.totalDistance,
+      estimated_duration_min: routeResult.duration,
+      price: fareBreakdown.total,
+      fare_breakdown: fareBreakdown,
+      vehicle_type: vehicleType,
+      seats_total: seatsAvailable,
+      max_detour_min: params.maxDetourMin ?? DEFAULT_MAX_DETOUR_MIN,
+      days_of_week: recurrence.daysOfWeek,
+      departure_local_time: recurrence.departureTime,
+      departure_flex_min: params.departureFlexMin ?? DEFAULT_DEPARTURE_FLEX_MIN,
+      time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      starts_on: recurrence.startsOn,
+      ends_on: recurrence.endsOn ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const generated = await generateTemplateRides(data.id);
+  return { template: data as RideTemplate, generated, path: routeResult.path };
+}
+
+/**
+ * Change a template's schedule or seats. Occurrences already generated keep
+ * their times; edit those one by one with updateOccurrence.
+ */
+export async function updateRideTemplate(
+  templateId: string,
+  changes: Partial<Pick<
+    RideTemplate,
+    'days_of_week' | 'departure_local_time' | 'departure_flex_min' | 'seats_total' | 'ends_on' | 'active'
+  >>
+) {
+  const { data, error } = await supabase
+    .from('ride_templates')
+    .update({ ...changes, updated_at: now().toISOString() })
+    .eq('id', templateId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  if (data.active) {
+    await generateTemplateRides(templateId);
+  }
+  return data as RideTemplate;
+}
+
+export async function getDriverTemplates(driverId: string) {
+  const { data, error } = await supabase
+    .from('ride_templates')
+    .select('*')
+    .eq('driver_id', driverId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as RideTemplate[];
+}
+
+/**
+ * Active templates other drivers offer, for passengers to subscribe to
+ */
+export async function getOfferedTemplates(userId: string) {
+  const { data, error } = await supabase
+    .from('ride_templates')
+    .select(`
+      *,
+      driver:profiles!driver_id(*)
+    `)
+    .eq('active', true)
+    .neq('driver_id', userId)
+    .order('departure_local_time', { ascending: true });
+
+  if (error) throw error;
+  return data as RideTemplate[];
+}
+
+/**
+ * Generated rides of a template that haven't departed yet, soonest first
+ */
+export async function getUpcomingOccurrences(templateId: string) {
+  const { data, error } = await supabase
+    .from('rides')
+    .select('*')
+    .eq('template_id', templateId)
+    .gte('occurrence_date', formatDate(now()))
+    .order('departure_time', { ascending: true });
+
+  if (error) throw error;
+  return data as Ride[];
+}
+
+export async function skipOccurrence(templateId: string, occurrenceDate: string, reason?: string) {
+  const { error } = await supabase.rpc('skip_template_occurrence', {
+    p_template_id: templateId,
+    p_occurrence_date: occurrenceDate,
+    p_reason: reason ?? null,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Move a single occurrence, e.g. leaving later on one day
+ */
+export async function updateOccurrence(
+  rideId: string,
+  changes: { departureTime?: Date; departureFlexMin?: number }
+) {
+  if (changes.departureTime && changes.departureTime.getTime() < now().getTime()) {
+    throw new Error('Departure time is in the past');
+  }
+
+  const { data, error } = await supabase
+    .from('rides')
+    .update({
+      ...(changes.departureTime && { departure_time: changes.departureTime.toISOString() }),
+      ...(changes.departureFlexMin !== undefined && { departure_flex_min: changes.departureFlexMin }),
+      updated_at: now().toISOString(),
+    })
+    .eq('id', rideId)
+    .in('status', ['available', 'accepted'])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Ride;
+}
+
+export async function getUserSubscriptions(userId: string) {
+  const { data, error } = await supabase
+    .from('ride_subscriptions')
+    .select('*')
+    .eq('passenger_id', userId)
+    .eq('status', 'active');
+
+  if (error) throw error;
+  return data as RideSubscription[];
+}
+
+/**
+ * Book the passenger onto every upcoming occurrence of a template, and onto
+ * each new one as it is generated
+ */
+export async function subscribeToTemplate(params: SubscribeParams) {
+  const { data: template, error: templateError } = await supabase
+    .from('ride_templates')
+    .select('*')
+    .eq('id', params.templateId)
+    .single();
+
+  if (templateError) throw templateError;
+
+  const pickup = params.pickup ?? {
+    lat: template.pickup_lat,
+    lng: template.pickup_lng,
+    address: template.pickup_address,
+  };
+  const dropoff = params.dropoff ?? {
+    lat: template.dropoff_lat,
+    lng: template.dropoff_lng,
+    address: template.dropoff_address,
+  };
+
+  const recurrence = templateRecurrence(template as RideTemplate);
+  const [nextDate] = occurrenceDates(recurrence, now(), 7);
+  const legKm = rideLegKm(
+    {
+      pickup: { lat: template.pickup_lat, lng: template.pickup_lng },
+      dropoff: { lat: template.dropoff_lat, lng: template.dropoff_lng },
+      distanceKm: template.distance_km,
+    },
+    pickup,
+    dropoff
+  );
+  const fareShare = await quoteBookingFare(
+    template.vehicle_type,
+    pickup,
+    dropoff,
+    params.seats,
+    nextDate ? occurrenceDeparture(recurrence, nextDate) : now(),
+    legKm
+  );
+
+  const { data, error } = await supabase.rpc('subscribe_to_ride_template', {
+    p_template_id: params.templateId,
+    p_seats: params.seats,
+    p_pickup_lat: pickup.lat,
+    p_pickup_lng: pickup.lng,
+    p_pickup_address: pickup.address,
+    p_dropoff_lat: dropoff.lat,
+    p_dropoff_lng: dropoff.lng,
+    p_dropoff_address: dropoff.address,
+    p_fare_share: fareShare,
+  });
+
+  if (error) throw error;
+  return data as RideSubscription;
+}
+
+/**
+ * Cancel the subscription and release its seats on upcoming occurrences.
+ * Returns the number of seats released.
+ */
+export async function unsubscribeFromTemplate(templateId: string) {
+  const { data, error } = await supabase.rpc('unsubscribe_from_ride_template', {
+    p_template_id: templateId,
+  });
+
+  if (error) throw error;
+  return data as number;
+}
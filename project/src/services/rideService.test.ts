@@ -0,0 +1,269 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setClock } from '../lib/clock';
+import {
+  MemoryRepositories,
+  Repositories,
+  SEED_PASSWORD,
+  createMemoryRepositories,
+  createSeedData,
+  setRepositories,
+} from '../repositories';
+import { encodeGeohash } from '../algorithms/geohash';
+import { PLATFORM_COMMISSION_PERCENT, splitCommission, toCents, userAccount } from '../algorithms/ledger';
+import {
+  bookRide,
+  cancelRide,
+  cancelRideBooking,
+  createRide,
+  getRideEvents,
+  getRideFareSplit,
+  quoteBookingFare,
+  quoteBookingPromotion,
+  updateRideStatus,
+} from './rideService';
+import { quoteCancellation } from './cancellationService';
+import { setOnlineRouting } from './routing';
+import { resetSurgeCells } from './surgeService';
+
+// A Monday morning, so fares don't depend on when the tests run
+const START = new Date('2026-11-02T08:00:00');
+
+const UNION_SQUARE = { lat: 37.788, lng: -122.4075, address: 'Union Square, San Francisco' };
+const MARINA = { lat: 37.8037, lng: -122.4368, address: 'Marina Green, San Francisco' };
+
+let memory: MemoryRepositories;
+let simulatedMs: number;
+let restore: () => void;
+
+const advance = (minutes: number) => {
+  simulatedMs += minutes * 60000;
+};
+
+const signInAs = (name: string) => memory.auth.signIn(`${name}@example.com`, SEED_PASSWORD);
+
+const balance = (userId: string) => memory.ledger.balanceCents(userAccount(userId));
+
+beforeEach(() => {
+  simulatedMs = START.getTime();
+  const clock = () => new Date(simulatedMs);
+  memory = createMemoryRepositories(createSeedData(START), { now: clock });
+
+  const previousRepositories: Repositories = setRepositories(memory);
+  const previousClock = setClock(clock);
+  const previousRouting = setOnlineRouting(false);
+  resetSurgeCells();
+  restore = () => {
+    setRepositories(previousRepositories);
+    setClock(previousClock);
+    setOnlineRouting(previousRouting);
+    resetSurgeCells();
+  };
+});
+
+afterEach(() => restore());
+
+describe('bookRide', () => {
+  it('prices the passenger\'s own trip and holds the fare from their wallet', async () => {
+    await signInAs('ana');
+    const before = balance('user-ana');
+    const fare = await quoteBookingFare('comfort', UNION_SQUARE, MARINA, 1);
+
+    const booking = await bookRide({
+      rideId: 'ride-commute',
+      passengerId: 'user-ana',
+      seats: 1,
+      pickup: UNION_SQUARE,
+      dropoff: MARINA,
+    });
+
+    expect(booking.fare_share).toBe(fare);
+    expect(balance('user-ana')).toBe(before - toCents(fare));
+    expect(memory.ledger.balanceCents('escrow')).toBeGreaterThanOrEqual(toCents(fare));
+    expect((await memory.rides.get('ride-commute')).seats_available).toBe(2);
+    expect(memory.ledger.reconcile().balanced).toBe(true);
+  });
+
+  it('accepts the ride as the system once the last seat goes', async () => {
+    await signInAs('ana');
+    await bookRide({ rideId: 'ride-park', passengerId: 'user-ana', seats: 2 });
+
+    const ride = await memory.rides.get('ride-park');
+    expect(ride.status).toBe('accepted');
+    expect(ride.seats_available).toBe(0);
+
+    const accepted = (await getRideEvents('ride-park')).find(event => event.to_status === 'accepted');
+    expect(accepted?.actor_role).toBe('system');
+  });
+
+  it('refuses more seats than are left', async () => {
+    await signInAs('ana');
+    await expect(
+      bookRide({ rideId: 'ride-airport', passengerId: 'user-ana', seats: 3 })
+    ).rejects.toThrow('Only 2 seat(s) left on this ride');
+  });
+
+  it('refuses a booking the wallet doesn\'t cover, with the shortfall', async () => {
+    await signInAs('omar');
+    expect(balance('user-omar')).toBe(0);
+    const fare = await quoteBookingFare('comfort', UNION_SQUARE, MARINA, 1);
+
+    await expect(
+      bookRide({ rideId: 'ride-commute', passengerId: 'user-omar', seats: 1, pickup: UNION_SQUARE, dropoff: MARINA })
+    ).rejects.toThrow(`Your wallet is $${fare.toFixed(2)} short of this $${fare.toFixed(2)} fare`);
+    expect(balance('user-omar')).toBe(0);
+    expect((await memory.rides.get('ride-commute')).seats_available).toBe(3);
+  });
+
+  it('refuses a fare below the floor for the ride booked, as the server does', async () => {
+    await signInAs('ana');
+    const ride = await memory.rides.get('ride-commute');
+
+    await expect(
+      memory.bookings.book({
+        rideId: ride.id,
+        passengerId: 'user-ana',
+        seats: 1,
+        pickup: { lat: ride.pickup_lat, lng: ride.pickup_lng, address: ride.pickup_address },
+        dropoff: { lat: ride.dropoff_lat, lng: ride.dropoff_lng, address: ride.dropoff_address },
+        fareShare: 1,
+      })
+    ).rejects.toThrow('The fare for this trip is at least');
+    expect((await memory.rides.get('ride-commute')).seats_available).toBe(3);
+  });
+
+  it('has no promo codes on the in-memory backend', async () => {
+    await signInAs('ana');
+    await expect(
+      quoteBookingPromotion({ rideId: 'ride-commute', passengerId: 'user-ana', seats: 1, promoCode: 'welcome' })
+    ).rejects.toThrow("WELCOME isn't a valid promo code");
+  });
+});
+
+describe('cancellations', () => {
+  it('lets a passenger cancel for free within the grace period', async () => {
+    await signInAs('ana');
+    const before = balance('user-ana');
+    await bookRide({ rideId: 'ride-commute', passengerId: 'user-ana', seats: 1 });
+
+    const ride = await memory.rides.get('ride-commute');
+    expect(await quoteCancellation(ride, 'user-ana')).toEqual({ stage: 'grace', fee: 0 });
+
+    expect(await cancelRideBooking('ride-commute', 'Plans changed')).toBe(1);
+    expect(balance('user-ana')).toBe(before);
+    expect((await memory.rides.get('ride-commute')).seats_available).toBe(3);
+  });
+
+  it('charges a late passenger cancellation to the driver\'s benefit', async () => {
+    await signInAs('ana');
+    const before = balance('user-ana');
+    await bookRide({ rideId: 'ride-commute', passengerId: 'user-ana', seats: 1 });
+    advance(10);
+
+    const quote = await quoteCancellation(await memory.rides.get('ride-commute'), 'user-ana');
+    expect(quote).toEqual({ stage: 'late', fee: 2 });
+
+    await cancelRideBooking('ride-commute');
+    expect(balance('user-ana')).toBe(before - toCents(quote.fee));
+    expect(balance('user-maya')).toBe(splitCommission(toCents(quote.fee)).payoutCents);
+    expect(memory.ledger.balanceCents('escrow')).toBe(toCents((await memory.rides.get('ride-airport')).price));
+    expect(memory.ledger.reconcile().balanced).toBe(true);
+  });
+
+  it('refunds the passengers and charges the driver who cancels late', async () => {
+    await signInAs('ana');
+    const before = balance('user-ana');
+    await bookRide({ rideId: 'ride-commute', passengerId: 'user-ana', seats: 1 });
+    advance(5);
+
+    await signInAs('maya');
+    const quote = await quoteCancellation(await memory.rides.get('ride-commute'), 'user-maya');
+    expect(quote.stage).toBe('late');
+
+    await cancelRide('ride-commute', 'Car trouble');
+    expect(balance('user-ana')).toBe(before + toCents(quote.fee));
+    expect(balance('user-maya')).toBe(-toCents(quote.fee));
+    expect(memory.ledger.reconcile().balanced).toBe(true);
+  });
+
+  it('needs a reason from the driver', async () => {
+    await signInAs('maya');
+    await expect(cancelRide('ride-commute', '  ')).rejects.toThrow('Give a reason for cancelling');
+  });
+});
+
+describe('trip lifecycle', () => {
+  it('pays the driver their share of every fare on completion', async () => {
+    await signInAs('ana');
+    const booking = await bookRide({ rideId: 'ride-airport', passengerId: 'user-ana', seats: 1 });
+    const leoFare = (await memory.bookings.listForRide('ride-airport')).find(
+      b => b.passenger_id === 'user-leo'
+    )!.fare_share;
+
+    await signInAs('maya');
+    advance(90);
+    await updateRideStatus('ride-airport', 'in_progress');
+    advance(30);
+    await updateRideStatus('ride-airport', 'completed');
+
+    const expected = [booking.fare_share, leoFare]
+      .map(fare => splitCommission(toCents(fare), PLATFORM_COMMISSION_PERCENT).payoutCents)
+      .reduce((sum, cents) => sum + cents, 0);
+    expect(balance('user-maya')).toBe(expected);
+    expect(memory.ledger.balanceCents('escrow')).toBe(0);
+    expect(memory.ledger.reconcile().balanced).toBe(true);
+  });
+
+  it('rejects a transition the lifecycle doesn\'t allow', async () => {
+    await signInAs('maya');
+    await expect(updateRideStatus('ride-commute', 'completed')).rejects.toThrow();
+  });
+
+  it('refuses to post a ride that has already left', async () => {
+    await signInAs('omar');
+    await expect(
+      createRide({
+        driverId: 'user-omar',
+        pickup: UNION_SQUARE,
+        dropoff: MARINA,
+        vehicleType: 'economy',
+        seatsAvailable: 2,
+        departureTime: new Date(START.getTime() - 10 * 60000),
+      })
+    ).rejects.toThrow('Departure time is in the past');
+  });
+});
+
+describe('getRideFareSplit', () => {
+  it('splits a pooled ride among its bookings and marks the caller\'s own', async () => {
+    await signInAs('ana');
+    const booking = await bookRide({
+      rideId: 'ride-airport',
+      passengerId: 'user-ana',
+      seats: 1,
+      pickup: UNION_SQUARE,
+      dropoff: MARINA,
+    });
+
+    const ride = await memory.rides.get('ride-airport');
+    const split = await getRideFareSplit(ride);
+    expect(split?.ownRiderIds).toEqual([booking.id]);
+    expect(split?.shares).toHaveLength(2);
+
+    await signInAs('omar');
+    expect(await getRideFareSplit(ride)).toBeNull();
+  });
+});
+
+describe('surge market cells', () => {
+  it('counts pending requests and rides yet to leave per pickup cell', async () => {
+    const cells = await memory.requests.marketCells(6);
+    const unionSquare = cells.find(cell => cell.geohash === encodeGeohash(UNION_SQUARE, 6));
+    expect(unionSquare).toEqual({ geohash: unionSquare!.geohash, demand: 1, supply: 1 });
+    expect(cells.reduce((sum, cell) => sum + cell.supply, 0)).toBe(4);
+
+    // The commute's departure window has closed
+    advance(40);
+    const later = await memory.requests.marketCells(6);
+    expect(later.reduce((sum, cell) => sum + cell.supply, 0)).toBe(3);
+  });
+});
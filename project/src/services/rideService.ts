@@ -1,28 +1,59 @@
-import { supabase, Ride, RideRequest } from '../lib/supabase';
+import { supabase, Profile, Ride, RideBookedStops } from '../lib/supabase';
+import { now } from '../lib/clock';
+import { BoundingBox, repositories } from '../repositories';
 import {
   Location,
   haversineDistance,
   astarPathfinding,
   calculateEstimatedDuration,
   findNearbyRides,
-  calculatePrice,
+  ridePickupLocation,
 } from '../algorithms/astar';
+import { createSpatialIndex } from '../algorithms/spatialIndex';
+import { RideStatus, assertTransition } from '../algorithms/rideLifecycle';
+import { TimeWindow, DEFAULT_DEPARTURE_FLEX_MIN } from '../algorithms/departureWindow';
+import {
+  scoreRideMatch,
+  DEFAULT_MAX_DETOUR_MIN,
+} from '../algorithms/detour';
+import { RouteStop, planMultiStopRoute } from '../algorithms/stopOrdering';
+import { FareSplit, FareSplitRider, fareSplitStops, splitFare } from '../algorithms/fareSplit';
+import { PromotionApplication } from '../algorithms/promotions';
+import { fromCents, toCents } from '../algorithms/ledger';
+import { rideLegKm } from '../algorithms/fareEngine';
 import { getShortestRoute } from './routing';
+import { getFareQuote } from './fareService';
+import { loadLocalRouter } from './roadNetwork';
+import { checkPromoCode } from './promotionService';
+import { RATING_PRIOR_MEAN } from '../algorithms/ratings';
 import {
   hybridRecommendation,
+  Ride as RecommendationRide,
   UserProfile,
+  DEFAULT_MIN_DRIVER_RELIABILITY,
   deductiveFiltering,
   inductiveScoring,
   contentBasedFiltering,
   collaborativeFiltering,
 } from '../algorithms/recommendations';
 
+// Pickups further than this are never offered (matches the deductive filter)
+export const PICKUP_SEARCH_RADIUS_KM = 5;
+const KM_PER_DEGREE_LAT = 111.32;
+// Surge reflects demand right now, so rides leaving later than this are priced without it
+const SURGE_LOOKAHEAD_MIN = 30;
+
 export interface CreateRideParams {
   driverId: string;
   pickup: Location & { address: string };
   dropoff: Location & { address: string };
   vehicleType: string;
   seatsAvailable: number;
+  // Longest detour (minutes) the driver accepts to pick up a passenger
+  maxDetourMin?: number;
+  // Defaults to now; the driver may leave departureFlexMin either side of it
+  departureTime?: Date;
+  departureFlexMin?: number;
 }
 
 export interface CreateRideRequestParams {
@@ -33,68 +64,150 @@ export interface CreateRideRequestParams {
 }
 
 export async function createRide(params: CreateRideParams) {
-  const { pickup, dropoff, driverId, vehicleType, seatsAvailable } = params;
+  const { pickup, dropoff, driverId, vehicleType, seatsAvailable, maxDetourMin } = params;
+  const departureTime = params.departureTime ?? now();
+
+  if (departureTime.getTime() < now().getTime() - 60000) {
+    throw new Error('Departure time is in the past');
+  }
 
   // Use the shortest route algorithm with real road data
   const routeResult = await getShortestRoute(
     { lat: pickup.lat, lng: pickup.lng },
-    { lat: dropoff.lat, lng: dropoff.lng }
+    { lat: dropoff.lat, lng: dropoff.lng },
+    departureTime
   );
 
   const totalDistance = routeResult.totalDistance;
   const estimatedDuration = routeResult.duration;
-  const price = calculatePrice(totalDistance, vehicleType);
-
-  const { data, error } = await supabase
-    .from('rides')
-    .insert({
-      driver_id: driverId,
-      pickup_lat: pickup.lat,
-      pickup_lng: pickup.lng,
-      pickup_address: pickup.address,
-      dropoff_lat: dropoff.lat,
-      dropoff_lng: dropoff.lng,
-      dropoff_address: dropoff.address,
-      distance_km: totalDistance,
-      estimated_duration_min: estimatedDuration,
-      price,
-      vehicle_type: vehicleType,
-      seats_available: seatsAvailable,
-      status: 'available',
-    })
-    .select()
-    .single();
-
-  if (error) throw error;
-  return { ride: data, path: routeResult.path };
+  const fareBreakdown = await getFareQuote({
+    distanceKm: totalDistance,
+    durationMin: estimatedDuration,
+    vehicleType,
+    departureTime,
+    pickup: { lat: pickup.lat, lng: pickup.lng },
+    surgeMultiplier:
+      departureTime.getTime() - now().getTime() > SURGE_LOOKAHEAD_MIN * 60000 ? 1 : undefined,
+  });
+
+  const ride = await repositories.rides.create({
+    driver_id: driverId,
+    pickup_lat: pickup.lat,
+    pickup_lng: pickup.lng,
+    pickup_address: pickup.address,
+    dropoff_lat: dropoff.lat,
+    dropoff_lng: dropoff.lng,
+    dropoff_address: dropoff.address,
+    distance_km: totalDistance,
+    estimated_duration_min: estimatedDuration,
+    price: fareBreakdown.total,
+    fare_breakdown: fareBreakdown,
+    vehicle_type: vehicleType,
+    seats_available: seatsAvailable,
+    seats_total: seatsAvailable,
+    max_detour_min: maxDetourMin ?? DEFAULT_MAX_DETOUR_MIN,
+    departure_time: departureTime.toISOString(),
+    departure_flex_min: params.departureFlexMin ?? DEFAULT_DEPARTURE_FLEX_MIN,
+  });
+
+  return { ride, path: routeResult.path };
+}
+
+/**
+ * Available rides that haven't expired, soonest departure first. With `near`,
+ * only rides whose pickup falls in the bounding box of the search circle are
+ * downloaded; with `window`, only rides whose departure window overlaps it.
+ */
+export async function getAvailableRides(
+  near?: { location: Location; radiusKm: number },
+  window?: TimeWindow
+) {
+  const earliest = new Date(Math.max(now().getTime(), window?.start.getTime() ?? 0));
+  let bounds: BoundingBox | undefined;
+  if (near) {
+    const { location, radiusKm } = near;
+    const dLat = radiusKm / KM_PER_DEGREE_LAT;
+    const dLng = radiusKm / (KM_PER_DEGREE_LAT * Math.max(Math.cos((location.lat * Math.PI) / 180), 0.01));
+    bounds = {
+      minLat: location.lat - dLat,
+      maxLat: location.lat + dLat,
+      minLng: location.lng - dLng,
+      maxLng: location.lng + dLng,
+    };
+  }
+
+  return repositories.rides.listAvailable({ earliest, latest: window?.end, bounds });
+}
+
+/**
+ * SPATIAL SEARCH: available rides with a pickup within radiusKm, nearest
+ * first. Uses the repository's nearby search (the PostGIS
+ * nearby_available_rides RPC on Supabase); if that is not installed,
+ * downloads the bounding box and filters it with a geohash index.
+ */
+export async function getNearbyAvailableRides(
+  location: Location,
+  radiusKm: number = PICKUP_SEARCH_RADIUS_KM,
+  limit: number = 50,
+  window?: TimeWindow
+): Promise<Array<{ ride: Ride; distance: number }>> {
+  try {
+    return await repositories.rides.listNearby(location, radiusKm, limit, window);
+  } catch (error) {
+    console.warn(
+      'nearby_available_rides unavailable, using bounding box search:',
+      error instanceof Error ? error.message : error
+    );
+  }
+
+  const candidates = await getAvailableRides({ location, radiusKm }, window);
+  const index = createSpatialIndex(ridePickupLocation, candidates);
+  return findNearbyRides(location, index, radiusKm).slice(0, limit);
+}
+
+/**
+ * The stops of the bookings already on each of the rides that's still
+ * available, for measuring a detour on top of them
+ */
+export async function getBookedRouteStops(rideIds: string[]): Promise<Map<string, RouteStop[]>> {
+  return bookedRouteStopsByRide(await repositories.bookings.bookedStops(rideIds));
 }
 
-export async function getAvailableRides() {
-  const { data, error } = await supabase
-    .from('rides')
-    .select(`
-      *,
-      driver:profiles!driver_id(*)
-    `)
-    .eq('status', 'available')
-    .order('created_at', { ascending: false });
-
-  if (error) throw error;
-  return data as Ride[];
+/**
+ * Route stops of confirmed bookings, grouped by ride
+ */
+export function bookedRouteStopsByRide(rows: RideBookedStops[]): Map<string, RouteStop[]> {
+  const ridersByRide = new Map<string, FareSplitRider[]>();
+  rows.forEach((row, index) => {
+    const riders = ridersByRide.get(row.ride_id) ?? [];
+    riders.push({
+      id: `booked-${index}`,
+      seats: row.seats,
+      pickup: { lat: Number(row.pickup_lat), lng: Number(row.pickup_lng) },
+      dropoff: { lat: Number(row.dropoff_lat), lng: Number(row.dropoff_lng) },
+    });
+    ridersByRide.set(row.ride_id, riders);
+  });
+  return new Map(Array.from(ridersByRide, ([rideId, riders]) => [rideId, fareSplitStops(riders)]));
 }
 
+/**
+ * DETOUR MATCHING: score nearby rides by the extra distance and time the
+ * driver takes to pick the passenger up and drop them off on the way, on top
+ * of the stops of passengers already booked. Rides whose detour exceeds the
+ * driver's cap are left out.
+ */
 export async function findMatchingRides(
   userLocation: Location,
   destination: Location,
-  maxDistanceKm: number = 5
+  maxDistanceKm: number = PICKUP_SEARCH_RADIUS_KM,
+  window?: TimeWindow
 ) {
-  const availableRides = await getAvailableRides();
-
-  const ridesWithinPickupRange = findNearbyRides(
-    userLocation,
-    availableRides,
-    maxDistanceKm
-  );
+  const [ridesWithinPickupRange, { graph, options }] = await Promise.all([
+    getNearbyAvailableRides(userLocation, maxDistanceKm, undefined, window),
+    loadLocalRouter(window?.start),
+  ]);
+  const bookedStops = await getBookedRouteStops(ridesWithinPickupRange.map(({ ride }) => ride.id));
 
   const matchedRides = ridesWithinPickupRange.map(({ ride, distance }) => {
     const dropoffDistance = haversineDistance(destination, {
@@ -102,24 +215,28 @@ export async function findMatchingRides(
       lng: ride.dropoff_lng,
     });
 
-    const { totalDistance } = astarPathfinding(
+    const score = scoreRideMatch(
+      { lat: ride.pickup_lat, lng: ride.pickup_lng },
+      { lat: ride.dropoff_lat, lng: ride.dropoff_lng },
       userLocation,
-      destination
+      destination,
+      distance,
+      ride.max_detour_min ?? DEFAULT_MAX_DETOUR_MIN,
+      graph,
+      options,
+      bookedStops.get(ride.id)
     );
 
-    const routeDeviation = Math.abs(totalDistance - ride.distance_km);
-    const matchScore = 100 - (distance * 10 + dropoffDistance * 5 + routeDeviation * 3);
-
     return {
       ride,
       pickupDistance: distance,
       dropoffDistance,
-      matchScore: Math.max(0, matchScore),
+      ...score,
     };
   });
 
   return matchedRides
-    .filter(m => m.matchScore > 30)
+    .filter(m => m.withinDetourCap)
     .sort((a, b) => b.matchScore - a.matchScore);
 }
 
@@ -130,10 +247,14 @@ export async function findMatchingRides(
 export async function getRecommendedRides(
   userLocation: Location,
   destination: Location,
-  userId: string
+  userId: string,
+  window?: TimeWindow
 ) {
-  // Get available rides
-  const availableRides = await getAvailableRides();
+  // Get available rides near the user; the deductive filter drops the rest
+  const availableRides = await getAvailableRides(
+    { location: userLocation, radiusKm: PICKUP_SEARCH_RADIUS_KM },
+    window
+  );
 
   if (availableRides.length === 0) {
     return [];
@@ -148,61 +269,92 @@ export async function getRecommendedRides(
 
     // Apply hybrid recommendation system
     const recommendations = hybridRecommendation(
-      availableRides as any,
+      availableRides.map(toRecommendationRide),
       userProfile,
       userLocation,
       destination,
-      allUsers
+      allUsers,
+      now()
     );
 
     return recommendations;
   } catch (error) {
     console.error('Recommendation error:', error);
     // Fallback to basic matching if recommendations fail
-    const matches = await findMatchingRides(userLocation, destination);
+    const matches = await findMatchingRides(userLocation, destination, undefined, window);
     return matches.map(m => ({
       ...m.ride,
       recommendationScore: m.matchScore,
       reasoning: [
-        `Distance Match: ${m.matchScore.toFixed(0)}/100`,
+        `Detour Match: ${m.matchScore.toFixed(0)}/100`,
         `${m.pickupDistance.toFixed(1)} km from your location`,
+        `Adds ${Math.round(m.detourMin)} min to the driver's trip`,
         '⚠️ Using basic matching (recommendations unavailable)',
       ],
     }));
   }
 }
 
+// Preference columns a profile may carry; none are in the schema yet
+interface StoredPreferences {
+  preferred_vehicle_types: string[];
+  max_price: number;
+  min_driver_rating: number;
+  min_driver_reliability: number;
+  smoking_preference: boolean;
+  music_preference: boolean;
+  conversation_preference: UserProfile['preferences']['conversationPreference'];
+}
+
 /**
  * Get user profile with ride history for recommendations
  */
 async function getUserProfile(userId: string): Promise<UserProfile> {
   try {
     // Fetch user's ride history
-    const { data: rides } = await supabase
-      .from('rides')
-      .select('*')
-      .or(`driver_id.eq.${userId},passenger_id.eq.${userId}`)
-      .order('created_at', { ascending: false })
-      .limit(50);
+    const rides = await repositories.rides.history(userId, 50);
 
     // Fetch user preferences (if you have a preferences table)
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', userId)
-      .single();
+    const profile = (await repositories.profiles.get(userId)) as
+      | (Profile & Partial<StoredPreferences>)
+      | null;
+
+    // Stars the user gave: per ride for their history, and the drivers they
+    // rated for their sense of a good driver. Ratings live only in Supabase.
+    const { data: given } = repositories.backend === 'supabase'
+      ? await supabase
+          .from('ratings')
+          .select('ride_id, stars, rater_role')
+          .eq('rater_id', userId)
+      : { data: null };
+
+    const starsByRide = new Map<string, number[]>();
+    (given || []).forEach(rating => {
+      starsByRide.set(rating.ride_id, [...(starsByRide.get(rating.ride_id) || []), rating.stars]);
+    });
+    const driverRatings = (given || [])
+      .filter(rating => rating.rater_role === 'passenger')
+      .map(rating => rating.stars);
+    // Rides the user didn't rate count as their usual rating
+    const usualRating = given && given.length > 0
+      ? given.reduce((sum, rating) => sum + rating.stars, 0) / given.length
+      : RATING_PRIOR_MEAN;
 
     // Build user profile
-    const rideHistory = (rides || []).map(ride => ({
-      pickup: { lat: ride.pickup_lat, lng: ride.pickup_lng },
-      dropoff: { lat: ride.dropoff_lat, lng: ride.dropoff_lng },
-      timestamp: new Date(ride.created_at),
-      price: ride.price || 0,
-      vehicleType: ride.vehicle_type || 'economy',
-      rating: 4, // Default, should fetch from ratings table
-      timeOfDay: getTimeOfDay(new Date(ride.created_at).getHours()),
-      dayOfWeek: new Date(ride.created_at).getDay(),
-    }));
+    const rideHistory = rides.map(ride => {
+      // Scheduled rides are taken when they depart, not when they were posted
+      const takenAt = new Date(ride.departure_time ?? ride.created_at);
+      return {
+        pickup: { lat: ride.pickup_lat, lng: ride.pickup_lng },
+        dropoff: { lat: ride.dropoff_lat, lng: ride.dropoff_lng },
+        timestamp: takenAt,
+        price: ride.price || 0,
+        vehicleType: ride.vehicle_type || 'economy',
+        rating: average(starsByRide.get(ride.id)) ?? usualRating,
+        timeOfDay: getTimeOfDay(takenAt.getHours()),
+        dayOfWeek: takenAt.getDay(),
+      };
+    });
 
     return {
       id: userId,
@@ -211,11 +363,12 @@ async function getUserProfile(userId: string): Promise<UserProfile> {
         preferredVehicleTypes: profile?.preferred_vehicle_types || ['economy', 'comfort'],
         maxPrice: profile?.max_price || 1000,
         preferredDriverRatings: profile?.min_driver_rating || 4.0,
+        minDriverReliability: profile?.min_driver_reliability || DEFAULT_MIN_DRIVER_RELIABILITY,
         smokingPreference: profile?.smoking_preference || false,
         musicPreference: profile?.music_preference || true,
         conversationPreference: profile?.conversation_preference || 'moderate',
       },
-      ratings: [], // Should fetch from ratings table
+      ratings: driverRatings,
       frequentLocations: [], // Could be computed from history
     };
   } catch (error) {
@@ -228,6 +381,7 @@ async function getUserProfile(userId: string): Promise<UserProfile> {
         preferredVehicleTypes: ['economy', 'comfort', 'premium'],
         maxPrice: 1000,
         preferredDriverRatings: 4.0,
+        minDriverReliability: DEFAULT_MIN_DRIVER_RELIABILITY,
         smokingPreference: false,
         musicPreference: true,
         conversationPreference: 'moderate',
@@ -238,13 +392,39 @@ async function getUserProfile(userId: string): Promise<UserProfile> {
   }
 }
 
-async function getAllUserProfiles(limit: number = 20): Promise<UserProfile[]> {
-  const { data: users } = await supabase
-    .from('profiles')
-    .select('id')
-    .limit(limit);
+function average(values: number[] | undefined): number | undefined {
+  return values && values.length > 0
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : undefined;
+}
+
+/**
+ * The recommendation engine's view of a ride: the driver's real rating, ride
+ * count and reliability from their profile. Profiles don't store ride preferences yet,
+ * so those are neutral.
+ */
+function toRecommendationRide(ride: Ride): RecommendationRide {
+  return {
+    ...ride,
+    driver: {
+      ...ride.driver,
+      id: ride.driver_id,
+      rating: Number(ride.driver?.rating ?? RATING_PRIOR_MEAN),
+      totalRides: ride.driver?.total_rides ?? 0,
+      reliability: Number(ride.driver?.reliability ?? 1),
+      vehicleType: ride.vehicle_type,
+      preferences: {
+        smokingAllowed: false,
+        musicPlaying: true,
+        conversationLevel: 'moderate',
+      },
+      rideHistory: [],
+    },
+  };
+}
 
-  if (!users) return [];
+async function getAllUserProfiles(limit: number = 20): Promise<UserProfile[]> {
+  const users = await repositories.profiles.list(limit).catch(() => []);
 
   const profiles = await Promise.all(
     users.map(user => getUserProfile(user.id).catch(() => null))
@@ -261,101 +441,230 @@ function getTimeOfDay(hour: number): 'morning' | 'afternoon' | 'evening' | 'nigh
 }
 
 export async function createRideRequest(params: CreateRideRequestParams) {
-  const { data, error } = await supabase
-    .from('ride_requests')
-    .insert({
-      passenger_id: params.passengerId,
-      pickup_lat: params.pickup.lat,
-      pickup_lng: params.pickup.lng,
-      pickup_address: params.pickup.address,
-      dropoff_lat: params.dropoff.lat,
-      dropoff_lng: params.dropoff.lng,
-      dropoff_address: params.dropoff.address,
-      max_price: params.maxPrice,
-      status: 'pending',
-    })
-    .select()
-    .single();
-
-  if (error) throw error;
-  return data as RideRequest;
+  return repositories.requests.create({
+    passenger_id: params.passengerId,
+    pickup_lat: params.pickup.lat,
+    pickup_lng: params.pickup.lng,
+    pickup_address: params.pickup.address,
+    dropoff_lat: params.dropoff.lat,
+    dropoff_lng: params.dropoff.lng,
+    dropoff_address: params.dropoff.address,
+    max_price: params.maxPrice,
+  });
+}
+
+export async function cancelRideRequest(requestId: string) {
+  return repositories.requests.cancel(requestId);
 }
 
-export async function acceptRide(rideId: string, passengerId: string) {
-  const { data, error } = await supabase
-    .from('rides')
-    .update({
-      passenger_id: passengerId,
-      status: 'accepted',
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', rideId)
-    .eq('status', 'available')
-    .select()
-    .single();
-
-  if (error) throw error;
-  return data as Ride;
+export interface BookRideParams {
+  rideId: string;
+  passengerId: string;
+  seats: number;
+  // The passenger's own pickup and dropoff; default to the driver's route ends
+  pickup?: Location & { address: string };
+  dropoff?: Location & { address: string };
+  promoCode?: string;
 }
 
+/**
+ * What a passenger pays for their own leg of a ride, for all their seats.
+ * The leg is charged at least minDistanceKm, the stretch of the ride it spans
+ * (rideLegKm), as the server won't take less.
+ */
+export async function quoteBookingFare(
+  vehicleType: string,
+  pickup: Location,
+  dropoff: Location,
+  seats: number,
+  departureTime: Date = now(),
+  minDistanceKm = 0
+) {
+  const { graph, options } = await loadLocalRouter(departureTime);
+  const route = astarPathfinding(pickup, dropoff, [], graph, options);
+  const quote = await getFareQuote({
+    distanceKm: Math.max(route.totalDistance, minDistanceKm),
+    durationMin: route.totalDuration,
+    vehicleType,
+    departureTime,
+    pickup: { lat: pickup.lat, lng: pickup.lng },
+  });
+  return Math.round(quote.total * seats * 100) / 100;
+}
+
+/**
+ * The fare share for a booking and, with a promo code, the discount it
+ * gives. Throws if there aren't enough seats or the code doesn't apply.
+ */
+async function quoteBooking(params: BookRideParams) {
+  const ride = await repositories.rides.get(params.rideId);
+  if (params.seats > ride.seats_available) {
+    throw new Error(`Only ${ride.seats_available} seat(s) left on this ride`);
+  }
+
+  const pickup = params.pickup ?? {
+    lat: ride.pickup_lat,
+    lng: ride.pickup_lng,
+    address: ride.pickup_address,
+  };
+  const dropoff = params.dropoff ?? {
+    lat: ride.dropoff_lat,
+    lng: ride.dropoff_lng,
+    address: ride.dropoff_address,
+  };
+
+  const departureTime = new Date(ride.departure_time);
+  const legKm = rideLegKm(
+    {
+      pickup: { lat: ride.pickup_lat, lng: ride.pickup_lng },
+      dropoff: { lat: ride.dropoff_lat, lng: ride.dropoff_lng },
+      distanceKm: ride.distance_km,
+    },
+    pickup,
+    dropoff
+  );
+  const fareShare = await quoteBookingFare(ride.vehicle_type, pickup, dropoff, params.seats, departureTime, legKm);
+  const promotion = params.promoCode?.trim()
+    ? await checkPromoCode(params.promoCode, {
+        fare: fareShare,
+        vehicleType: ride.vehicle_type,
+        departureTime,
+      })
+    : null;
+
+  return { pickup, dropoff, fareShare, promotion };
+}
+
+/**
+ * Check a promo code against a booking before making it, for showing the
+ * discount (or why the code doesn't apply) in the booking flow. A blank code
+ * gives null.
+ */
+export async function quoteBookingPromotion(
+  params: BookRideParams & { promoCode: string }
+): Promise<PromotionApplication | null> {
+  const { promotion } = await quoteBooking(params);
+  return promotion;
+}
+
+/**
+ * Book seats on a ride. The fare share is this passenger's own trip priced
+ * under the ride's vehicle type, times the seats booked, less any promo
+ * discount. Booking holds the fare in escrow, so it's refused with the
+ * shortfall when the passenger's wallet doesn't cover it; they top up from
+ * the wallet and book again. Seats are taken atomically by the
+ * book_ride_seats RPC, which also redeems the promo code; the ride stays
+ * available until full.
+ */
+export async function bookRide(params: BookRideParams) {
+  const { pickup, dropoff, fareShare, promotion } = await quoteBooking(params);
+  const fare = promotion?.total ?? fareShare;
+  const shortfallCents = toCents(fare) - (await repositories.wallets.balanceCents(params.passengerId));
+  if (shortfallCents > 0) {
+    throw new Error(
+      `Your wallet is $${fromCents(shortfallCents).toFixed(2)} short of this $${fare.toFixed(2)} fare; ` +
+        'top it up and book again'
+    );
+  }
+
+  return repositories.bookings.book({
+    rideId: params.rideId,
+    passengerId: params.passengerId,
+    seats: params.seats,
+    pickup,
+    dropoff,
+    fareShare,
+    promoCode: promotion?.code ?? null,
+  });
+}
+
+export async function getRideBookings(rideId: string) {
+  return repositories.bookings.listForRide(rideId);
+}
+
+export interface RideFareSplit extends FareSplit {
+  // Shares belonging to the caller's own bookings
+  ownRiderIds: string[];
+}
+
+/**
+ * How the ride's price divides among its confirmed bookings by distance
+ * ridden, over the route that visits every pickup and dropoff. Null while
+ * nobody has booked.
+ */
+export async function getRideFareSplit(ride: Ride): Promise<RideFareSplit | null> {
+  const stops = await repositories.bookings.fareSplitStops(ride.id);
+  if (stops.length === 0) return null;
+
+  const riders = stops.map((stop) => ({
+    id: stop.booking_id,
+    seats: stop.seats,
+    pickup: { lat: Number(stop.pickup_lat), lng: Number(stop.pickup_lng) },
+    dropoff: { lat: Number(stop.dropoff_lat), lng: Number(stop.dropoff_lng) },
+  }));
+  const { graph, options } = await loadLocalRouter(new Date(ride.departure_time));
+  const route = planMultiStopRoute(
+    { lat: ride.pickup_lat, lng: ride.pickup_lng },
+    { lat: ride.dropoff_lat, lng: ride.dropoff_lng },
+    fareSplitStops(riders),
+    graph,
+    options
+  );
+
+  return {
+    ...splitFare(ride.fare_breakdown?.total ?? ride.price, route, riders),
+    ownRiderIds: stops.filter((stop) => stop.is_own).map((stop) => stop.booking_id),
+  };
+}
+
+/**
+ * Driver status change. The transition is checked here for a clear error and
+ * enforced again by a trigger in the database, which also logs it with the
+ * reason in ride_events.
+ */
 export async function updateRideStatus(
   rideId: string,
-  status: Ride['status'],
-  currentLocation?: Location
+  status: RideStatus,
+  currentLocation?: Location,
+  reason?: string
 ) {
-  const updateData: any = {
-    status,
-    updated_at: new Date().toISOString(),
-  };
+  const current = await repositories.rides.get(rideId);
+  assertTransition(current.status, status, 'driver');
+
+  return repositories.rides.transition(rideId, status, { reason, currentLocation });
+}
 
-  if (currentLocation) {
-    updateData.current_lat = currentLocation.lat;
-    updateData.current_lng = currentLocation.lng;
+/**
+ * Driver cancellation. Recorded with the reason and, when passengers had
+ * booked, a fee under the driver cancellation policy.
+ */
+export async function cancelRide(rideId: string, reason: string) {
+  if (!reason.trim()) {
+    throw new Error('Give a reason for cancelling');
   }
+  return updateRideStatus(rideId, 'cancelled', undefined, reason.trim());
+}
 
-  const { data, error } = await supabase
-    .from('rides')
-    .update(updateData)
-    .eq('id', rideId)
-    .select()
-    .single();
+/**
+ * Passenger cancellation: releases the caller's seats on the ride, reopening
+ * it if it was full, and records the reason and any fee due under the
+ * passenger cancellation policy. Returns the number of seats released.
+ */
+export async function cancelRideBooking(rideId: string, reason?: string) {
+  return repositories.bookings.cancel(rideId, reason);
+}
 
-  if (error) throw error;
-  return data as Ride;
+export async function getRideEvents(rideId: string) {
+  return repositories.rides.events(rideId);
 }
 
 export async function getUserRides(userId: string) {
-  const { data, error } = await supabase
-    .from('rides')
-    .select(`
-      *,
-      driver:profiles!driver_id(*),
-      passenger:profiles!passenger_id(*)
-    `)
-    .or(`driver_id.eq.${userId},passenger_id.eq.${userId}`)
-    .order('created_at', { ascending: false });
-
-  if (error) throw error;
-  return data as Ride[];
+  return repositories.rides.listForUser(userId);
 }
 
 export function subscribeToRideUpdates(
   rideId: string,
   callback: (ride: Ride) => void
 ) {
-  return supabase
-    .channel(`ride:${rideId}`)
-    .on(
-      'postgres_changes',
-      {
-        event: 'UPDATE',
-        schema: 'public',
-        table: 'rides',
-        filter: `id=eq.${rideId}`,
-      },
-      (payload) => {
-        callback(payload.new as Ride);
-      }
-    )
-    .subscribe();
+  return repositories.rides.subscribe(rideId, callback);
 }
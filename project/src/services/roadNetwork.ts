@@ -0,0 +1,134 @@
+import { RoadGraph, parseRoadNetwork } from '../algorithms/roadGraph';
+import {
+  ContractionHierarchy,
+  SerializedContractionHierarchy,
+  deserializeContractionHierarchy,
+} from '../algorithms/contractionHierarchy';
+import { RoutingOptions } from '../algorithms/astar';
+import {
+  SpeedProfiles,
+  DEFAULT_SPEED_PROFILES,
+  parseSpeedProfilesCsv,
+  parseSpeedProfilesJson,
+} from '../algorithms/speedProfiles';
+import { fetchAppFile } from '../lib/appFiles';
+
+// Local OSM extract (OSM XML or GeoJSON ways), served from the public folder by default
+const ROAD_NETWORK_URL = import.meta.env.VITE_ROAD_NETWORK_URL || '/road-network.geojson';
+
+// Contraction-hierarchies index built offline with `npm run build:ch`
+const ROAD_NETWORK_CH_URL =
+  import.meta.env.VITE_ROAD_NETWORK_CH_URL || '/road-network.ch.json';
+
+// Per-city speed profiles (JSON or CSV, see algorithms/speedProfiles.ts)
+const SPEED_PROFILES_URL = import.meta.env.VITE_SPEED_PROFILES_URL || '/speed-profiles.json';
+
+let roadGraphPromise: Promise<RoadGraph | null> | null = null;
+let hierarchyPromise: Promise<ContractionHierarchy | null> | null = null;
+let speedProfilesPromise: Promise<SpeedProfiles> | null = null;
+
+/**
+ * Load the local road network once and cache it for the session.
+ * Resolves to null if no extract is available, so callers can fall back
+ * to straight-line routing.
+ */
+export function loadRoadGraph(): Promise<RoadGraph | null> {
+  if (!roadGraphPromise) {
+    roadGraphPromise = fetchRoadGraph();
+  }
+  return roadGraphPromise;
+}
+
+async function fetchRoadGraph(): Promise<RoadGraph | null> {
+  try {
+    const response = await fetchAppFile(ROAD_NETWORK_URL);
+    if (!response) return null;
+
+    if (!response.ok) {
+      throw new Error('Road network request failed');
+    }
+
+    const graph = parseRoadNetwork(await response.text());
+    if (graph.nodes.size === 0) {
+      console.warn('Road network extract contains no drivable ways');
+      return null;
+    }
+    return graph;
+  } catch (error) {
+    console.error('Road network loading error:', error);
+    return null;
+  }
+}
+
+/**
+ * Load the preprocessed contraction hierarchy once. Resolves to null when no
+ * index has been built, in which case the router uses A* modes instead.
+ */
+export function loadContractionHierarchy(): Promise<ContractionHierarchy | null> {
+  if (!hierarchyPromise) {
+    hierarchyPromise = fetchContractionHierarchy();
+  }
+  return hierarchyPromise;
+}
+
+async function fetchContractionHierarchy(): Promise<ContractionHierarchy | null> {
+  try {
+    const response = await fetchAppFile(ROAD_NETWORK_CH_URL);
+
+    if (!response?.ok) {
+      return null;
+    }
+
+    const data = (await response.json()) as SerializedContractionHierarchy;
+    return deserializeContractionHierarchy(data);
+  } catch (error) {
+    console.error('Contraction hierarchy loading error:', error);
+    return null;
+  }
+}
+
+/**
+ * Load the city's speed profiles once, falling back to the built-in defaults
+ */
+export function loadSpeedProfiles(): Promise<SpeedProfiles> {
+  if (!speedProfilesPromise) {
+    speedProfilesPromise = fetchSpeedProfiles();
+  }
+  return speedProfilesPromise;
+}
+
+async function fetchSpeedProfiles(): Promise<SpeedProfiles> {
+  try {
+    const response = await fetchAppFile(SPEED_PROFILES_URL);
+
+    if (!response?.ok) {
+      return DEFAULT_SPEED_PROFILES;
+    }
+
+    const content = await response.text();
+    return SPEED_PROFILES_URL.endsWith('.csv')
+      ? parseSpeedProfilesCsv(content)
+      : parseSpeedProfilesJson(JSON.parse(content));
+  } catch (error) {
+    console.error('Speed profile loading error:', error);
+    return DEFAULT_SPEED_PROFILES;
+  }
+}
+
+/**
+ * Graph plus routing options for the local router. The mode is left on
+ * 'auto' so CH queries are used whenever the index is available; passing a
+ * departure time routes the fastest way on the city's speed profiles instead
+ * (see pickRoutingMode).
+ */
+export async function loadLocalRouter(departureTime?: Date): Promise<{
+  graph: RoadGraph | null;
+  options: RoutingOptions;
+}> {
+  const [graph, hierarchy, speedProfiles] = await Promise.all([
+    loadRoadGraph(),
+    loadContractionHierarchy(),
+    loadSpeedProfiles(),
+  ]);
+  return { graph, options: { mode: 'auto', hierarchy, departureTime, speedProfiles } };
+}
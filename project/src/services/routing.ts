@@ -1,4 +1,6 @@
-import { Location } from '../algorithms/astar';
+import { Location, astarPathfinding } from '../algorithms/astar';
+import { now } from '../lib/clock';
+import { loadLocalRouter } from './roadNetwork';
 
 export interface RouteResult {
   path: Location[];
@@ -7,14 +9,29 @@ export interface RouteResult {
   instructions?: string[];
 }
 
+let onlineRouting = true;
+
+/**
+ * Switch OSRM off to route on the local road network only. Simulations do,
+ * so their routes are reproducible and they send nothing to the public server.
+ */
+export function setOnlineRouting(enabled: boolean): boolean {
+  const previous = onlineRouting;
+  onlineRouting = enabled;
+  return previous;
+}
+
 /**
  * Get route using OpenRouteService (OSRM-based) API
  * This provides real road-based routing using A* algorithm on actual street data
  */
 export async function getOptimalRoute(
   start: Location,
-  end: Location
+  end: Location,
+  departureTime?: Date
 ): Promise<RouteResult> {
+  if (!onlineRouting) return getFallbackRoute(start, end, departureTime);
+
   try {
     // Using OSRM (Open Source Routing Machine) - free routing service
     const response = await fetch(
@@ -70,14 +87,37 @@ export async function getOptimalRoute(
     console.error('Routing error:', error);
     
     // Fallback: Use our A* algorithm with waypoints
-    return getFallbackRoute(start, end);
+    return getFallbackRoute(start, end, departureTime);
   }
 }
 
 /**
- * Fallback routing using enhanced A* algorithm with interpolated waypoints
+ * Fallback routing using our A* implementation on the local road network.
+ * Points outside the extract are joined with interpolated straight-line waypoints.
+ * Durations use the speed profiles for the departure hour.
  */
-function getFallbackRoute(start: Location, end: Location): RouteResult {
+async function getFallbackRoute(
+  start: Location,
+  end: Location,
+  departureTime: Date = now()
+): Promise<RouteResult> {
+  const { graph, options } = await loadLocalRouter(departureTime);
+  const {
+    path: roadPath,
+    totalDistance,
+    totalDuration: duration,
+  } = astarPathfinding(start, end, [], graph, options);
+
+  const path = roadPath.length > 2 ? roadPath : interpolatePath(start, end);
+
+  return {
+    path,
+    totalDistance,
+    duration,
+  };
+}
+
+function interpolatePath(start: Location, end: Location): Location[] {
   const path: Location[] = [start];
   const steps = 20; // Number of waypoints
 
@@ -91,16 +131,7 @@ function getFallbackRoute(start: Location, end: Location): RouteResult {
   }
 
   path.push(end);
-
-  const totalDistance = calculateHaversineDistance(start, end);
-  const avgSpeedKmh = 40;
-  const duration = Math.ceil((totalDistance / avgSpeedKmh) * 60);
-
-  return {
-    path,
-    totalDistance,
-    duration,
-  };
+  return path;
 }
 
 /**
@@ -131,8 +162,11 @@ function toRadians(degrees: number): number {
  */
 export async function getShortestRoute(
   start: Location,
-  end: Location
+  end: Location,
+  departureTime?: Date
 ): Promise<RouteResult> {
+  if (!onlineRouting) return getFallbackRoute(start, end, departureTime);
+
   try {
     // Request alternative routes
     const response = await fetch(
@@ -145,13 +179,13 @@ export async function getShortestRoute(
     );
 
     if (!response.ok) {
-      return getOptimalRoute(start, end);
+      return getOptimalRoute(start, end, departureTime);
     }
 
     const data = await response.json();
 
     if (!data.routes || data.routes.length === 0) {
-      return getOptimalRoute(start, end);
+      return getOptimalRoute(start, end, departureTime);
     }
 
     // Find the shortest route by distance
@@ -183,6 +217,6 @@ export async function getShortestRoute(
     };
   } catch (error) {
     console.error('Shortest route error:', error);
-    return getOptimalRoute(start, end);
+    return getOptimalRoute(start, end, departureTime);
   }
 }
@@ -0,0 +1,193 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, Ride, SavedSearch } from '../lib/supabase';
+import { now } from '../lib/clock';
+import { Location } from '../algorithms/astar';
+import { RoadGraph } from '../algorithms/roadGraph';
+import { TimeWindow, rideDepartureWindow } from '../algorithms/departureWindow';
+import {
+  DEFAULT_ALERT_LIFETIME_HOURS,
+  DEFAULT_ALERT_MIN_SCORE,
+  evaluateSavedSearch,
+} from '../algorithms/rideAlerts';
+import { loadLocalRouter } from './roadNetwork';
+import { PICKUP_SEARCH_RADIUS_KM } from './rideService';
+
+export interface SaveSearchParams {
+  passengerId: string;
+  pickup: Location & { address: string };
+  dropoff: Location & { address: string };
+  // Defaults to the next DEFAULT_ALERT_LIFETIME_HOURS
+  timeWindow?: TimeWindow;
+  maxPrice: number;
+  minMatchScore?: number;
+}
+
+export interface RideAlertOptions {
+  // Needs to see every passenger's saved searches, so pass a service-role client
+  client?: SupabaseClient;
+  // Road graph to cost detours on; defaults to the app's local router
+  graph?: RoadGraph | null;
+}
+
+export interface RideAlertResult {
+  rideId: string;
+  // Active searches whose window and price fit the ride
+  candidates: number;
+  // Passengers notified; searches already alerted about the ride don't count
+  notified: number;
+}
+
+export async function saveSearch(params: SaveSearchParams) {
+  if (!(params.maxPrice > 0)) {
+    throw new Error('Enter the most you are willing to pay');
+  }
+
+  const savedAt = now();
+  const window = params.timeWindow ?? {
+    start: savedAt,
+    end: new Date(savedAt.getTime() + DEFAULT_ALERT_LIFETIME_HOURS * 3600000),
+  };
+  if (window.end.getTime() <= savedAt.getTime()) {
+    throw new Error('That departure time has already passed');
+  }
+
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .insert({
+      passenger_id: params.passengerId,
+      pickup_lat: params.pickup.lat,
+      pickup_lng: params.pickup.lng,
+      pickup_address: params.pickup.address,
+      dropoff_lat: params.dropoff.lat,
+      dropoff_lng: params.dropoff.lng,
+      dropoff_address: params.dropoff.address,
+      window_start: window.start.toISOString(),
+      window_end: window.end.toISOString(),
+      max_price: params.maxPrice,
+      min_match_score: params.minMatchScore ?? DEFAULT_ALERT_MIN_SCORE,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SavedSearch;
+}
+
+/**
+ * The passenger's saved searches that are still alerting
+ */
+export async function getSavedSearches(passengerId: string) {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('passenger_id', passengerId)
+    .eq('status', 'active')
+    .gte('window_end', now().toISOString())
+    .order('window_start', { ascending: true });
+
+  if (error) throw error;
+  return data as SavedSearch[];
+}
+
+export async function cancelSavedSearch(searchId: string) {
+  const { error } = await supabase
+    .from('saved_searches')
+    .update({ status: 'cancelled' })
+    .eq('id', searchId);
+
+  if (error) throw error;
+}
+
+/**
+ * Mark saved searches whose window has passed as expired. pg_cron does this
+ * every 5 minutes where it's installed. Needs a service-role client.
+ */
+export async function expireSavedSearches(client: SupabaseClient = supabase): Promise<number> {
+  const { data, error } = await client.rpc('expire_saved_searches');
+  if (error) throw error;
+  return data as number;
+}
+
+/**
+ * Check a newly posted or reopened ride against every active saved search it
+ * could fit and notify the passengers it matches well, scored like a live
+ * search
+ */
+export async function evaluateRideAlerts(
+  ride: Ride,
+  options: RideAlertOptions = {}
+): Promise<RideAlertResult> {
+  const client = options.client ?? supabase;
+  const rideWindow = rideDepartureWindow(ride);
+
+  const { data, error } = await client
+    .from('saved_searches')
+    .select('*')
+    .eq('status', 'active')
+    .lte('window_start', rideWindow.end.toISOString())
+    .gte('window_end', rideWindow.start.toISOString())
+    .gte('max_price', ride.price);
+
+  if (error) throw error;
+  const searches = data as SavedSearch[];
+  if (searches.length === 0) return { rideId: ride.id, candidates: 0, notified: 0 };
+
+  const router = await loadLocalRouter(rideWindow.start);
+  const graph = options.graph !== undefined ? options.graph : router.graph;
+
+  let notified = 0;
+  for (const search of searches) {
+    const match = evaluateSavedSearch(
+      search,
+      ride,
+      PICKUP_SEARCH_RADIUS_KM,
+      graph,
+      router.options,
+      now()
+    );
+    if (!match) continue;
+
+    const { data: sent, error: notifyError } = await client.rpc('notify_ride_alert', {
+      p_search_id: search.id,
+      p_ride_id: ride.id,
+      p_match_score: match.matchScore,
+    });
+    if (notifyError) throw notifyError;
+    if (sent) notified++;
+  }
+
+  return { rideId: ride.id, candidates: searches.length, notified };
+}
+
+/**
+ * Evaluate every ride as it's posted and again whenever it becomes available,
+ * e.g. seats freed by a cancelled booking. Returns the realtime channel; call
+ * unsubscribe() on it to stop watching.
+ */
+export function watchRideAlerts(
+  onResult: (result: RideAlertResult) => void,
+  onError: (error: unknown) => void,
+  options: RideAlertOptions = {}
+) {
+  const client = options.client ?? supabase;
+  return client
+    .channel('ride-alerts')
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'rides' },
+      (payload) => {
+        evaluateRideAlerts(payload.new as Ride, options).then(onResult, onError);
+      }
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'rides', filter: 'status=eq.available' },
+      (payload) => {
+        // The old status only comes through with REPLICA IDENTITY FULL; without
+        // it every update is checked, and notify_ride_alert() never sends twice
+        if ((payload.old as Partial<Ride>).status === 'available') return;
+        evaluateRideAlerts(payload.new as Ride, options).then(onResult, onError);
+      }
+    )
+    .subscribe();
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { repositories } from '../repositories';
+import { now } from '../lib/clock';
+import { CityScenarioConfig, DEMAND_CURVES } from '../algorithms/citySimulation';
+import { runCitySimulation } from './simulationService';
+
+const CONFIG: CityScenarioConfig = {
+  seed: 7,
+  start: new Date('2026-11-02T07:00:00'),
+  durationHours: 3,
+  bounds: { minLat: 37.708, maxLat: 37.81, minLng: -122.513, maxLng: -122.383 },
+  hotspots: [{ lat: 37.7936, lng: -122.3965 }],
+  drivers: 8,
+  passengers: 25,
+  offersPerHour: 6,
+  requestsPerHour: 12,
+  demandCurve: DEMAND_CURVES.commute,
+  patienceMin: 30,
+};
+
+describe('runCitySimulation', () => {
+  it('books rides and keeps the ledger balanced', async () => {
+    const run = await runCitySimulation(CONFIG);
+
+    expect(run.reconciled).toBe(true);
+    expect(run.summary.requests).toBeGreaterThan(0);
+    expect(run.summary.matched).toBeGreaterThan(0);
+    expect(run.summary.revenue.grossFares).toBeGreaterThan(0);
+  });
+
+  it('plays the same day for the same seed', async () => {
+    const first = await runCitySimulation(CONFIG, { strategy: 'recommended' });
+    const second = await runCitySimulation(CONFIG, { strategy: 'recommended' });
+
+    expect(second.summary).toEqual(first.summary);
+    expect(second.requests).toEqual(first.requests);
+  });
+
+  it('puts back the app\'s data layer and clock', async () => {
+    const before = repositories;
+    await runCitySimulation({ ...CONFIG, durationHours: 1 });
+
+    expect(repositories).toBe(before);
+    expect(Math.abs(now().getTime() - Date.now())).toBeLessThan(1000);
+  });
+});
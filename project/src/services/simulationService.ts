@@ -0,0 +1,342 @@
+import { setClock } from '../lib/clock';
+import { MemoryRepositories, SeedData, createMemoryRepositories, setRepositories } from '../repositories';
+import { haversineDistance } from '../algorithms/astar';
+import { DEFAULT_MAX_DETOUR_MIN, scoreRideMatch } from '../algorithms/detour';
+import { fromCents, userAccount } from '../algorithms/ledger';
+import { createPriorityQueue } from '../algorithms/priorityQueue';
+import {
+  CityScenario,
+  CityScenarioConfig,
+  CitySimulationSummary,
+  PassengerArrival,
+  RequestOutcome,
+  RideOutcome,
+  ScenarioEvent,
+  generateCityScenario,
+  summarizeSimulation,
+} from '../algorithms/citySimulation';
+import {
+  bookRide,
+  cancelRide,
+  cancelRideRequest,
+  createRide,
+  createRideRequest,
+  findMatchingRides,
+  getRecommendedRides,
+  quoteBookingFare,
+  updateRideStatus,
+} from './rideService';
+import { loadLocalRouter } from './roadNetwork';
+import { setOnlineRouting } from './routing';
+import { resetSurgeCells } from './surgeService';
+
+// How a passenger's search ranks the rides on offer
+export type MatchingStrategy = 'detour' | 'recommended';
+
+export const MATCHING_STRATEGIES: MatchingStrategy[] = ['detour', 'recommended'];
+
+export interface CitySimulationOptions {
+  strategy?: MatchingStrategy;
+  // How often a passenger with nothing suitable searches again
+  retryMin?: number;
+}
+
+export interface CitySimulationRun {
+  strategy: MatchingStrategy;
+  summary: CitySimulationSummary;
+  requests: RequestOutcome[];
+  rides: RideOutcome[];
+  // Offers dropped because the driver was still out on an earlier ride
+  skippedOffers: number;
+  // Whether the simulation's ledger balances to zero
+  reconciled: boolean;
+}
+
+const DEFAULT_RETRY_MIN = 5;
+const SIMULATION_PASSWORD = 'simulation';
+// Passengers start the day with plenty in their wallet, since booking
+// doesn't top up
+const PASSENGER_WALLET_CENTS = 100000;
+
+interface Search {
+  arrival: PassengerArrival;
+  outcome: RequestOutcome;
+  // The ride request posted after the first search came up empty
+  requestId?: string;
+}
+
+type SimulationEvent =
+  | ScenarioEvent
+  | { kind: 'search'; at: Date; search: Search }
+  | { kind: 'depart' | 'complete'; at: Date; rideId: string };
+
+function simulationEmail(userId: string) {
+  return `${userId}@simulation.local`;
+}
+
+function scenarioSeedData(scenario: CityScenario, createdAt: Date): SeedData {
+  const people = [
+    ...scenario.drivers,
+    ...scenario.passengerIds.map(id => ({ id, rating: 4.8, reliability: 1 })),
+  ];
+  const created = createdAt.toISOString();
+
+  return {
+    users: people.map(person => ({
+      id: person.id,
+      email: simulationEmail(person.id),
+      password: SIMULATION_PASSWORD,
+    })),
+    profiles: people.map(person => ({
+      id: person.id,
+      full_name: person.id,
+      phone: '',
+      rating: person.rating,
+      total_rides: 0,
+      reliability: person.reliability,
+      created_at: created,
+      updated_at: created,
+    })),
+    rides: [],
+    requests: [],
+    bookings: [],
+    walletCents: Object.fromEntries(scenario.passengerIds.map(id => [id, PASSENGER_WALLET_CENTS])),
+  };
+}
+
+/**
+ * CITY SIMULATION: play a generated day through the real ride services on an
+ * in-memory backend, on a simulated clock and the local router. Drivers post
+ * rides, start them at departure and complete them; passengers search with
+ * the chosen strategy, book the best ride within their budget, and otherwise
+ * post a ride request and search again until their patience runs out. Drivers
+ * nobody booked withdraw their ride at departure.
+ *
+ * The services are pointed back at the app's own data layer, clock and router
+ * when the run ends.
+ */
+export async function runCitySimulation(
+  config: CityScenarioConfig,
+  options: CitySimulationOptions = {}
+): Promise<CitySimulationRun> {
+  const strategy = options.strategy ?? 'detour';
+  const retryMin = options.retryMin ?? DEFAULT_RETRY_MIN;
+  const scenario = generateCityScenario(config);
+
+  let simulatedMs = config.start.getTime();
+  const clock = () => new Date(simulatedMs);
+  const memory: MemoryRepositories = createMemoryRepositories(
+    scenarioSeedData(scenario, config.start),
+    { now: clock }
+  );
+
+  const previousRepositories = setRepositories(memory);
+  const previousClock = setClock(clock);
+  const previousRouting = setOnlineRouting(false);
+  resetSurgeCells();
+
+  try {
+    const queue = createPriorityQueue<SimulationEvent>();
+    const schedule = (event: SimulationEvent) => queue.push(event, event.at.getTime());
+    scenario.events.forEach(schedule);
+
+    const requestOutcomes: RequestOutcome[] = [];
+    const rideOutcomes = new Map<string, RideOutcome>();
+    // When each driver is back from the ride they last posted
+    const busyUntil = new Map<string, number>();
+    let skippedOffers = 0;
+
+    const actAs = (userId: string) => memory.auth.signIn(simulationEmail(userId), SIMULATION_PASSWORD);
+
+    const rankRides = async (arrival: PassengerArrival, window: { start: Date; end: Date }) => {
+      const ranked =
+        strategy === 'recommended'
+          ? await getRecommendedRides(arrival.pickup, arrival.dropoff, arrival.passengerId, window)
+          : (await findMatchingRides(arrival.pickup, arrival.dropoff, undefined, window)).map(
+              match => match.ride
+            );
+      return Promise.all(ranked.map(ride => memory.rides.get(ride.id)));
+    };
+
+    const handleSearch = async (search: Search) => {
+      const { arrival, outcome } = search;
+      const deadline = arrival.at.getTime() + arrival.patienceMin * 60000;
+      outcome.searches++;
+      await actAs(arrival.passengerId);
+
+      const rides = await rankRides(arrival, { start: clock(), end: new Date(deadline) });
+      for (const ride of rides) {
+        if (ride.status !== 'available' || ride.seats_available < arrival.seats) continue;
+        const fare = await quoteBookingFare(ride.vehicle_type, arrival.pickup, arrival.dropoff, arrival.seats);
+        if (fare > arrival.maxPrice) continue;
+
+        let booking;
+        try {
+          booking = await bookRide({
+            rideId: ride.id,
+            passengerId: arrival.passengerId,
+            seats: arrival.seats,
+            pickup: arrival.pickup,
+            dropoff: arrival.dropoff,
+          });
+        } catch {
+          continue;
+        }
+
+        const departure = new Date(ride.departure_time);
+        const { graph, options: routing } = await loadLocalRouter(departure);
+        const { detourMin } = scoreRideMatch(
+          { lat: ride.pickup_lat, lng: ride.pickup_lng },
+          { lat: ride.dropoff_lat, lng: ride.dropoff_lng },
+          arrival.pickup,
+          arrival.dropoff,
+          haversineDistance({ lat: ride.pickup_lat, lng: ride.pickup_lng }, arrival.pickup),
+          ride.max_detour_min ?? DEFAULT_MAX_DETOUR_MIN,
+          graph,
+          routing
+        );
+
+        outcome.rideId = ride.id;
+        outcome.waitMin = Math.max(0, (departure.getTime() - arrival.at.getTime()) / 60000);
+        outcome.detourMin = detourMin;
+        outcome.fare = booking.fare_share;
+        const rideOutcome = rideOutcomes.get(ride.id)!;
+        rideOutcome.seatsBooked += arrival.seats;
+        rideOutcome.durationMin += detourMin;
+        if (search.requestId) await cancelRideRequest(search.requestId);
+        return;
+      }
+
+      // Nothing suitable: the request counts towards surge while they wait
+      if (!search.requestId) {
+        const request = await createRideRequest({
+          passengerId: arrival.passengerId,
+          pickup: arrival.pickup,
+          dropoff: arrival.dropoff,
+          maxPrice: arrival.maxPrice,
+        });
+        search.requestId = request.id;
+      }
+      const retryAt = simulatedMs + retryMin * 60000;
+      if (retryAt <= deadline) {
+        schedule({ kind: 'search', at: new Date(retryAt), search });
+      } else {
+        await cancelRideRequest(search.requestId);
+      }
+    };
+
+    while (queue.size > 0) {
+      const event = queue.pop()!;
+      simulatedMs = Math.max(simulatedMs, event.at.getTime());
+
+      switch (event.kind) {
+        case 'offer': {
+          if ((busyUntil.get(event.driverId) ?? 0) > event.departure.getTime()) {
+            skippedOffers++;
+            break;
+          }
+          await actAs(event.driverId);
+          const { ride } = await createRide({
+            driverId: event.driverId,
+            pickup: event.pickup,
+            dropoff: event.dropoff,
+            vehicleType: event.vehicleType,
+            seatsAvailable: event.seats,
+            maxDetourMin: event.maxDetourMin,
+            departureTime: event.departure,
+          });
+          busyUntil.set(
+            event.driverId,
+            event.departure.getTime() + (ride.estimated_duration_min + event.maxDetourMin) * 60000
+          );
+          rideOutcomes.set(ride.id, {
+            rideId: ride.id,
+            driverId: event.driverId,
+            seatsTotal: event.seats,
+            seatsBooked: 0,
+            durationMin: ride.estimated_duration_min,
+            status: 'open',
+          });
+          schedule({ kind: 'depart', at: event.departure, rideId: ride.id });
+          break;
+        }
+
+        case 'request': {
+          const outcome: RequestOutcome = {
+            passengerId: event.passengerId,
+            requestedAt: event.at,
+            seats: event.seats,
+            searches: 0,
+          };
+          requestOutcomes.push(outcome);
+          await handleSearch({ arrival: event, outcome });
+          break;
+        }
+
+        case 'search':
+          await handleSearch(event.search);
+          break;
+
+        case 'depart': {
+          const ride = await memory.rides.get(event.rideId);
+          const rideOutcome = rideOutcomes.get(ride.id)!;
+          await actAs(ride.driver_id);
+          if (rideOutcome.seatsBooked === 0) {
+            await cancelRide(ride.id, 'Nobody booked');
+            rideOutcome.status = 'cancelled';
+            busyUntil.set(ride.driver_id, simulatedMs);
+            break;
+          }
+          await updateRideStatus(ride.id, 'in_progress', { lat: ride.pickup_lat, lng: ride.pickup_lng });
+          schedule({
+            kind: 'complete',
+            at: new Date(simulatedMs + rideOutcome.durationMin * 60000),
+            rideId: ride.id,
+          });
+          break;
+        }
+
+        case 'complete': {
+          const ride = await memory.rides.get(event.rideId);
+          await actAs(ride.driver_id);
+          await updateRideStatus(ride.id, 'completed', { lat: ride.dropoff_lat, lng: ride.dropoff_lng });
+          rideOutcomes.get(ride.id)!.status = 'completed';
+          break;
+        }
+      }
+    }
+
+    const rides = Array.from(rideOutcomes.values());
+    const completed = new Set(rides.filter(ride => ride.status === 'completed').map(ride => ride.rideId));
+    const driverEarningsCents = scenario.drivers.reduce(
+      (sum, driver) => sum + memory.ledger.balanceCents(userAccount(driver.id)),
+      0
+    );
+
+    const summary = summarizeSimulation(
+      requestOutcomes,
+      rides,
+      {
+        grossFares: requestOutcomes
+          .filter(outcome => outcome.rideId && completed.has(outcome.rideId))
+          .reduce((sum, outcome) => sum + (outcome.fare ?? 0), 0),
+        platformRevenue: fromCents(memory.ledger.balanceCents('platform_fees')),
+        driverEarnings: fromCents(driverEarningsCents),
+      }
+    );
+
+    return {
+      strategy,
+      summary,
+      requests: requestOutcomes,
+      rides,
+      skippedOffers,
+      reconciled: memory.ledger.reconcile().balanced,
+    };
+  } finally {
+    setRepositories(previousRepositories);
+    setClock(previousClock);
+    setOnlineRouting(previousRouting);
+    resetSurgeCells();
+  }
+}
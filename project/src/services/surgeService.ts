@@ -0,0 +1,65 @@
+import { now as clockNow } from '../lib/clock';
+import { repositories } from '../repositories';
+import { Location } from '../algorithms/astar';
+import {
+  DEFAULT_SURGE_CONFIG,
+  SurgeCell,
+  getSurgeMultiplierAt,
+  updateSurgeCells,
+} from '../algorithms/surge';
+
+// How often the market snapshot is re-read from the database
+const SURGE_REFRESH_MS = 2 * 60000;
+
+let surgeCells = new Map<string, SurgeCell>();
+let lastRefresh = 0;
+let refreshPromise: Promise<Map<string, SurgeCell>> | null = null;
+
+/**
+ * Recompute surge cells from pending ride requests (demand) and available
+ * rides (supply), counted per cell by the data layer. Each refresh is
+ * smoothed against the previous cells.
+ */
+export async function refreshSurgeCells(): Promise<Map<string, SurgeCell>> {
+  const now = clockNow().getTime();
+  const counts = await repositories.requests.marketCells(DEFAULT_SURGE_CONFIG.precision);
+
+  surgeCells = updateSurgeCells(counts, surgeCells, now);
+  lastRefresh = now;
+  return surgeCells;
+}
+
+/**
+ * Current surge cells, refreshed when the snapshot is older than the refresh
+ * interval. Falls back to the last cells (which expire on their own) if the
+ * refresh fails.
+ */
+export async function getSurgeCells(): Promise<SurgeCell[]> {
+  if (clockNow().getTime() - lastRefresh > SURGE_REFRESH_MS) {
+    if (!refreshPromise) {
+      refreshPromise = refreshSurgeCells().finally(() => {
+        refreshPromise = null;
+      });
+    }
+    try {
+      await refreshPromise;
+    } catch (error) {
+      console.error('Error refreshing surge pricing:', error);
+    }
+  }
+
+  const now = clockNow().getTime();
+  return Array.from(surgeCells.values()).filter(cell => cell.expiresAt > now);
+}
+
+export async function getSurgeMultiplier(location: Location): Promise<number> {
+  await getSurgeCells();
+  return getSurgeMultiplierAt(surgeCells, location, clockNow().getTime());
+}
+
+// Forget the market snapshot, e.g. before a simulation starts a new one
+export function resetSurgeCells() {
+  surgeCells = new Map();
+  lastRefresh = 0;
+  refreshPromise = null;
+}
@@ -0,0 +1,142 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { now } from '../lib/clock';
+import { Location, astarPathfinding } from '../algorithms/astar';
+import {
+  GpsFix,
+  PositionThrottleOptions,
+  createPositionThrottle,
+  parseGpsTrace,
+} from '../algorithms/tracking';
+import { loadLocalRouter } from './roadNetwork';
+
+// Optional trace to drive with instead of the browser's geolocation
+export const GPS_TRACE_URL: string | undefined = import.meta.env.VITE_GPS_TRACE_URL || undefined;
+
+/**
+ * Something that produces GPS fixes until the returned function is called
+ */
+export type PositionSource = (
+  onFix: (fix: GpsFix) => void,
+  onError: (error: Error) => void
+) => () => void;
+
+export function browserPositionSource(): PositionSource {
+  return (onFix, onError) => {
+    if (!navigator.geolocation) {
+      onError(new Error('Geolocation is not supported'));
+      return () => {};
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) =>
+        onFix({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          timestamp: position.timestamp,
+        }),
+      (error) => onError(new Error(error.message)),
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  };
+}
+
+/**
+ * SIMULATED GPS: replays a recorded trace in real time (or `speedup` times
+ * faster), stamping each fix with the service clock
+ */
+export function tracePositionSource(
+  trace: GpsFix[],
+  options: { speedup?: number; loop?: boolean } = {}
+): PositionSource {
+  const speedup = options.speedup ?? 1;
+
+  return (onFix) => {
+    let index = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const emit = () => {
+      onFix({ lat: trace[index].lat, lng: trace[index].lng, timestamp: now().getTime() });
+      const next = index + 1 < trace.length ? index + 1 : options.loop ? 0 : -1;
+      if (next === -1) return;
+
+      const gap = next === 0 ? 0 : trace[next].timestamp - trace[index].timestamp;
+      index = next;
+      timer = setTimeout(emit, Math.max(gap, 0) / speedup);
+    };
+
+    emit();
+    return () => clearTimeout(timer);
+  };
+}
+
+export async function loadGpsTrace(source: File | string): Promise<GpsFix[]> {
+  if (typeof source !== 'string') {
+    return parseGpsTrace(await source.text());
+  }
+
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Could not load GPS trace ${source}: ${response.status}`);
+  }
+  return parseGpsTrace(await response.text());
+}
+
+export async function publishRideLocation(
+  rideId: string,
+  location: Location,
+  client: SupabaseClient = supabase
+) {
+  const { data, error } = await client.rpc('publish_ride_location', {
+    p_ride_id: rideId,
+    p_lat: location.lat,
+    p_lng: location.lng,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+export interface DriverTrackingOptions {
+  throttle?: Partial<PositionThrottleOptions>;
+  client?: SupabaseClient;
+  onPublish?: (fix: GpsFix) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * DRIVER "ON TRIP" MODE: streams the driver's position into the ride,
+ * throttled so the database sees a handful of writes a minute. A failed
+ * write is reported and the next fix tries again. Returns a stop function.
+ */
+export function startDriverTracking(
+  rideId: string,
+  source: PositionSource,
+  options: DriverTrackingOptions = {}
+) {
+  const shouldPublish = createPositionThrottle(options.throttle);
+  const onError = options.onError ?? ((error: Error) => console.error('Driver tracking error:', error));
+
+  return source(
+    (fix) => {
+      if (!shouldPublish(fix)) return;
+      publishRideLocation(rideId, fix, options.client)
+        .then(() => options.onPublish?.(fix))
+        .catch(onError);
+    },
+    onError
+  );
+}
+
+/**
+ * Driving time and distance between two points on the local road graph, for
+ * live ETAs. Straight-line estimates when no graph is available.
+ */
+export async function loadEtaRouter() {
+  const { graph, options } = await loadLocalRouter(now());
+  return (from: Location, to: Location) => {
+    const route = astarPathfinding(from, to, [], graph, options);
+    return { distanceKm: route.totalDistance, durationMin: route.totalDuration };
+  };
+}
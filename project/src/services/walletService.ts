@@ -0,0 +1,69 @@
+import { supabase, WalletAccount, LedgerEntryRow } from '../lib/supabase';
+import { toCents } from '../algorithms/ledger';
+import { PaymentProvider, fakePaymentProvider } from './paymentProvider';
+
+/**
+ * The user's wallet balance in cents; 0 before their first transaction
+ */
+export async function getWalletBalance(userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('wallet_accounts')
+    .select('balance_cents')
+    .eq('owner_id', userId)
+    .eq('kind', 'user')
+    .maybeSingle();
+
+  if (error) throw error;
+  return Number(data?.balance_cents ?? 0);
+}
+
+export async function getWalletActivity(userId: string, limit: number = 30) {
+  const { data: account, error: accountError } = await supabase
+    .from('wallet_accounts')
+    .select('id')
+    .eq('owner_id', userId)
+    .eq('kind', 'user')
+    .maybeSingle();
+
+  if (accountError) throw accountError;
+  if (!account) return [];
+
+  const { data, error } = await supabase
+    .from('ledger_entries')
+    .select(`
+      *,
+      transaction:ledger_transactions(kind, ride_id, description)
+    `)
+    .eq('account_id', account.id)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data as LedgerEntryRow[];
+}
+
+/**
+ * Charge the card through the payment provider, then credit the wallet. The
+ * charge id makes the credit idempotent, so retrying after a network error
+ * can't credit it twice.
+ */
+export async function topUpWallet(
+  amount: number,
+  provider: PaymentProvider = fakePaymentProvider,
+  source?: string
+) {
+  const amountCents = toCents(amount);
+  if (amountCents <= 0) {
+    throw new Error('Enter an amount to top up');
+  }
+
+  const charge = await provider.charge(amountCents, source);
+  const { data, error } = await supabase.rpc('top_up_wallet', {
+    p_amount_cents: charge.amountCents,
+    p_provider: provider.name,
+    p_provider_ref: charge.id,
+  });
+
+  if (error) throw error;
+  return data as WalletAccount;
+}
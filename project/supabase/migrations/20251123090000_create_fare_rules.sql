@@ -0,0 +1,76 @@
+/*
+  # Configurable Fare Rules
+
+  1. New Tables
+    - `fare_rules`
+      - `id` (uuid, primary key)
+      - `vehicle_type` (text, '*' for zone rows that apply to every type)
+      - `zone_id` (text, nullable; null = city-wide rates)
+      - `zone_name` (text, nullable)
+      - `zone_center_lat` (numeric, nullable)
+      - `zone_center_lng` (numeric, nullable)
+      - `zone_radius_km` (numeric, nullable)
+      - `base_fare`, `per_km`, `per_minute`, `minimum_fare`, `booking_fee` (numeric)
+      - `night_multiplier`, `weekend_multiplier` (numeric)
+      - `night_start_hour`, `night_end_hour` (integer, nullable; city-wide
+        rows only, the defaults 22 and 6 when unset)
+      - `currency` (text)
+      - `active` (boolean)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `rides.fare_breakdown` (jsonb) stores the itemised quote; `price` keeps the total
+
+  3. Security
+    - Enable RLS on `fare_rules`
+    - Authenticated users can read active rules (edited from the dashboard only)
+
+  Zone rows only override the rate columns that are not null.
+*/
+
+CREATE TABLE IF NOT EXISTS fare_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_type text NOT NULL,
+  zone_id text,
+  zone_name text,
+  zone_center_lat numeric,
+  zone_center_lng numeric,
+  zone_radius_km numeric,
+  base_fare numeric,
+  per_km numeric,
+  per_minute numeric,
+  minimum_fare numeric,
+  booking_fee numeric,
+  night_multiplier numeric,
+  weekend_multiplier numeric,
+  night_start_hour integer CHECK (night_start_hour BETWEEN 0 AND 23),
+  night_end_hour integer CHECK (night_end_hour BETWEEN 0 AND 23),
+  currency text NOT NULL DEFAULT 'USD',
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT zone_fields_complete CHECK (
+    zone_id IS NULL OR (zone_center_lat IS NOT NULL AND zone_center_lng IS NOT NULL AND zone_radius_km IS NOT NULL)
+  ),
+  CONSTRAINT city_rates_complete CHECK (
+    zone_id IS NOT NULL OR (base_fare IS NOT NULL AND per_km IS NOT NULL AND per_minute IS NOT NULL)
+  )
+);
+
+ALTER TABLE fare_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view active fare rules"
+  ON fare_rules FOR SELECT
+  TO authenticated
+  USING (active = true);
+
+-- Seed city-wide rates matching the original pricing
+INSERT INTO fare_rules (vehicle_type, base_fare, per_km, per_minute, minimum_fare, booking_fee, night_multiplier, weekend_multiplier)
+VALUES
+  ('economy', 2.5, 1.0, 0, 0, 0, 1, 1),
+  ('comfort', 2.5, 1.5, 0, 0, 0, 1, 1),
+  ('premium', 2.5, 2.5, 0, 0, 0, 1, 1),
+  ('default', 2.5, 1.2, 0, 0, 0, 1, 1);
+
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS fare_breakdown jsonb;
+
+CREATE INDEX IF NOT EXISTS fare_rules_active_idx ON fare_rules(active);
@@ -0,0 +1,27 @@
+/*
+  # Surge Demand Points
+
+  1. New Functions
+    - `surge_demand_points()` returns the pickup points of every pending ride
+      request, rounded to 3 decimals (~100 m)
+
+  2. Security
+    - SECURITY DEFINER so surge pricing sees all pending requests, while
+      ride_requests RLS keeps each passenger's rows private
+    - Only rounded coordinates are returned; no ids, addresses or passengers
+*/
+
+CREATE OR REPLACE FUNCTION surge_demand_points()
+RETURNS TABLE (pickup_lat numeric, pickup_lng numeric)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT round(pickup_lat, 3), round(pickup_lng, 3)
+  FROM ride_requests
+  WHERE status = 'pending';
+$$;
+
+REVOKE ALL ON FUNCTION surge_demand_points() FROM public;
+GRANT EXECUTE ON FUNCTION surge_demand_points() TO authenticated;
@@ -0,0 +1,55 @@
+/*
+  # Spatial Index for Ride Search
+
+  1. Changes
+    - Enable PostGIS
+    - `rides.pickup_geog` (geography, generated from pickup_lat/pickup_lng)
+    - GiST index on `pickup_geog` for available rides
+    - B-tree index on (pickup_lat, pickup_lng) for available rides, used by
+      the bounding-box fallback when the RPC is unavailable
+
+  2. New Functions
+    - `nearby_available_rides(lat, lng, radius_km, max_results)` returns the
+      ids of available rides whose pickup is within the radius, nearest first
+
+  3. Security
+    - SECURITY INVOKER, so the rides RLS policies still apply
+*/
+
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS pickup_geog geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    ST_SetSRID(ST_MakePoint(pickup_lng::double precision, pickup_lat::double precision), 4326)::geography
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS rides_available_pickup_geog_idx
+  ON rides USING GIST (pickup_geog)
+  WHERE status = 'available';
+
+CREATE INDEX IF NOT EXISTS rides_available_pickup_idx
+  ON rides(pickup_lat, pickup_lng)
+  WHERE status = 'available';
+
+CREATE OR REPLACE FUNCTION nearby_available_rides(
+  lat double precision,
+  lng double precision,
+  radius_km double precision DEFAULT 5,
+  max_results integer DEFAULT 50
+)
+RETURNS TABLE (ride_id uuid, distance_km double precision)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    r.id,
+    ST_Distance(r.pickup_geog, ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography) / 1000
+  FROM rides r
+  WHERE r.status = 'available'
+    AND ST_DWithin(r.pickup_geog, ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography, radius_km * 1000)
+  ORDER BY r.pickup_geog <-> ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography
+  LIMIT max_results;
+$$;
+
+GRANT EXECUTE ON FUNCTION nearby_available_rides(double precision, double precision, double precision, integer) TO authenticated;
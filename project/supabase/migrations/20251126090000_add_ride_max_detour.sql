@@ -0,0 +1,11 @@
+/*
+  # Driver Detour Cap
+
+  1. Changes
+    - `rides.max_detour_min` (integer, default 15): the longest extra drive,
+      in minutes, the driver accepts to pick up and drop off a passenger
+*/
+
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS max_detour_min integer DEFAULT 15;
+
+ALTER TABLE rides ADD CONSTRAINT valid_max_detour CHECK (max_detour_min IS NULL OR max_detour_min >= 0);
@@ -0,0 +1,93 @@
+/*
+  # Batch Matching of Ride Requests
+
+  1. Changes
+    - `ride_requests.matched_ride_id` (uuid, references rides, nullable)
+    - `ride_requests.matched_fare` (numeric, nullable)
+    - `ride_requests.matched_at` (timestamptz, nullable)
+
+  2. New Functions
+    - `apply_ride_assignments(assignments jsonb)` applies a batch of
+      `[{ "request_id", "ride_id", "fare" }]` in one transaction: each request
+      must still be pending and each ride available with a free seat, or the
+      whole batch is rolled back. A ride's seats are decremented per
+      assignment; it becomes 'accepted' when the last seat is taken.
+
+  3. Security
+    - `apply_ride_assignments` is SECURITY DEFINER and executable by the
+      service role only (the matching engine runs server-side)
+    - Drivers can view the requests matched to their rides
+*/
+
+ALTER TABLE ride_requests ADD COLUMN IF NOT EXISTS matched_ride_id uuid REFERENCES rides(id) ON DELETE SET NULL;
+ALTER TABLE ride_requests ADD COLUMN IF NOT EXISTS matched_fare numeric;
+ALTER TABLE ride_requests ADD COLUMN IF NOT EXISTS matched_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS ride_requests_matched_ride_id_idx ON ride_requests(matched_ride_id);
+
+CREATE POLICY "Drivers can view requests matched to their rides"
+  ON ride_requests FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM rides
+      WHERE rides.id = ride_requests.matched_ride_id
+        AND rides.driver_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION apply_ride_assignments(assignments jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment jsonb;
+  request_row ride_requests%ROWTYPE;
+  ride_row rides%ROWTYPE;
+  applied integer := 0;
+BEGIN
+  FOR assignment IN SELECT * FROM jsonb_array_elements(assignments)
+  LOOP
+    SELECT * INTO request_row
+    FROM ride_requests
+    WHERE id = (assignment->>'request_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND OR request_row.status <> 'pending' THEN
+      RAISE EXCEPTION 'Ride request % is no longer pending', assignment->>'request_id';
+    END IF;
+
+    SELECT * INTO ride_row
+    FROM rides
+    WHERE id = (assignment->>'ride_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND OR ride_row.status <> 'available' OR ride_row.seats_available < 1 THEN
+      RAISE EXCEPTION 'Ride % has no free seat', assignment->>'ride_id';
+    END IF;
+
+    UPDATE ride_requests
+    SET status = 'matched',
+        matched_ride_id = ride_row.id,
+        matched_fare = (assignment->>'fare')::numeric,
+        matched_at = now()
+    WHERE id = request_row.id;
+
+    UPDATE rides
+    SET seats_available = ride_row.seats_available - 1,
+        passenger_id = COALESCE(ride_row.passenger_id, request_row.passenger_id),
+        status = CASE WHEN ride_row.seats_available - 1 = 0 THEN 'accepted' ELSE ride_row.status END,
+        updated_at = now()
+    WHERE id = ride_row.id;
+
+    applied := applied + 1;
+  END LOOP;
+
+  RETURN applied;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION apply_ride_assignments(jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_ride_assignments(jsonb) TO service_role;
@@ -0,0 +1,225 @@
+/*
+  # Per-Seat Ride Bookings
+
+  1. New Tables
+    - `ride_bookings`
+      - `id` (uuid, primary key)
+      - `ride_id` (uuid, references rides)
+      - `passenger_id` (uuid, references profiles)
+      - `seats` (integer, > 0)
+      - `pickup_lat`, `pickup_lng`, `pickup_address` (the passenger's own pickup)
+      - `dropoff_lat`, `dropoff_lng`, `dropoff_address` (the passenger's own dropoff)
+      - `fare_share` (numeric): what this passenger pays
+      - `status` (text: 'confirmed', 'cancelled')
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `rides.seats_total` (integer): seats offered; `seats_available` is what's left
+    - `rides.passenger_id` is kept as the first booked passenger for older clients
+    - A ride stays 'available' until its last seat is booked, then becomes 'accepted'
+
+  3. New Functions
+    - `book_ride_seats(...)` decrements seats and inserts the booking under
+      the ride's row lock, so concurrent bookings can't oversell
+    - `apply_ride_assignments(jsonb)` now records a one-seat booking per match
+    - `is_ride_passenger(ride_id)` helper for RLS
+
+  4. Security
+    - Enable RLS on `ride_bookings`
+    - Passengers can view their own bookings; drivers can view bookings on their rides
+    - Bookings are only created through `book_ride_seats`
+    - Booked passengers can view the ride after it fills up
+    - Drop "Passengers can accept rides": direct updates would bypass seat counts
+*/
+
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS seats_total integer;
+UPDATE rides SET seats_total = seats_available WHERE seats_total IS NULL;
+
+CREATE TABLE IF NOT EXISTS ride_bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_id uuid NOT NULL REFERENCES rides(id) ON DELETE CASCADE,
+  passenger_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  seats integer NOT NULL DEFAULT 1,
+  pickup_lat numeric NOT NULL,
+  pickup_lng numeric NOT NULL,
+  pickup_address text NOT NULL,
+  dropoff_lat numeric NOT NULL,
+  dropoff_lng numeric NOT NULL,
+  dropoff_address text NOT NULL,
+  fare_share numeric NOT NULL,
+  status text NOT NULL DEFAULT 'confirmed',
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_booking_seats CHECK (seats > 0),
+  CONSTRAINT valid_booking_status CHECK (status IN ('confirmed', 'cancelled'))
+);
+
+ALTER TABLE ride_bookings ENABLE ROW LEVEL SECURITY;
+
+-- SECURITY DEFINER so the rides policy can check bookings without the two
+-- tables' policies recursing into each other
+CREATE OR REPLACE FUNCTION is_ride_passenger(p_ride_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM ride_bookings
+    WHERE ride_id = p_ride_id
+      AND passenger_id = auth.uid()
+      AND status = 'confirmed'
+  );
+$$;
+
+CREATE POLICY "Passengers can view own bookings"
+  ON ride_bookings FOR SELECT
+  TO authenticated
+  USING (auth.uid() = passenger_id);
+
+CREATE POLICY "Drivers can view bookings on their rides"
+  ON ride_bookings FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM rides
+      WHERE rides.id = ride_bookings.ride_id
+        AND rides.driver_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Passengers can view booked rides"
+  ON rides FOR SELECT
+  TO authenticated
+  USING (is_ride_passenger(id));
+
+DROP POLICY IF EXISTS "Passengers can accept rides" ON rides;
+
+CREATE OR REPLACE FUNCTION book_ride_seats(
+  p_ride_id uuid,
+  p_seats integer,
+  p_pickup_lat numeric,
+  p_pickup_lng numeric,
+  p_pickup_address text,
+  p_dropoff_lat numeric,
+  p_dropoff_lng numeric,
+  p_dropoff_address text,
+  p_fare_share numeric
+)
+RETURNS ride_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking ride_bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_seats < 1 THEN
+    RAISE EXCEPTION 'Book at least one seat';
+  END IF;
+
+  -- The WHERE clause runs under the row lock, so check-and-decrement is atomic
+  UPDATE rides
+  SET seats_available = seats_available - p_seats,
+      passenger_id = COALESCE(passenger_id, auth.uid()),
+      status = CASE WHEN seats_available - p_seats = 0 THEN 'accepted' ELSE status END,
+      updated_at = now()
+  WHERE id = p_ride_id
+    AND status = 'available'
+    AND seats_available >= p_seats
+    AND driver_id <> auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not enough seats left on this ride';
+  END IF;
+
+  INSERT INTO ride_bookings (
+    ride_id, passenger_id, seats,
+    pickup_lat, pickup_lng, pickup_address,
+    dropoff_lat, dropoff_lng, dropoff_address,
+    fare_share
+  )
+  VALUES (
+    p_ride_id, auth.uid(), p_seats,
+    p_pickup_lat, p_pickup_lng, p_pickup_address,
+    p_dropoff_lat, p_dropoff_lng, p_dropoff_address,
+    p_fare_share
+  )
+  RETURNING * INTO booking;
+
+  RETURN booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION book_ride_seats(uuid, integer, numeric, numeric, text, numeric, numeric, text, numeric) TO authenticated;
+
+CREATE OR REPLACE FUNCTION apply_ride_assignments(assignments jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment jsonb;
+  request_row ride_requests%ROWTYPE;
+  ride_row rides%ROWTYPE;
+  applied integer := 0;
+BEGIN
+  FOR assignment IN SELECT * FROM jsonb_array_elements(assignments)
+  LOOP
+    SELECT * INTO request_row
+    FROM ride_requests
+    WHERE id = (assignment->>'request_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND OR request_row.status <> 'pending' THEN
+      RAISE EXCEPTION 'Ride request % is no longer pending', assignment->>'request_id';
+    END IF;
+
+    UPDATE rides
+    SET seats_available = seats_available - 1,
+        passenger_id = COALESCE(passenger_id, request_row.passenger_id),
+        status = CASE WHEN seats_available - 1 = 0 THEN 'accepted' ELSE status END,
+        updated_at = now()
+    WHERE id = (assignment->>'ride_id')::uuid
+      AND status = 'available'
+      AND seats_available >= 1
+    RETURNING * INTO ride_row;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ride % has no free seat', assignment->>'ride_id';
+    END IF;
+
+    UPDATE ride_requests
+    SET status = 'matched',
+        matched_ride_id = ride_row.id,
+        matched_fare = (assignment->>'fare')::numeric,
+        matched_at = now()
+    WHERE id = request_row.id;
+
+    INSERT INTO ride_bookings (
+      ride_id, passenger_id, seats,
+      pickup_lat, pickup_lng, pickup_address,
+      dropoff_lat, dropoff_lng, dropoff_address,
+      fare_share
+    )
+    VALUES (
+      ride_row.id, request_row.passenger_id, 1,
+      request_row.pickup_lat, request_row.pickup_lng, request_row.pickup_address,
+      request_row.dropoff_lat, request_row.dropoff_lng, request_row.dropoff_address,
+      (assignment->>'fare')::numeric
+    );
+
+    applied := applied + 1;
+  END LOOP;
+
+  RETURN applied;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS ride_bookings_ride_id_idx ON ride_bookings(ride_id);
+CREATE INDEX IF NOT EXISTS ride_bookings_passenger_id_idx ON ride_bookings(passenger_id);
@@ -0,0 +1,249 @@
+/*
+  # Ride Lifecycle State Machine
+
+  1. New Tables
+    - `ride_events`
+      - `id` (uuid, primary key)
+      - `ride_id` (uuid, references rides)
+      - `event` (text: 'created', 'status_changed', 'booking_created', 'booking_cancelled')
+      - `from_status` (text, nullable)
+      - `to_status` (text, nullable)
+      - `actor_id` (uuid, nullable; null for service-role changes)
+      - `actor_role` (text: 'driver', 'passenger', 'system')
+      - `reason` (text, nullable)
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `ride_transition_allowed(from, to, role)`: the transition table, kept in
+      sync with src/algorithms/rideLifecycle.ts
+    - `transition_ride_status(ride_id, status, reason, lat, lng)`: driver
+      status changes with a recorded reason
+    - `cancel_ride_booking(ride_id, reason)`: a passenger cancels their
+      booking; seats are released and a full ride reopens
+
+  3. Triggers
+    - Status changes on `rides` are rejected unless allowed for the actor
+      (the driver for their own updates, otherwise 'system' unless a
+      function declares the role), and every change is logged
+    - Ride creation and booking changes are logged
+
+  4. Security
+    - Enable RLS on `ride_events`; drivers and booked passengers can read a
+      ride's events. Events are only written by the triggers.
+*/
+
+CREATE TABLE IF NOT EXISTS ride_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_id uuid NOT NULL REFERENCES rides(id) ON DELETE CASCADE,
+  event text NOT NULL,
+  from_status text,
+  to_status text,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_role text NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_ride_event CHECK (event IN ('created', 'status_changed', 'booking_created', 'booking_cancelled')),
+  CONSTRAINT valid_ride_event_actor CHECK (actor_role IN ('driver', 'passenger', 'system'))
+);
+
+ALTER TABLE ride_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ride participants can view ride events"
+  ON ride_events FOR SELECT
+  TO authenticated
+  USING (
+    is_ride_passenger(ride_id) OR EXISTS (
+      SELECT 1 FROM rides
+      WHERE rides.id = ride_events.ride_id
+        AND rides.driver_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS ride_events_ride_id_idx ON ride_events(ride_id, created_at);
+
+CREATE OR REPLACE FUNCTION ride_transition_allowed(from_status text, to_status text, actor_role text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (from_status, to_status, actor_role) IN (
+    ('available', 'accepted', 'system'),
+    ('available', 'in_progress', 'driver'),
+    ('available', 'cancelled', 'driver'),
+    ('available', 'cancelled', 'system'),
+    ('accepted', 'available', 'passenger'),
+    ('accepted', 'available', 'system'),
+    ('accepted', 'in_progress', 'driver'),
+    ('accepted', 'cancelled', 'driver'),
+    ('in_progress', 'completed', 'driver'),
+    ('in_progress', 'cancelled', 'driver')
+  );
+$$;
+
+-- Role of whoever is changing a ride: declared by a function through the
+-- rides.actor_role setting, otherwise the driver for their own rides
+CREATE OR REPLACE FUNCTION current_ride_actor_role(p_driver_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    NULLIF(current_setting('rides.actor_role', true), ''),
+    CASE WHEN auth.uid() = p_driver_id THEN 'driver' ELSE 'system' END
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_ride_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT ride_transition_allowed(OLD.status, NEW.status, current_ride_actor_role(OLD.driver_id)) THEN
+    RAISE EXCEPTION 'A % can''t move a ride from % to %',
+      current_ride_actor_role(OLD.driver_id), OLD.status, NEW.status;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rides_enforce_transition
+  BEFORE UPDATE OF status ON rides
+  FOR EACH ROW EXECUTE FUNCTION enforce_ride_transition();
+
+CREATE OR REPLACE FUNCTION log_ride_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO ride_events (ride_id, event, to_status, actor_id, actor_role)
+    VALUES (NEW.id, 'created', NEW.status, auth.uid(), 'driver');
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO ride_events (ride_id, event, from_status, to_status, actor_id, actor_role, reason)
+    VALUES (
+      NEW.id, 'status_changed', OLD.status, NEW.status, auth.uid(),
+      current_ride_actor_role(OLD.driver_id),
+      NULLIF(current_setting('rides.transition_reason', true), '')
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rides_log_event
+  AFTER INSERT OR UPDATE OF status ON rides
+  FOR EACH ROW EXECUTE FUNCTION log_ride_event();
+
+CREATE OR REPLACE FUNCTION log_booking_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO ride_events (ride_id, event, actor_id, actor_role, reason)
+    VALUES (NEW.ride_id, 'booking_created', NEW.passenger_id, 'passenger',
+      NEW.seats || ' seat(s) booked');
+  ELSIF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    INSERT INTO ride_events (ride_id, event, actor_id, actor_role, reason)
+    VALUES (NEW.ride_id, 'booking_cancelled', auth.uid(), 'passenger',
+      NULLIF(current_setting('rides.transition_reason', true), ''));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ride_bookings_log_event
+  AFTER INSERT OR UPDATE OF status ON ride_bookings
+  FOR EACH ROW EXECUTE FUNCTION log_booking_event();
+
+-- SECURITY INVOKER: the "Drivers can update own rides" policy still decides
+-- who may update the row; the trigger decides which transitions are legal
+CREATE OR REPLACE FUNCTION transition_ride_status(
+  p_ride_id uuid,
+  p_status text,
+  p_reason text DEFAULT NULL,
+  p_current_lat numeric DEFAULT NULL,
+  p_current_lng numeric DEFAULT NULL
+)
+RETURNS rides
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  ride_row rides%ROWTYPE;
+BEGIN
+  PERFORM set_config('rides.transition_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE rides
+  SET status = p_status,
+      current_lat = COALESCE(p_current_lat, current_lat),
+      current_lng = COALESCE(p_current_lng, current_lng),
+      updated_at = now()
+  WHERE id = p_ride_id
+  RETURNING * INTO ride_row;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ride % not found or not yours', p_ride_id;
+  END IF;
+
+  RETURN ride_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_ride_status(uuid, text, text, numeric, numeric) TO authenticated;
+
+CREATE OR REPLACE FUNCTION cancel_ride_booking(p_ride_id uuid, p_reason text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  released integer;
+  ride_row rides%ROWTYPE;
+BEGIN
+  SELECT * INTO ride_row FROM rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ride % not found', p_ride_id;
+  END IF;
+
+  IF ride_row.status NOT IN ('available', 'accepted') THEN
+    RAISE EXCEPTION 'A % ride can no longer be cancelled by a passenger', ride_row.status;
+  END IF;
+
+  PERFORM set_config('rides.transition_reason', COALESCE(p_reason, 'Passenger cancelled'), true);
+  PERFORM set_config('rides.actor_role', 'passenger', true);
+
+  WITH cancelled AS (
+    UPDATE ride_bookings
+    SET status = 'cancelled'
+    WHERE ride_id = p_ride_id
+      AND passenger_id = auth.uid()
+      AND status = 'confirmed'
+    RETURNING seats
+  )
+  SELECT COALESCE(SUM(seats), 0) INTO released FROM cancelled;
+
+  IF released = 0 THEN
+    RAISE EXCEPTION 'You have no booking on this ride';
+  END IF;
+
+  UPDATE rides
+  SET seats_available = seats_available + released,
+      passenger_id = CASE WHEN passenger_id = auth.uid() THEN NULL ELSE passenger_id END,
+      status = 'available',
+      updated_at = now()
+  WHERE id = p_ride_id;
+
+  PERFORM set_config('rides.actor_role', '', true);
+  RETURN released;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_ride_booking(uuid, text) TO authenticated;
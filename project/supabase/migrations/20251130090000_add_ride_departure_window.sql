@@ -0,0 +1,120 @@
+/*
+  # Scheduled Rides
+
+  1. Changes
+    - `rides.departure_time` (timestamptz): when the driver leaves; existing
+      rides depart when they were created
+    - `rides.departure_flex_min` (integer, default 15): the driver may leave
+      this many minutes either side of departure_time
+    - `rides.departure_window_start`, `rides.departure_window_end`
+      (timestamptz): the resulting window, kept up to date by a trigger so
+      searches can filter on plain columns
+    - Index on the window for available rides
+
+  2. New Functions
+    - `expire_stale_rides()` cancels available rides whose window has passed,
+      as the 'system' actor, and returns how many it cancelled. Scheduled
+      every 5 minutes when pg_cron is installed.
+    - `nearby_available_rides(...)` gains optional `window_start` and
+      `window_end` and skips expired rides
+
+  3. Security
+    - `expire_stale_rides()` is only executable by service_role
+    - `nearby_available_rides` stays SECURITY INVOKER
+*/
+
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS departure_time timestamptz;
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS departure_flex_min integer NOT NULL DEFAULT 15;
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS departure_window_start timestamptz;
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS departure_window_end timestamptz;
+
+ALTER TABLE rides ADD CONSTRAINT valid_departure_flex CHECK (departure_flex_min BETWEEN 0 AND 240);
+
+CREATE OR REPLACE FUNCTION set_ride_departure_window()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.departure_time := COALESCE(NEW.departure_time, NEW.created_at, now());
+  NEW.departure_window_start := NEW.departure_time - make_interval(mins => NEW.departure_flex_min);
+  NEW.departure_window_end := NEW.departure_time + make_interval(mins => NEW.departure_flex_min);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rides_set_departure_window
+  BEFORE INSERT OR UPDATE OF departure_time, departure_flex_min ON rides
+  FOR EACH ROW EXECUTE FUNCTION set_ride_departure_window();
+
+UPDATE rides SET departure_time = created_at WHERE departure_time IS NULL;
+
+ALTER TABLE rides ALTER COLUMN departure_time SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS rides_available_departure_idx
+  ON rides(departure_window_start, departure_window_end)
+  WHERE status = 'available';
+
+CREATE OR REPLACE FUNCTION expire_stale_rides()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired integer;
+BEGIN
+  PERFORM set_config('rides.actor_role', 'system', true);
+  PERFORM set_config('rides.transition_reason', 'Departure window passed', true);
+
+  UPDATE rides
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE status = 'available'
+    AND departure_window_end < now();
+
+  GET DIAGNOSTICS expired = ROW_COUNT;
+
+  PERFORM set_config('rides.actor_role', '', true);
+  RETURN expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_stale_rides() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_stale_rides() TO service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-stale-rides', '*/5 * * * *', 'SELECT expire_stale_rides()');
+  END IF;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS nearby_available_rides(double precision, double precision, double precision, integer);
+
+CREATE OR REPLACE FUNCTION nearby_available_rides(
+  lat double precision,
+  lng double precision,
+  radius_km double precision DEFAULT 5,
+  max_results integer DEFAULT 50,
+  window_start timestamptz DEFAULT NULL,
+  window_end timestamptz DEFAULT NULL
+)
+RETURNS TABLE (ride_id uuid, distance_km double precision)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    r.id,
+    ST_Distance(r.pickup_geog, ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography) / 1000
+  FROM rides r
+  WHERE r.status = 'available'
+    AND r.departure_window_end >= GREATEST(now(), COALESCE(window_start, now()))
+    AND (window_end IS NULL OR r.departure_window_start <= window_end)
+    AND ST_DWithin(r.pickup_geog, ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography, radius_km * 1000)
+  ORDER BY r.pickup_geog <-> ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography
+  LIMIT max_results;
+$$;
+
+GRANT EXECUTE ON FUNCTION nearby_available_rides(double precision, double precision, double precision, integer, timestamptz, timestamptz) TO authenticated;
@@ -0,0 +1,470 @@
+/*
+  # Recurring Commute Rides
+
+  1. New Tables
+    - `ride_templates`: a driver's repeating ride ("weekdays 08:15 from X to Y")
+      - `id` (uuid, primary key)
+      - `driver_id` (uuid, references profiles)
+      - pickup/dropoff coordinates and addresses, route distance and duration,
+        `price`, `fare_breakdown`, `vehicle_type`, `seats_total`, `max_detour_min`
+        (copied onto every generated ride)
+      - `days_of_week` (smallint[], 0 = Sunday … 6 = Saturday)
+      - `departure_local_time` (time) and `time_zone` (text): when it leaves,
+        in the driver's time zone
+      - `departure_flex_min` (integer)
+      - `starts_on`, `ends_on` (date; ends_on optional and inclusive)
+      - `active` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+    - `ride_template_skips`: occurrences the driver won't drive
+      - `template_id`, `occurrence_date` (primary key), `reason`, `created_at`
+    - `ride_subscriptions`: a passenger's standing booking on a template
+      - `id` (uuid, primary key)
+      - `template_id` (uuid), `passenger_id` (uuid), `seats` (integer)
+      - the passenger's own pickup/dropoff and `fare_share` per occurrence
+      - `status` (text: 'active', 'cancelled')
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `rides.template_id`, `rides.occurrence_date`: which template and day a
+      generated ride is; unique together, so generating twice is harmless
+    - `ride_bookings.subscription_id`: bookings made for a subscription
+
+  3. New Functions
+    - `generate_template_rides(template_id, days)` creates the rides departing
+      in the next `days` days (default 14) and books every active subscriber
+      onto them. Runs daily under pg_cron when installed, and from the batch
+      matcher. A signed-in driver can only generate their own templates.
+    - `skip_template_occurrence(template_id, date, reason)` records a skip and
+      cancels the ride if it was already generated
+    - `subscribe_to_ride_template(...)` / `unsubscribe_from_ride_template(...)`
+      book or release the passenger's seats on every upcoming occurrence
+
+  4. Security
+    - Enable RLS on all three tables
+    - Anyone signed in can view active templates; drivers manage their own
+    - Drivers see their skips and the subscriptions to their templates;
+      passengers see their own subscriptions
+    - Skips and subscriptions are only written through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS ride_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  pickup_lat numeric NOT NULL,
+  pickup_lng numeric NOT NULL,
+  pickup_address text NOT NULL,
+  dropoff_lat numeric NOT NULL,
+  dropoff_lng numeric NOT NULL,
+  dropoff_address text NOT NULL,
+  distance_km numeric NOT NULL,
+  estimated_duration_min integer NOT NULL,
+  price numeric NOT NULL,
+  fare_breakdown jsonb,
+  vehicle_type text NOT NULL DEFAULT 'economy',
+  seats_total integer NOT NULL DEFAULT 1,
+  max_detour_min integer NOT NULL DEFAULT 15,
+  days_of_week smallint[] NOT NULL,
+  departure_local_time time NOT NULL,
+  departure_flex_min integer NOT NULL DEFAULT 15,
+  time_zone text NOT NULL DEFAULT 'UTC',
+  starts_on date NOT NULL DEFAULT CURRENT_DATE,
+  ends_on date,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_template_days CHECK (
+    cardinality(days_of_week) > 0 AND days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]
+  ),
+  CONSTRAINT valid_template_seats CHECK (seats_total > 0),
+  CONSTRAINT valid_template_dates CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE TABLE IF NOT EXISTS ride_template_skips (
+  template_id uuid NOT NULL REFERENCES ride_templates(id) ON DELETE CASCADE,
+  occurrence_date date NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (template_id, occurrence_date)
+);
+
+CREATE TABLE IF NOT EXISTS ride_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid NOT NULL REFERENCES ride_templates(id) ON DELETE CASCADE,
+  passenger_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  seats integer NOT NULL DEFAULT 1,
+  pickup_lat numeric NOT NULL,
+  pickup_lng numeric NOT NULL,
+  pickup_address text NOT NULL,
+  dropoff_lat numeric NOT NULL,
+  dropoff_lng numeric NOT NULL,
+  dropoff_address text NOT NULL,
+  fare_share numeric NOT NULL,
+  status text NOT NULL DEFAULT 'active',
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_subscription_seats CHECK (seats > 0),
+  CONSTRAINT valid_subscription_status CHECK (status IN ('active', 'cancelled'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ride_subscriptions_active_idx
+  ON ride_subscriptions(template_id, passenger_id)
+  WHERE status = 'active';
+
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES ride_templates(id) ON DELETE SET NULL;
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS occurrence_date date;
+
+CREATE UNIQUE INDEX IF NOT EXISTS rides_template_occurrence_idx
+  ON rides(template_id, occurrence_date)
+  WHERE template_id IS NOT NULL;
+
+ALTER TABLE ride_bookings ADD COLUMN IF NOT EXISTS subscription_id uuid REFERENCES ride_subscriptions(id) ON DELETE SET NULL;
+
+ALTER TABLE ride_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ride_template_skips ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ride_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active ride templates"
+  ON ride_templates FOR SELECT
+  TO authenticated
+  USING (active OR driver_id = auth.uid());
+
+CREATE POLICY "Drivers can create ride templates"
+  ON ride_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = driver_id);
+
+CREATE POLICY "Drivers can update own ride templates"
+  ON ride_templates FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = driver_id)
+  WITH CHECK (auth.uid() = driver_id);
+
+CREATE POLICY "Drivers can view skips on their templates"
+  ON ride_template_skips FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ride_templates
+      WHERE ride_templates.id = ride_template_skips.template_id
+        AND ride_templates.driver_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Passengers can view own subscriptions"
+  ON ride_subscriptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = passenger_id);
+
+CREATE POLICY "Drivers can view subscriptions to their templates"
+  ON ride_subscriptions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ride_templates
+      WHERE ride_templates.id = ride_subscriptions.template_id
+        AND ride_templates.driver_id = auth.uid()
+    )
+  );
+
+-- Takes the subscriber's seats on one generated ride, if there's room.
+-- Internal: callers have already checked who is asking.
+CREATE OR REPLACE FUNCTION book_subscription_occurrence(p_subscription_id uuid, p_ride_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub ride_subscriptions%ROWTYPE;
+  booked integer;
+BEGIN
+  SELECT * INTO sub FROM ride_subscriptions WHERE id = p_subscription_id AND status = 'active';
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ride_bookings
+    WHERE ride_id = p_ride_id AND passenger_id = sub.passenger_id AND status = 'confirmed'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  -- Filling the ride is a system transition, whoever triggered the booking
+  PERFORM set_config('rides.actor_role', 'system', true);
+
+  UPDATE rides
+  SET seats_available = seats_available - sub.seats,
+      passenger_id = COALESCE(passenger_id, sub.passenger_id),
+      status = CASE WHEN seats_available - sub.seats = 0 THEN 'accepted' ELSE status END,
+      updated_at = now()
+  WHERE id = p_ride_id
+    AND status = 'available'
+    AND seats_available >= sub.seats
+    AND departure_time > now();
+
+  GET DIAGNOSTICS booked = ROW_COUNT;
+  PERFORM set_config('rides.actor_role', '', true);
+
+  IF booked = 0 THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO ride_bookings (
+    ride_id, passenger_id, seats,
+    pickup_lat, pickup_lng, pickup_address,
+    dropoff_lat, dropoff_lng, dropoff_address,
+    fare_share, subscription_id
+  )
+  VALUES (
+    p_ride_id, sub.passenger_id, sub.seats,
+    sub.pickup_lat, sub.pickup_lng, sub.pickup_address,
+    sub.dropoff_lat, sub.dropoff_lng, sub.dropoff_address,
+    sub.fare_share, sub.id
+  );
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION book_subscription_occurrence(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION generate_template_rides(
+  p_template_id uuid DEFAULT NULL,
+  p_days integer DEFAULT 14
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  template_row ride_templates%ROWTYPE;
+  occurrence date;
+  departs timestamptz;
+  ride_row rides%ROWTYPE;
+  sub_id uuid;
+  created integer := 0;
+BEGIN
+  FOR template_row IN
+    SELECT * FROM ride_templates
+    WHERE active
+      AND (p_template_id IS NULL OR id = p_template_id)
+      AND (auth.uid() IS NULL OR driver_id = auth.uid())
+  LOOP
+    FOR occurrence IN
+      SELECT day::date FROM generate_series(
+        (now() AT TIME ZONE template_row.time_zone)::date,
+        (now() AT TIME ZONE template_row.time_zone)::date + p_days,
+        interval '1 day'
+      ) AS day
+    LOOP
+      CONTINUE WHEN occurrence < template_row.starts_on
+        OR (template_row.ends_on IS NOT NULL AND occurrence > template_row.ends_on)
+        OR NOT (EXTRACT(DOW FROM occurrence)::smallint = ANY (template_row.days_of_week));
+
+      departs := (occurrence + template_row.departure_local_time) AT TIME ZONE template_row.time_zone;
+      CONTINUE WHEN departs <= now();
+
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM ride_template_skips
+        WHERE template_id = template_row.id AND occurrence_date = occurrence
+      );
+
+      INSERT INTO rides (
+        driver_id, status,
+        pickup_lat, pickup_lng, pickup_address,
+        dropoff_lat, dropoff_lng, dropoff_address,
+        distance_km, estimated_duration_min, price, fare_breakdown,
+        vehicle_type, seats_available, seats_total, max_detour_min,
+        departure_time, departure_flex_min, template_id, occurrence_date
+      )
+      VALUES (
+        template_row.driver_id, 'available',
+        template_row.pickup_lat, template_row.pickup_lng, template_row.pickup_address,
+        template_row.dropoff_lat, template_row.dropoff_lng, template_row.dropoff_address,
+        template_row.distance_km, template_row.estimated_duration_min, template_row.price, template_row.fare_breakdown,
+        template_row.vehicle_type, template_row.seats_total, template_row.seats_total, template_row.max_detour_min,
+        departs, template_row.departure_flex_min, template_row.id, occurrence
+      )
+      ON CONFLICT (template_id, occurrence_date) WHERE template_id IS NOT NULL DO NOTHING
+      RETURNING * INTO ride_row;
+
+      CONTINUE WHEN NOT FOUND;
+      created := created + 1;
+
+      FOR sub_id IN
+        SELECT id FROM ride_subscriptions
+        WHERE template_id = template_row.id AND status = 'active'
+        ORDER BY created_at
+      LOOP
+        PERFORM book_subscription_occurrence(sub_id, ride_row.id);
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN created;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION generate_template_rides(uuid, integer) TO authenticated, service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('generate-template-rides', '5 0 * * *', 'SELECT generate_template_rides()');
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION skip_template_occurrence(
+  p_template_id uuid,
+  p_occurrence_date date,
+  p_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM ride_templates WHERE id = p_template_id AND driver_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Ride template % not found or not yours', p_template_id;
+  END IF;
+
+  INSERT INTO ride_template_skips (template_id, occurrence_date, reason)
+  VALUES (p_template_id, p_occurrence_date, p_reason)
+  ON CONFLICT (template_id, occurrence_date) DO NOTHING;
+
+  -- auth.uid() is the driver, so the lifecycle trigger sees a driver cancel
+  PERFORM set_config('rides.transition_reason', COALESCE(p_reason, 'Occurrence skipped'), true);
+
+  UPDATE rides
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE template_id = p_template_id
+    AND occurrence_date = p_occurrence_date
+    AND status IN ('available', 'accepted');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION skip_template_occurrence(uuid, date, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION subscribe_to_ride_template(
+  p_template_id uuid,
+  p_seats integer,
+  p_pickup_lat numeric,
+  p_pickup_lng numeric,
+  p_pickup_address text,
+  p_dropoff_lat numeric,
+  p_dropoff_lng numeric,
+  p_dropoff_address text,
+  p_fare_share numeric
+)
+RETURNS ride_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  template_row ride_templates%ROWTYPE;
+  subscription ride_subscriptions%ROWTYPE;
+  occurrence_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO template_row FROM ride_templates WHERE id = p_template_id AND active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This recurring ride is no longer offered';
+  END IF;
+
+  IF template_row.driver_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t subscribe to your own ride';
+  END IF;
+
+  IF p_seats < 1 OR p_seats > template_row.seats_total THEN
+    RAISE EXCEPTION 'This ride has % seat(s)', template_row.seats_total;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ride_subscriptions
+    WHERE template_id = p_template_id AND passenger_id = auth.uid() AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You are already subscribed to this ride';
+  END IF;
+
+  INSERT INTO ride_subscriptions (
+    template_id, passenger_id, seats,
+    pickup_lat, pickup_lng, pickup_address,
+    dropoff_lat, dropoff_lng, dropoff_address,
+    fare_share
+  )
+  VALUES (
+    p_template_id, auth.uid(), p_seats,
+    p_pickup_lat, p_pickup_lng, p_pickup_address,
+    p_dropoff_lat, p_dropoff_lng, p_dropoff_address,
+    p_fare_share
+  )
+  RETURNING * INTO subscription;
+
+  -- Occurrences already generated; later ones are booked as they're created
+  FOR occurrence_id IN
+    SELECT id FROM rides
+    WHERE template_id = p_template_id
+      AND status = 'available'
+      AND departure_time > now()
+    ORDER BY departure_time
+  LOOP
+    PERFORM book_subscription_occurrence(subscription.id, occurrence_id);
+  END LOOP;
+
+  RETURN subscription;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION subscribe_to_ride_template(uuid, integer, numeric, numeric, text, numeric, numeric, text, numeric) TO authenticated;
+
+CREATE OR REPLACE FUNCTION unsubscribe_from_ride_template(p_template_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  occurrence_id uuid;
+  released integer := 0;
+BEGIN
+  UPDATE ride_subscriptions
+  SET status = 'cancelled'
+  WHERE template_id = p_template_id
+    AND passenger_id = auth.uid()
+    AND status = 'active';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not subscribed to this ride';
+  END IF;
+
+  FOR occurrence_id IN
+    SELECT DISTINCT r.id FROM rides r
+    JOIN ride_bookings b ON b.ride_id = r.id
+    WHERE r.template_id = p_template_id
+      AND r.status IN ('available', 'accepted')
+      AND r.departure_time > now()
+      AND b.passenger_id = auth.uid()
+      AND b.status = 'confirmed'
+      AND b.subscription_id IS NOT NULL
+  LOOP
+    released := released + cancel_ride_booking(occurrence_id, 'Subscription cancelled');
+  END LOOP;
+
+  RETURN released;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION unsubscribe_from_ride_template(uuid) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS ride_templates_driver_id_idx ON ride_templates(driver_id);
+CREATE INDEX IF NOT EXISTS ride_subscriptions_passenger_id_idx ON ride_subscriptions(passenger_id);
@@ -0,0 +1,63 @@
+/*
+  # Live Driver Location
+
+  1. Changes
+    - `rides.current_location_at` (timestamptz): when `current_lat` and
+      `current_lng` were last published, so passengers can tell a stale
+      position from a live one
+    - Add `rides` to the `supabase_realtime` publication so ride updates reach
+      subscribed passengers
+
+  2. New Functions
+    - `publish_ride_location(ride_id, lat, lng)`: the driver's position update.
+      Only touches the location columns, so it never fires the status
+      triggers, and only for rides that haven't finished.
+
+  3. Security
+    - SECURITY INVOKER: "Drivers can update own rides" still decides who may
+      publish. Passengers receive updates through the existing rides select
+      policies.
+*/
+
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS current_location_at timestamptz;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'rides'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE rides;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION publish_ride_location(
+  p_ride_id uuid,
+  p_lat numeric,
+  p_lng numeric
+)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  published_at timestamptz := now();
+BEGIN
+  UPDATE rides
+  SET current_lat = p_lat,
+      current_lng = p_lng,
+      current_location_at = published_at
+  WHERE id = p_ride_id
+    AND status IN ('available', 'accepted', 'in_progress');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ride % is not active or not yours', p_ride_id;
+  END IF;
+
+  RETURN published_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION publish_ride_location(uuid, numeric, numeric) TO authenticated;
@@ -0,0 +1,215 @@
+/*
+  # Two-Way Ride Ratings
+
+  1. New Tables
+    - `ratings`
+      - `id` (uuid, primary key)
+      - `ride_id` (uuid, references rides)
+      - `rater_id` (uuid, references profiles)
+      - `ratee_id` (uuid, references profiles)
+      - `rater_role` (text: 'driver' rates a passenger, 'passenger' rates the driver)
+      - `stars` (integer, 1-5)
+      - `review` (text, nullable)
+      - `tags` (text[])
+      - `created_at` (timestamptz)
+      - One rating per rater, ratee and ride
+
+  2. Changes
+    - `profiles.rating` is the Bayesian average of the stars a user has
+      received: RATING_PRIOR_WEIGHT phantom ratings of RATING_PRIOR_MEAN are
+      added, so one bad trip doesn't sink a new user. Kept in sync with
+      src/algorithms/ratings.ts
+    - `profiles.total_rides` counts completed rides, as driver or passenger
+    - Existing profiles are backfilled; clients can no longer write either
+      column themselves
+
+  3. New Functions
+    - `submit_ride_rating(ride_id, ratee_id, stars, review, tags)`: a
+      passenger rates the driver or the driver rates a booked passenger,
+      once the ride is completed
+    - `refresh_profile_rating(profile_id)`: recomputes the average
+
+  4. Security
+    - Enable RLS on `ratings`; ratings are readable by signed-in users, like
+      profiles. They are only written through `submit_ride_rating`.
+*/
+
+CREATE TABLE IF NOT EXISTS ratings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_id uuid NOT NULL REFERENCES rides(id) ON DELETE CASCADE,
+  rater_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  ratee_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rater_role text NOT NULL,
+  stars integer NOT NULL,
+  review text,
+  tags text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_rating_stars CHECK (stars BETWEEN 1 AND 5),
+  CONSTRAINT valid_rater_role CHECK (rater_role IN ('driver', 'passenger')),
+  CONSTRAINT no_self_rating CHECK (rater_id <> ratee_id),
+  CONSTRAINT valid_review_length CHECK (char_length(review) <= 1000),
+  CONSTRAINT one_rating_per_ride UNIQUE (ride_id, rater_id, ratee_id)
+);
+
+ALTER TABLE ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view ratings"
+  ON ratings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS ratings_ratee_id_idx ON ratings(ratee_id);
+CREATE INDEX IF NOT EXISTS ratings_rater_id_idx ON ratings(rater_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION refresh_profile_rating(p_profile_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- RATING_PRIOR_MEAN and RATING_PRIOR_WEIGHT
+  prior_mean CONSTANT numeric := 4.5;
+  prior_weight CONSTANT numeric := 5;
+  new_rating numeric;
+BEGIN
+  SELECT ROUND((prior_mean * prior_weight + COALESCE(SUM(stars), 0)) / (prior_weight + COUNT(*)), 2)
+  INTO new_rating
+  FROM ratings
+  WHERE ratee_id = p_profile_id;
+
+  PERFORM set_config('profiles.stats_update', 'on', true);
+  UPDATE profiles SET rating = new_rating, updated_at = now() WHERE id = p_profile_id;
+  PERFORM set_config('profiles.stats_update', '', true);
+
+  RETURN new_rating;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_profile_rating(uuid) FROM PUBLIC, anon, authenticated;
+
+-- The "Users can update own profile" policy would otherwise let anyone set
+-- their own rating; the stats are only changed by the functions here
+CREATE OR REPLACE FUNCTION protect_profile_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(current_setting('profiles.stats_update', true), '') <> 'on' THEN
+    NEW.rating := OLD.rating;
+    NEW.total_rides := OLD.total_rides;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_protect_stats
+  BEFORE UPDATE OF rating, total_rides ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_stats();
+
+CREATE OR REPLACE FUNCTION submit_ride_rating(
+  p_ride_id uuid,
+  p_ratee_id uuid,
+  p_stars integer,
+  p_review text DEFAULT NULL,
+  p_tags text[] DEFAULT '{}'
+)
+RETURNS ratings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ride_row rides%ROWTYPE;
+  rater_role_value text;
+  rating_row ratings%ROWTYPE;
+BEGIN
+  SELECT * INTO ride_row FROM rides WHERE id = p_ride_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ride % not found', p_ride_id;
+  END IF;
+
+  IF ride_row.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed rides can be rated';
+  END IF;
+
+  IF auth.uid() = ride_row.driver_id AND EXISTS (
+    SELECT 1 FROM ride_bookings
+    WHERE ride_id = p_ride_id AND passenger_id = p_ratee_id AND status = 'confirmed'
+  ) THEN
+    rater_role_value := 'driver';
+  ELSIF p_ratee_id = ride_row.driver_id AND EXISTS (
+    SELECT 1 FROM ride_bookings
+    WHERE ride_id = p_ride_id AND passenger_id = auth.uid() AND status = 'confirmed'
+  ) THEN
+    rater_role_value := 'passenger';
+  ELSE
+    RAISE EXCEPTION 'You can only rate the people you rode with';
+  END IF;
+
+  INSERT INTO ratings (ride_id, rater_id, ratee_id, rater_role, stars, review, tags)
+  VALUES (
+    p_ride_id, auth.uid(), p_ratee_id, rater_role_value, p_stars,
+    NULLIF(btrim(p_review), ''), COALESCE(p_tags, '{}')
+  )
+  ON CONFLICT (ride_id, rater_id, ratee_id) DO NOTHING
+  RETURNING * INTO rating_row;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You have already rated this trip';
+  END IF;
+
+  PERFORM refresh_profile_rating(p_ratee_id);
+  RETURN rating_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_ride_rating(uuid, uuid, integer, text, text[]) TO authenticated;
+
+-- Completing a ride counts towards the driver's and every booked
+-- passenger's total
+CREATE OR REPLACE FUNCTION count_completed_ride()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM set_config('profiles.stats_update', 'on', true);
+    UPDATE profiles
+    SET total_rides = COALESCE(total_rides, 0) + 1,
+        updated_at = now()
+    WHERE id = NEW.driver_id
+       OR id IN (
+         SELECT passenger_id FROM ride_bookings
+         WHERE ride_id = NEW.id AND status = 'confirmed'
+       );
+    PERFORM set_config('profiles.stats_update', '', true);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rides_count_completed
+  AFTER UPDATE OF status ON rides
+  FOR EACH ROW EXECUTE FUNCTION count_completed_ride();
+
+-- Backfill: nobody has been rated yet, so everyone starts at the prior
+SELECT set_config('profiles.stats_update', 'on', false);
+
+UPDATE profiles
+SET rating = 4.5,
+    total_rides = (
+      SELECT COUNT(DISTINCT rides.id)
+      FROM rides
+      LEFT JOIN ride_bookings
+        ON ride_bookings.ride_id = rides.id AND ride_bookings.status = 'confirmed'
+      WHERE rides.status = 'completed'
+        AND (rides.driver_id = profiles.id OR ride_bookings.passenger_id = profiles.id)
+    );
+
+SELECT set_config('profiles.stats_update', '', false);
+
+ALTER TABLE profiles ALTER COLUMN rating SET DEFAULT 4.5;
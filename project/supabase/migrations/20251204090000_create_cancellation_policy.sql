@@ -0,0 +1,338 @@
+/*
+  # Cancellation Policy, Fees and Reliability
+
+  1. New Tables
+    - `cancellation_policies`
+      - `actor_role` (text: 'driver', 'passenger')
+      - `grace_min` (integer): free for this long after booking
+      - `free_before_departure_min` (integer): free while departure is further off
+      - `late_fee`, `late_fee_percent` (numeric): charged after that
+      - `en_route_fee`, `en_route_fee_percent` (numeric): once the trip has started
+      - `active` (boolean)
+      - `created_at` (timestamptz)
+    - `cancellations`
+      - `id` (uuid, primary key)
+      - `ride_id` (uuid, references rides)
+      - `booking_id` (uuid, references ride_bookings, nullable; null when a
+        driver cancels a ride nobody had booked)
+      - `actor_id` (uuid, references profiles)
+      - `actor_role` (text: 'driver', 'passenger')
+      - `reason` (text)
+      - `stage` (text: 'unbooked', 'grace', 'advance', 'late', 'en_route')
+      - `fee` (numeric)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `profiles.reliability` (numeric, 0-1, default 1): share of commitments
+      kept, counting late and en-route cancellations against completed
+      rides, with RELIABILITY_PRIOR_RIDES clean rides as a prior
+    - Passengers can now cancel a booking on a ride that has started; the
+      ride stays in progress
+    - A driver cancelling a ride records a cancellation per booked passenger
+
+  3. New Functions
+    - `quote_cancellation_fee(actor, booked_at, departure_at, en_route, fare)`:
+      kept in sync with src/algorithms/cancellation.ts
+    - `cancel_ride_booking(ride_id, reason)` records the fee and reason
+    - `refresh_profile_reliability(profile_id)`
+
+  4. Security
+    - Enable RLS on both tables; policies are readable by signed-in users
+      (edited from the dashboard only). Cancellations are readable by whoever
+      made them and by the ride's driver, and only written by functions.
+*/
+
+CREATE TABLE IF NOT EXISTS cancellation_policies (
+  actor_role text PRIMARY KEY,
+  grace_min integer NOT NULL DEFAULT 2,
+  free_before_departure_min integer NOT NULL DEFAULT 60,
+  late_fee numeric NOT NULL DEFAULT 0,
+  late_fee_percent numeric NOT NULL DEFAULT 0,
+  en_route_fee numeric NOT NULL DEFAULT 0,
+  en_route_fee_percent numeric NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_policy_actor CHECK (actor_role IN ('driver', 'passenger')),
+  CONSTRAINT valid_policy_fees CHECK (
+    late_fee >= 0 AND en_route_fee >= 0
+    AND late_fee_percent BETWEEN 0 AND 100
+    AND en_route_fee_percent BETWEEN 0 AND 100
+  )
+);
+
+ALTER TABLE cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view active cancellation policies"
+  ON cancellation_policies FOR SELECT
+  TO authenticated
+  USING (active = true);
+
+-- Seed the built-in policies (DEFAULT_CANCELLATION_POLICIES)
+INSERT INTO cancellation_policies
+  (actor_role, grace_min, free_before_departure_min, late_fee, late_fee_percent, en_route_fee, en_route_fee_percent)
+VALUES
+  ('passenger', 2, 60, 2, 0, 3, 20),
+  ('driver', 2, 60, 3, 0, 5, 0)
+ON CONFLICT (actor_role) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS cancellations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_id uuid NOT NULL REFERENCES rides(id) ON DELETE CASCADE,
+  booking_id uuid REFERENCES ride_bookings(id) ON DELETE SET NULL,
+  actor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  actor_role text NOT NULL,
+  reason text NOT NULL,
+  stage text NOT NULL,
+  fee numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_cancellation_actor CHECK (actor_role IN ('driver', 'passenger')),
+  CONSTRAINT valid_cancellation_stage CHECK (stage IN ('unbooked', 'grace', 'advance', 'late', 'en_route')),
+  CONSTRAINT valid_cancellation_fee CHECK (fee >= 0)
+);
+
+ALTER TABLE cancellations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own and their rides' cancellations"
+  ON cancellations FOR SELECT
+  TO authenticated
+  USING (
+    actor_id = auth.uid() OR EXISTS (
+      SELECT 1 FROM rides
+      WHERE rides.id = cancellations.ride_id
+        AND rides.driver_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS cancellations_actor_id_idx ON cancellations(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS cancellations_ride_id_idx ON cancellations(ride_id);
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS reliability numeric NOT NULL DEFAULT 1;
+
+ALTER TABLE profiles ADD CONSTRAINT valid_reliability CHECK (reliability BETWEEN 0 AND 1);
+
+CREATE OR REPLACE FUNCTION quote_cancellation_fee(
+  p_actor text,
+  p_booked_at timestamptz,
+  p_departure_at timestamptz,
+  p_en_route boolean,
+  p_fare numeric,
+  p_now timestamptz DEFAULT now()
+)
+RETURNS TABLE (stage text, fee numeric)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  policy_row cancellation_policies%ROWTYPE;
+  raw_fee numeric;
+BEGIN
+  SELECT * INTO policy_row FROM cancellation_policies WHERE actor_role = p_actor AND active;
+
+  -- Without an active policy cancelling is free
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'grace'::text, 0::numeric;
+    RETURN;
+  END IF;
+
+  IF p_en_route THEN
+    stage := 'en_route';
+    raw_fee := policy_row.en_route_fee + p_fare * policy_row.en_route_fee_percent / 100;
+  ELSIF p_now - p_booked_at <= make_interval(mins => policy_row.grace_min) THEN
+    stage := 'grace';
+    raw_fee := 0;
+  ELSIF p_departure_at - p_now >= make_interval(mins => policy_row.free_before_departure_min) THEN
+    stage := 'advance';
+    raw_fee := 0;
+  ELSE
+    stage := 'late';
+    raw_fee := policy_row.late_fee + p_fare * policy_row.late_fee_percent / 100;
+  END IF;
+
+  fee := ROUND(LEAST(raw_fee, p_fare), 2);
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION quote_cancellation_fee(text, timestamptz, timestamptz, boolean, numeric, timestamptz) TO authenticated;
+
+-- RELIABILITY_PRIOR_RIDES clean rides, as in reliabilityScore()
+CREATE OR REPLACE FUNCTION profile_reliability(p_profile_id uuid, p_total_rides integer)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ROUND(
+    (COALESCE(p_total_rides, 0) + 4)::numeric / (COALESCE(p_total_rides, 0) + 4 + COUNT(*)),
+    3
+  )
+  FROM cancellations
+  WHERE actor_id = p_profile_id
+    AND stage IN ('late', 'en_route');
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_profile_reliability(p_profile_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_reliability numeric;
+BEGIN
+  PERFORM set_config('profiles.stats_update', 'on', true);
+  UPDATE profiles
+  SET reliability = profile_reliability(id, total_rides),
+      updated_at = now()
+  WHERE id = p_profile_id
+  RETURNING reliability INTO new_reliability;
+  PERFORM set_config('profiles.stats_update', '', true);
+
+  RETURN new_reliability;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_profile_reliability(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Reliability is a stat too: clients can't set it, and it moves with
+-- total_rides when a ride completes
+CREATE OR REPLACE FUNCTION protect_profile_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(current_setting('profiles.stats_update', true), '') <> 'on' THEN
+    NEW.rating := OLD.rating;
+    NEW.total_rides := OLD.total_rides;
+    NEW.reliability := OLD.reliability;
+  ELSIF NEW.total_rides IS DISTINCT FROM OLD.total_rides THEN
+    NEW.reliability := profile_reliability(NEW.id, NEW.total_rides);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_stats ON profiles;
+
+CREATE TRIGGER profiles_protect_stats
+  BEFORE UPDATE OF rating, total_rides, reliability ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_stats();
+
+CREATE OR REPLACE FUNCTION refresh_reliability_on_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_profile_reliability(NEW.actor_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cancellations_refresh_reliability
+  AFTER INSERT ON cancellations
+  FOR EACH ROW EXECUTE FUNCTION refresh_reliability_on_cancellation();
+
+CREATE OR REPLACE FUNCTION cancel_ride_booking(p_ride_id uuid, p_reason text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  released integer;
+  ride_row rides%ROWTYPE;
+  cancel_reason text := COALESCE(NULLIF(btrim(p_reason), ''), 'Passenger cancelled');
+BEGIN
+  SELECT * INTO ride_row FROM rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ride % not found', p_ride_id;
+  END IF;
+
+  IF ride_row.status NOT IN ('available', 'accepted', 'in_progress') THEN
+    RAISE EXCEPTION 'A % ride can no longer be cancelled by a passenger', ride_row.status;
+  END IF;
+
+  INSERT INTO cancellations (ride_id, booking_id, actor_id, actor_role, reason, stage, fee)
+  SELECT p_ride_id, b.id, auth.uid(), 'passenger', cancel_reason, q.stage, q.fee
+  FROM ride_bookings b
+  CROSS JOIN LATERAL quote_cancellation_fee(
+    'passenger', b.created_at, ride_row.departure_time,
+    ride_row.status = 'in_progress', b.fare_share
+  ) q
+  WHERE b.ride_id = p_ride_id
+    AND b.passenger_id = auth.uid()
+    AND b.status = 'confirmed';
+
+  PERFORM set_config('rides.transition_reason', cancel_reason, true);
+  PERFORM set_config('rides.actor_role', 'passenger', true);
+
+  WITH cancelled AS (
+    UPDATE ride_bookings
+    SET status = 'cancelled'
+    WHERE ride_id = p_ride_id
+      AND passenger_id = auth.uid()
+      AND status = 'confirmed'
+    RETURNING seats
+  )
+  SELECT COALESCE(SUM(seats), 0) INTO released FROM cancelled;
+
+  IF released = 0 THEN
+    RAISE EXCEPTION 'You have no booking on this ride';
+  END IF;
+
+  -- A trip under way keeps going with the seat empty
+  UPDATE rides
+  SET seats_available = seats_available + released,
+      passenger_id = CASE WHEN passenger_id = auth.uid() THEN NULL ELSE passenger_id END,
+      status = CASE WHEN status = 'in_progress' THEN status ELSE 'available' END,
+      updated_at = now()
+  WHERE id = p_ride_id;
+
+  PERFORM set_config('rides.actor_role', '', true);
+  RETURN released;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_ride_booking(uuid, text) TO authenticated;
+
+-- A driver's cancellation is charged per passenger left without a ride.
+-- 'system' cancellations (expired rides) are not recorded.
+CREATE OR REPLACE FUNCTION record_driver_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cancel_reason text := COALESCE(NULLIF(current_setting('rides.transition_reason', true), ''), 'Driver cancelled');
+BEGIN
+  IF NEW.status <> 'cancelled' OR OLD.status = 'cancelled'
+    OR current_ride_actor_role(OLD.driver_id) <> 'driver' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO cancellations (ride_id, booking_id, actor_id, actor_role, reason, stage, fee)
+  SELECT NEW.id, b.id, NEW.driver_id, 'driver', cancel_reason, q.stage, q.fee
+  FROM ride_bookings b
+  CROSS JOIN LATERAL quote_cancellation_fee(
+    'driver', b.created_at, OLD.departure_time, OLD.status = 'in_progress', b.fare_share
+  ) q
+  WHERE b.ride_id = NEW.id
+    AND b.status = 'confirmed';
+
+  IF NOT FOUND THEN
+    INSERT INTO cancellations (ride_id, actor_id, actor_role, reason, stage, fee)
+    VALUES (NEW.id, NEW.driver_id, 'driver', cancel_reason, 'unbooked', 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rides_record_driver_cancellation
+  AFTER UPDATE OF status ON rides
+  FOR EACH ROW EXECUTE FUNCTION record_driver_cancellation();
@@ -0,0 +1,521 @@
+/*
+  # Wallets and Double-Entry Ledger
+
+  1. New Tables
+    - `wallet_accounts`
+      - `id` (uuid, primary key)
+      - `owner_id` (uuid, references profiles; set for 'user' accounts only)
+      - `kind` (text: 'user', 'escrow', 'platform_fees', 'provider_clearing')
+      - `balance_cents` (bigint): running total of the account's entries
+      - `created_at` (timestamptz)
+    - `ledger_transactions`
+      - `id` (uuid, primary key)
+      - `kind` (text: 'top_up', 'hold', 'capture', 'refund', 'cancellation_fee')
+      - `ride_id` (uuid, references rides, nullable)
+      - `booking_id` (uuid, references ride_bookings, nullable)
+      - `provider`, `provider_ref` (text, nullable): the payment provider's
+        charge for top-ups, unique so a charge is only credited once
+      - `description` (text, nullable)
+      - `created_at` (timestamptz)
+    - `ledger_entries`
+      - `id` (uuid, primary key)
+      - `transaction_id` (uuid, references ledger_transactions)
+      - `account_id` (uuid, references wallet_accounts)
+      - `amount_cents` (bigint, non-zero; positive credits the account)
+      - `created_at` (timestamptz)
+
+  2. Money Flow (kept in sync with src/algorithms/ledger.ts)
+    - Top-up: provider_clearing → the user's wallet
+    - Booking: the fare moves from the passenger's wallet into escrow
+    - Completion: escrow pays the driver, less PLATFORM_COMMISSION_PERCENT
+      to platform_fees
+    - Cancellation: escrow refunds the passenger, less any passenger
+      cancellation fee, which is paid out like a fare. A driver's fee moves
+      from their wallet to the passenger's. Rides cancelled by the system
+      refund in full.
+    - Wallets may go negative when a recurring ride is booked on the
+      passenger's behalf; the next top-up settles it
+    - Bookings made before this migration have no hold and are not settled
+
+  3. Integrity
+    - The entries of every transaction must sum to zero (checked at commit)
+    - Entries can't be updated or deleted
+    - `reconcile_ledger()` checks that all balances sum to zero, cached
+      balances match their entries, and escrow equals the open holds
+
+  4. Security
+    - Enable RLS on all three tables; users can read their own wallet, its
+      entries and the transactions they appear in. Everything is written by
+      functions and triggers.
+    - `top_up_wallet` only accepts the fake provider from clients; a real
+      provider would confirm charges from its webhook with the service role
+    - `reconcile_ledger()` is only executable by service_role
+    - The ledger internals (`wallet_account_id`, `post_ledger_transaction`,
+      `settle_booking`) aren't executable by clients, only by the functions
+      and triggers above
+*/
+
+CREATE TABLE IF NOT EXISTS wallet_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid REFERENCES profiles(id) ON DELETE RESTRICT,
+  kind text NOT NULL,
+  balance_cents bigint NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_wallet_kind CHECK (kind IN ('user', 'escrow', 'platform_fees', 'provider_clearing')),
+  CONSTRAINT wallet_owner_matches_kind CHECK ((kind = 'user') = (owner_id IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS wallet_accounts_owner_idx ON wallet_accounts(owner_id) WHERE kind = 'user';
+CREATE UNIQUE INDEX IF NOT EXISTS wallet_accounts_system_kind_idx ON wallet_accounts(kind) WHERE kind <> 'user';
+
+INSERT INTO wallet_accounts (kind)
+VALUES ('escrow'), ('platform_fees'), ('provider_clearing')
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS ledger_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL,
+  ride_id uuid REFERENCES rides(id) ON DELETE SET NULL,
+  booking_id uuid REFERENCES ride_bookings(id) ON DELETE SET NULL,
+  provider text,
+  provider_ref text,
+  description text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_ledger_kind CHECK (kind IN ('top_up', 'hold', 'capture', 'refund', 'cancellation_fee')),
+  CONSTRAINT unique_provider_ref UNIQUE (provider, provider_ref)
+);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL REFERENCES ledger_transactions(id) ON DELETE RESTRICT,
+  account_id uuid NOT NULL REFERENCES wallet_accounts(id) ON DELETE RESTRICT,
+  amount_cents bigint NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT non_zero_entry CHECK (amount_cents <> 0)
+);
+
+CREATE INDEX IF NOT EXISTS ledger_entries_account_idx ON ledger_entries(account_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS ledger_entries_transaction_idx ON ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS ledger_transactions_booking_idx ON ledger_transactions(booking_id, kind);
+
+ALTER TABLE wallet_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own wallet"
+  ON wallet_accounts FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Users can view own ledger entries"
+  ON ledger_entries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM wallet_accounts
+      WHERE wallet_accounts.id = ledger_entries.account_id
+        AND wallet_accounts.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view own ledger transactions"
+  ON ledger_transactions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ledger_entries
+      JOIN wallet_accounts ON wallet_accounts.id = ledger_entries.account_id
+      WHERE ledger_entries.transaction_id = ledger_transactions.id
+        AND wallet_accounts.owner_id = auth.uid()
+    )
+  );
+
+-- Running balances
+CREATE OR REPLACE FUNCTION apply_ledger_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE wallet_accounts
+  SET balance_cents = balance_cents + NEW.amount_cents
+  WHERE id = NEW.account_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ledger_entries_apply
+  AFTER INSERT ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION apply_ledger_entry();
+
+CREATE OR REPLACE FUNCTION reject_ledger_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Ledger entries are append-only; post a correcting transaction instead';
+END;
+$$;
+
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION reject_ledger_change();
+
+-- Checked at commit, once all of a transaction's entries are in
+CREATE OR REPLACE FUNCTION check_transaction_balanced()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  total bigint;
+BEGIN
+  SELECT SUM(amount_cents) INTO total
+  FROM ledger_entries
+  WHERE transaction_id = NEW.transaction_id;
+
+  IF total <> 0 THEN
+    RAISE EXCEPTION 'Ledger transaction % is unbalanced by % cents', NEW.transaction_id, total;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER ledger_entries_balanced
+  AFTER INSERT ON ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION check_transaction_balanced();
+
+CREATE OR REPLACE FUNCTION wallet_account_id(p_owner_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  account uuid;
+BEGIN
+  INSERT INTO wallet_accounts (owner_id, kind)
+  VALUES (p_owner_id, 'user')
+  ON CONFLICT (owner_id) WHERE kind = 'user' DO NOTHING;
+
+  SELECT id INTO account FROM wallet_accounts WHERE owner_id = p_owner_id AND kind = 'user';
+  RETURN account;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION wallet_account_id(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION system_account_id(p_kind text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id FROM wallet_accounts WHERE kind = p_kind AND kind <> 'user';
+$$;
+
+-- PLATFORM_COMMISSION_PERCENT, rounded to the cent; the driver gets the rest
+CREATE OR REPLACE FUNCTION split_commission(p_amount_cents bigint)
+RETURNS TABLE (payout_cents bigint, commission_cents bigint)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_amount_cents - ROUND(p_amount_cents * 15 / 100.0)::bigint,
+         ROUND(p_amount_cents * 15 / 100.0)::bigint;
+$$;
+
+-- p_entries: [{ "account_id": uuid, "amount_cents": bigint }]; zero amounts
+-- are dropped
+CREATE OR REPLACE FUNCTION post_ledger_transaction(
+  p_kind text,
+  p_ride_id uuid,
+  p_booking_id uuid,
+  p_description text,
+  p_entries jsonb,
+  p_provider text DEFAULT NULL,
+  p_provider_ref text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_transaction_id uuid;
+BEGIN
+  IF (SELECT COALESCE(SUM((entry->>'amount_cents')::bigint), 0)
+      FROM jsonb_array_elements(p_entries) entry) <> 0 THEN
+    RAISE EXCEPTION 'Unbalanced % transaction', p_kind;
+  END IF;
+
+  INSERT INTO ledger_transactions (kind, ride_id, booking_id, description, provider, provider_ref)
+  VALUES (p_kind, p_ride_id, p_booking_id, p_description, p_provider, p_provider_ref)
+  RETURNING id INTO new_transaction_id;
+
+  INSERT INTO ledger_entries (transaction_id, account_id, amount_cents)
+  SELECT new_transaction_id, (entry->>'account_id')::uuid, (entry->>'amount_cents')::bigint
+  FROM jsonb_array_elements(p_entries) entry
+  WHERE (entry->>'amount_cents')::bigint <> 0;
+
+  RETURN new_transaction_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION post_ledger_transaction(text, uuid, uuid, text, jsonb, text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION hold_booking_fare()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fare_cents bigint := ROUND(NEW.fare_share * 100)::bigint;
+BEGIN
+  IF fare_cents > 0 THEN
+    PERFORM post_ledger_transaction(
+      'hold', NEW.ride_id, NEW.id, 'Fare held for booking',
+      jsonb_build_array(
+        jsonb_build_object('account_id', wallet_account_id(NEW.passenger_id), 'amount_cents', -fare_cents),
+        jsonb_build_object('account_id', system_account_id('escrow'), 'amount_cents', fare_cents)
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ride_bookings_hold_fare
+  AFTER INSERT ON ride_bookings
+  FOR EACH ROW EXECUTE FUNCTION hold_booking_fare();
+
+/*
+  Releases a booking's hold from escrow: 'capture' pays the driver, 'refund'
+  returns it to the passenger less p_passenger_fee_cents, which is paid out
+  to the driver. Does nothing unless the booking has a hold that hasn't been
+  released yet, so it is safe to call twice.
+*/
+CREATE OR REPLACE FUNCTION settle_booking(
+  p_booking_id uuid,
+  p_outcome text,
+  p_passenger_fee_cents bigint DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking_row ride_bookings%ROWTYPE;
+  driver uuid;
+  held_cents bigint;
+  fee_cents bigint;
+  split record;
+BEGIN
+  SELECT * INTO booking_row FROM ride_bookings WHERE id = p_booking_id;
+  SELECT driver_id INTO driver FROM rides WHERE id = booking_row.ride_id;
+
+  SELECT -SUM(e.amount_cents) INTO held_cents
+  FROM ledger_transactions t
+  JOIN ledger_entries e ON e.transaction_id = t.id
+  WHERE t.booking_id = p_booking_id
+    AND t.kind = 'hold'
+    AND e.account_id = wallet_account_id(booking_row.passenger_id);
+
+  IF held_cents IS NULL OR EXISTS (
+    SELECT 1 FROM ledger_transactions
+    WHERE booking_id = p_booking_id AND kind IN ('capture', 'refund')
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF p_outcome = 'capture' THEN
+    SELECT * INTO split FROM split_commission(held_cents);
+    PERFORM post_ledger_transaction(
+      'capture', booking_row.ride_id, p_booking_id, 'Fare captured on completion',
+      jsonb_build_array(
+        jsonb_build_object('account_id', system_account_id('escrow'), 'amount_cents', -held_cents),
+        jsonb_build_object('account_id', wallet_account_id(driver), 'amount_cents', split.payout_cents),
+        jsonb_build_object('account_id', system_account_id('platform_fees'), 'amount_cents', split.commission_cents)
+      )
+    );
+  ELSE
+    fee_cents := LEAST(GREATEST(p_passenger_fee_cents, 0), held_cents);
+    SELECT * INTO split FROM split_commission(fee_cents);
+    PERFORM post_ledger_transaction(
+      'refund', booking_row.ride_id, p_booking_id,
+      CASE WHEN fee_cents > 0 THEN 'Refund less cancellation fee' ELSE 'Refund' END,
+      jsonb_build_array(
+        jsonb_build_object('account_id', system_account_id('escrow'), 'amount_cents', -held_cents),
+        jsonb_build_object('account_id', wallet_account_id(booking_row.passenger_id), 'amount_cents', held_cents - fee_cents),
+        jsonb_build_object('account_id', wallet_account_id(driver), 'amount_cents', split.payout_cents),
+        jsonb_build_object('account_id', system_account_id('platform_fees'), 'amount_cents', split.commission_cents)
+      )
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION settle_booking(uuid, text, bigint) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION settle_cancellation_wallets()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fee_cents bigint := ROUND(NEW.fee * 100)::bigint;
+  booking_row ride_bookings%ROWTYPE;
+BEGIN
+  IF NEW.booking_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.actor_role = 'passenger' THEN
+    PERFORM settle_booking(NEW.booking_id, 'refund', fee_cents);
+    RETURN NEW;
+  END IF;
+
+  PERFORM settle_booking(NEW.booking_id, 'refund', 0);
+
+  IF fee_cents > 0 THEN
+    SELECT * INTO booking_row FROM ride_bookings WHERE id = NEW.booking_id;
+    PERFORM post_ledger_transaction(
+      'cancellation_fee', NEW.ride_id, NEW.booking_id, 'Driver cancellation fee',
+      jsonb_build_array(
+        jsonb_build_object('account_id', wallet_account_id(NEW.actor_id), 'amount_cents', -fee_cents),
+        jsonb_build_object('account_id', wallet_account_id(booking_row.passenger_id), 'amount_cents', fee_cents)
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cancellations_settle_wallets
+  AFTER INSERT ON cancellations
+  FOR EACH ROW EXECUTE FUNCTION settle_cancellation_wallets();
+
+-- Fires after rides_record_driver_cancellation (triggers run in name order),
+-- so this only refunds holds a cancellation record didn't already settle
+CREATE OR REPLACE FUNCTION settle_ride_wallets()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  open_booking_id uuid;
+BEGIN
+  IF NEW.status = OLD.status OR NEW.status NOT IN ('completed', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  FOR open_booking_id IN
+    SELECT id FROM ride_bookings WHERE ride_id = NEW.id AND status = 'confirmed'
+  LOOP
+    PERFORM settle_booking(
+      open_booking_id,
+      CASE WHEN NEW.status = 'completed' THEN 'capture' ELSE 'refund' END
+    );
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rides_settle_wallets
+  AFTER UPDATE OF status ON rides
+  FOR EACH ROW EXECUTE FUNCTION settle_ride_wallets();
+
+CREATE OR REPLACE FUNCTION top_up_wallet(
+  p_amount_cents bigint,
+  p_provider text,
+  p_provider_ref text
+)
+RETURNS wallet_accounts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  account wallet_accounts%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_provider <> 'fake' THEN
+    RAISE EXCEPTION 'Top-ups from % must be confirmed by the provider', p_provider;
+  END IF;
+
+  IF p_amount_cents <= 0 OR p_amount_cents > 50000 THEN
+    RAISE EXCEPTION 'Top up between $0.01 and $500';
+  END IF;
+
+  -- The same charge is only credited once
+  IF NOT EXISTS (
+    SELECT 1 FROM ledger_transactions
+    WHERE provider = p_provider AND provider_ref = p_provider_ref
+  ) THEN
+    PERFORM post_ledger_transaction(
+      'top_up', NULL, NULL, 'Wallet top-up',
+      jsonb_build_array(
+        jsonb_build_object('account_id', system_account_id('provider_clearing'), 'amount_cents', -p_amount_cents),
+        jsonb_build_object('account_id', wallet_account_id(auth.uid()), 'amount_cents', p_amount_cents)
+      ),
+      p_provider, p_provider_ref
+    );
+  END IF;
+
+  SELECT * INTO account FROM wallet_accounts WHERE owner_id = auth.uid() AND kind = 'user';
+  RETURN account;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION top_up_wallet(bigint, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION reconcile_ledger()
+RETURNS TABLE (check_name text, ok boolean, detail text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'books_balance', SUM(balance_cents) = 0,
+         'All balances sum to ' || SUM(balance_cents) || ' cents'
+  FROM wallet_accounts
+  UNION ALL
+  SELECT 'transactions_balance', COUNT(*) = 0,
+         COUNT(*) || ' unbalanced transaction(s)'
+  FROM (
+    SELECT transaction_id FROM ledger_entries
+    GROUP BY transaction_id HAVING SUM(amount_cents) <> 0
+  ) unbalanced
+  UNION ALL
+  SELECT 'cached_balances', COUNT(*) = 0,
+         COUNT(*) || ' account(s) whose balance differs from their entries'
+  FROM wallet_accounts a
+  WHERE a.balance_cents <> COALESCE(
+    (SELECT SUM(amount_cents) FROM ledger_entries e WHERE e.account_id = a.id), 0
+  )
+  UNION ALL
+  SELECT 'escrow_matches_open_holds', escrow.balance_cents = held.total,
+         'Escrow holds ' || escrow.balance_cents || ' cents, open holds total ' || held.total
+  FROM wallet_accounts escrow,
+       (
+         SELECT COALESCE(SUM(e.amount_cents), 0) AS total
+         FROM ledger_transactions t
+         JOIN ledger_entries e ON e.transaction_id = t.id
+         WHERE t.kind = 'hold'
+           AND e.account_id = system_account_id('escrow')
+           AND NOT EXISTS (
+             SELECT 1 FROM ledger_transactions released
+             WHERE released.booking_id = t.booking_id
+               AND released.kind IN ('capture', 'refund')
+           )
+       ) held
+  WHERE escrow.kind = 'escrow';
+$$;
+
+REVOKE EXECUTE ON FUNCTION reconcile_ledger() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reconcile_ledger() TO service_role;
@@ -0,0 +1,54 @@
+/*
+  # Fare Split Stops
+
+  1. New Functions
+    - `fare_split_stops(ride_id)` returns every confirmed booking on the ride
+      with its seats, pickup and dropoff, so the fare can be split among the
+      pooled passengers by distance ridden (see src/algorithms/fareSplit.ts)
+
+  2. Security
+    - SECURITY DEFINER so a passenger can split the fare with co-riders whose
+      bookings ride_bookings RLS hides from them
+    - Only the ride's driver and its booked passengers get rows
+    - Other passengers' stops are rounded to 3 decimals (~100 m) for
+      passengers, and no passenger ids, names or addresses are returned
+*/
+
+CREATE OR REPLACE FUNCTION fare_split_stops(p_ride_id uuid)
+RETURNS TABLE (
+  booking_id uuid,
+  seats integer,
+  pickup_lat numeric,
+  pickup_lng numeric,
+  dropoff_lat numeric,
+  dropoff_lng numeric,
+  is_own boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH viewer AS (
+    SELECT EXISTS (
+      SELECT 1 FROM rides WHERE id = p_ride_id AND driver_id = auth.uid()
+    ) AS is_driver
+  )
+  SELECT
+    b.id,
+    b.seats,
+    CASE WHEN v.is_driver OR b.passenger_id = auth.uid() THEN b.pickup_lat ELSE round(b.pickup_lat, 3) END,
+    CASE WHEN v.is_driver OR b.passenger_id = auth.uid() THEN b.pickup_lng ELSE round(b.pickup_lng, 3) END,
+    CASE WHEN v.is_driver OR b.passenger_id = auth.uid() THEN b.dropoff_lat ELSE round(b.dropoff_lat, 3) END,
+    CASE WHEN v.is_driver OR b.passenger_id = auth.uid() THEN b.dropoff_lng ELSE round(b.dropoff_lng, 3) END,
+    b.passenger_id = auth.uid()
+  FROM ride_bookings b
+  CROSS JOIN viewer v
+  WHERE b.ride_id = p_ride_id
+    AND b.status = 'confirmed'
+    AND (v.is_driver OR is_ride_passenger(p_ride_id))
+  ORDER BY b.created_at;
+$$;
+
+REVOKE ALL ON FUNCTION fare_split_stops(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION fare_split_stops(uuid) TO authenticated;
@@ -0,0 +1,390 @@
+/*
+  # Promo Codes and Discount Campaigns
+
+  1. New Tables
+    - `promotions`
+      - `id` (uuid, primary key)
+      - `code` (text, unique, upper case)
+      - `description` (text)
+      - `kind` (text: 'percent', 'flat') and `value` (numeric): percent off or
+        a flat amount off
+      - `max_discount` (numeric, nullable): caps a percent code
+      - `min_fare` (numeric): fares below this don't qualify
+      - `first_ride_only` (boolean): only for a passenger's first booking
+      - `per_user_limit`, `global_limit` (integer, nullable): redemptions per
+        passenger and in total; null for no limit
+      - `starts_at`, `ends_at` (timestamptz, nullable): bookable window
+      - `vehicle_types` (text[], nullable): null for every vehicle type
+      - `start_hour`, `end_hour` (integer, nullable): departure hours covered
+        (e.g. off-peak), in `time_zone`; wraps past midnight if start > end
+      - `time_zone` (text)
+      - `active` (boolean)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `ride_bookings.promotion_id` and `ride_bookings.discount`: the code used
+      and the amount it took off; `fare_share` is what the passenger pays
+    - A redemption is a booking made with the code that is still confirmed on
+      a ride that wasn't cancelled, so cancelling gives the code back
+    - The platform funds discounts: on capture the driver is paid on the full
+      fare and the discount comes out of the platform's commission
+
+  3. New Functions
+    - `promotion_discount(promotion, fare)` and `promotion_error(promotion,
+      fare, vehicle_type, departure, user_id)`: kept in sync with
+      src/algorithms/promotions.ts
+    - `lookup_promotion(code)`: the active promotion with that code and the
+      caller's usage of it, for checking a code before booking
+    - `book_ride_seats(...)` gains `p_promo_code`, validated and redeemed
+      under a lock on the promotion so limits can't be overrun
+    - `settle_booking(...)` captures discounted bookings as described above
+
+  4. Security
+    - Enable RLS on `promotions` with no policies: codes can only be looked
+      up one at a time through `lookup_promotion`, never listed. Campaigns
+      are managed from the dashboard.
+*/
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  description text NOT NULL DEFAULT '',
+  kind text NOT NULL,
+  value numeric NOT NULL,
+  max_discount numeric,
+  min_fare numeric NOT NULL DEFAULT 0,
+  first_ride_only boolean NOT NULL DEFAULT false,
+  per_user_limit integer DEFAULT 1,
+  global_limit integer,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  vehicle_types text[],
+  start_hour integer,
+  end_hour integer,
+  time_zone text NOT NULL DEFAULT 'UTC',
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_promotion_code CHECK (code <> '' AND code = upper(btrim(code))),
+  CONSTRAINT valid_promotion_kind CHECK (kind IN ('percent', 'flat')),
+  CONSTRAINT valid_promotion_value CHECK (value > 0 AND (kind <> 'percent' OR value <= 100)),
+  CONSTRAINT valid_promotion_limits CHECK (
+    min_fare >= 0
+    AND (max_discount IS NULL OR max_discount > 0)
+    AND (per_user_limit IS NULL OR per_user_limit > 0)
+    AND (global_limit IS NULL OR global_limit > 0)
+  ),
+  CONSTRAINT valid_promotion_window CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at),
+  CONSTRAINT valid_promotion_hours CHECK (
+    (start_hour IS NULL) = (end_hour IS NULL)
+    AND (start_hour IS NULL OR (start_hour BETWEEN 0 AND 23 AND end_hour BETWEEN 0 AND 24))
+  )
+);
+
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE ride_bookings
+  ADD COLUMN IF NOT EXISTS promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS discount numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE ride_bookings
+  ADD CONSTRAINT valid_booking_discount CHECK (discount >= 0);
+
+CREATE INDEX IF NOT EXISTS ride_bookings_promotion_idx
+  ON ride_bookings (promotion_id)
+  WHERE promotion_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION promotion_usage(p_promotion_id uuid, p_user_id uuid)
+RETURNS TABLE (user_redemptions integer, total_redemptions integer, user_rides integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (COUNT(*) FILTER (WHERE b.promotion_id = p_promotion_id AND b.passenger_id = p_user_id))::integer,
+    (COUNT(*) FILTER (WHERE b.promotion_id = p_promotion_id))::integer,
+    (COUNT(*) FILTER (WHERE b.passenger_id = p_user_id))::integer
+  FROM ride_bookings b
+  JOIN rides r ON r.id = b.ride_id
+  WHERE b.status = 'confirmed'
+    AND r.status <> 'cancelled'
+    AND (b.promotion_id = p_promotion_id OR b.passenger_id = p_user_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION promotion_usage(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION promotion_discount(p_promotion promotions, p_fare numeric)
+RETURNS numeric
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  fare_cents bigint := ROUND(p_fare * 100);
+  discount_cents bigint;
+BEGIN
+  discount_cents := CASE
+    WHEN p_promotion.kind = 'percent' THEN ROUND(fare_cents * p_promotion.value / 100.0)
+    ELSE ROUND(p_promotion.value * 100)
+  END;
+  IF p_promotion.max_discount IS NOT NULL THEN
+    discount_cents := LEAST(discount_cents, ROUND(p_promotion.max_discount * 100));
+  END IF;
+  RETURN GREATEST(0, LEAST(discount_cents, fare_cents)) / 100.0;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION promotion_error(
+  p_promotion promotions,
+  p_fare numeric,
+  p_vehicle_type text,
+  p_departure timestamptz,
+  p_user_id uuid
+)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  usage record;
+  departure_hour integer;
+BEGIN
+  SELECT * INTO usage FROM promotion_usage(p_promotion.id, p_user_id);
+
+  IF p_promotion.starts_at IS NOT NULL AND now() < p_promotion.starts_at THEN
+    RETURN format('%s isn''t valid until %s', p_promotion.code, to_char(p_promotion.starts_at, 'YYYY-MM-DD'));
+  END IF;
+  IF p_promotion.ends_at IS NOT NULL AND now() >= p_promotion.ends_at THEN
+    RETURN format('%s expired on %s', p_promotion.code, to_char(p_promotion.ends_at, 'YYYY-MM-DD'));
+  END IF;
+  IF p_promotion.global_limit IS NOT NULL AND usage.total_redemptions >= p_promotion.global_limit THEN
+    RETURN format('%s has been fully redeemed', p_promotion.code);
+  END IF;
+  IF p_promotion.per_user_limit IS NOT NULL AND usage.user_redemptions >= p_promotion.per_user_limit THEN
+    RETURN format('You''ve already used %s', p_promotion.code);
+  END IF;
+  IF p_promotion.first_ride_only AND usage.user_rides > 0 THEN
+    RETURN format('%s is only for your first ride', p_promotion.code);
+  END IF;
+  IF p_promotion.vehicle_types IS NOT NULL AND NOT (p_vehicle_type = ANY (p_promotion.vehicle_types)) THEN
+    RETURN format('%s is only valid on %s rides', p_promotion.code, array_to_string(p_promotion.vehicle_types, ', '));
+  END IF;
+  IF p_promotion.start_hour IS NOT NULL THEN
+    departure_hour := extract(hour FROM p_departure AT TIME ZONE p_promotion.time_zone)::integer;
+    IF (p_promotion.start_hour > p_promotion.end_hour
+          AND NOT (departure_hour >= p_promotion.start_hour OR departure_hour < p_promotion.end_hour))
+       OR (p_promotion.start_hour <= p_promotion.end_hour
+          AND NOT (departure_hour >= p_promotion.start_hour AND departure_hour < p_promotion.end_hour)) THEN
+      RETURN format('%s is only valid for rides leaving between %s:00 and %s:00',
+        p_promotion.code, p_promotion.start_hour, p_promotion.end_hour);
+    END IF;
+  END IF;
+  IF p_fare < p_promotion.min_fare THEN
+    RETURN format('%s needs a fare of at least $%s', p_promotion.code, to_char(p_promotion.min_fare, 'FM999990.00'));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION promotion_error(promotions, numeric, text, timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION lookup_promotion(p_code text)
+RETURNS TABLE (
+  code text,
+  description text,
+  kind text,
+  value numeric,
+  max_discount numeric,
+  min_fare numeric,
+  first_ride_only boolean,
+  per_user_limit integer,
+  global_limit integer,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  vehicle_types text[],
+  start_hour integer,
+  end_hour integer,
+  time_zone text,
+  user_redemptions integer,
+  total_redemptions integer,
+  user_rides integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.code, p.description, p.kind, p.value, p.max_discount, p.min_fare,
+    p.first_ride_only, p.per_user_limit, p.global_limit, p.starts_at, p.ends_at,
+    p.vehicle_types, p.start_hour, p.end_hour, p.time_zone,
+    u.user_redemptions, u.total_redemptions, u.user_rides
+  FROM promotions p
+  CROSS JOIN LATERAL promotion_usage(p.id, auth.uid()) u
+  WHERE p.code = upper(btrim(p_code))
+    AND p.active = true
+    AND auth.uid() IS NOT NULL;
+$$;
+
+REVOKE ALL ON FUNCTION lookup_promotion(text) FROM public;
+GRANT EXECUTE ON FUNCTION lookup_promotion(text) TO authenticated;
+
+DROP FUNCTION IF EXISTS book_ride_seats(uuid, integer, numeric, numeric, text, numeric, numeric, text, numeric);
+
+CREATE OR REPLACE FUNCTION book_ride_seats(
+  p_ride_id uuid,
+  p_seats integer,
+  p_pickup_lat numeric,
+  p_pickup_lng numeric,
+  p_pickup_address text,
+  p_dropoff_lat numeric,
+  p_dropoff_lng numeric,
+  p_dropoff_address text,
+  p_fare_share numeric,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS ride_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking ride_bookings%ROWTYPE;
+  ride_row rides%ROWTYPE;
+  promotion_row promotions%ROWTYPE;
+  promo_error text;
+  promo_discount numeric := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_seats < 1 THEN
+    RAISE EXCEPTION 'Book at least one seat';
+  END IF;
+
+  -- The WHERE clause runs under the row lock, so check-and-decrement is atomic
+  UPDATE rides
+  SET seats_available = seats_available - p_seats,
+      passenger_id = COALESCE(passenger_id, auth.uid()),
+      status = CASE WHEN seats_available - p_seats = 0 THEN 'accepted' ELSE status END,
+      updated_at = now()
+  WHERE id = p_ride_id
+    AND status = 'available'
+    AND seats_available >= p_seats
+    AND driver_id <> auth.uid()
+  RETURNING * INTO ride_row;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not enough seats left on this ride';
+  END IF;
+
+  -- Locking the promotion serialises redemptions, so usage counts are exact
+  IF NULLIF(btrim(p_promo_code), '') IS NOT NULL THEN
+    SELECT * INTO promotion_row
+    FROM promotions
+    WHERE code = upper(btrim(p_promo_code)) AND active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '% isn''t a valid promo code', upper(btrim(p_promo_code));
+    END IF;
+
+    promo_error := promotion_error(
+      promotion_row, p_fare_share, ride_row.vehicle_type, ride_row.departure_time, auth.uid()
+    );
+    IF promo_error IS NOT NULL THEN
+      RAISE EXCEPTION '%', promo_error;
+    END IF;
+    promo_discount := promotion_discount(promotion_row, p_fare_share);
+  END IF;
+
+  INSERT INTO ride_bookings (
+    ride_id, passenger_id, seats,
+    pickup_lat, pickup_lng, pickup_address,
+    dropoff_lat, dropoff_lng, dropoff_address,
+    fare_share, promotion_id, discount
+  )
+  VALUES (
+    p_ride_id, auth.uid(), p_seats,
+    p_pickup_lat, p_pickup_lng, p_pickup_address,
+    p_dropoff_lat, p_dropoff_lng, p_dropoff_address,
+    p_fare_share - promo_discount, promotion_row.id, promo_discount
+  )
+  RETURNING * INTO booking;
+
+  RETURN booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION book_ride_seats(uuid, integer, numeric, numeric, text, numeric, numeric, text, numeric, text) TO authenticated;
+
+-- As in the wallet ledger migration, except that a capture pays the driver on
+-- the fare before discount and charges the discount to platform_fees
+CREATE OR REPLACE FUNCTION settle_booking(
+  p_booking_id uuid,
+  p_outcome text,
+  p_passenger_fee_cents bigint DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking_row ride_bookings%ROWTYPE;
+  driver uuid;
+  held_cents bigint;
+  discount_cents bigint;
+  fee_cents bigint;
+  split record;
+BEGIN
+  SELECT * INTO booking_row FROM ride_bookings WHERE id = p_booking_id;
+  SELECT driver_id INTO driver FROM rides WHERE id = booking_row.ride_id;
+
+  SELECT -SUM(e.amount_cents) INTO held_cents
+  FROM ledger_transactions t
+  JOIN ledger_entries e ON e.transaction_id = t.id
+  WHERE t.booking_id = p_booking_id
+    AND t.kind = 'hold'
+    AND e.account_id = wallet_account_id(booking_row.passenger_id);
+
+  -- A fully discounted booking holds nothing but its driver is still paid
+  IF (held_cents IS NULL AND (p_outcome <> 'capture' OR booking_row.discount = 0)) OR EXISTS (
+    SELECT 1 FROM ledger_transactions
+    WHERE booking_id = p_booking_id AND kind IN ('capture', 'refund')
+  ) THEN
+    RETURN;
+  END IF;
+  held_cents := COALESCE(held_cents, 0);
+
+  IF p_outcome = 'capture' THEN
+    discount_cents := ROUND(booking_row.discount * 100)::bigint;
+    SELECT * INTO split FROM split_commission(held_cents + discount_cents);
+    PERFORM post_ledger_transaction(
+      'capture', booking_row.ride_id, p_booking_id,
+      CASE WHEN discount_cents > 0 THEN 'Fare captured on completion (promo funded by platform)'
+           ELSE 'Fare captured on completion' END,
+      jsonb_build_array(
+        jsonb_build_object('account_id', system_account_id('escrow'), 'amount_cents', -held_cents),
+        jsonb_build_object('account_id', wallet_account_id(driver), 'amount_cents', split.payout_cents),
+        jsonb_build_object('account_id', system_account_id('platform_fees'), 'amount_cents', split.commission_cents - discount_cents)
+      )
+    );
+  ELSE
+    fee_cents := LEAST(GREATEST(p_passenger_fee_cents, 0), held_cents);
+    SELECT * INTO split FROM split_commission(fee_cents);
+    PERFORM post_ledger_transaction(
+      'refund', booking_row.ride_id, p_booking_id,
+      CASE WHEN fee_cents > 0 THEN 'Refund less cancellation fee' ELSE 'Refund' END,
+      jsonb_build_array(
+        jsonb_build_object('account_id', system_account_id('escrow'), 'amount_cents', -held_cents),
+        jsonb_build_object('account_id', wallet_account_id(booking_row.passenger_id), 'amount_cents', held_cents - fee_cents),
+        jsonb_build_object('account_id', wallet_account_id(driver), 'amount_cents', split.payout_cents),
+        jsonb_build_object('account_id', system_account_id('platform_fees'), 'amount_cents', split.commission_cents)
+      )
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION settle_booking(uuid, text, bigint) FROM PUBLIC, anon, authenticated;
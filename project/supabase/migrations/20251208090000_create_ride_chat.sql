@@ -0,0 +1,155 @@
+/*
+  # Ride Chat
+
+  1. New Tables
+    - `ride_messages`
+      - `id` (uuid, primary key)
+      - `ride_id` (uuid, references rides)
+      - `passenger_id` (uuid, references profiles): the thread; each booked
+        passenger has their own conversation with the driver
+      - `sender_id` (uuid, references profiles): the driver or that passenger
+      - `body` (text, 1-1000 characters)
+      - `created_at` (timestamptz)
+    - `ride_chat_reads`
+      - `ride_id`, `passenger_id`, `user_id` (primary key): a reader of a thread
+      - `last_read_at` (timestamptz): messages after this are unread
+
+  2. Changes
+    - Add `ride_messages` to the `supabase_realtime` publication so new
+      messages reach the other party
+
+  3. New Functions
+    - `is_ride_chat_party(ride_id, passenger_id)`: the caller is the ride's
+      driver or that passenger, and the passenger booked the ride
+    - `ride_chat_unread_counts()`: unread messages per thread for the caller
+
+  4. Security
+    - Enable RLS on both tables
+    - Only the driver and the passenger of a thread can read it
+    - Messages can be sent while the passenger's booking is confirmed and the
+      ride hasn't completed or been cancelled; after that the thread is
+      read-only. Messages are never edited or deleted.
+    - Each user keeps their own read markers
+*/
+
+CREATE TABLE IF NOT EXISTS ride_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_id uuid NOT NULL REFERENCES rides(id) ON DELETE CASCADE,
+  passenger_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_message_body CHECK (char_length(btrim(body)) BETWEEN 1 AND 1000)
+);
+
+CREATE INDEX IF NOT EXISTS ride_messages_thread_idx
+  ON ride_messages (ride_id, passenger_id, created_at);
+
+CREATE TABLE IF NOT EXISTS ride_chat_reads (
+  ride_id uuid NOT NULL REFERENCES rides(id) ON DELETE CASCADE,
+  passenger_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  last_read_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (ride_id, passenger_id, user_id)
+);
+
+ALTER TABLE ride_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ride_chat_reads ENABLE ROW LEVEL SECURITY;
+
+-- SECURITY DEFINER so the check can see bookings RLS hides from the driver's
+-- or passenger's own queries
+CREATE OR REPLACE FUNCTION is_ride_chat_party(p_ride_id uuid, p_passenger_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM rides r
+    JOIN ride_bookings b ON b.ride_id = r.id
+    WHERE r.id = p_ride_id
+      AND b.passenger_id = p_passenger_id
+      AND auth.uid() IN (r.driver_id, p_passenger_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_ride_chat_open(p_ride_id uuid, p_passenger_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM rides r
+    JOIN ride_bookings b ON b.ride_id = r.id
+    WHERE r.id = p_ride_id
+      AND r.status IN ('available', 'accepted', 'in_progress')
+      AND b.passenger_id = p_passenger_id
+      AND b.status = 'confirmed'
+  );
+$$;
+
+CREATE POLICY "Chat parties can view messages"
+  ON ride_messages FOR SELECT
+  TO authenticated
+  USING (is_ride_chat_party(ride_id, passenger_id));
+
+CREATE POLICY "Chat parties can send messages while the ride is active"
+  ON ride_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND is_ride_chat_party(ride_id, passenger_id)
+    AND is_ride_chat_open(ride_id, passenger_id)
+  );
+
+CREATE POLICY "Users can view own read markers"
+  ON ride_chat_reads FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Chat parties can create own read markers"
+  ON ride_chat_reads FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND is_ride_chat_party(ride_id, passenger_id));
+
+CREATE POLICY "Users can update own read markers"
+  ON ride_chat_reads FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- SECURITY INVOKER: the ride_messages policies limit it to the caller's threads
+CREATE OR REPLACE FUNCTION ride_chat_unread_counts()
+RETURNS TABLE (ride_id uuid, passenger_id uuid, unread integer)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT m.ride_id, m.passenger_id, COUNT(*)::integer
+  FROM ride_messages m
+  LEFT JOIN ride_chat_reads r
+    ON r.ride_id = m.ride_id
+    AND r.passenger_id = m.passenger_id
+    AND r.user_id = auth.uid()
+  WHERE m.sender_id <> auth.uid()
+    AND m.created_at > COALESCE(r.last_read_at, '-infinity'::timestamptz)
+  GROUP BY m.ride_id, m.passenger_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION ride_chat_unread_counts() TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'ride_messages'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE ride_messages;
+  END IF;
+END;
+$$;
@@ -0,0 +1,269 @@
+/*
+  # Notification Center
+
+  1. New Tables
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles): who it's for
+      - `type` (text: 'booking', 'cancellation', 'arrival', 'status', 'message')
+      - `title`, `body` (text)
+      - `ride_id` (uuid, references rides, nullable)
+      - `dedupe_key` (text, nullable): at most one notification per user and key
+      - `read_at` (timestamptz, nullable): null while unread
+      - `created_at` (timestamptz)
+    - `notification_preferences`
+      - `user_id`, `type` (primary key)
+      - `enabled` (boolean): types without a row are enabled
+
+  2. Changes
+    - Add `notifications` to the `supabase_realtime` publication so they reach
+      the bell as they're created
+    - Ride events fan out to notifications:
+      - a booking tells the driver (the passenger sees the outcome in the app)
+      - a passenger cancelling tells the driver; the driver cancelling tells
+        every booked passenger
+      - the ride starting, filling up or completing tells the other side
+      - the driver's live location coming within PICKUP_ARRIVAL_RADIUS_KM
+        (src/algorithms/tracking.ts) of a passenger's pickup tells them once
+      - a chat message tells the other party
+
+  3. New Functions
+    - `notify_user(user_id, type, title, body, ride_id, dedupe_key)`: creates
+      the notification unless the user turned that type off
+
+  4. Security
+    - Enable RLS on both tables
+    - Users can read their own notifications and mark them read; only the
+      triggers create them
+    - Users manage their own preferences
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  ride_id uuid REFERENCES rides(id) ON DELETE CASCADE,
+  dedupe_key text,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_notification_type CHECK (type IN ('booking', 'cancellation', 'arrival', 'status', 'message')),
+  CONSTRAINT unique_notification_dedupe UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_idx
+  ON notifications (user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  PRIMARY KEY (user_id, type),
+  CONSTRAINT valid_preference_type CHECK (type IN ('booking', 'cancellation', 'arrival', 'status', 'message'))
+);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark own notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Only read_at may change; the rest of a notification is written by triggers
+REVOKE UPDATE ON notifications FROM authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+CREATE POLICY "Users can view own notification preferences"
+  ON notification_preferences FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own notification preferences"
+  ON notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION notify_user(
+  p_user_id uuid,
+  p_type text,
+  p_title text,
+  p_body text,
+  p_ride_id uuid DEFAULT NULL,
+  p_dedupe_key text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL OR EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = p_user_id AND type = p_type AND enabled = false
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, ride_id, dedupe_key)
+  VALUES (p_user_id, p_type, p_title, COALESCE(p_body, ''), p_ride_id, p_dedupe_key)
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_user(uuid, text, text, text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION notify_ride_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ride_row rides%ROWTYPE;
+  actor_name text;
+  passenger uuid;
+  destination text;
+BEGIN
+  SELECT * INTO ride_row FROM rides WHERE id = NEW.ride_id;
+  SELECT full_name INTO actor_name FROM profiles WHERE id = NEW.actor_id;
+  destination := ride_row.dropoff_address;
+
+  IF NEW.event = 'booking_created' THEN
+    PERFORM notify_user(ride_row.driver_id, 'booking', 'New booking',
+      format('%s booked your ride to %s (%s)', COALESCE(actor_name, 'A passenger'), destination, NEW.reason),
+      NEW.ride_id);
+
+  ELSIF NEW.event = 'booking_cancelled' THEN
+    PERFORM notify_user(ride_row.driver_id, 'cancellation', 'Booking cancelled',
+      format('%s cancelled their booking on your ride to %s%s', COALESCE(actor_name, 'A passenger'),
+        destination, COALESCE(': ' || NEW.reason, '')),
+      NEW.ride_id);
+
+  ELSIF NEW.event = 'status_changed' THEN
+    FOR passenger IN
+      SELECT DISTINCT passenger_id FROM ride_bookings
+      WHERE ride_id = NEW.ride_id AND status = 'confirmed'
+    LOOP
+      IF NEW.to_status = 'cancelled' THEN
+        PERFORM notify_user(passenger, 'cancellation', 'Ride cancelled',
+          format('Your ride to %s was cancelled%s', destination, COALESCE(': ' || NEW.reason, '')),
+          NEW.ride_id);
+      ELSIF NEW.to_status = 'in_progress' THEN
+        PERFORM notify_user(passenger, 'status', 'Trip started',
+          format('Your driver has started the trip to %s', destination), NEW.ride_id);
+      ELSIF NEW.to_status = 'completed' THEN
+        PERFORM notify_user(passenger, 'status', 'Trip completed',
+          format('You''ve arrived at %s. Rate your driver from My Rides', destination), NEW.ride_id);
+      END IF;
+    END LOOP;
+
+    IF NEW.to_status = 'accepted' THEN
+      PERFORM notify_user(ride_row.driver_id, 'status', 'Ride full',
+        format('Every seat on your ride to %s is booked', destination), NEW.ride_id);
+    ELSIF NEW.to_status = 'cancelled' AND NEW.actor_role = 'system' THEN
+      PERFORM notify_user(ride_row.driver_id, 'cancellation', 'Ride cancelled',
+        format('Your ride to %s was cancelled%s', destination, COALESCE(': ' || NEW.reason, '')),
+        NEW.ride_id);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ride_events_notify
+  AFTER INSERT ON ride_events
+  FOR EACH ROW EXECUTE FUNCTION notify_ride_event();
+
+-- PICKUP_ARRIVAL_RADIUS_KM in src/algorithms/tracking.ts
+CREATE OR REPLACE FUNCTION notify_driver_arrival()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  arrived record;
+BEGIN
+  IF NEW.current_lat IS NULL OR NEW.current_lng IS NULL
+    OR NEW.status NOT IN ('available', 'accepted', 'in_progress') THEN
+    RETURN NEW;
+  END IF;
+
+  FOR arrived IN
+    SELECT b.id, b.passenger_id, b.pickup_address
+    FROM ride_bookings b
+    WHERE b.ride_id = NEW.id
+      AND b.status = 'confirmed'
+      AND ST_DWithin(
+        ST_SetSRID(ST_MakePoint(b.pickup_lng::double precision, b.pickup_lat::double precision), 4326)::geography,
+        ST_SetSRID(ST_MakePoint(NEW.current_lng::double precision, NEW.current_lat::double precision), 4326)::geography,
+        100
+      )
+  LOOP
+    PERFORM notify_user(arrived.passenger_id, 'arrival', 'Your driver is here',
+      format('Your driver has arrived at %s', arrived.pickup_address),
+      NEW.id, 'arrival:' || arrived.id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rides_notify_driver_arrival
+  AFTER UPDATE OF current_lat, current_lng ON rides
+  FOR EACH ROW EXECUTE FUNCTION notify_driver_arrival();
+
+CREATE OR REPLACE FUNCTION notify_ride_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sender_name text;
+  recipient uuid;
+BEGIN
+  SELECT full_name INTO sender_name FROM profiles WHERE id = NEW.sender_id;
+  IF NEW.sender_id = NEW.passenger_id THEN
+    SELECT driver_id INTO recipient FROM rides WHERE id = NEW.ride_id;
+  ELSE
+    recipient := NEW.passenger_id;
+  END IF;
+
+  PERFORM notify_user(recipient, 'message',
+    format('Message from %s', COALESCE(sender_name, 'your ride')),
+    left(NEW.body, 140), NEW.ride_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ride_messages_notify
+  AFTER INSERT ON ride_messages
+  FOR EACH ROW EXECUTE FUNCTION notify_ride_message();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END;
+$$;
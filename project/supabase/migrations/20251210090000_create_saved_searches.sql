@@ -0,0 +1,163 @@
+/*
+  # Saved Ride Search Alerts
+
+  1. New Tables
+    - `saved_searches`
+      - `id` (uuid, primary key)
+      - `passenger_id` (uuid, references profiles)
+      - `pickup_lat`, `pickup_lng`, `pickup_address`
+      - `dropoff_lat`, `dropoff_lng`, `dropoff_address`
+      - `window_start`, `window_end` (timestamptz): when the passenger wants
+        to leave; the alert expires once the window has passed
+      - `max_price` (numeric): rides priced above this don't alert
+      - `min_match_score` (integer, 0-100): rides scoring lower don't alert
+      - `status` (text: 'active', 'expired', 'cancelled')
+      - `last_matched_at` (timestamptz, nullable)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - New notification type 'ride_alert' for `notifications` and
+      `notification_preferences`
+
+  3. New Functions
+    - `notify_ride_alert(search_id, ride_id, match_score)`: tells the
+      passenger about a matching ride, at most once per search and ride. The
+      ride alert watcher (scripts/watchRideAlerts.ts) scores new rides with
+      the same detour matching as ride search and calls this for the matches.
+    - `expire_saved_searches()`: marks active searches whose window has
+      passed as expired. Runs every 5 minutes when pg_cron is installed, and
+      from the watcher.
+
+  4. Security
+    - Enable RLS on `saved_searches`
+    - Passengers view, create and cancel their own saved searches
+    - `notify_ride_alert` and `expire_saved_searches` are only executable by
+      service_role
+*/
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  passenger_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  pickup_lat numeric NOT NULL,
+  pickup_lng numeric NOT NULL,
+  pickup_address text NOT NULL,
+  dropoff_lat numeric NOT NULL,
+  dropoff_lng numeric NOT NULL,
+  dropoff_address text NOT NULL,
+  window_start timestamptz NOT NULL,
+  window_end timestamptz NOT NULL,
+  max_price numeric NOT NULL,
+  min_match_score integer NOT NULL DEFAULT 60,
+  status text NOT NULL DEFAULT 'active',
+  last_matched_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_saved_search_window CHECK (window_end > window_start),
+  CONSTRAINT valid_saved_search_price CHECK (max_price > 0),
+  CONSTRAINT valid_saved_search_score CHECK (min_match_score BETWEEN 0 AND 100),
+  CONSTRAINT valid_saved_search_status CHECK (status IN ('active', 'expired', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS saved_searches_active_idx
+  ON saved_searches (window_start, window_end)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS saved_searches_passenger_idx
+  ON saved_searches (passenger_id, created_at DESC);
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Passengers can view own saved searches"
+  ON saved_searches FOR SELECT
+  TO authenticated
+  USING (passenger_id = auth.uid());
+
+CREATE POLICY "Passengers can create own saved searches"
+  ON saved_searches FOR INSERT
+  TO authenticated
+  WITH CHECK (passenger_id = auth.uid() AND status = 'active' AND window_end > now());
+
+CREATE POLICY "Passengers can cancel own saved searches"
+  ON saved_searches FOR UPDATE
+  TO authenticated
+  USING (passenger_id = auth.uid())
+  WITH CHECK (passenger_id = auth.uid() AND status = 'cancelled');
+
+-- Only status may change; cancelling is the one update passengers make
+REVOKE UPDATE ON saved_searches FROM authenticated;
+GRANT UPDATE (status) ON saved_searches TO authenticated;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS valid_notification_type;
+ALTER TABLE notifications ADD CONSTRAINT valid_notification_type
+  CHECK (type IN ('booking', 'cancellation', 'arrival', 'status', 'message', 'ride_alert'));
+
+ALTER TABLE notification_preferences DROP CONSTRAINT IF EXISTS valid_preference_type;
+ALTER TABLE notification_preferences ADD CONSTRAINT valid_preference_type
+  CHECK (type IN ('booking', 'cancellation', 'arrival', 'status', 'message', 'ride_alert'));
+
+CREATE OR REPLACE FUNCTION notify_ride_alert(
+  p_search_id uuid,
+  p_ride_id uuid,
+  p_match_score numeric
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  search_row saved_searches%ROWTYPE;
+  ride_row rides%ROWTYPE;
+BEGIN
+  SELECT * INTO search_row FROM saved_searches WHERE id = p_search_id FOR UPDATE;
+  SELECT * INTO ride_row FROM rides WHERE id = p_ride_id;
+
+  IF search_row.id IS NULL OR ride_row.id IS NULL
+    OR search_row.status <> 'active' OR search_row.window_end < now()
+    OR ride_row.status <> 'available' OR ride_row.seats_available <= 0
+    OR ride_row.driver_id = search_row.passenger_id THEN
+    RETURN false;
+  END IF;
+
+  PERFORM notify_user(search_row.passenger_id, 'ride_alert', 'A ride matches your search',
+    format('%s → %s, leaving %s, $%s (%s%% match)',
+      ride_row.pickup_address, ride_row.dropoff_address,
+      to_char(COALESCE(ride_row.departure_time, ride_row.created_at), 'Dy HH24:MI'),
+      to_char(ride_row.price, 'FM999990.00'), round(p_match_score)),
+    p_ride_id, 'ride_alert:' || p_search_id || ':' || p_ride_id);
+
+  UPDATE saved_searches SET last_matched_at = now() WHERE id = p_search_id;
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_ride_alert(uuid, uuid, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION notify_ride_alert(uuid, uuid, numeric) TO service_role;
+
+CREATE OR REPLACE FUNCTION expire_saved_searches()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count integer;
+BEGIN
+  UPDATE saved_searches
+  SET status = 'expired'
+  WHERE status = 'active' AND window_end < now();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_saved_searches() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_saved_searches() TO service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-saved-searches', '*/5 * * * *', 'SELECT expire_saved_searches()');
+  END IF;
+END;
+$$;
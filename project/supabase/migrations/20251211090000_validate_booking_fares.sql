@@ -0,0 +1,380 @@
+/*
+  # Server-side Check of Booking Fares
+
+  1. Changes
+    - `ride_bookings.fare_share` and `ride_subscriptions.fare_share` can't be
+      negative
+    - `book_ride_seats(...)` and `subscribe_to_ride_template(...)` reject a
+      fare share below the server's floor for the passenger's leg, instead of
+      storing whatever the client sent; cancellation fees, the wallet hold and
+      promo discounts are all worked out from the stored share
+
+  2. New Functions
+    - `ride_leg_km(ride pickup, ride dropoff, ride distance, pickup, dropoff)`:
+      how much of the ride a booking spans. Each stop is clamped onto the line
+      from the ride's pickup to its dropoff and the share between them is
+      taken of the ride's own distance, so stops placed off the ride's path
+      don't shrink the leg. Kept in sync with rideLegKm() in
+      src/algorithms/fareEngine.ts, which the client's quote uses as its least
+      distance.
+    - `booking_leg_km(...)`: the longer of that and the straight line between
+      the stops, which no road route undercuts
+    - `booking_fare_floor(vehicle_type, pickup, leg_km, seats)`: the least
+      the fare rules can charge for a leg of at least that length. The client
+      prices the road route with surge, which the database can't reproduce,
+      but time, surge and surcharges above 1 only add, so an honest quote is
+      never below it. Kept in sync with quoteFare().
+
+  3. Security
+    - Bookings are priced from the active `fare_rules` rows; a vehicle type
+      with no rates (and no 'default' rates) can't be booked
+*/
+
+ALTER TABLE ride_bookings
+  ADD CONSTRAINT valid_booking_fare_share CHECK (fare_share >= 0);
+
+ALTER TABLE ride_subscriptions
+  ADD CONSTRAINT valid_subscription_fare_share CHECK (fare_share >= 0);
+
+CREATE OR REPLACE FUNCTION ride_leg_km(
+  p_ride_pickup_lat numeric,
+  p_ride_pickup_lng numeric,
+  p_ride_dropoff_lat numeric,
+  p_ride_dropoff_lng numeric,
+  p_ride_distance_km numeric,
+  p_pickup_lat numeric,
+  p_pickup_lng numeric,
+  p_dropoff_lat numeric,
+  p_dropoff_lng numeric
+)
+RETURNS numeric
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  -- Degrees of longitude shrink away from the equator; flat is close enough
+  -- over a city
+  lng_scale double precision := cos(radians(p_ride_pickup_lat::double precision));
+  dx double precision := (p_ride_dropoff_lng - p_ride_pickup_lng)::double precision * lng_scale;
+  dy double precision := (p_ride_dropoff_lat - p_ride_pickup_lat)::double precision;
+  length_sq double precision := dx * dx + dy * dy;
+  pickup_at double precision;
+  dropoff_at double precision;
+BEGIN
+  IF length_sq = 0 THEN
+    RETURN 0;
+  END IF;
+
+  pickup_at := LEAST(1, GREATEST(0, (
+    (p_pickup_lng - p_ride_pickup_lng)::double precision * lng_scale * dx
+    + (p_pickup_lat - p_ride_pickup_lat)::double precision * dy
+  ) / length_sq));
+  dropoff_at := LEAST(1, GREATEST(0, (
+    (p_dropoff_lng - p_ride_pickup_lng)::double precision * lng_scale * dx
+    + (p_dropoff_lat - p_ride_pickup_lat)::double precision * dy
+  ) / length_sq));
+
+  RETURN ABS(dropoff_at - pickup_at)::numeric * p_ride_distance_km;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION ride_leg_km(
+  numeric, numeric, numeric, numeric, numeric, numeric, numeric, numeric, numeric
+) TO authenticated;
+
+CREATE OR REPLACE FUNCTION booking_fare_floor(
+  p_vehicle_type text,
+  p_pickup_lat numeric,
+  p_pickup_lng numeric,
+  p_leg_km numeric,
+  p_seats integer
+)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  city fare_rules%ROWTYPE;
+  rates record;
+  metered numeric;
+  fare numeric;
+  lowest numeric;
+BEGIN
+  SELECT * INTO city
+  FROM fare_rules
+  WHERE active AND zone_id IS NULL AND vehicle_type IN (p_vehicle_type, 'default')
+  ORDER BY vehicle_type = p_vehicle_type DESC, created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No fare rates configured for vehicle type "%"', p_vehicle_type;
+  END IF;
+
+  -- City-wide rates, or those of each zone containing the pickup with its
+  -- overrides for every type ('*') and then this type on top
+  FOR rates IN
+    WITH zones AS (
+      SELECT DISTINCT zone_id
+      FROM fare_rules
+      WHERE active AND zone_id IS NOT NULL
+        AND vehicle_type IN (p_vehicle_type, '*')
+        AND ST_DistanceSphere(
+          ST_MakePoint(p_pickup_lng::double precision, p_pickup_lat::double precision),
+          ST_MakePoint(zone_center_lng::double precision, zone_center_lat::double precision)
+        ) / 1000 <= zone_radius_km
+    )
+    SELECT
+      COALESCE(t.base_fare, s.base_fare, city.base_fare) AS base_fare,
+      COALESCE(t.per_km, s.per_km, city.per_km) AS per_km,
+      COALESCE(t.minimum_fare, s.minimum_fare, city.minimum_fare, 0) AS minimum_fare,
+      COALESCE(t.booking_fee, s.booking_fee, city.booking_fee, 0) AS booking_fee,
+      COALESCE(t.night_multiplier, s.night_multiplier, city.night_multiplier, 1) AS night_multiplier,
+      COALESCE(t.weekend_multiplier, s.weekend_multiplier, city.weekend_multiplier, 1) AS weekend_multiplier
+    FROM zones z
+    LEFT JOIN fare_rules s ON s.active AND s.zone_id = z.zone_id AND s.vehicle_type = '*'
+    LEFT JOIN fare_rules t ON t.active AND t.zone_id = z.zone_id AND t.vehicle_type = p_vehicle_type
+    UNION ALL
+    SELECT
+      city.base_fare, city.per_km, COALESCE(city.minimum_fare, 0), COALESCE(city.booking_fee, 0),
+      COALESCE(city.night_multiplier, 1), COALESCE(city.weekend_multiplier, 1)
+    WHERE NOT EXISTS (SELECT 1 FROM zones)
+  LOOP
+    metered := ROUND(rates.base_fare, 2) + ROUND(p_leg_km * rates.per_km, 2);
+    -- Night and weekend multipliers below 1 are discounts; assume both apply
+    fare := metered * (1 + LEAST(0, rates.night_multiplier - 1) + LEAST(0, rates.weekend_multiplier - 1));
+    fare := GREATEST(fare, rates.minimum_fare) + rates.booking_fee;
+    lowest := LEAST(lowest, fare);
+  END LOOP;
+
+  -- Each of the client's line items is rounded to the cent
+  RETURN GREATEST(0, ROUND(lowest * p_seats, 2) - 0.05 * p_seats);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION booking_fare_floor(text, numeric, numeric, numeric, integer) TO authenticated;
+
+-- The leg a booking is priced on: the straight line between its stops, which
+-- no road route undercuts, or the stretch of the ride it spans if longer
+CREATE OR REPLACE FUNCTION booking_leg_km(
+  p_ride_pickup_lat numeric,
+  p_ride_pickup_lng numeric,
+  p_ride_dropoff_lat numeric,
+  p_ride_dropoff_lng numeric,
+  p_ride_distance_km numeric,
+  p_pickup_lat numeric,
+  p_pickup_lng numeric,
+  p_dropoff_lat numeric,
+  p_dropoff_lng numeric
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    ST_DistanceSphere(
+      ST_MakePoint(p_pickup_lng::double precision, p_pickup_lat::double precision),
+      ST_MakePoint(p_dropoff_lng::double precision, p_dropoff_lat::double precision)
+    )::numeric / 1000,
+    ride_leg_km(
+      p_ride_pickup_lat, p_ride_pickup_lng, p_ride_dropoff_lat, p_ride_dropoff_lng, p_ride_distance_km,
+      p_pickup_lat, p_pickup_lng, p_dropoff_lat, p_dropoff_lng
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION booking_leg_km(
+  numeric, numeric, numeric, numeric, numeric, numeric, numeric, numeric, numeric
+) TO authenticated;
+
+-- As in the promotions migration, plus the fare floor check
+CREATE OR REPLACE FUNCTION book_ride_seats(
+  p_ride_id uuid,
+  p_seats integer,
+  p_pickup_lat numeric,
+  p_pickup_lng numeric,
+  p_pickup_address text,
+  p_dropoff_lat numeric,
+  p_dropoff_lng numeric,
+  p_dropoff_address text,
+  p_fare_share numeric,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS ride_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking ride_bookings%ROWTYPE;
+  ride_row rides%ROWTYPE;
+  promotion_row promotions%ROWTYPE;
+  promo_error text;
+  promo_discount numeric := 0;
+  fare_floor numeric;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_seats < 1 THEN
+    RAISE EXCEPTION 'Book at least one seat';
+  END IF;
+
+  -- The WHERE clause runs under the row lock, so check-and-decrement is atomic
+  UPDATE rides
+  SET seats_available = seats_available - p_seats,
+      passenger_id = COALESCE(passenger_id, auth.uid()),
+      status = CASE WHEN seats_available - p_seats = 0 THEN 'accepted' ELSE status END,
+      updated_at = now()
+  WHERE id = p_ride_id
+    AND status = 'available'
+    AND seats_available >= p_seats
+    AND driver_id <> auth.uid()
+  RETURNING * INTO ride_row;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not enough seats left on this ride';
+  END IF;
+
+  fare_floor := booking_fare_floor(
+    ride_row.vehicle_type, p_pickup_lat, p_pickup_lng,
+    booking_leg_km(
+      ride_row.pickup_lat, ride_row.pickup_lng, ride_row.dropoff_lat, ride_row.dropoff_lng,
+      ride_row.distance_km, p_pickup_lat, p_pickup_lng, p_dropoff_lat, p_dropoff_lng
+    ),
+    p_seats
+  );
+  IF p_fare_share IS NULL OR p_fare_share < fare_floor THEN
+    RAISE EXCEPTION 'The fare for this trip is at least $%; refresh the quote and try again',
+      to_char(fare_floor, 'FM999990.00');
+  END IF;
+
+  -- Locking the promotion serialises redemptions, so usage counts are exact
+  IF NULLIF(btrim(p_promo_code), '') IS NOT NULL THEN
+    SELECT * INTO promotion_row
+    FROM promotions
+    WHERE code = upper(btrim(p_promo_code)) AND active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '% isn''t a valid promo code', upper(btrim(p_promo_code));
+    END IF;
+
+    promo_error := promotion_error(
+      promotion_row, p_fare_share, ride_row.vehicle_type, ride_row.departure_time, auth.uid()
+    );
+    IF promo_error IS NOT NULL THEN
+      RAISE EXCEPTION '%', promo_error;
+    END IF;
+    promo_discount := promotion_discount(promotion_row, p_fare_share);
+  END IF;
+
+  INSERT INTO ride_bookings (
+    ride_id, passenger_id, seats,
+    pickup_lat, pickup_lng, pickup_address,
+    dropoff_lat, dropoff_lng, dropoff_address,
+    fare_share, promotion_id, discount
+  )
+  VALUES (
+    p_ride_id, auth.uid(), p_seats,
+    p_pickup_lat, p_pickup_lng, p_pickup_address,
+    p_dropoff_lat, p_dropoff_lng, p_dropoff_address,
+    p_fare_share - promo_discount, promotion_row.id, promo_discount
+  )
+  RETURNING * INTO booking;
+
+  RETURN booking;
+END;
+$$;
+
+-- As in the recurring rides migration, plus the fare floor check
+CREATE OR REPLACE FUNCTION subscribe_to_ride_template(
+  p_template_id uuid,
+  p_seats integer,
+  p_pickup_lat numeric,
+  p_pickup_lng numeric,
+  p_pickup_address text,
+  p_dropoff_lat numeric,
+  p_dropoff_lng numeric,
+  p_dropoff_address text,
+  p_fare_share numeric
+)
+RETURNS ride_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  template_row ride_templates%ROWTYPE;
+  subscription ride_subscriptions%ROWTYPE;
+  occurrence_id uuid;
+  fare_floor numeric;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO template_row FROM ride_templates WHERE id = p_template_id AND active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This recurring ride is no longer offered';
+  END IF;
+
+  IF template_row.driver_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t subscribe to your own ride';
+  END IF;
+
+  IF p_seats < 1 OR p_seats > template_row.seats_total THEN
+    RAISE EXCEPTION 'This ride has % seat(s)', template_row.seats_total;
+  END IF;
+
+  fare_floor := booking_fare_floor(
+    template_row.vehicle_type, p_pickup_lat, p_pickup_lng,
+    booking_leg_km(
+      template_row.pickup_lat, template_row.pickup_lng, template_row.dropoff_lat, template_row.dropoff_lng,
+      template_row.distance_km, p_pickup_lat, p_pickup_lng, p_dropoff_lat, p_dropoff_lng
+    ),
+    p_seats
+  );
+  IF p_fare_share IS NULL OR p_fare_share < fare_floor THEN
+    RAISE EXCEPTION 'The fare for this trip is at least $%; refresh the quote and try again',
+      to_char(fare_floor, 'FM999990.00');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ride_subscriptions
+    WHERE template_id = p_template_id AND passenger_id = auth.uid() AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You are already subscribed to this ride';
+  END IF;
+
+  INSERT INTO ride_subscriptions (
+    template_id, passenger_id, seats,
+    pickup_lat, pickup_lng, pickup_address,
+    dropoff_lat, dropoff_lng, dropoff_address,
+    fare_share
+  )
+  VALUES (
+    p_template_id, auth.uid(), p_seats,
+    p_pickup_lat, p_pickup_lng, p_pickup_address,
+    p_dropoff_lat, p_dropoff_lng, p_dropoff_address,
+    p_fare_share
+  )
+  RETURNING * INTO subscription;
+
+  -- Occurrences already generated; later ones are booked as they're created
+  FOR occurrence_id IN
+    SELECT id FROM rides
+    WHERE template_id = p_template_id
+      AND status = 'available'
+      AND departure_time > now()
+    ORDER BY departure_time
+  LOOP
+    PERFORM book_subscription_occurrence(subscription.id, occurrence_id);
+  END LOOP;
+
+  RETURN subscription;
+END;
+$$;
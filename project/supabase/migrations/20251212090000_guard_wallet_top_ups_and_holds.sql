@@ -0,0 +1,133 @@
+/*
+  # Guard Wallet Top-ups and Fare Holds
+
+  1. Changes
+    - `top_up_wallet` only credits fake-provider charges where test payments
+      are switched on (`app.allow_fake_payments`, off by default), e.g. for
+      local and staging databases:
+        ALTER DATABASE postgres SET app.allow_fake_payments = 'on';
+    - `hold_booking_fare` rejects bookings with a negative fare, or no fare
+      at all unless a promo code took it to zero, and bookings the
+      passenger's wallet doesn't cover. The hold locks the wallet, so two
+      bookings can't both spend the same balance.
+    - Bookings made on the passenger's behalf (recurring ride subscriptions,
+      batch matching) may still take the wallet negative, as before
+
+  2. New Functions
+    - `credit_wallet_top_up(user_id, amount_cents, provider, provider_ref)`:
+      credits a provider's charge to a user's wallet once, for the provider's
+      webhook
+
+  3. Security
+    - `credit_wallet_top_up` is only executable by service_role
+*/
+
+CREATE OR REPLACE FUNCTION credit_wallet_top_up(
+  p_user_id uuid,
+  p_amount_cents bigint,
+  p_provider text,
+  p_provider_ref text
+)
+RETURNS wallet_accounts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  account wallet_accounts%ROWTYPE;
+BEGIN
+  IF p_amount_cents <= 0 OR p_amount_cents > 50000 THEN
+    RAISE EXCEPTION 'Top up between $0.01 and $500';
+  END IF;
+
+  IF NULLIF(btrim(p_provider_ref), '') IS NULL THEN
+    RAISE EXCEPTION 'A top-up needs the provider''s charge reference';
+  END IF;
+
+  -- The same charge is only credited once
+  IF NOT EXISTS (
+    SELECT 1 FROM ledger_transactions
+    WHERE provider = p_provider AND provider_ref = p_provider_ref
+  ) THEN
+    PERFORM post_ledger_transaction(
+      'top_up', NULL, NULL, 'Wallet top-up',
+      jsonb_build_array(
+        jsonb_build_object('account_id', system_account_id('provider_clearing'), 'amount_cents', -p_amount_cents),
+        jsonb_build_object('account_id', wallet_account_id(p_user_id), 'amount_cents', p_amount_cents)
+      ),
+      p_provider, p_provider_ref
+    );
+  END IF;
+
+  SELECT * INTO account FROM wallet_accounts WHERE owner_id = p_user_id AND kind = 'user';
+  RETURN account;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION credit_wallet_top_up(uuid, bigint, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION credit_wallet_top_up(uuid, bigint, text, text) TO service_role;
+
+CREATE OR REPLACE FUNCTION top_up_wallet(
+  p_amount_cents bigint,
+  p_provider text,
+  p_provider_ref text
+)
+RETURNS wallet_accounts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_provider <> 'fake' THEN
+    RAISE EXCEPTION 'Top-ups from % must be confirmed by the provider', p_provider;
+  END IF;
+
+  IF COALESCE(current_setting('app.allow_fake_payments', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Test payments are turned off; top up with a card';
+  END IF;
+
+  RETURN credit_wallet_top_up(auth.uid(), p_amount_cents, p_provider, p_provider_ref);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION hold_booking_fare()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fare_cents bigint := ROUND(NEW.fare_share * 100)::bigint;
+  discount_cents bigint := ROUND(COALESCE(NEW.discount, 0) * 100)::bigint;
+  wallet uuid := wallet_account_id(NEW.passenger_id);
+  balance bigint;
+BEGIN
+  IF fare_cents < 0 OR fare_cents + discount_cents <= 0 THEN
+    RAISE EXCEPTION 'This booking has no fare to hold';
+  END IF;
+
+  -- Fully discounted: nothing to hold, settle_booking() still pays the driver
+  IF fare_cents = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT balance_cents INTO balance FROM wallet_accounts WHERE id = wallet FOR UPDATE;
+
+  IF NEW.subscription_id IS NULL AND auth.uid() = NEW.passenger_id AND balance < fare_cents THEN
+    RAISE EXCEPTION 'Your wallet balance does not cover this fare';
+  END IF;
+
+  PERFORM post_ledger_transaction(
+    'hold', NEW.ride_id, NEW.id, 'Fare held for booking',
+    jsonb_build_array(
+      jsonb_build_object('account_id', wallet, 'amount_cents', -fare_cents),
+      jsonb_build_object('account_id', system_account_id('escrow'), 'amount_cents', fare_cents)
+    )
+  );
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,49 @@
+/*
+  # Surge Market Cells
+
+  1. New Functions
+    - `surge_market_cells(precision)` counts pending ride requests (demand)
+      and available rides that haven't left yet (supply) per pickup geohash
+      cell, so surge pricing no longer downloads every available ride.
+      Cells are the same as encodeGeohash() in src/algorithms/geohash.ts.
+
+  2. Changes
+    - Drop `surge_demand_points()`, which it replaces
+
+  3. Security
+    - SECURITY DEFINER so surge pricing sees all pending requests, while
+      ride_requests RLS keeps each passenger's rows private
+    - Only counts per cell are returned; no ids, addresses or passengers
+*/
+
+CREATE OR REPLACE FUNCTION surge_market_cells(p_precision integer DEFAULT 6)
+RETURNS TABLE (geohash text, demand integer, supply integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH points AS (
+    SELECT pickup_lat, pickup_lng, 1 AS demand, 0 AS supply
+    FROM ride_requests
+    WHERE status = 'pending'
+    UNION ALL
+    SELECT pickup_lat, pickup_lng, 0, 1
+    FROM rides
+    WHERE status = 'available' AND departure_window_end >= now()
+  )
+  SELECT
+    ST_GeoHash(
+      ST_SetSRID(ST_MakePoint(pickup_lng::double precision, pickup_lat::double precision), 4326),
+      LEAST(GREATEST(p_precision, 1), 12)
+    ),
+    SUM(demand)::integer,
+    SUM(supply)::integer
+  FROM points
+  GROUP BY 1;
+$$;
+
+REVOKE ALL ON FUNCTION surge_market_cells(integer) FROM public;
+GRANT EXECUTE ON FUNCTION surge_market_cells(integer) TO authenticated;
+
+DROP FUNCTION IF EXISTS surge_demand_points();
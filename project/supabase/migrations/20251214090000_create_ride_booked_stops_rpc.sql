@@ -0,0 +1,48 @@
+/*
+  # Booked Stops of Available Rides
+
+  1. New Functions
+    - `ride_booked_stops(ride_ids)` returns the seats, pickup and dropoff of
+      every confirmed booking on the given rides, so ride search measures a
+      passenger's detour on top of the stops the driver already makes (see
+      calculateDetour() in src/algorithms/detour.ts)
+
+  2. Security
+    - SECURITY DEFINER, as ride_bookings RLS hides other passengers' bookings
+    - Only rides still available get rows
+    - Stops are rounded to 3 decimals (~100 m), as fare_split_stops() rounds
+      co-riders' stops, and no booking or passenger ids, names or addresses
+      are returned
+*/
+
+CREATE OR REPLACE FUNCTION ride_booked_stops(p_ride_ids uuid[])
+RETURNS TABLE (
+  ride_id uuid,
+  seats integer,
+  pickup_lat numeric,
+  pickup_lng numeric,
+  dropoff_lat numeric,
+  dropoff_lng numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    b.ride_id,
+    b.seats,
+    round(b.pickup_lat, 3),
+    round(b.pickup_lng, 3),
+    round(b.dropoff_lat, 3),
+    round(b.dropoff_lng, 3)
+  FROM ride_bookings b
+  JOIN rides r ON r.id = b.ride_id
+  WHERE b.ride_id = ANY(p_ride_ids)
+    AND b.status = 'confirmed'
+    AND r.status = 'available'
+  ORDER BY b.ride_id, b.created_at;
+$$;
+
+REVOKE ALL ON FUNCTION ride_booked_stops(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION ride_booked_stops(uuid[]) TO authenticated;